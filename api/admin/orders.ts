@@ -10,6 +10,26 @@ const SUPABASE_SERVICE_ROLE_KEY =
 const AUTH_BASE_URL = SUPABASE_URL ? `${SUPABASE_URL.replace(/\/$/, "")}/auth/v1` : null;
 const REST_BASE_URL = SUPABASE_URL ? `${SUPABASE_URL.replace(/\/$/, "")}/rest/v1` : null;
 
+function normalizeOrderLine(row: any) {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    lineNumber: Number(row.line_number || 0),
+    productCode: row.product_code || "",
+    productName: row.product_name || "",
+    referenceNumber: row.reference_number || "",
+    unitPrice: row.unit_price?.toString?.() || "0",
+    quotedUnitPrice: row.quoted_unit_price?.toString?.() || null,
+    quantity: Number(row.quantity || 0),
+    lineTotal: row.line_total?.toString?.() || "0",
+    vatClass: row.vat_class || "exempt",
+    vatRate: row.vat_rate?.toString?.() || "0",
+    vatAmount: row.vat_amount?.toString?.() || "0",
+    erpLineStatus: row.erp_line_status || "pending",
+    createdAt: row.created_at || null,
+  };
+}
+
 function normalizeOrder(row: any) {
   if (!row || typeof row !== "object") {
     return null;
@@ -32,6 +52,8 @@ function normalizeOrder(row: any) {
     icePackSize: row.ice_pack_size || null,
     icePackQuantity: Number(row.ice_pack_quantity || 0),
     icePackCost: row.ice_pack_cost?.toString?.() || "0",
+    quotedSubtotal: row.quoted_subtotal?.toString?.() || null,
+    priceMismatch: row.price_mismatch === true,
     customerName: row.customer_name || "",
     customerEmail: row.customer_email || "",
     customerPhone: row.customer_phone || "",
@@ -45,6 +67,11 @@ function normalizeOrder(row: any) {
     erpLastSyncAttemptAt: row.erp_last_sync_attempt_at || null,
     erpNextSyncAttemptAt: row.erp_next_sync_attempt_at || null,
     createdAt: row.created_at || null,
+    lines: Array.isArray(row.order_items)
+      ? row.order_items
+        .map(normalizeOrderLine)
+        .sort((a: any, b: any) => a.lineNumber - b.lineNumber)
+      : [],
   };
 }
 
@@ -112,7 +139,7 @@ export default async function handler(req: any, res: any) {
       return res.status(503).json({ message: "Supabase database API is not configured on the server" });
     }
 
-    const response = await fetch(`${REST_BASE_URL}/orders?select=*&order=created_at.desc`, {
+    const response = await fetch(`${REST_BASE_URL}/orders?select=*,order_items(*)&order=created_at.desc`, {
       method: "GET",
       headers: {
         apikey: SUPABASE_SERVICE_ROLE_KEY,
@@ -14,6 +14,7 @@ import AdminLogin from "@/pages/AdminLogin";
 import AdminRecovery from "@/pages/AdminRecovery";
 import Cart from "@/pages/Cart";
 import OrderHistory from "@/pages/OrderHistory";
+import StandingOrders from "@/pages/StandingOrders";
 import AdminPanel from "@/pages/AdminPanel";
 import Account from "@/pages/Account";
 import NotFound from "@/pages/not-found";
@@ -67,6 +68,11 @@ function Router() {
           <OrderHistory />
         </ProtectedRoute>
       </Route>
+      <Route path="/standing-orders">
+        <ProtectedRoute>
+          <StandingOrders />
+        </ProtectedRoute>
+      </Route>
       <Route path="/account">
         <ProtectedRoute>
           <Account />
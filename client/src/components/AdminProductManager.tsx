@@ -13,6 +13,7 @@ import { useToast } from '@/hooks/use-toast';
 import { queryClient } from '@/lib/queryClient';
 import { useProductImages, getImageWithFallback } from '@/hooks/useProductImages';
 import type { ProductWithInventory } from '@shared/schema';
+import { getStockStatus, getStockStatusLabel } from '@shared/stockStatus';
 
 export function AdminProductManager() {
   const [selectedProduct, setSelectedProduct] = useState<ProductWithInventory | null>(null);
@@ -78,14 +79,15 @@ export function AdminProductManager() {
     setImageDialogOpen(true);
   };
 
-  const getStockStatus = (product: ProductWithInventory) => {
-    if (product.availableQuantity === 0) {
-      return { label: 'Out of Stock', color: 'bg-red-100 text-red-800', icon: AlertTriangle };
+  const getStockBadge = (product: ProductWithInventory) => {
+    const status = product.stockStatus ?? getStockStatus(product.availableQuantity, product.reorderPoint);
+    if (status === 'out_of_stock') {
+      return { label: getStockStatusLabel(status), color: 'bg-red-100 text-red-800', icon: AlertTriangle };
     }
-    if (product.isLowStock) {
-      return { label: 'Low Stock', color: 'bg-yellow-100 text-yellow-800', icon: AlertTriangle };
+    if (status === 'low_stock') {
+      return { label: getStockStatusLabel(status), color: 'bg-yellow-100 text-yellow-800', icon: AlertTriangle };
     }
-    return { label: 'In Stock', color: 'bg-green-100 text-green-800', icon: CheckCircle };
+    return { label: getStockStatusLabel(status), color: 'bg-green-100 text-green-800', icon: CheckCircle };
   };
 
   const formatPrice = (price: string) => {
@@ -182,7 +184,7 @@ export function AdminProductManager() {
               ) : (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                   {filteredProducts.map((product) => {
-                  const status = getStockStatus(product);
+                  const status = getStockBadge(product);
                   const StatusIcon = status.icon;
                   
                   return (
@@ -265,7 +267,7 @@ export function AdminProductManager() {
                     </thead>
                     <tbody>
                       {filteredProducts.map((product) => {
-                      const status = getStockStatus(product);
+                      const status = getStockBadge(product);
                       const StatusIcon = status.icon;
                       
                       return (
@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ecountService } from "@/services/ecountService";
+import { getOrderEventLabel } from "@shared/orderLifecycle";
+import type { OrderEvent } from "@shared/schema";
+
+interface OrderTimelineProps {
+  orderId: string;
+  // Admins see who made each change; customers only see what happened.
+  showActors?: boolean;
+}
+
+const EVENT_DOT_COLORS: Record<string, string> = {
+  payment_succeeded: "bg-green-500",
+  erp_sync_succeeded: "bg-green-500",
+  payment_failed: "bg-red-500",
+  erp_sync_failed: "bg-red-500",
+  admin_action: "bg-purple-500",
+};
+
+const getActorLabel = (event: OrderEvent) => {
+  switch (event.actorType) {
+    case "admin":
+      return event.actorEmail || "Admin";
+    case "customer":
+      return event.actorEmail || "Customer";
+    case "payment_provider":
+      return `Payment provider${event.actorId ? ` (${event.actorId})` : ""}`;
+    default:
+      return event.actorId ? `System (${event.actorId})` : "System";
+  }
+};
+
+export function OrderTimeline({ orderId, showActors = false }: OrderTimelineProps) {
+  const { data: events = [], isLoading, error } = useQuery<OrderEvent[]>({
+    queryKey: ["/api/orders", orderId, "events"],
+    queryFn: () => ecountService.getOrderEvents(orderId),
+  });
+
+  return (
+    <div data-testid={`order-timeline-${orderId}`}>
+      <h4 className="font-semibold text-gray-800 mb-3">Order History</h4>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600">Could not load the order history.</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500">No history recorded for this order yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+          {events.map((event) => (
+            <li key={event.id} className="ml-4">
+              <span
+                className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${EVENT_DOT_COLORS[event.eventType] || "bg-blue-500"}`}
+              />
+              <p className="text-sm font-medium text-gray-800">{getOrderEventLabel(event)}</p>
+              {event.message && <p className="text-sm text-gray-600">{event.message}</p>}
+              <p className="text-xs text-gray-500">
+                {event.createdAt ? format(new Date(event.createdAt), "MMM d, yyyy 'at' h:mm a") : "N/A"}
+                {showActors ? ` · ${getActorLabel(event)}` : ""}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -5,8 +5,11 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { useCart } from "@/contexts/CartContext";
 import { useAuth } from "@/contexts/AuthContext";
-import { ShoppingCart, Clock, AlertTriangle } from "lucide-react";
+import { ShoppingCart, Clock, AlertTriangle, Bell, BellOff, Truck } from "lucide-react";
 import { getImageWithFallback } from "@/hooks/useProductImages";
+import { useStockSubscriptions } from "@/hooks/useStockSubscriptions";
+import { getVatInclusivePrice } from "@shared/orderTax";
+import { formatExpectedArrival, getOrderableQuantity } from "@shared/backorders";
 import type { ProductWithInventory } from "@shared/schema";
 
 interface ProductCardProps {
@@ -17,12 +20,28 @@ interface ProductCardProps {
 
 export function ProductCard({ product, viewMode = "grid", productImageUrl }: ProductCardProps) {
   const [quantity, setQuantity] = useState(1);
-  const { addItem, getItemQuantity } = useCart();
+  const { addItem, getItemQuantity, showPricesWithVat } = useCart();
   const { isAdmin } = useAuth();
   const [isAdding, setIsAdding] = useState(false);
+  const stockSubscriptions = useStockSubscriptions();
 
   const currentCartQuantity = getItemQuantity(product.id);
-  const maxQuantity = product.availableQuantity - currentCartQuantity;
+  const orderableQuantity = getOrderableQuantity(product);
+  const maxQuantity = orderableQuantity - currentCartQuantity;
+  // Adding this quantity takes the cart past stock on hand; checkout puts the rest on backorder
+  const addsBackorder = Boolean(product.backorderable) && currentCartQuantity + quantity > product.availableQuantity;
+  const expectedArrival = formatExpectedArrival(product.expectedArrivalAt);
+  // Signed-in customers can ask to be emailed when an out-of-stock product is available again
+  const canNotify = product.availableQuantity <= 0 && !product.backorderable && stockSubscriptions.canSubscribe;
+  const isSubscribed = stockSubscriptions.isSubscribed(product.id);
+
+  const handleNotifyToggle = () => {
+    if (isSubscribed) {
+      stockSubscriptions.unsubscribe(product.id);
+    } else {
+      stockSubscriptions.subscribe({ id: product.id, name: product.name });
+    }
+  };
 
   const handleAddToCart = () => {
     if (maxQuantity <= 0) return;
@@ -35,9 +54,10 @@ export function ProductCard({ product, viewMode = "grid", productImageUrl }: Pro
         price: product.price,
         referenceNumber: product.referenceNumber,
         imageUrl: productImageUrl || undefined,
+        vatClass: product.vatClass,
       },
       quantity,
-      product.availableQuantity
+      orderableQuantity
     );
 
     if (success) {
@@ -48,7 +68,8 @@ export function ProductCard({ product, viewMode = "grid", productImageUrl }: Pro
   };
 
   const formatPrice = (price: string) => {
-    return `TZS ${parseInt(price).toLocaleString()}`;
+    const displayPrice = showPricesWithVat ? getVatInclusivePrice(price, product.vatClass) : parseInt(price);
+    return `TZS ${Math.round(displayPrice).toLocaleString()}`;
   };
 
   if (viewMode === "list") {
@@ -83,12 +104,23 @@ export function ProductCard({ product, viewMode = "grid", productImageUrl }: Pro
                       Low Stock
                     </Badge>
                   )}
+                  {product.backorderable && product.availableQuantity <= currentCartQuantity && (
+                    <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+                      <Truck className="w-3 h-3 mr-1" />
+                      Backorder · due {expectedArrival}
+                    </Badge>
+                  )}
                 </div>
               </div>
               
               <div className="flex items-center justify-between mt-3">
                 <div className="flex items-center space-x-4">
-                  <span className="text-lg font-bold text-phomas-green">{formatPrice(product.price)}</span>
+                  <span className="text-lg font-bold text-phomas-green" title={product.priceListName ? `Contract price (${product.priceListName})` : undefined}>
+                    {formatPrice(product.price)}
+                  </span>
+                  {product.listPrice && (
+                    <span className="text-sm text-gray-400 line-through">{formatPrice(product.listPrice)}</span>
+                  )}
                   <span className="text-sm text-gray-600">
                     Stock: <span className={`font-medium ${product.isLowStock ? 'text-red-600' : 'text-green-600'}`}>
                       {product.availableQuantity}
@@ -106,20 +138,32 @@ export function ProductCard({ product, viewMode = "grid", productImageUrl }: Pro
                     className="w-16 text-center"
                     disabled={maxQuantity <= 0}
                   />
-                  <Button
-                    onClick={handleAddToCart}
-                    disabled={maxQuantity <= 0 || isAdding}
-                    className="bg-phomas-green hover:bg-phomas-green/90"
-                  >
-                    {isAdding ? (
-                      "Adding..."
-                    ) : (
-                      <>
-                        <ShoppingCart className="w-4 h-4 mr-2" />
-                        {maxQuantity <= 0 ? "Out of Stock" : "Add to Cart"}
-                      </>
-                    )}
-                  </Button>
+                  {canNotify ? (
+                    <Button
+                      variant="outline"
+                      onClick={handleNotifyToggle}
+                      disabled={stockSubscriptions.isUpdating}
+                      className="border-phomas-green text-phomas-green"
+                    >
+                      {isSubscribed ? <BellOff className="w-4 h-4 mr-2" /> : <Bell className="w-4 h-4 mr-2" />}
+                      {isSubscribed ? "Cancel Notification" : "Notify Me When Available"}
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={handleAddToCart}
+                      disabled={maxQuantity <= 0 || isAdding}
+                      className="bg-phomas-green hover:bg-phomas-green/90"
+                    >
+                      {isAdding ? (
+                        "Adding..."
+                      ) : (
+                        <>
+                          <ShoppingCart className="w-4 h-4 mr-2" />
+                          {maxQuantity <= 0 ? "Out of Stock" : addsBackorder ? "Backorder" : "Add to Cart"}
+                        </>
+                      )}
+                    </Button>
+                  )}
                 </div>
               </div>
             </div>
@@ -152,6 +196,16 @@ export function ProductCard({ product, viewMode = "grid", productImageUrl }: Pro
                 Low Stock
               </Badge>
             )}
+            {product.backorderable && product.availableQuantity <= currentCartQuantity && (
+              <Badge
+                variant="outline"
+                className="bg-blue-50 px-1.5 py-0 text-[10px] text-blue-700 border-blue-200"
+                title={`More stock expected ${expectedArrival}`}
+              >
+                <Truck className="w-3 h-3 mr-1" />
+                Due {expectedArrival}
+              </Badge>
+            )}
           </div>
         </div>
 
@@ -169,7 +223,12 @@ export function ProductCard({ product, viewMode = "grid", productImageUrl }: Pro
           </div>
 
           <div className="mb-2 flex items-center justify-between gap-2">
-            <span className="truncate text-sm font-bold leading-5 text-phomas-green">{formatPrice(product.price)}</span>
+            <span
+              className="truncate text-sm font-bold leading-5 text-phomas-green"
+              title={product.priceListName ? `Contract price (${product.priceListName}), list ${formatPrice(product.listPrice || product.price)}` : undefined}
+            >
+              {formatPrice(product.price)}
+            </span>
             <div className="flex shrink-0 items-center text-[11px] leading-4">
               <span className="text-gray-600">Stock: </span>
               <span className={`font-medium ml-1 ${product.isLowStock ? 'text-red-600' : 'text-green-600'}`}>
@@ -187,21 +246,35 @@ export function ProductCard({ product, viewMode = "grid", productImageUrl }: Pro
               className="h-10 w-12 px-1 text-center text-xs min-[900px]:h-8"
               disabled={maxQuantity <= 0}
             />
-            <Button
-              size="sm"
-              onClick={handleAddToCart}
-              disabled={maxQuantity <= 0 || isAdding}
-              className="h-10 min-w-0 flex-1 gap-1 bg-phomas-green px-2 text-xs font-semibold hover:bg-phomas-green/90 min-[900px]:h-8"
-            >
-              {isAdding ? (
-                "Adding..."
-              ) : (
-                <>
-                  <ShoppingCart className="h-3.5 w-3.5" />
-                  {maxQuantity <= 0 ? "Out" : "Add"}
-                </>
-              )}
-            </Button>
+            {canNotify ? (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleNotifyToggle}
+                disabled={stockSubscriptions.isUpdating}
+                title={isSubscribed ? "Stop the back-in-stock email" : "Email me when this is back in stock"}
+                className="h-10 min-w-0 flex-1 gap-1 border-phomas-green px-2 text-xs font-semibold text-phomas-green min-[900px]:h-8"
+              >
+                {isSubscribed ? <BellOff className="h-3.5 w-3.5" /> : <Bell className="h-3.5 w-3.5" />}
+                {isSubscribed ? "Notifying" : "Notify me"}
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                onClick={handleAddToCart}
+                disabled={maxQuantity <= 0 || isAdding}
+                className="h-10 min-w-0 flex-1 gap-1 bg-phomas-green px-2 text-xs font-semibold hover:bg-phomas-green/90 min-[900px]:h-8"
+              >
+                {isAdding ? (
+                  "Adding..."
+                ) : (
+                  <>
+                    <ShoppingCart className="h-3.5 w-3.5" />
+                    {maxQuantity <= 0 ? "Out" : addsBackorder ? "Backorder" : "Add"}
+                  </>
+                )}
+              </Button>
+            )}
           </div>
 
           {currentCartQuantity > 0 && (
@@ -1,5 +1,7 @@
 import { useState, useMemo } from "react";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Grid, List } from "lucide-react";
 import { ProductCard } from "./ProductCard";
@@ -7,6 +9,7 @@ import { SearchBar } from "./SearchBar";
 import type { ProductWithInventory } from "@shared/schema";
 import { cn } from "@/lib/utils";
 import { useProductImages } from "@/hooks/useProductImages";
+import { useCart } from "@/contexts/CartContext";
 
 interface ProductGridProps {
   products: ProductWithInventory[];
@@ -22,6 +25,7 @@ export function ProductGrid({ products, isLoading }: ProductGridProps) {
   const [categoryFilter, setCategoryFilter] = useState("all");
   const productCodes = useMemo(() => products.map((product) => product.id), [products]);
   const { data: productImages = {} } = useProductImages(productCodes);
+  const { showPricesWithVat, setShowPricesWithVat } = useCart();
 
   const filteredProducts = useMemo(() => {
     const filtered = products.filter(product => {
@@ -95,6 +99,19 @@ export function ProductGrid({ products, isLoading }: ProductGridProps) {
           <SearchBar onSearch={setSearchQuery} />
           
           <div className="flex flex-wrap items-center gap-2">
+            {/* VAT Display Toggle */}
+            <div className="flex h-10 items-center gap-2 rounded-lg border border-gray-300 bg-white px-3">
+              <Switch
+                id="catalog-prices-with-vat"
+                checked={showPricesWithVat}
+                onCheckedChange={setShowPricesWithVat}
+                data-testid="switch-prices-with-vat"
+              />
+              <Label htmlFor="catalog-prices-with-vat" className="text-sm text-gray-700">
+                Incl. VAT
+              </Label>
+            </div>
+
             {/* View Mode Toggle */}
             <div className="flex items-center gap-1 rounded-lg border border-gray-300 bg-white p-1">
               <Button
@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCart } from "@/contexts/CartContext";
+import { useToast } from "@/hooks/use-toast";
+import { useReorder } from "@/hooks/useReorder";
+import { queryClient } from "@/lib/queryClient";
+import { ecountService } from "@/services/ecountService";
+import { Bookmark, RefreshCw, ShoppingCart, Trash2 } from "lucide-react";
+import type { OrderTemplate, OrderTemplateItem } from "@shared/schema";
+
+const ORDER_TEMPLATES_QUERY_KEY = ["/api/order-templates"];
+
+interface SaveBasketDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  items: OrderTemplateItem[];
+  defaultName?: string;
+}
+
+export function SaveBasketDialog({ open, onOpenChange, items, defaultName = "" }: SaveBasketDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState(defaultName);
+
+  useEffect(() => {
+    if (open) {
+      setName(defaultName);
+    }
+  }, [open, defaultName]);
+
+  const saveBasketMutation = useMutation({
+    mutationFn: () => ecountService.createOrderTemplate({ name: name.trim(), items }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ORDER_TEMPLATES_QUERY_KEY });
+      toast({ title: "Basket saved", description: data.message });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not save basket",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save as basket</DialogTitle>
+          <DialogDescription>
+            Save these {items.length} item{items.length === 1 ? "" : "s"} to reorder them later from any device.
+            Stock and prices are checked again each time you reorder.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="basket-name">Basket name</Label>
+          <Input
+            id="basket-name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="e.g. Monthly CBC reagents"
+            maxLength={80}
+            data-testid="input-basket-name"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveBasketMutation.mutate()}
+            disabled={!name.trim() || items.length === 0 || saveBasketMutation.isPending}
+            className="bg-phomas-green hover:bg-phomas-green/90"
+            data-testid="button-confirm-save-basket"
+          >
+            {saveBasketMutation.isPending ? "Saving..." : "Save basket"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function SavedBaskets() {
+  const { user } = useAuth();
+  const { items: cartItems } = useCart();
+  const { toast } = useToast();
+  const { reorder, isReordering } = useReorder();
+
+  const { data: templates = [], isLoading } = useQuery<OrderTemplate[]>({
+    queryKey: ORDER_TEMPLATES_QUERY_KEY,
+    queryFn: () => ecountService.getOrderTemplates(),
+    enabled: !!user,
+  });
+
+  const handleBasketError = (error: unknown) => {
+    toast({
+      title: "Could not update basket",
+      description: error instanceof Error ? error.message : "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  // Replace a basket's contents with what is in the cart now, keeping its name.
+  const replaceBasketMutation = useMutation({
+    mutationFn: (template: OrderTemplate) =>
+      ecountService.updateOrderTemplate(template.id, {
+        items: cartItems.map((item) => ({
+          productId: item.productId,
+          name: item.name,
+          referenceNumber: item.referenceNumber,
+          quantity: item.quantity,
+        })),
+      }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ORDER_TEMPLATES_QUERY_KEY });
+      toast({ title: "Basket updated", description: data.message });
+    },
+    onError: handleBasketError,
+  });
+
+  const deleteBasketMutation = useMutation({
+    mutationFn: (template: OrderTemplate) => ecountService.deleteOrderTemplate(template.id),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ORDER_TEMPLATES_QUERY_KEY });
+      toast({ title: "Basket deleted", description: data.message });
+    },
+    onError: handleBasketError,
+  });
+
+  if (!user || (!isLoading && templates.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2">
+          <Bookmark className="w-5 h-5 text-phomas-green" />
+          Saved Baskets
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading saved baskets...</p>
+        ) : (
+          <div className="space-y-3">
+            {templates.map((template) => (
+              <div
+                key={template.id}
+                className="flex flex-wrap items-center justify-between gap-3 p-3 border border-gray-200 rounded-lg"
+                data-testid={`saved-basket-${template.id}`}
+              >
+                <div>
+                  <p className="font-medium text-gray-800">{template.name}</p>
+                  <p className="text-sm text-gray-500">
+                    {template.items.length} item{template.items.length === 1 ? "" : "s"}
+                    {template.updatedAt ? ` · updated ${format(new Date(template.updatedAt), "MMM d, yyyy")}` : ""}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => reorder(template.items, `"${template.name}"`)}
+                    disabled={isReordering}
+                    className="bg-phomas-green hover:bg-phomas-green/90"
+                    data-testid={`button-reorder-basket-${template.id}`}
+                  >
+                    <ShoppingCart className="w-4 h-4 mr-2" />
+                    Add to cart
+                  </Button>
+                  {cartItems.length > 0 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => replaceBasketMutation.mutate(template)}
+                      disabled={replaceBasketMutation.isPending}
+                      data-testid={`button-replace-basket-${template.id}`}
+                    >
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      Replace with cart
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-red-600 border-red-200 hover:bg-red-50"
+                    onClick={() => deleteBasketMutation.mutate(template)}
+                    disabled={deleteBasketMutation.isPending}
+                    data-testid={`button-delete-basket-${template.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
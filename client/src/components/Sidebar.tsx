@@ -7,6 +7,7 @@ import {
   Home, 
   ShoppingCart, 
   History, 
+  CalendarClock,
   FileText, 
   Truck, 
   List, 
@@ -47,6 +48,7 @@ export function Sidebar({ open, onClose, collapsed, onToggleCollapse }: SidebarP
       active: location === "/cart"
     },
     { href: "/orders", icon: History, label: "Orders History", active: location === "/orders" },
+    { href: "/standing-orders", icon: CalendarClock, label: "Standing Orders", active: location === "/standing-orders" },
     { href: "/account", icon: UserRound, label: "Account", active: location === "/account" },
     { href: "#", icon: FileText, label: "Invoices", disabled: true },
     { href: "#", icon: Truck, label: "Delivery Notes", disabled: true },
@@ -1,7 +1,14 @@
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, { createContext, useContext, useState, useEffect, useRef } from "react";
 import type { CartItem } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
+import { ecountService } from "@/services/ecountService";
+import { sumOrderItemsVat, type VatClass } from "@shared/orderTax";
+
+type CartProduct = { id: string; name: string; price: string; referenceNumber: string; imageUrl?: string; vatClass?: VatClass };
+
+// Reorders add many lines at once and report a single summary instead of one toast per line.
+type AddItemOptions = { silent?: boolean };
 
 interface CartContextType {
   items: CartItem[];
@@ -9,7 +16,9 @@ interface CartContextType {
   subtotal: number;
   tax: number;
   total: number;
-  addItem: (product: { id: string; name: string; price: string; referenceNumber: string; imageUrl?: string }, quantity: number, maxQuantity: number) => boolean;
+  showPricesWithVat: boolean;
+  setShowPricesWithVat: (showPricesWithVat: boolean) => void;
+  addItem: (product: CartProduct, quantity: number, maxQuantity: number, options?: AddItemOptions) => boolean;
   updateQuantity: (productId: string, quantity: number) => void;
   removeItem: (productId: string) => void;
   clearCart: () => void;
@@ -19,13 +28,30 @@ interface CartContextType {
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
 const CART_STORAGE_PREFIX = "phomas_cart_";
-const TAX_RATE = 0; // Medical supplies are not charged additional tax.
+// "synced" when the local copy matches the server cart, "dirty" while it holds changes the server
+// has not confirmed; missing when this device has never synced the customer's cart.
+const CART_SYNC_STORAGE_PREFIX = "phomas_cart_sync_";
+const VAT_DISPLAY_STORAGE_KEY = "phomas_vat_display";
 
 export function CartProvider({ children }: { children: React.ReactNode }) {
-  const [items, setItems] = useState<CartItem[]>([]);
+  const [items, setItemsState] = useState<CartItem[]>([]);
+  // Latest items, so several addItem calls in the same tick build on each other.
+  const itemsRef = useRef<CartItem[]>([]);
   const [loadedCartKey, setLoadedCartKey] = useState<string | null>(null);
+  const [showPricesWithVat, setShowPricesWithVatState] = useState(
+    () => localStorage.getItem(VAT_DISPLAY_STORAGE_KEY) === "inclusive"
+  );
   const { toast } = useToast();
   const { user, adminUser } = useAuth();
+  const syncQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const pendingSyncsRef = useRef(0);
+  const syncFailedRef = useRef(false);
+  const localRevisionRef = useRef(0);
+
+  const setItems = (nextItems: CartItem[]) => {
+    itemsRef.current = nextItems;
+    setItemsState(nextItems);
+  };
 
   const cartOwnerIds = React.useMemo(() => {
     const owners = adminUser
@@ -115,24 +141,121 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     localStorage.setItem(cartKey, JSON.stringify(items));
   }, [items, cartKey, loadedCartKey]);
 
+  // Customers also keep their cart on the server so it follows them across devices. Admin
+  // sessions have no customer token, so their carts stay on this device only.
+  const syncStateKey = !adminUser && user && cartOwnerIds[0] ? `${CART_SYNC_STORAGE_PREFIX}${cartOwnerIds[0]}` : null;
+
+  // Server writes run one at a time so lines reach the server in the order they changed.
+  const queueServerSync = (request: () => Promise<unknown>, onFinished?: () => void) => {
+    pendingSyncsRef.current += 1;
+    syncQueueRef.current = syncQueueRef.current
+      .then(async () => {
+        await request();
+      })
+      .catch((error) => {
+        syncFailedRef.current = true;
+        console.warn("Cart sync failed, keeping the cart saved on this device:", error);
+      })
+      .finally(() => {
+        pendingSyncsRef.current -= 1;
+        onFinished?.();
+      });
+  };
+
+  const commitItems = (nextItems: CartItem[], serverRequest: () => Promise<unknown>) => {
+    localRevisionRef.current += 1;
+    setItems(nextItems);
+    persistCart(nextItems);
+
+    if (!syncStateKey) {
+      return;
+    }
+
+    const stateKey = syncStateKey;
+    localStorage.setItem(stateKey, "dirty");
+    queueServerSync(serverRequest, () => {
+      if (pendingSyncsRef.current === 0 && !syncFailedRef.current) {
+        localStorage.setItem(stateKey, "synced");
+      }
+    });
+  };
+
+  // Bring this device and the server together: pick up changes made elsewhere, push changes made
+  // offline, or merge a cart built before logging in on this device.
+  const syncWithServer = () => {
+    if (!syncStateKey || pendingSyncsRef.current > 0) {
+      return;
+    }
+
+    const stateKey = syncStateKey;
+    queueServerSync(async () => {
+      const revision = localRevisionRef.current;
+      const syncState = localStorage.getItem(stateKey);
+      const { items: serverItems } =
+        syncState === "synced"
+          ? await ecountService.getCart()
+          : syncState === "dirty"
+            ? await ecountService.replaceCart(itemsRef.current)
+            : await ecountService.mergeCart(itemsRef.current);
+
+      // Changes made while the request was in flight are newer and already queued behind it.
+      if (localRevisionRef.current !== revision) {
+        return;
+      }
+
+      syncFailedRef.current = false;
+      setItems(serverItems);
+      persistCart(serverItems);
+      localStorage.setItem(stateKey, "synced");
+    });
+  };
+
+  useEffect(() => {
+    if (!syncStateKey || !cartKey || loadedCartKey !== cartKey) {
+      return;
+    }
+
+    syncFailedRef.current = false;
+    syncWithServer();
+
+    // Reconnecting or returning to the tab is when another device's changes or offline edits show up.
+    window.addEventListener("online", syncWithServer);
+    window.addEventListener("focus", syncWithServer);
+    return () => {
+      window.removeEventListener("online", syncWithServer);
+      window.removeEventListener("focus", syncWithServer);
+    };
+  }, [syncStateKey, cartKey, loadedCartKey]);
+
   const itemCount = items.reduce((total, item) => total + item.quantity, 0);
 
   const subtotal = items.reduce((total, item) => total + parseInt(item.price) * item.quantity, 0);
 
-  const tax = subtotal * TAX_RATE;
+  // VAT is charged on top of catalogue prices; the server recomputes it from the product mapping.
+  const tax = sumOrderItemsVat(items);
 
   const total = subtotal + tax;
 
+  const setShowPricesWithVat = (nextShowPricesWithVat: boolean) => {
+    setShowPricesWithVatState(nextShowPricesWithVat);
+    localStorage.setItem(VAT_DISPLAY_STORAGE_KEY, nextShowPricesWithVat ? "inclusive" : "exclusive");
+  };
+
   const addItem = (
-    product: { id: string; name: string; price: string; referenceNumber: string; imageUrl?: string },
+    product: CartProduct,
     quantity: number,
-    maxQuantity: number
+    maxQuantity: number,
+    options: AddItemOptions = {}
   ): boolean => {
+    const items = itemsRef.current;
     const existingItem = items.find(item => item.productId === product.id);
     const currentQuantity = existingItem ? existingItem.quantity : 0;
     const newQuantity = currentQuantity + quantity;
 
     if (newQuantity > maxQuantity) {
+      if (options.silent) {
+        return false;
+      }
       toast({
         title: "Insufficient stock",
         description: `Only ${maxQuantity} units available. You currently have ${currentQuantity} in your cart.`,
@@ -142,13 +265,13 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     }
 
     if (existingItem) {
+      const updatedItem = { ...existingItem, quantity: newQuantity };
       const nextItems = items.map(item =>
         item.productId === product.id
-          ? { ...item, quantity: newQuantity }
+          ? updatedItem
           : item
       );
-      setItems(nextItems);
-      persistCart(nextItems);
+      commitItems(nextItems, () => ecountService.upsertCartItem(updatedItem));
     } else {
       const newItem: CartItem = {
         productId: product.id,
@@ -157,16 +280,18 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         quantity,
         referenceNumber: product.referenceNumber,
         imageUrl: product.imageUrl,
+        vatClass: product.vatClass,
       };
       const nextItems = [...items, newItem];
-      setItems(nextItems);
-      persistCart(nextItems);
+      commitItems(nextItems, () => ecountService.upsertCartItem(newItem));
     }
 
-    toast({
-      title: "Added to cart",
-      description: `${quantity}x ${product.name} added to your cart`,
-    });
+    if (!options.silent) {
+      toast({
+        title: "Added to cart",
+        description: `${quantity}x ${product.name} added to your cart`,
+      });
+    }
 
     return true;
   };
@@ -177,20 +302,24 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       return;
     }
 
+    const item = items.find(item => item.productId === productId);
+    if (!item) {
+      return;
+    }
+
+    const updatedItem = { ...item, quantity };
     const nextItems = items.map(item =>
       item.productId === productId
-        ? { ...item, quantity }
+        ? updatedItem
         : item
     );
-    setItems(nextItems);
-    persistCart(nextItems);
+    commitItems(nextItems, () => ecountService.upsertCartItem(updatedItem));
   };
 
   const removeItem = (productId: string) => {
     const item = items.find(item => item.productId === productId);
     const nextItems = items.filter(item => item.productId !== productId);
-    setItems(nextItems);
-    persistCart(nextItems);
+    commitItems(nextItems, () => ecountService.removeCartItem(productId));
     
     if (item) {
       toast({
@@ -201,8 +330,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
   };
 
   const clearCart = () => {
-    setItems([]);
-    persistCart([]);
+    commitItems([], () => ecountService.clearCart());
     toast({
       title: "Cart cleared",
       description: "All items have been removed from your cart",
@@ -220,6 +348,8 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     subtotal,
     tax,
     total,
+    showPricesWithVat,
+    setShowPricesWithVat,
     addItem,
     updateQuantity,
     removeItem,
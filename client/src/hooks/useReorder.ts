@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useCart } from "@/contexts/CartContext";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { ecountService } from "@/services/ecountService";
+import { getOrderableQuantity } from "@shared/backorders";
+import type { ProductWithInventory } from "@shared/schema";
+
+export type ReorderLine = {
+  productId: string;
+  name: string;
+  quantity: number;
+  // Unit price on the original order, used to flag lines whose price has changed since.
+  previousPrice?: string | null;
+};
+
+const formatNames = (names: string[]) =>
+  names.length > 3 ? `${names.slice(0, 3).join(", ")} and ${names.length - 3} more` : names.join(", ");
+
+/**
+ * Rebuild the cart from a past order or saved basket. The catalogue is fetched fresh so each
+ * line is checked against current stock and priced at today's price rather than the old one.
+ */
+export function useReorder() {
+  const { items, addItem } = useCart();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [isReordering, setIsReordering] = useState(false);
+
+  const reorder = async (lines: ReorderLine[], sourceLabel: string) => {
+    setIsReordering(true);
+    try {
+      const products = await queryClient.fetchQuery<ProductWithInventory[]>({
+        queryKey: ["/api/products"],
+        queryFn: () => ecountService.getProducts(),
+        staleTime: 0,
+      });
+      const productsById = new Map(products.map((product) => [product.id, product]));
+      const cartQuantities = new Map(items.map((item) => [item.productId, item.quantity]));
+
+      const added: string[] = [];
+      const reduced: string[] = [];
+      const unavailable: string[] = [];
+      const repriced: string[] = [];
+
+      for (const line of lines) {
+        const product = productsById.get(line.productId);
+        const inCart = cartQuantities.get(line.productId) ?? 0;
+        const remaining = product ? getOrderableQuantity(product) - inCart : 0;
+        if (!product || remaining <= 0) {
+          unavailable.push(line.name);
+          continue;
+        }
+
+        const quantity = Math.min(line.quantity, remaining);
+        const addedToCart = addItem(
+          {
+            id: product.id,
+            name: product.name,
+            price: product.price,
+            referenceNumber: product.referenceNumber,
+            imageUrl: product.imageUrl || undefined,
+            vatClass: product.vatClass,
+          },
+          quantity,
+          getOrderableQuantity(product),
+          { silent: true }
+        );
+        if (!addedToCart) {
+          unavailable.push(line.name);
+          continue;
+        }
+
+        cartQuantities.set(line.productId, inCart + quantity);
+        added.push(product.name);
+        if (quantity < line.quantity) {
+          reduced.push(`${product.name} (${quantity} of ${line.quantity})`);
+        }
+        if (line.previousPrice && Math.round(parseFloat(line.previousPrice)) !== Math.round(parseFloat(product.price))) {
+          repriced.push(product.name);
+        }
+      }
+
+      if (added.length === 0) {
+        toast({
+          title: "Nothing added to cart",
+          description: `None of the items from ${sourceLabel} are in stock right now.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const notes = [
+        unavailable.length > 0 ? `Out of stock: ${formatNames(unavailable)}.` : "",
+        reduced.length > 0 ? `Limited to available stock: ${formatNames(reduced)}.` : "",
+        repriced.length > 0 ? `Price changed since your last order: ${formatNames(repriced)}.` : "",
+      ].filter(Boolean);
+
+      toast({
+        title: `Added ${added.length} item${added.length === 1 ? "" : "s"} from ${sourceLabel}`,
+        description: notes.length > 0 ? notes.join(" ") : "Everything is in stock at current prices.",
+      });
+      setLocation("/cart");
+    } catch (error) {
+      toast({
+        title: "Could not reorder",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReordering(false);
+    }
+  };
+
+  return { reorder, isReordering };
+}
@@ -0,0 +1,59 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { ecountService } from "@/services/ecountService";
+import type { StockSubscription } from "@shared/schema";
+
+const STOCK_SUBSCRIPTIONS_QUERY_KEY = ["/api/stock-subscriptions"];
+
+/**
+ * "Notify me when available" for out-of-stock products. One query is shared by every product card;
+ * guests get no subscriptions and cannot subscribe.
+ */
+export function useStockSubscriptions() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: subscriptions = [] } = useQuery<StockSubscription[]>({
+    queryKey: STOCK_SUBSCRIPTIONS_QUERY_KEY,
+    queryFn: () => ecountService.getStockSubscriptions(),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const subscribeMutation = useMutation({
+    mutationFn: (product: { id: string; name: string }) =>
+      ecountService.subscribeToStock({ productId: product.id, productName: product.name }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: STOCK_SUBSCRIPTIONS_QUERY_KEY });
+      toast({ title: "We'll let you know", description: data.message });
+    },
+    onError: onError("Could not set up the notification"),
+  });
+
+  const unsubscribeMutation = useMutation({
+    mutationFn: (productId: string) => ecountService.unsubscribeFromStock(productId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: STOCK_SUBSCRIPTIONS_QUERY_KEY });
+      toast({ title: "Notification cancelled" });
+    },
+    onError: onError("Could not cancel the notification"),
+  });
+
+  return {
+    canSubscribe: !!user,
+    isSubscribed: (productId: string) => subscriptions.some((subscription) => subscription.productId === productId),
+    subscribe: subscribeMutation.mutate,
+    unsubscribe: unsubscribeMutation.mutate,
+    isUpdating: subscribeMutation.isPending || unsubscribeMutation.isPending,
+  };
+}
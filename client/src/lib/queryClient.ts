@@ -71,6 +71,7 @@ export type ApiRequestOptions = {
   timeoutMs?: number;
   timeoutMessage?: string;
   signal?: AbortSignal;
+  headers?: Record<string, string>;
 };
 
 export async function apiRequest(
@@ -79,7 +80,7 @@ export async function apiRequest(
   data?: unknown | undefined,
   options: ApiRequestOptions = {},
 ): Promise<Response> {
-  const headers: Record<string, string> = {};
+  const headers: Record<string, string> = { ...options.headers };
   const controller = options.timeoutMs || options.signal ? new AbortController() : null;
   let timeout: ReturnType<typeof setTimeout> | null = null;
   const abortFromCaller = () => controller?.abort();
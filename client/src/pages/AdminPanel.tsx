@@ -6,20 +6,54 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/contexts/AuthContext";
 import { ecountService } from "@/services/ecountService";
-import { Users, Package, AlertTriangle, Clock, CheckCircle, Edit, Trash2, Plus, Upload, UserCheck, MessageCircle, Shield, Eye, EyeOff, Lock, RefreshCw } from "lucide-react";
-import { format } from "date-fns";
+import { Users, Package, AlertTriangle, Clock, CheckCircle, Edit, Trash2, Plus, Upload, UserCheck, MessageCircle, Shield, Eye, EyeOff, Lock, RefreshCw, Truck, FileText, CalendarClock, Pause, Play, SkipForward, Tags, Percent, RotateCcw, Ban, ListChecks, Scale, Layers, BellRing, Activity } from "lucide-react";
+import { format, subDays } from "date-fns";
 import { useLocation } from "wouter";
 import { AdminProductManager } from "@/components/AdminProductManager";
 import { BulkSyncManager } from "@/components/BulkSyncManager";
-import type { User, Order, OrderItem } from "@shared/schema";
+import type { User, Order, DeliveryZone, Payment, StandingOrder, PriceList, CustomerPricing, DiscountRule, InsertDiscountRule, SyncJobWithOrder, ErpReconciliationRun, ErpReconciliationRunSummary, StockLotWithAvailability, StockThreshold, BackorderProduct } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { getDeliveryAreaLabel, getIcePackSizeLabel } from "@shared/orderPricing";
+import { getVatClassLabel } from "@shared/orderTax";
+import { getOrderLines, hasOrderLinePriceDrift } from "@shared/orderLines";
+import { getMobileMoneyNetworkLabel } from "@shared/payments";
+import { getAllowedOrderStatusTransitions, ORDER_STATUS_VALUES } from "@shared/orderLifecycle";
+import { OrderTimeline } from "@/components/OrderTimeline";
+import {
+  STANDING_ORDER_CADENCE_VALUES,
+  getStandingOrderCadenceLabel,
+  type StandingOrderAction,
+  type StandingOrderCadence,
+} from "@shared/standingOrders";
+import {
+  SYNC_JOB_STATUS_VALUES,
+  getSyncJobStatusLabel,
+  getSyncJobTypeLabel,
+  type SyncJobStatus,
+} from "@shared/syncJobs";
+import { getErpReconciliationIssueLabel, type ErpReconciliationIssueType } from "@shared/erpReconciliation";
+import { formatLotExpiry, isLotExpired, isLotExpiringSoon, type StockLotImportResult } from "@shared/stockLots";
+import { DEFAULT_REORDER_POINT, getStockStatusLabel, type StockAlertRunResult, type StockThresholdScope } from "@shared/stockStatus";
+import { formatExpectedArrival, type BackorderReleaseSummary } from "@shared/backorders";
+import { DEFAULT_INVENTORY_REPORT_DAYS, LOW_DAYS_OF_COVER, type InventoryReport } from "@shared/inventoryReport";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import {
+  DISCOUNT_RULE_TYPE_VALUES,
+  describeDiscountRule,
+  getDiscountRuleTypeLabel,
+  isDiscountRuleLive,
+  toDiscountRuleInput,
+  type DiscountRuleType,
+} from "@shared/discounts";
 
 // Extended User type for admin panel (includes Supabase metadata fields)
 interface AdminPanelUser extends Omit<User, 'password'> {
@@ -28,11 +62,12 @@ interface AdminPanelUser extends Omit<User, 'password'> {
   address?: string;
   brelaNumber?: string;
   tinNumber?: string;
+  ecountCustCode?: string;
+  ecountCustName?: string;
   emailConfirmed?: boolean;
   lastSignIn?: Date | null;
 }
 
-const ORDER_STATUS_OPTIONS = ["processing", "shipped", "delivered", "completed", "cancelled"] as const;
 const ERP_SYNC_REQUEST_TIMEOUT_MS = 65000;
 const ERP_SYNC_TIMEOUT_MESSAGE = "ERP sync is taking too long, so the button was released. The order may still be queued; refresh orders in a minute.";
 
@@ -42,6 +77,12 @@ function OrdersManagement() {
   const [orderToDelete, setOrderToDelete] = useState<Order | null>(null);
   const { toast } = useToast();
   
+  const { data: selectedOrderPayments = [] } = useQuery<Payment[]>({
+    queryKey: ["/api/admin/orders", selectedOrder?.id, "payments"],
+    queryFn: () => ecountService.getOrderPayments(selectedOrder!.id),
+    enabled: Boolean(selectedOrder && selectedOrder.paymentMethod === "online_now"),
+  });
+
   const { data: orders = [], isLoading } = useQuery<Order[]>({
     queryKey: ["/api/admin/orders"],
     queryFn: () => ecountService.getAllOrders(),
@@ -84,6 +125,7 @@ function OrdersManagement() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", data.order.id, "events"] });
       setSelectedOrder((currentOrder) =>
         currentOrder?.id === data.order.id ? data.order : currentOrder
       );
@@ -101,6 +143,29 @@ function OrdersManagement() {
     },
   });
 
+  const reviewCancellationMutation = useMutation({
+    mutationFn: ({ orderId, decision }: { orderId: string; decision: "approve" | "reject" }) =>
+      ecountService.reviewOrderCancellation(orderId, decision),
+    onSuccess: (data) => {
+      refreshOrders();
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", data.order.id, "events"] });
+      setSelectedOrder((currentOrder) =>
+        currentOrder?.id === data.order.id ? data.order : currentOrder
+      );
+      toast({
+        title: "Cancellation Reviewed",
+        description: data.message,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Cancellation Review Failed",
+        description: error instanceof Error ? error.message : "Failed to review cancellation request",
+        variant: "destructive",
+      });
+    },
+  });
+
   const syncOrderMutation = useMutation({
     mutationFn: async (orderId: string) => {
       const res = await apiRequest("POST", `/api/admin/orders/${orderId}/sync`, {}, {
@@ -111,6 +176,7 @@ function OrdersManagement() {
     },
     onSuccess: (data) => {
       refreshOrders();
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", data.order.id, "events"] });
       setSelectedOrder((currentOrder) =>
         currentOrder?.id === data.order.id ? data.order : currentOrder
       );
@@ -188,6 +254,14 @@ function OrdersManagement() {
     return normalizedStatus === "complete" ? "completed" : normalizedStatus;
   }
 
+  // The current status plus the statuses the order lifecycle allows next.
+  function getStatusOptions(status?: string | null) {
+    const allowedStatuses = getAllowedOrderStatusTransitions(status);
+    return ORDER_STATUS_VALUES.filter(
+      (option) => option === normalizeOrderStatus(status) || allowedStatuses.includes(option)
+    );
+  }
+
   function getStatusLabel(status?: string | null) {
     switch (normalizeOrderStatus(status)) {
       case "completed":
@@ -196,6 +270,12 @@ function OrdersManagement() {
         return "Delivered";
       case "shipped":
         return "Shipped";
+      case "awaiting_payment":
+        return "Awaiting Payment";
+      case "backordered":
+        return "Backordered";
+      case "paid":
+        return "Paid";
       case "processing":
         return "Processing";
       case "cancelled":
@@ -209,7 +289,21 @@ function OrdersManagement() {
     updateOrderStatusMutation.mutate({ orderId: order.id, status });
   };
 
-  const ordersNeedingErpSync = orders.filter((order) => order.erpSyncStatus !== "synced").length;
+  const handleDownloadOrderDocument = async (order: Order, kind: "invoice" | "delivery-note") => {
+    try {
+      await ecountService.downloadOrderDocument(order, kind);
+    } catch (error: any) {
+      toast({
+        title: "Download failed",
+        description: error.message || "Could not generate the document.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const ordersNeedingErpSync = orders.filter(
+    (order) => order.erpSyncStatus !== "synced" && order.erpSyncStatus !== "awaiting_payment" && order.erpSyncStatus !== "backordered"
+  ).length;
 
   const getStatusColor = (status: string) => {
     switch (normalizeOrderStatus(status)) {
@@ -218,6 +312,12 @@ function OrdersManagement() {
         return "bg-green-100 text-green-800";
       case "shipped":
         return "bg-blue-100 text-blue-800";
+      case "paid":
+        return "bg-emerald-100 text-emerald-800";
+      case "awaiting_payment":
+        return "bg-orange-100 text-orange-800";
+      case "backordered":
+        return "bg-blue-100 text-blue-800";
       case "processing":
         return "bg-amber-100 text-amber-800";
       default:
@@ -233,6 +333,12 @@ function OrdersManagement() {
         return <Badge className="bg-red-100 text-red-800 text-xs">✗ ERP Failed</Badge>;
       case "pending":
         return <Badge className="bg-amber-100 text-amber-800 text-xs">⏳ Pending</Badge>;
+      case "awaiting_payment":
+        return <Badge className="bg-orange-100 text-orange-800 text-xs">Awaiting Payment</Badge>;
+      case "backordered":
+        return <Badge className="bg-blue-100 text-blue-800 text-xs">Held (Backorder)</Badge>;
+      case "cancelled":
+        return <Badge className="bg-gray-100 text-gray-800 text-xs">Not Sent (Cancelled)</Badge>;
       default:
         return <Badge className="bg-gray-100 text-gray-800 text-xs">Unknown</Badge>;
     }
@@ -342,16 +448,9 @@ function OrdersManagement() {
             </thead>
             <tbody>
               {orders.map((order: Order) => {
-                // Defensive parsing for order items
-                let items: OrderItem[] = [];
-                try {
-                  items = JSON.parse(order.items);
-                } catch (e) {
-                  console.error(`Failed to parse items for order ${order.orderNumber}:`, e);
-                }
-                
-                const firstItem = items[0];
-                const remainingCount = items.length - 1;
+                const lines = getOrderLines(order);
+                const firstLine = lines[0];
+                const remainingCount = lines.length - 1;
 
                 return (
                   <tr key={order.id} className="border-b border-gray-100 hover:bg-gray-50" data-testid={`order-row-${order.id}`}>
@@ -388,9 +487,9 @@ function OrdersManagement() {
                     </td>
                     <td className="py-4 px-4">
                       <div className="text-sm">
-                        {firstItem ? (
+                        {firstLine ? (
                           <>
-                            <div>{firstItem.name} ({firstItem.quantity}x)</div>
+                            <div>{firstLine.productName} ({firstLine.quantity}x)</div>
                             {remainingCount > 0 && (
                               <div className="text-gray-500 text-xs">
                                 +{remainingCount} more item{remainingCount > 1 ? 's' : ''}
@@ -414,6 +513,16 @@ function OrdersManagement() {
                             {getIcePackSizeLabel(order.icePackSize)} Ice x {order.icePackQuantity || 1}
                           </Badge>
                         )}
+                        {order.priceMismatch && (
+                          <Badge className="bg-orange-100 text-orange-800 text-xs" data-testid={`price-drift-${order.id}`}>
+                            Price drift
+                          </Badge>
+                        )}
+                        {order.cancellationStatus === "requested" && (
+                          <Badge className="bg-red-100 text-red-800 text-xs" data-testid={`cancellation-requested-${order.id}`}>
+                            Cancellation requested
+                          </Badge>
+                        )}
                       </div>
                     </td>
                     <td className="py-4 px-4">
@@ -426,7 +535,7 @@ function OrdersManagement() {
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          {ORDER_STATUS_OPTIONS.map((status) => (
+                          {getStatusOptions(order.status).map((status) => (
                             <SelectItem key={status} value={status}>
                               {getStatusLabel(status)}
                             </SelectItem>
@@ -447,7 +556,7 @@ function OrdersManagement() {
                         >
                           View Details
                         </Button>
-                        {order.erpSyncStatus !== 'synced' && (
+                        {order.erpSyncStatus !== 'synced' && order.erpSyncStatus !== 'awaiting_payment' && order.erpSyncStatus !== 'backordered' && order.status !== 'cancelled' && (
                           <Button
                             variant="outline"
                             size="sm"
@@ -518,12 +627,7 @@ function OrdersManagement() {
           </DialogHeader>
 
           {selectedOrder && (() => {
-            let orderItems: OrderItem[] = [];
-            try {
-              orderItems = JSON.parse(selectedOrder.items);
-            } catch (e) {
-              console.error('Failed to parse order items:', e);
-            }
+            const orderLines = getOrderLines(selectedOrder);
 
             return (
               <div className="space-y-6 mt-4">
@@ -567,7 +671,7 @@ function OrdersManagement() {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {ORDER_STATUS_OPTIONS.map((status) => (
+                        {getStatusOptions(selectedOrder.status).map((status) => (
                           <SelectItem key={status} value={status}>
                             {getStatusLabel(status)}
                           </SelectItem>
@@ -643,18 +747,29 @@ function OrdersManagement() {
 
                 {/* Order Items */}
                 <div>
-                  <h4 className="font-semibold text-gray-800 mb-3">Order Items ({orderItems.length})</h4>
+                  <h4 className="font-semibold text-gray-800 mb-3">Order Items ({orderLines.length})</h4>
                   <div className="space-y-3">
-                    {orderItems.map((item, index) => (
-                      <div key={index} className="flex justify-between items-center p-3 border border-gray-200 rounded-lg">
+                    {orderLines.map((line) => (
+                      <div key={line.id} className="flex justify-between items-center p-3 border border-gray-200 rounded-lg">
                         <div>
-                          <p className="font-medium text-gray-800">{item.name}</p>
-                          <p className="text-sm text-gray-500">Ref: {item.referenceNumber}</p>
+                          <p className="font-medium text-gray-800">{line.productName}</p>
+                          <p className="text-sm text-gray-500">Ref: {line.referenceNumber || line.productCode}</p>
                         </div>
                         <div className="text-right">
-                          <p className="text-sm text-gray-600">{item.quantity}x @ TZS {parseFloat(item.price).toLocaleString()}</p>
+                          <p className="text-sm text-gray-600">{line.quantity}x @ TZS {parseFloat(line.unitPrice).toLocaleString()}</p>
+                          {parseFloat(line.discountAmount) > 0 && (
+                            <p className="text-xs text-emerald-700">- TZS {formatTzs(line.discountAmount)} {line.discountLabel}</p>
+                          )}
+                          {parseFloat(line.vatAmount) > 0 && (
+                            <p className="text-xs text-gray-500">+ TZS {formatTzs(line.vatAmount)} {getVatClassLabel(line.vatClass)}</p>
+                          )}
+                          {hasOrderLinePriceDrift(line) && (
+                            <p className="text-xs text-orange-700">
+                              Customer saw TZS {parseFloat(line.quotedUnitPrice || "0").toLocaleString()}
+                            </p>
+                          )}
                           <p className="font-semibold text-phomas-green">
-                            TZS {Math.round(item.quantity * parseFloat(item.price)).toLocaleString()}
+                            TZS {Math.round(parseFloat(line.lineTotal)).toLocaleString()}
                           </p>
                         </div>
                       </div>
@@ -669,6 +784,18 @@ function OrdersManagement() {
                       <span className="text-gray-600">Subtotal</span>
                       <span>TZS {Math.round(parseFloat(selectedOrder.subtotal)).toLocaleString()}</span>
                     </div>
+                    {parseFloat(selectedOrder.discountTotal) > 0 && (
+                      <div className="flex justify-between text-emerald-700">
+                        <span>Discounts{selectedOrder.couponCode ? ` (coupon ${selectedOrder.couponCode})` : ""}</span>
+                        <span>- TZS {formatTzs(selectedOrder.discountTotal)}</span>
+                      </div>
+                    )}
+                    {selectedOrder.priceMismatch && selectedOrder.quotedSubtotal && (
+                      <div className="flex justify-between text-orange-700">
+                        <span>Customer-quoted subtotal</span>
+                        <span>TZS {Math.round(parseFloat(selectedOrder.quotedSubtotal)).toLocaleString()}</span>
+                      </div>
+                    )}
                     {selectedOrder.deliveryOption === "delivery" && (
                       <div className="flex justify-between">
                         <span className="text-gray-600">
@@ -688,6 +815,12 @@ function OrdersManagement() {
                         <span>TZS {formatTzs(selectedOrder.icePackCost)}</span>
                       </div>
                     )}
+                    {parseFloat(selectedOrder.tax) > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">VAT</span>
+                        <span>TZS {formatTzs(selectedOrder.tax)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between font-bold text-lg border-t pt-2">
                       <span>Total</span>
                       <span className="text-phomas-green">TZS {Math.round(parseFloat(selectedOrder.total)).toLocaleString()}</span>
@@ -695,6 +828,78 @@ function OrdersManagement() {
                   </div>
                 </div>
 
+                {/* Customer Cancellation Request */}
+                {selectedOrder.cancellationStatus && (
+                  <div className={`p-3 rounded-lg text-sm ${selectedOrder.cancellationStatus === "requested" ? "bg-red-50" : "bg-gray-50"}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <p className="font-medium text-gray-700">
+                          {selectedOrder.cancellationStatus === "requested"
+                            ? "Customer requested cancellation"
+                            : selectedOrder.cancellationStatus === "approved"
+                              ? "Cancellation approved"
+                              : "Cancellation request declined"}
+                          {selectedOrder.cancellationRequestedAt
+                            ? ` on ${format(new Date(selectedOrder.cancellationRequestedAt), 'MMM d, yyyy \'at\' h:mm a')}`
+                            : ""}
+                        </p>
+                        {selectedOrder.cancellationReason && (
+                          <p className="text-gray-600 mt-1">Reason: {selectedOrder.cancellationReason}</p>
+                        )}
+                        {selectedOrder.erpReversalDocNumber && (
+                          <p className="text-gray-500 mt-1">eCount reversal: {selectedOrder.erpReversalDocNumber}</p>
+                        )}
+                      </div>
+                      {selectedOrder.cancellationStatus === "requested" && (
+                        <div className="flex items-center gap-2">
+                          <Button
+                            type="button"
+                            size="sm"
+                            className="bg-red-600 hover:bg-red-700"
+                            onClick={() => reviewCancellationMutation.mutate({ orderId: selectedOrder.id, decision: "approve" })}
+                            disabled={reviewCancellationMutation.isPending}
+                            data-testid="button-approve-cancellation"
+                          >
+                            Approve &amp; reverse
+                          </Button>
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            onClick={() => reviewCancellationMutation.mutate({ orderId: selectedOrder.id, decision: "reject" })}
+                            disabled={reviewCancellationMutation.isPending}
+                            data-testid="button-reject-cancellation"
+                          >
+                            Decline
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {/* Online Payments */}
+                {selectedOrderPayments.length > 0 && (
+                  <div className="p-3 bg-gray-50 rounded-lg text-sm space-y-1">
+                    <p className="font-medium text-gray-600">Payments</p>
+                    {selectedOrderPayments.map((payment) => (
+                      <div key={payment.id} className="flex justify-between gap-2">
+                        <span>
+                          {getMobileMoneyNetworkLabel(payment.network)} {payment.phone}
+                          {payment.providerReference ? ` · ${payment.providerReference}` : ""}
+                          {payment.failureReason ? ` · ${payment.failureReason}` : ""}
+                        </span>
+                        <span className={payment.status === "succeeded" ? "text-green-600" : payment.status === "pending" ? "text-amber-600" : "text-red-600"}>
+                          TZS {formatTzs(payment.amount)} {payment.status}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Order History */}
+                <OrderTimeline orderId={selectedOrder.id} showActors />
+
                 {/* ERP Sync Status */}
                 <div className="p-3 bg-gray-50 rounded-lg text-sm">
                   <div className="flex items-center justify-between">
@@ -714,44 +919,2105 @@ function OrdersManagement() {
                       )}
                     </div>
                     <div className="flex items-center gap-2">
-                      {getErpSyncBadge(selectedOrder.erpSyncStatus)}
-                      {selectedOrder.erpSyncStatus !== 'synced' && (
+                      {getErpSyncBadge(selectedOrder.erpSyncStatus)}
+                      {selectedOrder.erpSyncStatus !== 'synced' && selectedOrder.erpSyncStatus !== 'awaiting_payment' && selectedOrder.erpSyncStatus !== 'backordered' && selectedOrder.status !== 'cancelled' && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => syncOrderMutation.mutate(selectedOrder.id)}
+                          disabled={syncOrderMutation.isPending}
+                          data-testid={`button-sync-selected-order-${selectedOrder.id}`}
+                        >
+                          <RefreshCw className={`w-4 h-4 mr-2 ${syncOrderMutation.isPending ? "animate-spin" : ""}`} />
+                          {syncOrderMutation.isPending ? "Syncing..." : "Sync"}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                {/* Documents and Close Button */}
+                <div className="flex justify-end gap-2 pt-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => handleDownloadOrderDocument(selectedOrder, "invoice")}
+                    data-testid={`button-download-invoice-${selectedOrder.id}`}
+                  >
+                    <FileText className="w-4 h-4 mr-2" />
+                    Invoice PDF
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => handleDownloadOrderDocument(selectedOrder, "delivery-note")}
+                    data-testid={`button-download-delivery-note-${selectedOrder.id}`}
+                  >
+                    <Truck className="w-4 h-4 mr-2" />
+                    Delivery Note PDF
+                  </Button>
+                  <Button 
+                    onClick={() => setSelectedOrder(null)}
+                    className="bg-phomas-green hover:bg-phomas-green/90"
+                    data-testid="button-close-order-details"
+                  >
+                    Close
+                  </Button>
+                </div>
+              </div>
+            );
+          })()}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+// Security Management Component - admin password change
+type DeliveryZoneFormState = {
+  code: string;
+  name: string;
+  addressKeywords: string;
+  transportCost: string;
+  freeDeliveryMinimum: string;
+  weightThresholdKg: string;
+  extraCostPerKg: string;
+  sortOrder: string;
+  active: boolean;
+};
+
+const EMPTY_DELIVERY_ZONE_FORM: DeliveryZoneFormState = {
+  code: "",
+  name: "",
+  addressKeywords: "",
+  transportCost: "",
+  freeDeliveryMinimum: "",
+  weightThresholdKg: "",
+  extraCostPerKg: "0",
+  sortOrder: "0",
+  active: true,
+};
+
+const toDeliveryZoneFormState = (zone: DeliveryZone): DeliveryZoneFormState => ({
+  code: zone.code,
+  name: zone.name,
+  addressKeywords: (zone.addressKeywords ?? []).join(", "),
+  transportCost: zone.transportCost,
+  freeDeliveryMinimum: zone.freeDeliveryMinimum ?? "",
+  weightThresholdKg: zone.weightThresholdKg ?? "",
+  extraCostPerKg: zone.extraCostPerKg,
+  sortOrder: String(zone.sortOrder),
+  active: zone.active,
+});
+
+const parseOptionalNumberInput = (value: string) => (value.trim() ? Number(value) : null);
+
+// Delivery Zones Component - transport tariffs offered at checkout
+function DeliveryZonesManagement() {
+  const { toast } = useToast();
+  const [editingZone, setEditingZone] = useState<DeliveryZone | null>(null);
+  const [isZoneDialogOpen, setIsZoneDialogOpen] = useState(false);
+  const [zoneToDelete, setZoneToDelete] = useState<DeliveryZone | null>(null);
+  const [zoneForm, setZoneForm] = useState<DeliveryZoneFormState>(EMPTY_DELIVERY_ZONE_FORM);
+
+  const { data: zones = [], isLoading } = useQuery<DeliveryZone[]>({
+    queryKey: ["/api/admin/delivery-zones"],
+    queryFn: () => ecountService.getAdminDeliveryZones(),
+  });
+
+  const refreshZones = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/delivery-zones"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/delivery-zones"] });
+  };
+
+  const saveZoneMutation = useMutation({
+    mutationFn: async (form: DeliveryZoneFormState) => {
+      const payload = {
+        code: form.code.trim(),
+        name: form.name.trim(),
+        addressKeywords: form.addressKeywords.split(",").map((keyword) => keyword.trim()).filter(Boolean),
+        transportCost: Number(form.transportCost || 0),
+        freeDeliveryMinimum: parseOptionalNumberInput(form.freeDeliveryMinimum),
+        weightThresholdKg: parseOptionalNumberInput(form.weightThresholdKg),
+        extraCostPerKg: Number(form.extraCostPerKg || 0),
+        sortOrder: Number.parseInt(form.sortOrder || "0", 10) || 0,
+        active: form.active,
+      };
+
+      return editingZone
+        ? ecountService.updateDeliveryZone(editingZone.id, payload)
+        : ecountService.createDeliveryZone(payload);
+    },
+    onSuccess: (data) => {
+      refreshZones();
+      setIsZoneDialogOpen(false);
+      toast({
+        title: editingZone ? "Delivery Zone Updated" : "Delivery Zone Created",
+        description: data.zone.active
+          ? `${data.zone.name} is offered at checkout.`
+          : `${data.zone.name} is saved but hidden from checkout.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save delivery zone",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteZoneMutation = useMutation({
+    mutationFn: async (zoneId: string) => ecountService.deleteDeliveryZone(zoneId),
+    onSuccess: () => {
+      refreshZones();
+      setZoneToDelete(null);
+      toast({ title: "Delivery Zone Deleted" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "Failed to delete delivery zone",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openZoneDialog = (zone: DeliveryZone | null) => {
+    setEditingZone(zone);
+    setZoneForm(zone ? toDeliveryZoneFormState(zone) : EMPTY_DELIVERY_ZONE_FORM);
+    setIsZoneDialogOpen(true);
+  };
+
+  const updateZoneForm = (field: keyof DeliveryZoneFormState, value: string | boolean) => {
+    setZoneForm((current) => ({ ...current, [field]: value }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Truck className="w-5 h-5 text-phomas-green" />
+            Delivery Zones
+          </CardTitle>
+          <Button
+            onClick={() => openZoneDialog(null)}
+            className="bg-phomas-green hover:bg-phomas-green/90"
+            data-testid="button-add-delivery-zone"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Zone
+          </Button>
+        </div>
+        <p className="text-sm text-gray-600">
+          Checkout offers active zones in this order. Addresses that match no keywords fall back to the zone without keywords.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-gray-500">Loading delivery zones...</p>
+        ) : zones.length === 0 ? (
+          <p className="text-gray-500">No delivery zones configured. Checkout uses the default Dar es Salaam tariffs.</p>
+        ) : (
+          <div className="space-y-3">
+            {zones.map((zone) => (
+              <div
+                key={zone.id}
+                className="flex items-start justify-between rounded-lg border border-gray-200 p-4"
+                data-testid={`delivery-zone-${zone.code}`}
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{zone.name}</span>
+                    <span className="text-xs text-gray-500">{zone.code}</span>
+                    {!zone.active && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    TZS {Number(zone.transportCost).toLocaleString()}
+                    {zone.weightThresholdKg !== null && Number(zone.extraCostPerKg) > 0
+                      ? ` + TZS ${Number(zone.extraCostPerKg).toLocaleString()}/kg over ${Number(zone.weightThresholdKg)} kg`
+                      : ""}
+                    {zone.freeDeliveryMinimum !== null
+                      ? ` · free from TZS ${Number(zone.freeDeliveryMinimum).toLocaleString()}`
+                      : ""}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {zone.addressKeywords?.length ? `Keywords: ${zone.addressKeywords.join(", ")}` : "Fallback zone (no keywords)"}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openZoneDialog(zone)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setZoneToDelete(zone)}>
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isZoneDialogOpen} onOpenChange={setIsZoneDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingZone ? `Edit ${editingZone.name}` : "Add Delivery Zone"}</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="zone-name">Name</Label>
+              <Input id="zone-name" value={zoneForm.name} onChange={(e) => updateZoneForm("name", e.target.value)} placeholder="Arusha" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="zone-code">Code</Label>
+              <Input
+                id="zone-code"
+                value={zoneForm.code}
+                onChange={(e) => updateZoneForm("code", e.target.value.toLowerCase())}
+                placeholder="arusha"
+                disabled={!!editingZone}
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="zone-keywords">Address keywords (comma separated)</Label>
+              <Input
+                id="zone-keywords"
+                value={zoneForm.addressKeywords}
+                onChange={(e) => updateZoneForm("addressKeywords", e.target.value)}
+                placeholder="arusha, usa river"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="zone-transport-cost">Transport cost (TZS)</Label>
+              <Input id="zone-transport-cost" type="number" min="0" value={zoneForm.transportCost} onChange={(e) => updateZoneForm("transportCost", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="zone-free-minimum">Free delivery from (TZS)</Label>
+              <Input id="zone-free-minimum" type="number" min="0" value={zoneForm.freeDeliveryMinimum} onChange={(e) => updateZoneForm("freeDeliveryMinimum", e.target.value)} placeholder="Never free" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="zone-weight-threshold">Included weight (kg)</Label>
+              <Input id="zone-weight-threshold" type="number" min="0" value={zoneForm.weightThresholdKg} onChange={(e) => updateZoneForm("weightThresholdKg", e.target.value)} placeholder="Flat rate" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="zone-extra-cost">Extra per kg (TZS)</Label>
+              <Input id="zone-extra-cost" type="number" min="0" value={zoneForm.extraCostPerKg} onChange={(e) => updateZoneForm("extraCostPerKg", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="zone-sort-order">Sort order</Label>
+              <Input id="zone-sort-order" type="number" value={zoneForm.sortOrder} onChange={(e) => updateZoneForm("sortOrder", e.target.value)} />
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Switch id="zone-active" checked={zoneForm.active} onCheckedChange={(checked) => updateZoneForm("active", checked)} />
+              <Label htmlFor="zone-active">Offered at checkout</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsZoneDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveZoneMutation.mutate(zoneForm)}
+              disabled={saveZoneMutation.isPending || !zoneForm.name.trim() || !zoneForm.code.trim() || !zoneForm.transportCost}
+              className="bg-phomas-green hover:bg-phomas-green/90"
+              data-testid="button-save-delivery-zone"
+            >
+              {saveZoneMutation.isPending ? "Saving..." : "Save Zone"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!zoneToDelete} onOpenChange={(open) => !open && setZoneToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {zoneToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Existing orders keep the zone code, but customers can no longer pick this zone. Deactivate the zone instead if you may need it again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => zoneToDelete && deleteZoneMutation.mutate(zoneToDelete.id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+// Standing Orders Component - customers' scheduled repeat orders
+function StandingOrdersManagement() {
+  const { toast } = useToast();
+  const [editingStandingOrder, setEditingStandingOrder] = useState<StandingOrder | null>(null);
+  const [scheduleForm, setScheduleForm] = useState({ cadence: "monthly" as StandingOrderCadence, nextRunDate: "" });
+
+  const { data: standingOrders = [], isLoading } = useQuery<StandingOrder[]>({
+    queryKey: ["/api/admin/standing-orders"],
+    queryFn: () => ecountService.getAllStandingOrders(),
+  });
+
+  const handleStandingOrderUpdated = (data: { message: string }) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/standing-orders"] });
+    setEditingStandingOrder(null);
+    toast({ title: "Standing Order Updated", description: data.message });
+  };
+
+  const handleStandingOrderError = (error: unknown) => {
+    toast({
+      title: "Update Failed",
+      description: error instanceof Error ? error.message : "Failed to update standing order",
+      variant: "destructive",
+    });
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: ({ standingOrder, action }: { standingOrder: StandingOrder; action: StandingOrderAction }) =>
+      ecountService.adminApplyStandingOrderAction(standingOrder.id, action),
+    onSuccess: handleStandingOrderUpdated,
+    onError: handleStandingOrderError,
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: (standingOrder: StandingOrder) => {
+      const dateChanged = format(new Date(standingOrder.nextRunAt), "yyyy-MM-dd") !== scheduleForm.nextRunDate;
+      return ecountService.adminUpdateStandingOrder(standingOrder.id, {
+        cadence: scheduleForm.cadence,
+        ...(dateChanged ? { nextRunAt: new Date(`${scheduleForm.nextRunDate}T00:00:00`) } : {}),
+      });
+    },
+    onSuccess: handleStandingOrderUpdated,
+    onError: handleStandingOrderError,
+  });
+
+  const openScheduleDialog = (standingOrder: StandingOrder) => {
+    setEditingStandingOrder(standingOrder);
+    setScheduleForm({
+      cadence: standingOrder.cadence as StandingOrderCadence,
+      nextRunDate: format(new Date(standingOrder.nextRunAt), "yyyy-MM-dd"),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-phomas-green" />
+          Standing Orders
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading standing orders...</p>
+        ) : standingOrders.length === 0 ? (
+          <p className="text-sm text-gray-500">No customer has set up a standing order yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {standingOrders.map((standingOrder) => (
+              <div key={standingOrder.id} className="flex flex-wrap items-start justify-between gap-3 p-4 border border-gray-200 rounded-lg">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-gray-900">{standingOrder.name}</p>
+                    <Badge className={standingOrder.status === "paused" ? "bg-gray-100 text-gray-700" : "bg-green-100 text-green-800"}>
+                      {standingOrder.status === "paused" ? "Paused" : "Active"}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {standingOrder.customerCompany || standingOrder.customerName} · {standingOrder.customerEmail}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {getStandingOrderCadenceLabel(standingOrder.cadence)} · {standingOrder.items.length} item
+                    {standingOrder.items.length === 1 ? "" : "s"} · next {format(new Date(standingOrder.nextRunAt), "MMM d, yyyy")}
+                  </p>
+                  {standingOrder.lastRunAt && (
+                    <p className={`text-xs ${standingOrder.lastRunStatus === "failed" ? "text-red-700" : "text-gray-500"}`}>
+                      Last run {format(new Date(standingOrder.lastRunAt), "MMM d, yyyy HH:mm")}: {standingOrder.lastRunMessage}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openScheduleDialog(standingOrder)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  {standingOrder.status === "active" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => actionMutation.mutate({ standingOrder, action: "skip" })}
+                      disabled={actionMutation.isPending}
+                      title="Skip next order"
+                    >
+                      <SkipForward className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => actionMutation.mutate({ standingOrder, action: standingOrder.status === "active" ? "pause" : "resume" })}
+                    disabled={actionMutation.isPending}
+                    title={standingOrder.status === "active" ? "Pause" : "Resume"}
+                  >
+                    {standingOrder.status === "active" ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editingStandingOrder} onOpenChange={(open) => !open && setEditingStandingOrder(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingStandingOrder ? `Reschedule ${editingStandingOrder.name}` : "Reschedule"}</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Repeat</Label>
+              <Select
+                value={scheduleForm.cadence}
+                onValueChange={(value) => setScheduleForm((current) => ({ ...current, cadence: value as StandingOrderCadence }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STANDING_ORDER_CADENCE_VALUES.map((cadence) => (
+                    <SelectItem key={cadence} value={cadence}>
+                      {getStandingOrderCadenceLabel(cadence)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="standing-order-next-run">Next order on</Label>
+              <Input
+                id="standing-order-next-run"
+                type="date"
+                value={scheduleForm.nextRunDate}
+                onChange={(e) => setScheduleForm((current) => ({ ...current, nextRunDate: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingStandingOrder(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => editingStandingOrder && scheduleMutation.mutate(editingStandingOrder)}
+              disabled={scheduleMutation.isPending || !scheduleForm.nextRunDate}
+              className="bg-phomas-green hover:bg-phomas-green/90"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+const SYNC_JOB_STATUS_COLORS: Record<SyncJobStatus, string> = {
+  pending: "bg-blue-100 text-blue-800",
+  running: "bg-amber-100 text-amber-800",
+  succeeded: "bg-green-100 text-green-800",
+  dead: "bg-red-100 text-red-800",
+  discarded: "bg-gray-100 text-gray-700",
+};
+
+// Sync Jobs Component - the eCount order queue; jobs that ran out of attempts wait here as dead letters
+function SyncJobsManagement() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<SyncJobStatus | "all">("dead");
+
+  const { data: jobs = [], isLoading, isFetching, refetch } = useQuery<SyncJobWithOrder[]>({
+    queryKey: ["/api/admin/sync-jobs", statusFilter],
+    queryFn: () => ecountService.getSyncJobs(statusFilter === "all" ? undefined : statusFilter),
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ job, action }: { job: SyncJobWithOrder; action: "requeue" | "discard" }) =>
+      action === "requeue" ? ecountService.requeueSyncJob(job.id) : ecountService.discardSyncJob(job.id),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sync-jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      toast({ title: "Sync Job Updated", description: data.message });
+    },
+    onError: (error) => {
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Failed to update sync job",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="w-5 h-5 text-phomas-green" />
+            Sync Jobs
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as SyncJobStatus | "all")}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All jobs</SelectItem>
+                {SYNC_JOB_STATUS_VALUES.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {getSyncJobStatusLabel(status)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching} title="Refresh">
+              <RefreshCw className={`w-4 h-4 ${isFetching ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading sync jobs...</p>
+        ) : jobs.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {statusFilter === "dead" ? "No dead-lettered jobs. Every order is either synced or still being retried." : "No sync jobs match this filter."}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {jobs.map((job) => (
+              <div key={job.id} className="flex flex-wrap items-start justify-between gap-3 p-4 border border-gray-200 rounded-lg">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-gray-900">{job.orderNumber || job.subjectId}</p>
+                    <Badge className={SYNC_JOB_STATUS_COLORS[job.status as SyncJobStatus] || "bg-gray-100 text-gray-700"}>
+                      {getSyncJobStatusLabel(job.status)}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {getSyncJobTypeLabel(job.jobType)}
+                    {job.customerName ? ` · ${job.customerName}` : ""} · attempt {job.attempts} of {job.maxAttempts}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {job.status === "pending"
+                      ? `Next run ${format(new Date(job.runAt), "MMM d, yyyy HH:mm")}`
+                      : job.status === "running" && job.leaseExpiresAt
+                        ? `Leased by ${job.leaseOwner} until ${format(new Date(job.leaseExpiresAt), "HH:mm")}`
+                        : job.updatedAt
+                          ? `Updated ${format(new Date(job.updatedAt), "MMM d, yyyy HH:mm")}`
+                          : null}
+                  </p>
+                  {job.lastError && <p className="text-xs text-red-700 break-all">{job.lastError}</p>}
+                </div>
+                <div className="flex gap-2">
+                  {["pending", "dead", "discarded"].includes(job.status) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => actionMutation.mutate({ job, action: "requeue" })}
+                      disabled={actionMutation.isPending}
+                      title="Requeue and run now"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {["pending", "dead"].includes(job.status) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => actionMutation.mutate({ job, action: "discard" })}
+                      disabled={actionMutation.isPending}
+                      title="Discard"
+                    >
+                      <Ban className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const ERP_RECONCILIATION_ISSUE_COLORS: Record<ErpReconciliationIssueType, string> = {
+  missing: "bg-red-100 text-red-800",
+  duplicated: "bg-amber-100 text-amber-800",
+  amount_mismatch: "bg-orange-100 text-orange-800",
+  unexpected: "bg-purple-100 text-purple-800",
+};
+
+const formatReconciliationAmount = (amount: number | null) =>
+  amount === null ? "—" : `TZS ${amount.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+
+// ERP Reconciliation Component - web orders checked against eCount sale documents, for finance
+function ErpReconciliationManagement() {
+  const { toast } = useToast();
+  const [period, setPeriod] = useState(() => ({
+    from: format(subDays(new Date(), 7), "yyyy-MM-dd"),
+    to: format(subDays(new Date(), 1), "yyyy-MM-dd"),
+  }));
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+  const { data: runs = [], isLoading } = useQuery<ErpReconciliationRunSummary[]>({
+    queryKey: ["/api/admin/erp-reconciliation"],
+    queryFn: () => ecountService.getErpReconciliationRuns(),
+  });
+
+  const activeRunId = selectedRunId ?? runs[0]?.id ?? null;
+  const { data: activeRun, isFetching: isFetchingRun } = useQuery<ErpReconciliationRun>({
+    queryKey: ["/api/admin/erp-reconciliation", activeRunId],
+    queryFn: () => ecountService.getErpReconciliationRun(activeRunId!),
+    enabled: Boolean(activeRunId),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: () => ecountService.runErpReconciliation(period),
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/erp-reconciliation"] });
+      setSelectedRunId(run.id);
+      toast({
+        title: "Reconciliation Complete",
+        description: `${run.matchedCount} documents matched, ${run.issueCount} issues found`,
+      });
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/erp-reconciliation"] });
+      toast({
+        title: "Reconciliation Failed",
+        description: error instanceof Error ? error.message : "Failed to reconcile against eCount",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="w-5 h-5 text-phomas-green" />
+            ERP Reconciliation
+          </CardTitle>
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="reconciliation-from">Orders from</Label>
+              <Input
+                id="reconciliation-from"
+                type="date"
+                value={period.from}
+                onChange={(event) => setPeriod((current) => ({ ...current, from: event.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="reconciliation-to">to</Label>
+              <Input
+                id="reconciliation-to"
+                type="date"
+                value={period.to}
+                onChange={(event) => setPeriod((current) => ({ ...current, to: event.target.value }))}
+              />
+            </div>
+            <Button
+              onClick={() => runMutation.mutate()}
+              disabled={runMutation.isPending || !period.from || !period.to}
+              className="bg-phomas-green hover:bg-phomas-green/90"
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${runMutation.isPending ? "animate-spin" : ""}`} />
+              {runMutation.isPending ? "Reconciling..." : "Reconcile"}
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-500">
+          Every web order should exist once in eCount as sale order WEB-&lt;order number&gt;, for its discounted subtotal plus VAT.
+          Runs nightly for the last 7 days; days are UTC.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading reconciliation runs...</p>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-gray-500">No reconciliation has run yet.</p>
+        ) : (
+          <>
+            <Select value={activeRunId ?? undefined} onValueChange={setSelectedRunId}>
+              <SelectTrigger className="w-full md:w-[28rem]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {runs.map((run) => (
+                  <SelectItem key={run.id} value={run.id}>
+                    {run.periodFrom} to {run.periodTo} · {run.status === "completed" ? `${run.issueCount} issues` : "failed"}
+                    {run.createdAt ? ` · ${format(new Date(run.createdAt), "MMM d, HH:mm")}` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {!activeRun || isFetchingRun ? (
+              <p className="text-sm text-gray-500">Loading report...</p>
+            ) : activeRun.status !== "completed" ? (
+              <div className="p-4 border border-red-200 bg-red-50 rounded-lg text-sm text-red-800">
+                Could not read eCount for this run: {activeRun.error || "unknown error"}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <Badge variant="outline">{activeRun.ordersChecked} web orders</Badge>
+                  <Badge variant="outline">{activeRun.documentsChecked} eCount documents</Badge>
+                  <Badge className="bg-green-100 text-green-800">{activeRun.matchedCount} matched</Badge>
+                  <Badge className={activeRun.issueCount > 0 ? "bg-red-100 text-red-800" : "bg-green-100 text-green-800"}>
+                    {activeRun.issueCount} issues
+                  </Badge>
+                  <span className="text-gray-500">Run by {activeRun.triggeredBy}</span>
+                </div>
+                {activeRun.issues.length === 0 ? (
+                  <p className="text-sm text-gray-500">Every web order in this period is in eCount once, for the right amount.</p>
+                ) : (
+                  activeRun.issues.map((issue) => (
+                    <div key={`${issue.type}-${issue.reference}`} className="p-4 border border-gray-200 rounded-lg space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="font-medium text-gray-900">{issue.reference}</p>
+                        <Badge className={ERP_RECONCILIATION_ISSUE_COLORS[issue.type] || "bg-gray-100 text-gray-700"}>
+                          {getErpReconciliationIssueLabel(issue.type)}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-gray-600">{issue.message}</p>
+                      <p className="text-xs text-gray-500">
+                        Expected {formatReconciliationAmount(issue.expectedAmount)} · eCount {formatReconciliationAmount(issue.erpAmount)}
+                        {issue.docNumbers.length > 0 ? ` · Documents ${issue.docNumbers.join(", ")}` : ""}
+                      </p>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Stock Lots Component - lot numbers and expiry dates imported from the warehouse lot file
+function StockLotsManagement() {
+  const { toast } = useToast();
+  const [lotFile, setLotFile] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [lastImport, setLastImport] = useState<StockLotImportResult | null>(null);
+  const [search, setSearch] = useState("");
+
+  const { data: lots = [], isLoading } = useQuery<StockLotWithAvailability[]>({
+    queryKey: ["/api/admin/stock-lots"],
+    queryFn: () => ecountService.getStockLots(),
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => ecountService.uploadStockLots(file),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stock-lots"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      setLastImport(result.data);
+      setLotFile(null);
+      setFileInputKey((key) => key + 1);
+      toast({ title: "Lot file imported", description: result.message });
+    },
+    onError: (error) => {
+      toast({
+        title: "Lot import failed",
+        description: error instanceof Error ? error.message : "Failed to import the lot file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const query = search.trim().toLowerCase();
+  const visibleLots = query
+    ? lots.filter((lot) => lot.productCode.toLowerCase().includes(query) || lot.lotNumber.toLowerCase().includes(query))
+    : lots;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="w-5 h-5 text-phomas-green" />
+            Stock Lots
+          </CardTitle>
+          <div className="flex flex-wrap items-end gap-2">
+            <Input
+              key={fileInputKey}
+              type="file"
+              accept=".xlsx,.xls,.csv"
+              className="w-64"
+              onChange={(event) => setLotFile(event.target.files?.[0] ?? null)}
+            />
+            <Button
+              onClick={() => lotFile && uploadMutation.mutate(lotFile)}
+              disabled={!lotFile || uploadMutation.isPending}
+              className="bg-phomas-green hover:bg-phomas-green/90"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {uploadMutation.isPending ? "Importing..." : "Import Lot File"}
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-500">
+          Upload the warehouse stock-by-lot export (Item Code, Lot/Batch, Expiry, Qty). It replaces the lots of every product it lists.
+          Orders are picked from the lot that expires first; products show the expiry of their first saleable lot.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lastImport && lastImport.skippedRows.length > 0 && (
+          <div className="p-4 border border-amber-200 bg-amber-50 rounded-lg text-sm text-amber-800 space-y-1">
+            <p className="font-medium">{lastImport.skippedRows.length} rows were skipped:</p>
+            {lastImport.skippedRows.slice(0, 10).map((row) => (
+              <p key={row.row}>Row {row.row}: {row.reason}</p>
+            ))}
+          </div>
+        )}
+
+        <Input
+          placeholder="Search by product code or lot number"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          className="md:w-80"
+        />
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading stock lots...</p>
+        ) : visibleLots.length === 0 ? (
+          <p className="text-sm text-gray-500">{lots.length === 0 ? "No lot file has been imported yet." : "No lots match your search."}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-2 pr-4">Product</th>
+                  <th className="py-2 pr-4">Lot</th>
+                  <th className="py-2 pr-4">Expiry</th>
+                  <th className="py-2 pr-4 text-right">On hand</th>
+                  <th className="py-2 pr-4 text-right">Allocated</th>
+                  <th className="py-2 text-right">Available</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleLots.map((lot) => {
+                  const expiresAt = lot.expiresAt ? new Date(lot.expiresAt) : null;
+                  return (
+                    <tr key={lot.id} className="border-b last:border-0">
+                      <td className="py-2 pr-4 font-medium text-gray-900">{lot.productCode}</td>
+                      <td className="py-2 pr-4">{lot.lotNumber}</td>
+                      <td className="py-2 pr-4">
+                        <span className="mr-2">{formatLotExpiry(expiresAt)}</span>
+                        {isLotExpired(expiresAt) ? (
+                          <Badge className="bg-red-100 text-red-800">Expired</Badge>
+                        ) : isLotExpiringSoon(expiresAt) ? (
+                          <Badge className="bg-amber-100 text-amber-800">Expiring soon</Badge>
+                        ) : null}
+                      </td>
+                      <td className="py-2 pr-4 text-right">{lot.quantity}</td>
+                      <td className="py-2 pr-4 text-right">{lot.allocatedQuantity}</td>
+                      <td className="py-2 text-right">{lot.availableQuantity}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Stock Alerts Component - reorder points per product or category, and the purchasing restock digest
+function StockAlertsManagement() {
+  const { toast } = useToast();
+  const [thresholdForm, setThresholdForm] = useState<{ scope: StockThresholdScope; target: string; reorderPoint: string }>({
+    scope: "product",
+    target: "",
+    reorderPoint: "",
+  });
+  const [lastCheck, setLastCheck] = useState<StockAlertRunResult | null>(null);
+
+  const { data: thresholds = [], isLoading } = useQuery<StockThreshold[]>({
+    queryKey: ["/api/admin/stock-thresholds"],
+    queryFn: () => ecountService.getStockThresholds(),
+  });
+
+  const handleThresholdError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const saveThresholdMutation = useMutation({
+    mutationFn: () => ecountService.saveStockThreshold({
+      scope: thresholdForm.scope,
+      target: thresholdForm.target,
+      reorderPoint: Number(thresholdForm.reorderPoint),
+    }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stock-thresholds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      setThresholdForm((current) => ({ ...current, target: "", reorderPoint: "" }));
+      toast({ title: "Reorder Point Saved", description: data.message });
+    },
+    onError: handleThresholdError("Save Failed"),
+  });
+
+  const deleteThresholdMutation = useMutation({
+    mutationFn: (thresholdId: string) => ecountService.deleteStockThreshold(thresholdId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stock-thresholds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({ title: "Reorder Point Removed" });
+    },
+    onError: handleThresholdError("Delete Failed"),
+  });
+
+  const checkMutation = useMutation({
+    mutationFn: () => ecountService.runStockAlertCheck(),
+    onSuccess: (result) => {
+      setLastCheck(result);
+      toast({
+        title: "Stock Check Complete",
+        description: result.alerts.length === 0
+          ? `${result.checked} products checked, nothing new below its reorder point`
+          : `${result.alerts.length} products below reorder point${result.emailed ? ", purchasing emailed" : ""}`,
+        variant: result.error ? "destructive" : undefined,
+      });
+    },
+    onError: handleThresholdError("Stock Check Failed"),
+  });
+
+  const reorderPoint = Number(thresholdForm.reorderPoint);
+  const canSave = thresholdForm.target.trim() !== "" && thresholdForm.reorderPoint !== "" && Number.isInteger(reorderPoint) && reorderPoint >= 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="w-5 h-5 text-phomas-green" />
+            Stock Alerts
+          </CardTitle>
+          <Button
+            onClick={() => checkMutation.mutate()}
+            disabled={checkMutation.isPending}
+            className="bg-phomas-green hover:bg-phomas-green/90"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${checkMutation.isPending ? "animate-spin" : ""}`} />
+            {checkMutation.isPending ? "Checking..." : "Check Stock Now"}
+          </Button>
+        </div>
+        <p className="text-sm text-gray-500">
+          A product is low on stock below its reorder point: its own, else its category's, else {DEFAULT_REORDER_POINT} units.
+          Every morning purchasing is emailed the products that dropped below their reorder point or ran out since the previous check.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lastCheck && (
+          <div className={`p-4 border rounded-lg text-sm space-y-1 ${lastCheck.error ? "border-red-200 bg-red-50 text-red-800" : "border-gray-200"}`}>
+            <p className="font-medium">
+              {lastCheck.checked} products checked · {lastCheck.alerts.length} new restock alerts
+              {lastCheck.alerts.length > 0 ? (lastCheck.emailed ? " · emailed to purchasing" : " · not emailed") : ""}
+            </p>
+            {lastCheck.error && <p>Email failed: {lastCheck.error}</p>}
+            {lastCheck.alerts.map((alert) => (
+              <p key={alert.productCode} className="text-gray-600">
+                {alert.name} ({alert.productCode}): {alert.availableQuantity} available, reorder point {alert.reorderPoint} · {getStockStatusLabel(alert.stockStatus)}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label>Applies to</Label>
+            <Select
+              value={thresholdForm.scope}
+              onValueChange={(scope) => setThresholdForm((current) => ({ ...current, scope: scope as StockThresholdScope }))}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="product">Product code</SelectItem>
+                <SelectItem value="category">Category</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="threshold-target">{thresholdForm.scope === "product" ? "Product code" : "Category"}</Label>
+            <Input
+              id="threshold-target"
+              value={thresholdForm.target}
+              placeholder={thresholdForm.scope === "product" ? "e.g. 10422" : "e.g. Test Kits"}
+              onChange={(event) => setThresholdForm((current) => ({ ...current, target: event.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="threshold-reorder-point">Reorder point</Label>
+            <Input
+              id="threshold-reorder-point"
+              type="number"
+              min={0}
+              className="w-32"
+              value={thresholdForm.reorderPoint}
+              onChange={(event) => setThresholdForm((current) => ({ ...current, reorderPoint: event.target.value }))}
+            />
+          </div>
+          <Button onClick={() => saveThresholdMutation.mutate()} disabled={!canSave || saveThresholdMutation.isPending}>
+            <Plus className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading reorder points...</p>
+        ) : thresholds.length === 0 ? (
+          <p className="text-sm text-gray-500">No reorder points yet; every product uses {DEFAULT_REORDER_POINT} units.</p>
+        ) : (
+          <div className="space-y-2">
+            {thresholds.map((threshold) => (
+              <div key={threshold.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{threshold.scope === "product" ? "Product" : "Category"}</Badge>
+                  <span className="font-medium text-gray-900">{threshold.target}</span>
+                  <span className="text-sm text-gray-500">low below {threshold.reorderPoint} units</span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteThresholdMutation.mutate(threshold.id)}
+                  disabled={deleteThresholdMutation.isPending}
+                >
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function BackordersManagement() {
+  const { toast } = useToast();
+  const [backorderForm, setBackorderForm] = useState({ productCode: "", expectedArrivalAt: "" });
+  const [lastRelease, setLastRelease] = useState<BackorderReleaseSummary | null>(null);
+
+  const { data: backorderProducts = [], isLoading } = useQuery<BackorderProduct[]>({
+    queryKey: ["/api/admin/backorder-products"],
+    queryFn: () => ecountService.getBackorderProducts(),
+  });
+
+  const handleBackorderError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const saveBackorderMutation = useMutation({
+    mutationFn: () => ecountService.saveBackorderProduct(backorderForm),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/backorder-products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      setBackorderForm({ productCode: "", expectedArrivalAt: "" });
+      toast({ title: "Backorders Enabled", description: data.message });
+    },
+    onError: handleBackorderError("Save Failed"),
+  });
+
+  const deleteBackorderMutation = useMutation({
+    mutationFn: (productCode: string) => ecountService.deleteBackorderProduct(productCode),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/backorder-products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({ title: "Backorders Disabled" });
+    },
+    onError: handleBackorderError("Delete Failed"),
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: () => ecountService.releaseBackorders(),
+    onSuccess: (result) => {
+      setLastRelease(result.data);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      toast({ title: "Backorders Checked", description: result.message });
+    },
+    onError: handleBackorderError("Release Failed"),
+  });
+
+  const canSave = backorderForm.productCode.trim() !== "" && backorderForm.expectedArrivalAt !== "";
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <Truck className="w-5 h-5 text-phomas-green" />
+            Backorders
+          </CardTitle>
+          <Button
+            onClick={() => releaseMutation.mutate()}
+            disabled={releaseMutation.isPending}
+            className="bg-phomas-green hover:bg-phomas-green/90"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${releaseMutation.isPending ? "animate-spin" : ""}`} />
+            {releaseMutation.isPending ? "Checking..." : "Release Arrived Stock"}
+          </Button>
+        </div>
+        <p className="text-sm text-gray-500">
+          Customers may order these products beyond stock on hand. Checkout puts the extra units on a separate backordered
+          order, which is held back from eCount until an inventory refresh shows enough stock for all of it.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lastRelease && (
+          <div className="p-4 border border-gray-200 rounded-lg text-sm space-y-1">
+            <p className="font-medium">
+              {lastRelease.released.length} released · {lastRelease.waiting} still waiting for stock
+            </p>
+            {lastRelease.released.length > 0 && <p className="text-gray-600">{lastRelease.released.join(", ")}</p>}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="backorder-product-code">Product code</Label>
+            <Input
+              id="backorder-product-code"
+              value={backorderForm.productCode}
+              placeholder="e.g. 10422"
+              onChange={(event) => setBackorderForm((current) => ({ ...current, productCode: event.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="backorder-expected-arrival">Expected arrival</Label>
+            <Input
+              id="backorder-expected-arrival"
+              type="date"
+              className="w-44"
+              value={backorderForm.expectedArrivalAt}
+              onChange={(event) => setBackorderForm((current) => ({ ...current, expectedArrivalAt: event.target.value }))}
+            />
+          </div>
+          <Button onClick={() => saveBackorderMutation.mutate()} disabled={!canSave || saveBackorderMutation.isPending}>
+            <Plus className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading backorderable products...</p>
+        ) : backorderProducts.length === 0 ? (
+          <p className="text-sm text-gray-500">No products can be backordered; customers are held to stock on hand.</p>
+        ) : (
+          <div className="space-y-2">
+            {backorderProducts.map((product) => (
+              <div key={product.productCode} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{product.productCode}</span>
+                  <span className="text-sm text-gray-500">expected {formatExpectedArrival(product.expectedArrivalAt)}</span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteBackorderMutation.mutate(product.productCode)}
+                  disabled={deleteBackorderMutation.isPending}
+                >
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const INVENTORY_REPORT_DAY_OPTIONS = [7, 30, 90];
+const VISIBLE_MOVEMENT_ROWS = 50;
+
+const stockHistoryChartConfig = {
+  quantity: { label: "Closing stock", color: "var(--phomas-green)" },
+} satisfies ChartConfig;
+
+function StockHistoryManagement() {
+  const [days, setDays] = useState(DEFAULT_INVENTORY_REPORT_DAYS);
+  const [search, setSearch] = useState("");
+  const [selectedCode, setSelectedCode] = useState<string | null>(null);
+
+  const { data: report, isLoading, error } = useQuery<InventoryReport>({
+    queryKey: ["/api/admin/inventory-report", days, selectedCode],
+    queryFn: () => ecountService.getInventoryReport(days, selectedCode),
+  });
+
+  const query = search.trim().toLowerCase();
+  const products = report?.products ?? [];
+  const visibleProducts = (query
+    ? products.filter((product) => product.productCode.toLowerCase().includes(query) || product.name.toLowerCase().includes(query))
+    : products
+  ).slice(0, VISIBLE_MOVEMENT_ROWS);
+  const selectedProduct = products.find((product) => product.productCode === selectedCode);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <Activity className="w-5 h-5 text-phomas-green" />
+            Stock History
+          </CardTitle>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INVENTORY_REPORT_DAY_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>Last {option} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-sm text-gray-500">
+          Every inventory refresh from eCount is saved as a snapshot. Days of cover is current stock divided by the
+          units web customers ordered per day over the period; cancelled orders are left out.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading stock history...</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error instanceof Error ? error.message : "Failed to load stock history"}</p>
+        ) : report && (
+          <>
+            <p className="text-sm text-gray-600">
+              {report.snapshotCount} snapshots in the last {report.days} days
+              {report.lastSnapshotAt ? ` · latest ${format(new Date(report.lastSnapshotAt), "d MMM yyyy HH:mm")}` : " · none taken yet"}
+            </p>
+
+            {selectedCode && report.history && (
+              <div className="p-4 border border-gray-200 rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium text-gray-900">
+                    {selectedProduct?.name ?? selectedCode} ({selectedCode})
+                  </p>
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedCode(null)}>Close</Button>
+                </div>
+                {report.history.points.length === 0 ? (
+                  <p className="text-sm text-gray-500">No snapshots of this product in the period.</p>
+                ) : (
+                  <ChartContainer config={stockHistoryChartConfig} className="h-64 w-full">
+                    <LineChart data={report.history.points} margin={{ left: 8, right: 8 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(date: string) => format(new Date(date), "d MMM")} />
+                      <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Line dataKey="quantity" type="stepAfter" stroke="var(--color-quantity)" strokeWidth={2} dot={false} />
+                    </LineChart>
+                  </ChartContainer>
+                )}
+              </div>
+            )}
+
+            <Input
+              placeholder="Search product code or name"
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              className="md:w-80"
+            />
+
+            {visibleProducts.length === 0 ? (
+              <p className="text-sm text-gray-500">{products.length === 0 ? "No snapshots or web orders in this period yet." : "No products match your search."}</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-500">
+                      <th className="py-2 pr-4">Product</th>
+                      <th className="py-2 pr-4 text-right">Start</th>
+                      <th className="py-2 pr-4 text-right">Now</th>
+                      <th className="py-2 pr-4 text-right">Ordered</th>
+                      <th className="py-2 pr-4 text-right">Per day</th>
+                      <th className="py-2 text-right">Days of cover</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleProducts.map((product) => (
+                      <tr
+                        key={product.productCode}
+                        className={`border-b last:border-0 cursor-pointer hover:bg-gray-50 ${product.productCode === selectedCode ? "bg-gray-50" : ""}`}
+                        onClick={() => setSelectedCode(product.productCode)}
+                      >
+                        <td className="py-2 pr-4">
+                          <span className="font-medium text-gray-900">{product.name}</span>
+                          <span className="ml-2 text-xs text-gray-500">{product.productCode}</span>
+                        </td>
+                        <td className="py-2 pr-4 text-right">{product.startQuantity ?? "—"}</td>
+                        <td className="py-2 pr-4 text-right">{product.currentQuantity ?? "—"}</td>
+                        <td className="py-2 pr-4 text-right">{product.unitsOrdered}</td>
+                        <td className="py-2 pr-4 text-right">{product.dailyVelocity}</td>
+                        <td className="py-2 text-right">
+                          {product.daysOfCover === null ? (
+                            "—"
+                          ) : product.daysOfCover < LOW_DAYS_OF_COVER ? (
+                            <Badge className={product.daysOfCover < LOW_DAYS_OF_COVER / 2 ? "bg-red-100 text-red-800" : "bg-amber-100 text-amber-800"}>
+                              {product.daysOfCover}
+                            </Badge>
+                          ) : (
+                            product.daysOfCover
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type PriceListFormState = {
+  name: string;
+  description: string;
+  customerGroup: string;
+  active: boolean;
+  // One "PRODUCT_CODE, price" pair per line, as pasted from the tender spreadsheet
+  prices: string;
+};
+
+const EMPTY_PRICE_LIST_FORM: PriceListFormState = { name: "", description: "", customerGroup: "", active: true, prices: "" };
+
+const parsePriceListLines = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.split(/[,;\t]/).map((part) => part.trim()))
+    .filter(([productId, price]) => productId && price)
+    .map(([productId, price]) => ({ productId, price: Number(price.replace(/[^\d.]/g, "")) }));
+
+// Price Lists Component - tender/contract prices per customer or customer group
+function PriceListsManagement() {
+  const { toast } = useToast();
+  const [editingPriceList, setEditingPriceList] = useState<PriceList | null>(null);
+  const [isPriceListDialogOpen, setIsPriceListDialogOpen] = useState(false);
+  const [priceListToDelete, setPriceListToDelete] = useState<PriceList | null>(null);
+  const [priceListForm, setPriceListForm] = useState<PriceListFormState>(EMPTY_PRICE_LIST_FORM);
+  // Unsaved assignment edits, keyed by customer ID
+  const [pricingEdits, setPricingEdits] = useState<Record<string, { priceListId: string; customerGroup: string }>>({});
+
+  const { data: priceLists = [], isLoading } = useQuery<PriceList[]>({
+    queryKey: ["/api/admin/price-lists"],
+    queryFn: () => ecountService.getPriceLists(),
+  });
+  const { data: customerPricing = [] } = useQuery<CustomerPricing[]>({
+    queryKey: ["/api/admin/customer-pricing"],
+    queryFn: () => ecountService.getCustomerPricing(),
+  });
+  const { data: users = [] } = useQuery<AdminPanelUser[]>({
+    queryKey: ["/api/admin/users"],
+    queryFn: () => ecountService.getAllUsers(),
+  });
+  const customers = users.filter((user) => user.role !== "admin");
+
+  const handlePricingError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const savePriceListMutation = useMutation({
+    mutationFn: async (form: PriceListFormState) => {
+      const payload = {
+        name: form.name.trim(),
+        description: form.description.trim(),
+        customerGroup: form.customerGroup.trim() || null,
+        active: form.active,
+        items: parsePriceListLines(form.prices),
+      };
+      return editingPriceList
+        ? ecountService.updatePriceList(editingPriceList.id, payload)
+        : ecountService.createPriceList(payload);
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/price-lists"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      setIsPriceListDialogOpen(false);
+      toast({ title: editingPriceList ? "Price List Updated" : "Price List Created", description: data.message });
+    },
+    onError: handlePricingError("Save Failed"),
+  });
+
+  const deletePriceListMutation = useMutation({
+    mutationFn: async (priceListId: string) => ecountService.deletePriceList(priceListId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/price-lists"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/customer-pricing"] });
+      setPriceListToDelete(null);
+      toast({ title: "Price List Deleted" });
+    },
+    onError: handlePricingError("Delete Failed"),
+  });
+
+  const saveCustomerPricingMutation = useMutation({
+    mutationFn: async ({ userId, priceListId, customerGroup }: { userId: string; priceListId: string; customerGroup: string }) =>
+      ecountService.setCustomerPricing(userId, {
+        priceListId: priceListId || null,
+        customerGroup: customerGroup.trim() || null,
+      }),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/customer-pricing"] });
+      setPricingEdits((current) => {
+        const { [variables.userId]: _saved, ...rest } = current;
+        return rest;
+      });
+      toast({ title: "Customer Pricing Updated" });
+    },
+    onError: handlePricingError("Update Failed"),
+  });
+
+  const openPriceListDialog = (priceList: PriceList | null) => {
+    setEditingPriceList(priceList);
+    setPriceListForm(
+      priceList
+        ? {
+            name: priceList.name,
+            description: priceList.description,
+            customerGroup: priceList.customerGroup || "",
+            active: priceList.active,
+            prices: priceList.items.map((item) => `${item.productId}, ${item.price}`).join("\n"),
+          }
+        : EMPTY_PRICE_LIST_FORM
+    );
+    setIsPriceListDialogOpen(true);
+  };
+
+  const getCustomerPricingForm = (userId: string) => {
+    const saved = customerPricing.find((pricing) => pricing.userId === userId);
+    return pricingEdits[userId] ?? { priceListId: saved?.priceListId || "", customerGroup: saved?.customerGroup || "" };
+  };
+
+  const updateCustomerPricingForm = (userId: string, field: "priceListId" | "customerGroup", value: string) => {
+    setPricingEdits((current) => ({ ...current, [userId]: { ...getCustomerPricingForm(userId), [field]: value } }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Tags className="w-5 h-5 text-phomas-green" />
+              Price Lists
+            </CardTitle>
+            <Button onClick={() => openPriceListDialog(null)} className="bg-phomas-green hover:bg-phomas-green/90">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Price List
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading price lists...</p>
+          ) : priceLists.length === 0 ? (
+            <p className="text-sm text-gray-500">No price lists yet. Every customer sees the catalogue price.</p>
+          ) : (
+            <div className="space-y-3">
+              {priceLists.map((priceList) => (
+                <div key={priceList.id} className="flex items-start justify-between gap-4 p-4 border border-gray-200 rounded-lg">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-gray-900">{priceList.name}</p>
+                      {!priceList.active && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {priceList.items.length} contract price{priceList.items.length === 1 ? "" : "s"}
+                      {priceList.customerGroup ? ` · group "${priceList.customerGroup}"` : " · assigned to customers directly"}
+                    </p>
+                    {priceList.description && <p className="text-xs text-gray-500 mt-1">{priceList.description}</p>}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => openPriceListDialog(priceList)}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setPriceListToDelete(priceList)}>
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Customer Pricing</CardTitle>
+          <p className="text-sm text-gray-600">
+            A customer's own price list wins over their group's. Products missing from the list keep the catalogue price.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-700">
+                  <th className="py-2 pr-4">Customer</th>
+                  <th className="py-2 pr-4">Price list</th>
+                  <th className="py-2 pr-4">Customer group</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {customers.map((customer) => {
+                  const form = getCustomerPricingForm(customer.id);
+                  return (
+                    <tr key={customer.id} className="border-b border-gray-100">
+                      <td className="py-2 pr-4">
+                        <p className="font-medium text-gray-900">{customer.companyName}</p>
+                        <p className="text-xs text-gray-500">{customer.email}</p>
+                      </td>
+                      <td className="py-2 pr-4 min-w-[180px]">
+                        <Select
+                          value={form.priceListId || "none"}
+                          onValueChange={(value) => updateCustomerPricingForm(customer.id, "priceListId", value === "none" ? "" : value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">From group / catalogue</SelectItem>
+                            {priceLists.map((priceList) => (
+                              <SelectItem key={priceList.id} value={priceList.id}>
+                                {priceList.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td className="py-2 pr-4 min-w-[160px]">
+                        <Input
+                          value={form.customerGroup}
+                          onChange={(e) => updateCustomerPricingForm(customer.id, "customerGroup", e.target.value.toLowerCase())}
+                          placeholder="e.g. public-hospitals"
+                        />
+                      </td>
+                      <td className="py-2 text-right">
                         <Button
-                          type="button"
-                          variant="outline"
                           size="sm"
-                          onClick={() => syncOrderMutation.mutate(selectedOrder.id)}
-                          disabled={syncOrderMutation.isPending}
-                          data-testid={`button-sync-selected-order-${selectedOrder.id}`}
+                          variant="outline"
+                          disabled={!pricingEdits[customer.id] || saveCustomerPricingMutation.isPending}
+                          onClick={() => saveCustomerPricingMutation.mutate({ userId: customer.id, ...form })}
                         >
-                          <RefreshCw className={`w-4 h-4 mr-2 ${syncOrderMutation.isPending ? "animate-spin" : ""}`} />
-                          {syncOrderMutation.isPending ? "Syncing..." : "Sync"}
+                          Save
                         </Button>
-                      )}
-                    </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isPriceListDialogOpen} onOpenChange={setIsPriceListDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingPriceList ? `Edit ${editingPriceList.name}` : "Add Price List"}</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="price-list-name">Name</Label>
+              <Input
+                id="price-list-name"
+                value={priceListForm.name}
+                onChange={(e) => setPriceListForm((current) => ({ ...current, name: e.target.value }))}
+                placeholder="MSD tender 2026"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="price-list-group">Customer group (optional)</Label>
+              <Input
+                id="price-list-group"
+                value={priceListForm.customerGroup}
+                onChange={(e) => setPriceListForm((current) => ({ ...current, customerGroup: e.target.value.toLowerCase() }))}
+                placeholder="public-hospitals"
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="price-list-description">Description</Label>
+              <Input
+                id="price-list-description"
+                value={priceListForm.description}
+                onChange={(e) => setPriceListForm((current) => ({ ...current, description: e.target.value }))}
+                placeholder="Tender reference, validity dates"
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="price-list-prices">Prices (product code, price before VAT — one per line)</Label>
+              <Textarea
+                id="price-list-prices"
+                value={priceListForm.prices}
+                onChange={(e) => setPriceListForm((current) => ({ ...current, prices: e.target.value }))}
+                placeholder={"PD-00123, 18500\nPD-00456, 42000"}
+                rows={8}
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-gray-500">{parsePriceListLines(priceListForm.prices).length} prices</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="price-list-active"
+                checked={priceListForm.active}
+                onCheckedChange={(checked) => setPriceListForm((current) => ({ ...current, active: checked }))}
+              />
+              <Label htmlFor="price-list-active">Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsPriceListDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => savePriceListMutation.mutate(priceListForm)}
+              disabled={savePriceListMutation.isPending || !priceListForm.name.trim()}
+              className="bg-phomas-green hover:bg-phomas-green/90"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!priceListToDelete} onOpenChange={(open) => !open && setPriceListToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {priceListToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Customers on this list go back to their group's list or the catalogue price. Existing orders keep the prices they were placed at.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => priceListToDelete && deletePriceListMutation.mutate(priceListToDelete.id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+type DiscountRuleFormState = {
+  name: string;
+  type: DiscountRuleType;
+  productId: string;
+  category: string;
+  couponCode: string;
+  minQuantity: string;
+  offKind: "percent" | "amount";
+  offValue: string;
+  minOrderSubtotal: string;
+  startsAt: string;
+  endsAt: string;
+  active: boolean;
+};
+
+const EMPTY_DISCOUNT_RULE_FORM: DiscountRuleFormState = {
+  name: "",
+  type: "volume_break",
+  productId: "",
+  category: "",
+  couponCode: "",
+  minQuantity: "1",
+  offKind: "percent",
+  offValue: "",
+  minOrderSubtotal: "",
+  startsAt: "",
+  endsAt: "",
+  active: true,
+};
+
+const toDateInputValue = (value?: Date | string | null) => (value ? format(new Date(value), "yyyy-MM-dd") : "");
+
+const toDiscountRuleForm = (rule: DiscountRule): DiscountRuleFormState => {
+  const input = toDiscountRuleInput(rule);
+  return {
+    name: input.name,
+    type: input.type,
+    productId: input.productId || "",
+    category: input.category || "",
+    couponCode: input.couponCode || "",
+    minQuantity: String(input.minQuantity),
+    offKind: input.percentOff != null ? "percent" : "amount",
+    offValue: String(input.percentOff ?? input.amountOff ?? ""),
+    minOrderSubtotal: input.minOrderSubtotal != null ? String(input.minOrderSubtotal) : "",
+    startsAt: toDateInputValue(input.startsAt),
+    endsAt: toDateInputValue(input.endsAt),
+    active: input.active,
+  };
+};
+
+// Dates are whole days: a promotion ending on the 31st runs until the end of the 31st.
+const toDiscountRulePayload = (form: DiscountRuleFormState): InsertDiscountRule => ({
+  name: form.name.trim(),
+  type: form.type,
+  productId: form.productId.trim() || null,
+  category: form.category.trim() || null,
+  couponCode: form.type === "coupon" ? form.couponCode.trim() || null : null,
+  minQuantity: Number.parseInt(form.minQuantity, 10) || 1,
+  percentOff: form.offKind === "percent" ? Number(form.offValue) || null : null,
+  amountOff: form.offKind === "amount" ? Number(form.offValue) || null : null,
+  minOrderSubtotal: form.minOrderSubtotal ? Number(form.minOrderSubtotal) : null,
+  startsAt: form.startsAt ? new Date(`${form.startsAt}T00:00:00`) : null,
+  endsAt: form.endsAt ? new Date(`${form.endsAt}T23:59:59`) : null,
+  active: form.active,
+});
+
+// Discounts Component - volume breaks, category promotions and coupon codes
+function DiscountRulesManagement() {
+  const { toast } = useToast();
+  const [editingRule, setEditingRule] = useState<DiscountRule | null>(null);
+  const [isRuleDialogOpen, setIsRuleDialogOpen] = useState(false);
+  const [ruleToDelete, setRuleToDelete] = useState<DiscountRule | null>(null);
+  const [ruleForm, setRuleForm] = useState<DiscountRuleFormState>(EMPTY_DISCOUNT_RULE_FORM);
+
+  const { data: rules = [], isLoading } = useQuery<DiscountRule[]>({
+    queryKey: ["/api/admin/discount-rules"],
+    queryFn: () => ecountService.getDiscountRules(),
+  });
+
+  const handleRuleError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async (form: DiscountRuleFormState) => {
+      const payload = toDiscountRulePayload(form);
+      return editingRule
+        ? ecountService.updateDiscountRule(editingRule.id, payload)
+        : ecountService.createDiscountRule(payload);
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/discount-rules"] });
+      setIsRuleDialogOpen(false);
+      toast({ title: editingRule ? "Discount Updated" : "Discount Created", description: data.message });
+    },
+    onError: handleRuleError("Save Failed"),
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: async (rule: DiscountRule) => ecountService.updateDiscountRule(rule.id, { active: !rule.active }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/discount-rules"] });
+    },
+    onError: handleRuleError("Update Failed"),
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (ruleId: string) => ecountService.deleteDiscountRule(ruleId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/discount-rules"] });
+      setRuleToDelete(null);
+      toast({ title: "Discount Deleted" });
+    },
+    onError: handleRuleError("Delete Failed"),
+  });
+
+  const openRuleDialog = (rule: DiscountRule | null) => {
+    setEditingRule(rule);
+    setRuleForm(rule ? toDiscountRuleForm(rule) : EMPTY_DISCOUNT_RULE_FORM);
+    setIsRuleDialogOpen(true);
+  };
+
+  const updateRuleForm = <K extends keyof DiscountRuleFormState>(field: K, value: DiscountRuleFormState[K]) =>
+    setRuleForm((current) => ({ ...current, [field]: value }));
+
+  const getRuleValidity = (rule: DiscountRule) => {
+    if (!rule.startsAt && !rule.endsAt) {
+      return "No end date";
+    }
+    return [
+      rule.startsAt ? `from ${format(new Date(rule.startsAt), "MMM d, yyyy")}` : "",
+      rule.endsAt ? `until ${format(new Date(rule.endsAt), "MMM d, yyyy")}` : "",
+    ].filter(Boolean).join(" ");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="w-5 h-5 text-phomas-green" />
+            Discounts & Coupons
+          </CardTitle>
+          <Button onClick={() => openRuleDialog(null)} className="bg-phomas-green hover:bg-phomas-green/90">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Discount
+          </Button>
+        </div>
+        <p className="text-sm text-gray-600">
+          Each cart line gets its best volume break or promotion; a coupon is applied on top of that.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading discounts...</p>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-gray-500">No discounts yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-start justify-between gap-4 p-4 border border-gray-200 rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-gray-900">{rule.name}</p>
+                    <Badge variant="outline">{getDiscountRuleTypeLabel(rule.type)}</Badge>
+                    {isDiscountRuleLive(rule) ? (
+                      <Badge className="bg-green-100 text-green-800">Live</Badge>
+                    ) : (
+                      <Badge variant="secondary">{rule.active ? "Scheduled / ended" : "Inactive"}</Badge>
+                    )}
                   </div>
+                  <p className="text-sm text-gray-600 mt-1">{describeDiscountRule(rule)}</p>
+                  <p className="text-xs text-gray-500 mt-1">{getRuleValidity(rule)}</p>
                 </div>
-
-                {/* Close Button */}
-                <div className="flex justify-end gap-2 pt-2">
-                  <Button 
-                    onClick={() => setSelectedOrder(null)}
-                    className="bg-phomas-green hover:bg-phomas-green/90"
-                    data-testid="button-close-order-details"
-                  >
-                    Close
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={rule.active}
+                    onCheckedChange={() => toggleRuleMutation.mutate(rule)}
+                    disabled={toggleRuleMutation.isPending}
+                    aria-label={`Toggle ${rule.name}`}
+                  />
+                  <Button variant="outline" size="sm" onClick={() => openRuleDialog(rule)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setRuleToDelete(rule)}>
+                    <Trash2 className="w-4 h-4 text-red-600" />
                   </Button>
                 </div>
               </div>
-            );
-          })()}
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isRuleDialogOpen} onOpenChange={setIsRuleDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? `Edit ${editingRule.name}` : "Add Discount"}</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="discount-name">Name (shown to customers)</Label>
+              <Input
+                id="discount-name"
+                value={ruleForm.name}
+                onChange={(e) => updateRuleForm("name", e.target.value)}
+                placeholder="10+ boxes: 5% off"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={ruleForm.type} onValueChange={(value) => updateRuleForm("type", value as DiscountRuleType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DISCOUNT_RULE_TYPE_VALUES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {getDiscountRuleTypeLabel(type)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {ruleForm.type === "coupon" ? (
+              <div className="space-y-2">
+                <Label htmlFor="discount-coupon-code">Coupon code</Label>
+                <Input
+                  id="discount-coupon-code"
+                  value={ruleForm.couponCode}
+                  onChange={(e) => updateRuleForm("couponCode", e.target.value.toUpperCase())}
+                  placeholder="LAB2026"
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="discount-min-quantity">Minimum quantity per line</Label>
+                <Input
+                  id="discount-min-quantity"
+                  type="number"
+                  min="1"
+                  value={ruleForm.minQuantity}
+                  onChange={(e) => updateRuleForm("minQuantity", e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="discount-product">
+                Product code{ruleForm.type === "volume_break" ? "" : " (optional)"}
+              </Label>
+              <Input
+                id="discount-product"
+                value={ruleForm.productId}
+                onChange={(e) => updateRuleForm("productId", e.target.value)}
+                placeholder="PD-00123"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discount-category">
+                Category{ruleForm.type === "category_promotion" ? "" : " (optional)"}
+              </Label>
+              <Input
+                id="discount-category"
+                value={ruleForm.category}
+                onChange={(e) => updateRuleForm("category", e.target.value)}
+                placeholder="Reagents"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Discount</Label>
+              <Select
+                value={ruleForm.offKind}
+                onValueChange={(value) => updateRuleForm("offKind", value as DiscountRuleFormState["offKind"])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">Percent off</SelectItem>
+                  <SelectItem value="amount">{ruleForm.type === "coupon" ? "TZS off the order" : "TZS off per unit"}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discount-value">{ruleForm.offKind === "percent" ? "Percent" : "Amount (TZS, before VAT)"}</Label>
+              <Input
+                id="discount-value"
+                type="number"
+                min="0"
+                value={ruleForm.offValue}
+                onChange={(e) => updateRuleForm("offValue", e.target.value)}
+              />
+            </div>
+            {ruleForm.type === "coupon" && (
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="discount-min-subtotal">Minimum order subtotal (TZS, optional)</Label>
+                <Input
+                  id="discount-min-subtotal"
+                  type="number"
+                  min="0"
+                  value={ruleForm.minOrderSubtotal}
+                  onChange={(e) => updateRuleForm("minOrderSubtotal", e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="discount-starts-at">Starts (optional)</Label>
+              <Input
+                id="discount-starts-at"
+                type="date"
+                value={ruleForm.startsAt}
+                onChange={(e) => updateRuleForm("startsAt", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discount-ends-at">Ends (optional)</Label>
+              <Input
+                id="discount-ends-at"
+                type="date"
+                value={ruleForm.endsAt}
+                onChange={(e) => updateRuleForm("endsAt", e.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="discount-active"
+                checked={ruleForm.active}
+                onCheckedChange={(checked) => updateRuleForm("active", checked)}
+              />
+              <Label htmlFor="discount-active">Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRuleDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveRuleMutation.mutate(ruleForm)}
+              disabled={saveRuleMutation.isPending || !ruleForm.name.trim() || !ruleForm.offValue}
+              className="bg-phomas-green hover:bg-phomas-green/90"
+            >
+              Save
+            </Button>
+          </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <AlertDialog open={!!ruleToDelete} onOpenChange={(open) => !open && setRuleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {ruleToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Carts stop getting this discount straight away. Orders already placed keep the discount they were given.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => ruleToDelete && deleteRuleMutation.mutate(ruleToDelete.id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 }
 
-// Security Management Component - admin password change
 function SecurityManagement() {
   const { logout } = useAuth();
   const { toast } = useToast();
@@ -1003,7 +3269,8 @@ export default function AdminPanel() {
 
   // State for edit and delete dialogs
   const [editingUser, setEditingUser] = useState<AdminPanelUser | null>(null);
-  const [editFormData, setEditFormData] = useState({ companyName: '', phone: '', address: '', brelaNumber: '', tinNumber: '', userType: 'company' });
+  const [editFormData, setEditFormData] = useState({ companyName: '', phone: '', address: '', brelaNumber: '', tinNumber: '', userType: 'company', ecountCustCode: '' });
+  const [ecountLookup, setEcountLookup] = useState<{ code: string; exists: boolean; message: string; name: string } | null>(null);
   const [userToDelete, setUserToDelete] = useState<AdminPanelUser | null>(null);
 
   // Delete user mutation
@@ -1032,8 +3299,14 @@ export default function AdminPanel() {
   // Update user mutation
   const updateUserMutation = useMutation({
     mutationFn: async ({ userId, data }: { userId: string; data: typeof editFormData }) => {
-      const res = await apiRequest("PUT", `/api/admin/users/${userId}`, data);
-      return await res.json();
+      const { ecountCustCode, ...profile } = data;
+      const res = await apiRequest("PUT", `/api/admin/users/${userId}`, profile);
+      const result = await res.json();
+      const custCode = ecountCustCode.trim();
+      if (custCode !== (editingUser?.ecountCustCode || '')) {
+        await ecountService.setUserEcountCustomer(userId, { custCode: custCode || null });
+      }
+      return result;
     },
     onSuccess: () => {
       queryClient.invalidateQueries();
@@ -1061,10 +3334,28 @@ export default function AdminPanel() {
       brelaNumber: userItem.brelaNumber || '',
       tinNumber: userItem.tinNumber || '',
       userType: userItem.userType || 'company',
+      ecountCustCode: userItem.ecountCustCode || '',
     });
+    setEcountLookup(null);
     setEditingUser(userItem);
   };
 
+  // Look up the entered code in eCount so the admin can confirm it is the right customer
+  const ecountLookupMutation = useMutation({
+    mutationFn: (code: string) => ecountService.verifyEcountCustomer(code),
+    onSuccess: (result, code) => {
+      const record = Array.isArray(result.data) ? result.data[0] : result.data;
+      setEcountLookup({ code, exists: result.exists, message: result.message, name: record?.CUST_NAME || record?.CUST_DES || '' });
+    },
+    onError: (error) => {
+      toast({
+        title: "Lookup Failed",
+        description: error instanceof Error ? error.message : "Failed to look up eCount customer",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Submit edit form
   const handleSaveUser = () => {
     if (editingUser) {
@@ -1127,6 +3418,16 @@ export default function AdminPanel() {
             <TabsTrigger value="approvals">Pending Approvals</TabsTrigger>
             <TabsTrigger value="products">Product Management</TabsTrigger>
             <TabsTrigger value="sync">Bulk Sync</TabsTrigger>
+            <TabsTrigger value="sync-jobs">Sync Jobs</TabsTrigger>
+            <TabsTrigger value="reconciliation">Reconciliation</TabsTrigger>
+            <TabsTrigger value="stock-lots">Stock Lots</TabsTrigger>
+            <TabsTrigger value="stock-alerts">Stock Alerts</TabsTrigger>
+            <TabsTrigger value="backorders">Backorders</TabsTrigger>
+            <TabsTrigger value="stock-history">Stock History</TabsTrigger>
+            <TabsTrigger value="delivery">Delivery Zones</TabsTrigger>
+            <TabsTrigger value="standing-orders">Standing Orders</TabsTrigger>
+            <TabsTrigger value="price-lists">Price Lists</TabsTrigger>
+            <TabsTrigger value="discounts">Discounts</TabsTrigger>
             <TabsTrigger value="security">Security</TabsTrigger>
           </TabsList>
           
@@ -1176,7 +3477,7 @@ export default function AdminPanel() {
                             </Badge>
                           )}
                         </div>
-                        {(userItem.brelaNumber || userItem.tinNumber) && (
+                        {(userItem.brelaNumber || userItem.tinNumber || userItem.ecountCustCode) && (
                           <div className="mt-2 text-xs text-gray-600 space-y-0.5">
                             {userItem.brelaNumber && (
                               <p><strong>Brela #:</strong> {userItem.brelaNumber}</p>
@@ -1184,6 +3485,9 @@ export default function AdminPanel() {
                             {userItem.tinNumber && (
                               <p><strong>TIN #:</strong> {userItem.tinNumber}</p>
                             )}
+                            {userItem.ecountCustCode && (
+                              <p><strong>eCount customer:</strong> {userItem.ecountCustCode}{userItem.ecountCustName ? ` (${userItem.ecountCustName})` : ''}</p>
+                            )}
                           </div>
                         )}
                       </div>
@@ -1437,6 +3741,46 @@ export default function AdminPanel() {
             <BulkSyncManager />
           </TabsContent>
 
+          <TabsContent value="sync-jobs">
+            <SyncJobsManagement />
+          </TabsContent>
+
+          <TabsContent value="reconciliation">
+            <ErpReconciliationManagement />
+          </TabsContent>
+
+          <TabsContent value="stock-lots">
+            <StockLotsManagement />
+          </TabsContent>
+
+          <TabsContent value="stock-alerts">
+            <StockAlertsManagement />
+          </TabsContent>
+
+          <TabsContent value="backorders">
+            <BackordersManagement />
+          </TabsContent>
+
+          <TabsContent value="stock-history">
+            <StockHistoryManagement />
+          </TabsContent>
+
+          <TabsContent value="delivery">
+            <DeliveryZonesManagement />
+          </TabsContent>
+
+          <TabsContent value="standing-orders">
+            <StandingOrdersManagement />
+          </TabsContent>
+
+          <TabsContent value="price-lists">
+            <PriceListsManagement />
+          </TabsContent>
+
+          <TabsContent value="discounts">
+            <DiscountRulesManagement />
+          </TabsContent>
+
           <TabsContent value="security">
             <SecurityManagement />
           </TabsContent>
@@ -1511,6 +3855,41 @@ export default function AdminPanel() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="grid gap-2">
+              <Label htmlFor="ecountCustCode">eCount Customer Code</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="ecountCustCode"
+                  value={editFormData.ecountCustCode}
+                  placeholder="Default online store customer"
+                  onChange={(e) => {
+                    setEditFormData({ ...editFormData, ecountCustCode: e.target.value });
+                    setEcountLookup(null);
+                  }}
+                  data-testid="edit-ecount-cust-code"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => ecountLookupMutation.mutate(editFormData.ecountCustCode.trim())}
+                  disabled={!editFormData.ecountCustCode.trim() || ecountLookupMutation.isPending}
+                  data-testid="lookup-ecount-customer"
+                >
+                  {ecountLookupMutation.isPending ? "Looking up..." : "Look up"}
+                </Button>
+              </div>
+              {ecountLookup ? (
+                <p className={`text-xs ${ecountLookup.exists ? "text-green-700" : "text-red-600"}`}>
+                  {ecountLookup.exists ? `${ecountLookup.code}: ${ecountLookup.name || "found in eCount"}` : ecountLookup.message}
+                </p>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  {editingUser?.ecountCustCode
+                    ? `Sale orders are booked to ${editingUser.ecountCustCode}${editingUser.ecountCustName ? ` (${editingUser.ecountCustName})` : ""}. Clear to use the default customer.`
+                    : "Sale orders are booked to the default online store customer."}
+                </p>
+              )}
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setEditingUser(null)} data-testid="cancel-edit">
@@ -2,28 +2,45 @@ import { useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useCart } from "@/contexts/CartContext";
 import { useAuth } from "@/contexts/AuthContext";
 import { ecountService } from "@/services/ecountService";
-import { ShoppingCart, ArrowLeft, Plus, Minus, Trash2, Send, AlertTriangle, Snowflake, History } from "lucide-react";
+import { ShoppingCart, ArrowLeft, Plus, Minus, Trash2, Send, AlertTriangle, Snowflake, History, Bookmark, Tag } from "lucide-react";
 import { Link, useLocation } from "wouter";
+import { SaveBasketDialog } from "@/components/SavedBaskets";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import {
   calculateOrderTotal,
+  DEFAULT_DELIVERY_ZONES,
   ICE_PACK_PRICES,
   getIcePackCost,
   getIcePackSizeLabel,
   getDeliveryAreaLabel,
   getTransportCost,
+  type DeliveryZoneTariff,
 } from "@shared/orderPricing";
+import { getOrderLines } from "@shared/orderLines";
+import { toDeliveryZoneTariff } from "@shared/deliveryZones";
+import { getVatInclusivePrice, sumOrderItemsVat } from "@shared/orderTax";
+import { formatExpectedArrival, getOrderableQuantity, isOrderBackordered } from "@shared/backorders";
+import {
+  MOBILE_MONEY_NETWORK_VALUES,
+  getMobileMoneyNetworkLabel,
+  inferMobileMoneyNetwork,
+  isOrderAwaitingPayment,
+  normalizeMobileMoneyPhone,
+  type MobileMoneyNetwork,
+} from "@shared/payments";
 import type {
   DeliveryArea,
   DeliveryOption,
+  DeliveryZone,
   IcePackSize,
   Order,
   OrderItem,
@@ -36,7 +53,6 @@ const PAYMENT_DETAILS = {
   bankName: "DTB Bank Plc",
   accountNumber: "0332798001",
   swiftCode: "DTKETZT",
-  mpesaPaybill: "51396661",
 };
 
 const getPaymentMethodLabel = (paymentMethod: PaymentMethod) =>
@@ -46,6 +62,17 @@ const getDeliveryOptionLabel = (deliveryOption: DeliveryOption) =>
   deliveryOption === "delivery" ? "Delivery" : "Pickup";
 
 const formatTzs = (value: number) => Math.round(value).toLocaleString();
+
+const getDeliveryZoneTariffNote = (zone: DeliveryZoneTariff) => {
+  const notes = [`Transport cost: TZS ${formatTzs(zone.transportCost)}`];
+  if (zone.weightThresholdKg !== null && zone.extraCostPerKg > 0) {
+    notes.push(`+TZS ${formatTzs(zone.extraCostPerKg)}/kg over ${zone.weightThresholdKg} kg`);
+  }
+  if (zone.freeDeliveryMinimum !== null) {
+    notes.push(`free on orders from TZS ${formatTzs(zone.freeDeliveryMinimum)}`);
+  }
+  return notes.join(" · ");
+};
 const CHECKOUT_REQUEST_TIMEOUT_MS = 20000;
 const CHECKOUT_TIMEOUT_MESSAGE = "Checkout confirmation is taking longer than expected.";
 const CHECKOUT_RECOVERY_DELAYS_MS = [1500, 5000, 10000];
@@ -56,31 +83,44 @@ type CheckoutRecoveryState = {
   title: string;
   message: string;
 };
+type CheckoutPaymentState = {
+  orderId: string;
+  paymentId: string | null;
+  error: string | null;
+};
 type CheckoutAttemptSnapshot = {
   startedAt: number;
   items: OrderItem[];
   total: string;
+  // The submitted order as JSON; resubmitting an identical order reuses the idempotency key.
+  fingerprint: string;
+  idempotencyKey: string;
 };
 
 export default function Cart() {
-  const { items, updateQuantity, removeItem, clearCart, subtotal } = useCart();
+  const { items, updateQuantity, removeItem, clearCart, subtotal, showPricesWithVat, setShowPricesWithVat } = useCart();
   const { user } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   const queryClient = useQueryClient();
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [orderNumber, setOrderNumber] = useState("");
+  const [backorderNote, setBackorderNote] = useState<string | null>(null);
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | "">("");
   const [deliveryOption, setDeliveryOption] = useState<DeliveryOption | "">("");
   const [deliveryArea, setDeliveryArea] = useState<DeliveryArea | "">("");
-  const [onlinePaymentConfirmed, setOnlinePaymentConfirmed] = useState(false);
+  const [paymentPhoneInput, setPaymentPhoneInput] = useState("");
+  const [paymentNetwork, setPaymentNetwork] = useState<MobileMoneyNetwork | "">("");
+  const [checkoutPayment, setCheckoutPayment] = useState<CheckoutPaymentState | null>(null);
   const [icePackSelection, setIcePackSelection] = useState<IcePackSelection>("");
   const [icePackSize, setIcePackSize] = useState<IcePackSize>("small");
   const [icePackQuantity, setIcePackQuantity] = useState(1);
   const [deliveryAddressInput, setDeliveryAddressInput] = useState("");
   const [checkoutRecovery, setCheckoutRecovery] = useState<CheckoutRecoveryState | null>(null);
+  const [saveBasketOpen, setSaveBasketOpen] = useState(false);
+  const [couponInput, setCouponInput] = useState("");
+  const [couponCode, setCouponCode] = useState("");
   const checkoutAttemptRef = useRef<CheckoutAttemptSnapshot | null>(null);
-  const tax = 0;
 
   const accountCustomerName = user?.name?.trim() || user?.companyName?.trim() || "";
   const accountCustomerCompany = user?.companyName?.trim() || user?.name?.trim() || "";
@@ -98,30 +138,131 @@ export default function Cart() {
   const isMissingDeliveryAddress = needsDeliveryAddress && !deliveryAddress;
   const isMissingDeliveryArea = needsDeliveryAddress && !deliveryArea;
   const isCheckingTimedOutOrder = checkoutRecovery?.status === "checking";
-  const requiresOnlinePaymentConfirmation = paymentMethod === "online_now";
-  const transportCost = getTransportCost(deliveryOption, deliveryArea || undefined);
+  const paysOnline = paymentMethod === "online_now";
+  const paymentPhone = paymentPhoneInput.trim() || accountCustomerPhone;
+  const paymentMsisdn = normalizeMobileMoneyPhone(paymentPhone);
+  const effectivePaymentNetwork = paymentNetwork || inferMobileMoneyNetwork(paymentPhone) || "";
+  const isMissingPaymentPhone = paysOnline && (!paymentMsisdn || !effectivePaymentNetwork);
+  // Fetch products to check stock limits
+  const { data: products = [] } = useQuery<ProductWithInventory[]>({
+    queryKey: ["/api/products"],
+    queryFn: () => ecountService.getProducts(),
+  });
+
+  // Poll the mobile money push until the provider settles it.
+  const { data: checkoutPaymentStatus } = useQuery({
+    queryKey: ["/api/payments", checkoutPayment?.paymentId],
+    queryFn: () => ecountService.getPayment(checkoutPayment!.paymentId!),
+    enabled: Boolean(checkoutPayment?.paymentId),
+    refetchInterval: (query) => (query.state.data?.payment.status === "pending" ? 3000 : false),
+  });
+  const checkoutPaymentResult = checkoutPaymentStatus?.payment.status;
+  const checkoutPaymentFailed =
+    Boolean(checkoutPayment?.error) ||
+    checkoutPaymentResult === "failed" ||
+    checkoutPaymentResult === "cancelled";
+  const isAwaitingCheckoutPayment = Boolean(checkoutPayment) && checkoutPaymentResult !== "succeeded";
+
+  const retryPaymentMutation = useMutation({
+    mutationFn: () =>
+      ecountService.startOrderPayment(checkoutPayment!.orderId, {
+        phone: paymentPhone,
+        network: effectivePaymentNetwork || undefined,
+      }),
+    onSuccess: (data) => {
+      setCheckoutPayment({ orderId: data.order.id, paymentId: data.payment.id, error: null });
+    },
+    onError: (error) => {
+      toast({
+        title: "Payment request failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Volume breaks, promotions and the coupon as checkout will apply them; the server recomputes on submit.
+  const { data: discountQuote } = useQuery({
+    queryKey: [
+      "/api/discounts/quote",
+      items.map((item) => `${item.productId}:${item.quantity}:${item.price}`).join(","),
+      couponCode,
+    ],
+    queryFn: () =>
+      ecountService.getDiscountQuote({
+        items: items.map(({ productId, name, price, quantity, referenceNumber }) => ({
+          productId,
+          name,
+          price,
+          quantity,
+          referenceNumber,
+        })),
+        couponCode: couponCode || null,
+      }),
+    enabled: items.length > 0,
+    placeholderData: (previous) => previous,
+  });
+  const discount = Number.parseFloat(discountQuote?.discountTotal || "0") || 0;
+  const getItemDiscount = (productId: string) => discountQuote?.lines.find((line) => line.productId === productId);
+
+  // Carts saved before VAT classes existed have no vatClass, so prefer the live catalogue.
+  const getItemVatClass = (item: (typeof items)[number]) =>
+    products.find((product) => product.id === item.productId)?.vatClass ?? item.vatClass;
+  const tax = sumOrderItemsVat(
+    items.map((item) => ({
+      ...item,
+      vatClass: getItemVatClass(item),
+      discountAmount: getItemDiscount(item.productId)?.discountAmount,
+    })),
+  );
+  const formatItemPrice = (item: (typeof items)[number], quantity = 1) =>
+    formatTzs(
+      (showPricesWithVat ? getVatInclusivePrice(item.price, getItemVatClass(item)) : Number.parseFloat(item.price) || 0) *
+        quantity,
+    );
+
+  const { data: deliveryZones = [] } = useQuery<DeliveryZone[]>({
+    queryKey: ["/api/delivery-zones"],
+    queryFn: () => ecountService.getDeliveryZones(),
+  });
+  const deliveryZoneTariffs = deliveryZones.length > 0
+    ? deliveryZones.map(toDeliveryZoneTariff)
+    : DEFAULT_DELIVERY_ZONES;
+  // Estimate only - the server recomputes transport from its own product weights.
+  const totalWeightKg = items.reduce((sum, item) => {
+    const weightKg = products.find((product) => product.id === item.productId)?.weightKg ?? 0;
+    return sum + weightKg * item.quantity;
+  }, 0);
+  const transportCost = getTransportCost(deliveryOption, deliveryArea || undefined, {
+    zones: deliveryZoneTariffs,
+    subtotal: subtotal - discount,
+    totalWeightKg,
+  });
   const normalizedIcePackQuantity = Math.max(1, icePackQuantity || 1);
   const icePackCost = getIcePackCost(icePackRequired, icePackSize, normalizedIcePackQuantity);
   const total = calculateOrderTotal({
     subtotal,
+    discount,
     tax,
     deliveryOption,
     deliveryArea: deliveryArea || undefined,
+    deliveryZones: deliveryZoneTariffs,
+    totalWeightKg,
     icePackRequired,
     icePackSize,
     icePackQuantity: normalizedIcePackQuantity,
   });
 
-  // Fetch products to check stock limits
-  const { data: products = [] } = useQuery<ProductWithInventory[]>({
-    queryKey: ["/api/products"],
-    queryFn: () => ecountService.getProducts(),
-  });
-
-  // Get stock for a product
+  // Most of a product that may be ordered: stock on hand, plus the backorder allowance where offered
   const getProductStock = (productId: string): number => {
     const product = products.find((p) => p.id === productId);
-    return product?.availableQuantity ?? 99;
+    return product ? getOrderableQuantity(product) : 99;
+  };
+
+  // Units of a cart line beyond stock on hand, which checkout splits off into a backorder
+  const getBackorderQuantity = (item: { productId: string; quantity: number }) => {
+    const product = products.find((p) => p.id === item.productId);
+    return product?.backorderable ? Math.max(0, item.quantity - Math.max(0, product.availableQuantity)) : 0;
   };
 
   // Validate and update quantity with stock check
@@ -158,15 +299,6 @@ export default function Cart() {
   const normalizeOrderTotal = (value: string | number | null | undefined) =>
     (Number.parseFloat(String(value ?? "0")) || 0).toFixed(2);
 
-  const parseOrderItems = (value: string): OrderItem[] => {
-    try {
-      const parsed = JSON.parse(value);
-      return Array.isArray(parsed) ? parsed : [];
-    } catch {
-      return [];
-    }
-  };
-
   const orderMatchesAttempt = (order: Order, attempt: CheckoutAttemptSnapshot) => {
     const orderCreatedAt = order.createdAt ? new Date(order.createdAt).getTime() : 0;
     const isTooOld =
@@ -174,20 +306,22 @@ export default function Cart() {
       orderCreatedAt > 0 &&
       orderCreatedAt < attempt.startedAt - CHECKOUT_RECOVERY_LOOKBACK_MS;
 
-    if (isTooOld || normalizeOrderTotal(order.total) !== attempt.total) {
+    // Re-priced orders are saved at server prices, so their total can differ from the cart's.
+    const totalMatches = normalizeOrderTotal(order.total) === attempt.total || order.priceMismatch;
+    if (isTooOld || !totalMatches) {
       return false;
     }
 
-    const orderItems = parseOrderItems(order.items);
-    if (orderItems.length !== attempt.items.length) {
+    const orderLines = getOrderLines(order);
+    if (orderLines.length !== attempt.items.length) {
       return false;
     }
 
     return attempt.items.every((attemptItem) =>
-      orderItems.some(
-        (orderItem) =>
-          orderItem.productId === attemptItem.productId &&
-          Number(orderItem.quantity) === Number(attemptItem.quantity)
+      orderLines.some(
+        (orderLine) =>
+          orderLine.productCode === attemptItem.productId &&
+          Number(orderLine.quantity) === Number(attemptItem.quantity)
       )
     );
   };
@@ -195,6 +329,7 @@ export default function Cart() {
   const wait = (delayMs: number) => new Promise((resolve) => window.setTimeout(resolve, delayMs));
 
   const completeCheckout = (order: Order) => {
+    checkoutAttemptRef.current = null;
     setOrderNumber(order.orderNumber);
     setCheckoutRecovery(null);
     setShowSuccessModal(true);
@@ -266,17 +401,13 @@ export default function Cart() {
       const userId = authUserId || "guest-user";
 
       const orderItems = getCurrentOrderItems();
-      checkoutAttemptRef.current = {
-        startedAt: Date.now(),
-        items: orderItems,
-        total: total.toFixed(2),
-      };
-
-      return ecountService.placeOrder({
+      const orderRequest = {
         userId,
         items: JSON.stringify(orderItems),
         subtotal: subtotal.toFixed(2),
-        tax: "0.00",
+        discountTotal: discount.toFixed(2),
+        couponCode: discountQuote?.couponCode || undefined,
+        tax: tax.toFixed(2),
         total: total.toFixed(2),
         status: "processing",
         paymentMethod,
@@ -292,13 +423,53 @@ export default function Cart() {
         customerPhone: accountCustomerPhone,
         customerCompany: accountCustomerCompany,
         customerAddress: deliveryOption === "delivery" ? deliveryAddress : "",
-      }, {
+        payment: paysOnline
+          ? { phone: paymentPhone, network: effectivePaymentNetwork || undefined }
+          : undefined,
+      };
+      const fingerprint = JSON.stringify(orderRequest);
+      const previousAttempt = checkoutAttemptRef.current;
+      // Pressing "Place order" again for the same order (double tap, retry after a timeout) sends the
+      // same key, so the server returns the order it already saved instead of creating another.
+      const idempotencyKey =
+        previousAttempt?.fingerprint === fingerprint ? previousAttempt.idempotencyKey : crypto.randomUUID();
+      checkoutAttemptRef.current = {
+        startedAt: Date.now(),
+        items: orderItems,
+        total: total.toFixed(2),
+        fingerprint,
+        idempotencyKey,
+      };
+
+      return ecountService.placeOrder(orderRequest, {
         timeoutMs: CHECKOUT_REQUEST_TIMEOUT_MS,
         timeoutMessage: CHECKOUT_TIMEOUT_MESSAGE,
+        headers: { "Idempotency-Key": idempotencyKey },
       });
     },
     onSuccess: (data) => {
       completeCheckout(data.order);
+      if (isOrderBackordered(data.order)) {
+        setBackorderNote(`This order is on backorder, expected ${formatExpectedArrival(data.order.expectedArrivalAt)}. It is sent to our warehouse when the stock arrives.`);
+      } else if (data.backorder) {
+        setBackorderNote(`Items beyond our current stock are on backorder ${data.backorder.orderNumber}, expected ${formatExpectedArrival(data.backorder.expectedArrivalAt)}.`);
+      } else {
+        setBackorderNote(null);
+      }
+      if (isOrderAwaitingPayment(data.order)) {
+        setCheckoutPayment({
+          orderId: data.order.id,
+          paymentId: data.payment?.id ?? null,
+          error: data.payment ? null : data.paymentError || "The payment request could not be sent.",
+        });
+      }
+      if (data.pricing?.adjusted) {
+        toast({
+          title: "Prices updated",
+          description: "Some items were charged at current catalogue prices. See Order History for the final total.",
+          duration: 10000,
+        });
+      }
     },
     onError: (error) => {
       console.error("Order submission error:", error);
@@ -354,7 +525,7 @@ export default function Cart() {
     }
 
     if (nextPaymentMethod !== "online_now") {
-      setOnlinePaymentConfirmed(false);
+      setPaymentNetwork("");
     }
   };
 
@@ -368,7 +539,6 @@ export default function Cart() {
 
     if (nextDeliveryOption === "delivery" && paymentMethod === "cash") {
       setPaymentMethod("");
-      setOnlinePaymentConfirmed(false);
     }
   };
 
@@ -413,10 +583,10 @@ export default function Cart() {
       return;
     }
 
-    if (requiresOnlinePaymentConfirmation && !onlinePaymentConfirmed) {
+    if (isMissingPaymentPhone) {
       toast({
-        title: "Confirm online payment",
-        description: "Please confirm you will pay online before submitting this order.",
+        title: "Mobile money number required",
+        description: "Enter the M-Pesa, Tigo Pesa or Airtel Money number that will approve the payment.",
         variant: "destructive",
       });
       return;
@@ -449,11 +619,15 @@ export default function Cart() {
     setPaymentMethod("");
     setDeliveryOption("");
     setDeliveryArea("");
-    setOnlinePaymentConfirmed(false);
+    setPaymentPhoneInput("");
+    setPaymentNetwork("");
+    setCheckoutPayment(null);
     setIcePackSelection("");
     setIcePackSize("small");
     setIcePackQuantity(1);
     setDeliveryAddressInput("");
+    setCouponInput("");
+    setCouponCode("");
     setLocation("/");
   };
 
@@ -487,12 +661,18 @@ export default function Cart() {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <CardTitle className="text-2xl">Shopping Cart</CardTitle>
-                <Link href="/">
-                  <Button variant="outline">
-                    <ArrowLeft className="w-4 h-4 mr-2" />
-                    Continue Shopping
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" onClick={() => setSaveBasketOpen(true)} data-testid="button-save-cart-basket">
+                    <Bookmark className="w-4 h-4 mr-2" />
+                    Save as basket
                   </Button>
-                </Link>
+                  <Link href="/">
+                    <Button variant="outline">
+                      <ArrowLeft className="w-4 h-4 mr-2" />
+                      Continue Shopping
+                    </Button>
+                  </Link>
+                </div>
               </div>
             </CardHeader>
 
@@ -516,7 +696,7 @@ export default function Cart() {
                         <h3 className="font-semibold text-gray-800">{item.name}</h3>
                         <p className="text-sm text-gray-600">{item.referenceNumber}</p>
                         <p className="text-sm font-medium text-phomas-green">
-                          TZS {parseInt(item.price).toLocaleString()} each
+                          TZS {formatItemPrice(item)} each{showPricesWithVat ? " incl. VAT" : ""}
                         </p>
                       </div>
                     </div>
@@ -555,8 +735,14 @@ export default function Cart() {
                           </Button>
                         </div>
                         <span className="text-xs text-gray-500">
-                          Stock: {getProductStock(item.productId)} available
+                          Stock: {Math.max(0, products.find((p) => p.id === item.productId)?.availableQuantity ?? getProductStock(item.productId))} available
                         </span>
+                        {getBackorderQuantity(item) > 0 && (
+                          <span className="text-xs text-blue-700 text-center" data-testid={`backorder-note-${item.productId}`}>
+                            {getBackorderQuantity(item)} on backorder, expected{" "}
+                            {formatExpectedArrival(products.find((p) => p.id === item.productId)?.expectedArrivalAt)}
+                          </span>
+                        )}
                         {item.quantity >= getProductStock(item.productId) && (
                           <span className="text-xs text-amber-600 flex items-center gap-1">
                             <AlertTriangle className="w-3 h-3" /> Max stock
@@ -566,8 +752,14 @@ export default function Cart() {
 
                       <div className="text-right">
                         <p className="font-bold text-phomas-green">
-                          TZS {(parseInt(item.price) * item.quantity).toLocaleString()}
+                          TZS {formatItemPrice(item, item.quantity)}
                         </p>
+                        {getItemDiscount(item.productId) && (
+                          <p className="text-xs text-emerald-700" data-testid={`line-discount-${item.productId}`}>
+                            - TZS {formatTzs(Number.parseFloat(getItemDiscount(item.productId)!.discountAmount))}{" "}
+                            {getItemDiscount(item.productId)!.discountLabel}
+                          </p>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -659,39 +851,48 @@ export default function Cart() {
                         <div>
                           <span className="font-medium text-gray-900">Pay Online Now</span>
                           <p className="text-sm text-gray-600 mt-1">
-                            Complete payment before you submit this order.
+                            M-Pesa, Tigo Pesa or Airtel Money prompt on your phone.
                           </p>
                         </div>
                       </label>
                     </RadioGroup>
 
                     {paymentMethod === "online_now" && (
-                      <div className="rounded-lg border border-emerald-200 bg-emerald-50 p-4">
-                        <div className="space-y-2 text-sm text-gray-800">
-                          <p className="font-semibold text-gray-900">Bank Details</p>
-                          <p>A/C Name: {PAYMENT_DETAILS.accountName}</p>
-                          <p>{PAYMENT_DETAILS.bankName}</p>
-                          <p>A/C No (TZS): {PAYMENT_DETAILS.accountNumber}</p>
-                          <p>Swift Code: {PAYMENT_DETAILS.swiftCode}</p>
-                          <div className="pt-2 border-t border-emerald-200">
-                            <p className="font-semibold text-gray-900">M-PESA LIPA NUMBER</p>
-                            <p className="text-base font-semibold">{PAYMENT_DETAILS.mpesaPaybill}</p>
-                          </div>
-                        </div>
-
-                        <div className="mt-4 flex items-start gap-3">
-                          <Checkbox
-                            id="online-payment-confirmed"
-                            checked={onlinePaymentConfirmed}
-                            onCheckedChange={(checked) => setOnlinePaymentConfirmed(checked === true)}
-                            data-testid="checkbox-online-payment-confirmed"
+                      <div className="rounded-lg border border-emerald-200 bg-emerald-50 p-4 space-y-3">
+                        <p className="text-sm text-gray-800">
+                          We will send a payment prompt to this phone. Approve it with your PIN to complete the order.
+                        </p>
+                        <div>
+                          <Label htmlFor="payment-phone" className="text-sm text-gray-700">
+                            Mobile money number
+                          </Label>
+                          <Input
+                            id="payment-phone"
+                            type="tel"
+                            value={paymentPhoneInput}
+                            placeholder={accountCustomerPhone || "0712 345 678"}
+                            onChange={(event) => setPaymentPhoneInput(event.target.value)}
+                            className="mt-1 bg-white"
+                            data-testid="input-payment-phone"
                           />
-                          <Label
-                            htmlFor="online-payment-confirmed"
-                            className="text-sm leading-5 text-gray-700"
+                        </div>
+                        <div>
+                          <Label className="text-sm text-gray-700">Network</Label>
+                          <Select
+                            value={effectivePaymentNetwork}
+                            onValueChange={(value) => setPaymentNetwork(value as MobileMoneyNetwork)}
                           >
-                            I will complete payment before I submit this order.
-                          </Label>
+                            <SelectTrigger className="mt-1 bg-white" data-testid="select-payment-network">
+                              <SelectValue placeholder="Choose network" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {MOBILE_MONEY_NETWORK_VALUES.map((network) => (
+                                <SelectItem key={network} value={network}>
+                                  {getMobileMoneyNetworkLabel(network)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                         </div>
                       </div>
                     )}
@@ -780,41 +981,30 @@ export default function Cart() {
                               onValueChange={(value) => setDeliveryArea(value as DeliveryArea)}
                               className="mt-3 gap-3"
                             >
-                              <label className="flex items-start gap-3 rounded-lg border border-gray-200 bg-white p-4 cursor-pointer">
-                                <RadioGroupItem
-                                  value="dar_es_salaam"
-                                  id="delivery-area-dar-es-salaam"
-                                  className="mt-1"
-                                />
-                                <div>
-                                  <span className="font-medium text-gray-900">Dar es Salaam</span>
-                                  <p className="text-sm text-gray-600 mt-1">
-                                    Transport cost: TZS 10,000
-                                  </p>
-                                </div>
-                              </label>
-
-                              <label className="flex items-start gap-3 rounded-lg border border-gray-200 bg-white p-4 cursor-pointer">
-                                <RadioGroupItem
-                                  value="outside_dar_es_salaam"
-                                  id="delivery-area-outside-dar-es-salaam"
-                                  className="mt-1"
-                                />
-                                <div>
-                                  <span className="font-medium text-gray-900">
-                                    Outside Dar es Salaam
-                                  </span>
-                                  <p className="text-sm text-gray-600 mt-1">
-                                    Transport cost: TZS 20,000
-                                  </p>
-                                </div>
-                              </label>
+                              {deliveryZoneTariffs.map((zone) => (
+                                <label
+                                  key={zone.code}
+                                  className="flex items-start gap-3 rounded-lg border border-gray-200 bg-white p-4 cursor-pointer"
+                                >
+                                  <RadioGroupItem
+                                    value={zone.code}
+                                    id={`delivery-area-${zone.code}`}
+                                    className="mt-1"
+                                  />
+                                  <div>
+                                    <span className="font-medium text-gray-900">{zone.name}</span>
+                                    <p className="text-sm text-gray-600 mt-1">
+                                      {getDeliveryZoneTariffNote(zone)}
+                                    </p>
+                                  </div>
+                                </label>
+                              ))}
                             </RadioGroup>
 
                             {deliveryArea ? (
                               <p className="text-xs text-gray-500 mt-3">
                                 Added transport cost: TZS {formatTzs(transportCost)} for{" "}
-                                {getDeliveryAreaLabel(deliveryArea)}.
+                                {getDeliveryAreaLabel(deliveryArea, deliveryZoneTariffs)}.
                               </p>
                             ) : (
                               <p className="text-xs text-amber-700 mt-3">
@@ -921,15 +1111,79 @@ export default function Cart() {
                 </div>
 
                 <div className="space-y-2 mb-6">
+                  <div className="flex items-center justify-between pb-2">
+                    <Label htmlFor="cart-prices-with-vat" className="text-sm text-gray-600">
+                      Show item prices incl. VAT
+                    </Label>
+                    <Switch
+                      id="cart-prices-with-vat"
+                      checked={showPricesWithVat}
+                      onCheckedChange={setShowPricesWithVat}
+                      data-testid="switch-cart-prices-with-vat"
+                    />
+                  </div>
+                  <div className="pb-2">
+                    <Label htmlFor="cart-coupon-code" className="text-sm text-gray-600">
+                      Coupon code
+                    </Label>
+                    <div className="mt-1 flex gap-2">
+                      <Input
+                        id="cart-coupon-code"
+                        value={couponInput}
+                        onChange={(event) => setCouponInput(event.target.value.toUpperCase())}
+                        placeholder="Enter code"
+                        className="max-w-[200px]"
+                        data-testid="input-coupon-code"
+                      />
+                      {couponCode ? (
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            setCouponCode("");
+                            setCouponInput("");
+                          }}
+                          data-testid="button-remove-coupon"
+                        >
+                          Remove
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          onClick={() => setCouponCode(couponInput.trim())}
+                          disabled={!couponInput.trim()}
+                          data-testid="button-apply-coupon"
+                        >
+                          <Tag className="w-4 h-4 mr-2" />
+                          Apply
+                        </Button>
+                      )}
+                    </div>
+                    {couponCode && discountQuote?.couponError && (
+                      <p className="mt-1 text-xs text-red-600">{discountQuote.couponError}</p>
+                    )}
+                    {couponCode && discountQuote?.couponCode && (
+                      <p className="mt-1 text-xs text-emerald-700">Coupon {discountQuote.couponCode} applied</p>
+                    )}
+                  </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-600">Subtotal:</span>
+                    <span className="text-gray-600">Subtotal (excl. VAT):</span>
                     <span className="font-medium">TZS {formatTzs(subtotal)}</span>
                   </div>
+                  {discount > 0 && (
+                    <div className="flex justify-between text-emerald-700">
+                      <span>Discounts:</span>
+                      <span className="font-medium">- TZS {formatTzs(discount)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">VAT:</span>
+                    <span className="font-medium">TZS {formatTzs(tax)}</span>
+                  </div>
                   {deliveryOption === "delivery" && (
                     <div className="flex justify-between">
                       <span className="text-gray-600">
                         Transport Cost
-                        {deliveryArea ? ` (${getDeliveryAreaLabel(deliveryArea)})` : ""}:
+                        {deliveryArea ? ` (${getDeliveryAreaLabel(deliveryArea, deliveryZoneTariffs)})` : ""}:
                       </span>
                       <span className="font-medium">TZS {formatTzs(transportCost)}</span>
                     </div>
@@ -948,9 +1202,9 @@ export default function Cart() {
                   </div>
                 </div>
 
-                {requiresOnlinePaymentConfirmation && !onlinePaymentConfirmed && (
+                {isMissingPaymentPhone && (
                   <p className="mb-4 text-sm text-amber-700">
-                    Confirm online payment before placing this order.
+                    Enter a valid mobile money number and network to pay online.
                   </p>
                 )}
 
@@ -1016,7 +1270,7 @@ export default function Cart() {
                     isMissingCustomerPhone ||
                     isMissingPaymentMethod ||
                     isMissingDeliveryOption ||
-                    (requiresOnlinePaymentConfirmation && !onlinePaymentConfirmed) ||
+                    isMissingPaymentPhone ||
                     isMissingDeliveryAddress ||
                     isMissingDeliveryArea
                   }
@@ -1044,23 +1298,76 @@ export default function Cart() {
         <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
           <Card className="w-full max-w-md">
             <CardContent className="text-center py-8">
-              <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                <svg className="w-8 h-8 text-green-600" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z" />
-                </svg>
-              </div>
-              <h3 className="text-xl font-semibold text-gray-800 mb-2">Order Completed!</h3>
-              <p className="text-gray-600 mb-2">
-                Your order has been received and ERP sync is running automatically.
-              </p>
+              {!isAwaitingCheckoutPayment && (
+                <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <svg className="w-8 h-8 text-green-600" fill="currentColor" viewBox="0 0 24 24">
+                    <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z" />
+                  </svg>
+                </div>
+              )}
+              {isAwaitingCheckoutPayment ? (
+                <>
+                  <h3 className="text-xl font-semibold text-gray-800 mb-2">
+                    {checkoutPaymentFailed ? "Payment not completed" : "Approve the payment on your phone"}
+                  </h3>
+                  {checkoutPaymentFailed ? (
+                    <div className="mb-4 space-y-3 text-left">
+                      <p className="text-sm text-red-600">
+                        {checkoutPayment?.error ||
+                          checkoutPaymentStatus?.payment.failureReason ||
+                          "The mobile money payment was not completed."}
+                      </p>
+                      <Input
+                        type="tel"
+                        value={paymentPhoneInput}
+                        placeholder={paymentPhone || "0712 345 678"}
+                        onChange={(event) => setPaymentPhoneInput(event.target.value)}
+                        data-testid="input-retry-payment-phone"
+                      />
+                      <Button
+                        onClick={() => retryPaymentMutation.mutate()}
+                        disabled={retryPaymentMutation.isPending || !paymentMsisdn || !effectivePaymentNetwork}
+                        className="w-full bg-phomas-green hover:bg-phomas-green/90"
+                        data-testid="button-retry-payment"
+                      >
+                        {retryPaymentMutation.isPending ? "Sending..." : "Send payment prompt again"}
+                      </Button>
+                      <p className="text-xs text-gray-500">
+                        Or pay by bank transfer to {PAYMENT_DETAILS.accountName}, {PAYMENT_DETAILS.bankName} A/C{" "}
+                        {PAYMENT_DETAILS.accountNumber} (Swift {PAYMENT_DETAILS.swiftCode}) quoting your order
+                        number. We release the order once the transfer arrives.
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-gray-600 mb-2">
+                      {checkoutPaymentStatus
+                        ? `A ${getMobileMoneyNetworkLabel(checkoutPaymentStatus.payment.network)} prompt for TZS ${formatTzs(
+                            Number.parseFloat(checkoutPaymentStatus.payment.amount)
+                          )} was sent to ${checkoutPaymentStatus.payment.phone}.`
+                        : "A payment prompt was sent to your phone."}{" "}
+                      Enter your PIN to approve it. This page updates automatically.
+                    </p>
+                  )}
+                </>
+              ) : (
+                <>
+                  <h3 className="text-xl font-semibold text-gray-800 mb-2">Order Completed!</h3>
+                  <p className="text-gray-600 mb-2">
+                    {checkoutPayment
+                      ? "Payment received. Your order is being sent to our warehouse system."
+                      : "Your order has been received and ERP sync is running automatically."}
+                  </p>
+                </>
+              )}
               <p className="text-sm text-gray-500 mb-4">
                 Payment: {paymentMethod ? getPaymentMethodLabel(paymentMethod) : "Not set"} | Fulfillment:{" "}
                 {deliveryOption ? getDeliveryOptionLabel(deliveryOption) : "Not set"}
                 {icePackRequired ? ` | Ice pack: ${getIcePackSizeLabel(icePackSize)} x ${normalizedIcePackQuantity}` : ""}
               </p>
-              <p className="text-sm text-gray-500 mb-6">
+              <p className={`text-sm text-gray-500 ${backorderNote ? "mb-2" : "mb-6"}`}>
                 Order Number: <span className="font-medium text-phomas-green">{orderNumber}</span>
               </p>
+              {backorderNote && <p className="text-sm text-blue-700 mb-6">{backorderNote}</p>}
               <Button
                 onClick={handleCloseSuccessModal}
                 className="bg-phomas-green hover:bg-phomas-green/90"
@@ -1071,6 +1378,17 @@ export default function Cart() {
           </Card>
         </div>
       )}
+
+      <SaveBasketDialog
+        open={saveBasketOpen}
+        onOpenChange={setSaveBasketOpen}
+        items={items.map((item) => ({
+          productId: item.productId,
+          name: item.name,
+          referenceNumber: item.referenceNumber,
+          quantity: item.quantity,
+        }))}
+      />
     </>
   );
 }
@@ -1,23 +1,125 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { useAuth } from "@/contexts/AuthContext";
 import { ecountService } from "@/services/ecountService";
-import { History, Package, Truck, Clock } from "lucide-react";
+import { History, Package, Truck, Clock, FileText, Pencil, XCircle, RotateCcw, Bookmark } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { getDeliveryAreaLabel, getIcePackSizeLabel } from "@shared/orderPricing";
-import type { Order, OrderItem } from "@shared/schema";
+import { getVatClassLabel } from "@shared/orderTax";
+import { getOrderLines } from "@shared/orderLines";
+import { getCustomerOrderActions } from "@shared/orderLifecycle";
+import { formatExpectedArrival } from "@shared/backorders";
+import type { Order, OrderTemplateItem } from "@shared/schema";
+import { OrderTimeline } from "@/components/OrderTimeline";
+import { SaveBasketDialog, SavedBaskets } from "@/components/SavedBaskets";
+import { useReorder } from "@/hooks/useReorder";
+import { queryClient } from "@/lib/queryClient";
 
 export default function OrderHistory() {
   const { user } = useAuth();
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const { toast } = useToast();
   const authUserId = user?.userId || user?.id;
   const formatTzs = (value?: string | number | null) =>
     Math.round(Number.parseFloat(String(value ?? 0))).toLocaleString();
 
+  // Quantities being edited, keyed by line number; null while not editing.
+  const [editQuantities, setEditQuantities] = useState<Record<number, number> | null>(null);
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  const [cancelReason, setCancelReason] = useState("");
+  const selectedOrderActions = selectedOrder ? getCustomerOrderActions(selectedOrder) : null;
+  const [saveBasketOrder, setSaveBasketOrder] = useState<Order | null>(null);
+  const { reorder, isReordering } = useReorder();
+
+  const handleReorder = (order: Order) =>
+    reorder(
+      getOrderLines(order).map((line) => ({
+        productId: line.productCode,
+        name: line.productName,
+        quantity: line.quantity,
+        previousPrice: line.unitPrice,
+      })),
+      `order ${order.orderNumber}`
+    );
+
+  const getOrderBasketItems = (order: Order): OrderTemplateItem[] =>
+    getOrderLines(order).map((line) => ({
+      productId: line.productCode,
+      name: line.productName,
+      referenceNumber: line.referenceNumber,
+      quantity: line.quantity,
+    }));
+
+  const closeOrderDetails = () => {
+    setSelectedOrder(null);
+    setEditQuantities(null);
+  };
+
+  const handleOrderChanged = (order: Order, message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/orders/user", authUserId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/orders", order.id, "events"] });
+    setSelectedOrder(order);
+    setEditQuantities(null);
+    setCancelDialogOpen(false);
+    setCancelReason("");
+    toast({ title: "Order updated", description: message });
+  };
+
+  const handleOrderChangeError = (error: unknown) => {
+    toast({
+      title: "Could not change order",
+      description: error instanceof Error ? error.message : "Please try again or contact us.",
+      variant: "destructive",
+    });
+  };
+
+  const cancelOrderMutation = useMutation({
+    mutationFn: ({ order, reason }: { order: Order; reason: string }) =>
+      getCustomerOrderActions(order).canCancel
+        ? ecountService.cancelOrder(order.id, reason || undefined)
+        : ecountService.requestOrderCancellation(order.id, reason || undefined),
+    onSuccess: (data) => handleOrderChanged(data.order, data.message),
+    onError: handleOrderChangeError,
+  });
+
+  const amendOrderMutation = useMutation({
+    mutationFn: ({ order, quantities }: { order: Order; quantities: Record<number, number> }) =>
+      ecountService.amendOrder(order.id, {
+        lines: Object.entries(quantities).map(([lineNumber, quantity]) => ({
+          lineNumber: Number(lineNumber),
+          quantity,
+        })),
+      }),
+    onSuccess: (data) => handleOrderChanged(data.order, data.message),
+    onError: handleOrderChangeError,
+  });
+
+  const startEditingQuantities = (order: Order) => {
+    setEditQuantities(
+      Object.fromEntries(getOrderLines(order).map((line) => [line.lineNumber, line.quantity]))
+    );
+  };
+
+  const handleDownloadOrderDocument = async (order: Order, kind: "invoice" | "delivery-note") => {
+    try {
+      await ecountService.downloadOrderDocument(order, kind);
+    } catch (error: any) {
+      toast({
+        title: "Download failed",
+        description: error.message || "Could not generate the document.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const normalizeOrderStatus = (status?: string | null) => {
     const normalizedStatus = (status || "").trim().toLowerCase();
     return normalizedStatus === "complete" ? "completed" : normalizedStatus;
@@ -31,6 +133,12 @@ export default function OrderHistory() {
         return "Delivered";
       case "shipped":
         return "Shipped";
+      case "awaiting_payment":
+        return "Awaiting Payment";
+      case "backordered":
+        return "Backordered";
+      case "paid":
+        return "Paid";
       case "processing":
         return "Processing";
       case "cancelled":
@@ -53,6 +161,12 @@ export default function OrderHistory() {
         return "bg-green-100 text-green-800";
       case "shipped":
         return "bg-blue-100 text-blue-800";
+      case "paid":
+        return "bg-emerald-100 text-emerald-800";
+      case "awaiting_payment":
+        return "bg-orange-100 text-orange-800";
+      case "backordered":
+        return "bg-blue-100 text-blue-800";
       case "processing":
         return "bg-amber-100 text-amber-800";
       default:
@@ -127,6 +241,7 @@ export default function OrderHistory() {
     return (
       <div className="p-6">
         <div className="max-w-6xl mx-auto">
+          <SavedBaskets />
           <Card>
             <CardContent className="text-center py-12">
               <History className="h-16 w-16 text-gray-400 mx-auto mb-4" />
@@ -142,6 +257,7 @@ export default function OrderHistory() {
   return (
     <div className="p-6">
       <div className="max-w-6xl mx-auto">
+        <SavedBaskets />
         <Card>
           <CardHeader>
             <CardTitle className="text-2xl">Order History</CardTitle>
@@ -162,9 +278,9 @@ export default function OrderHistory() {
                 </thead>
                 <tbody>
                   {orders.map((order: Order) => {
-                    const items: OrderItem[] = JSON.parse(order.items);
-                    const firstItem = items[0];
-                    const remainingCount = items.length - 1;
+                    const lines = getOrderLines(order);
+                    const firstLine = lines[0];
+                    const remainingCount = lines.length - 1;
 
                     return (
                       <tr key={order.id} className="border-b border-gray-100 hover:bg-gray-50">
@@ -176,7 +292,7 @@ export default function OrderHistory() {
                         </td>
                         <td className="py-4 px-4">
                           <div className="text-sm">
-                            <div>{firstItem.name} ({firstItem.quantity}x)</div>
+                            {firstLine && <div>{firstLine.productName} ({firstLine.quantity}x)</div>}
                             {remainingCount > 0 && (
                               <div className="text-gray-500">+{remainingCount} more item{remainingCount > 1 ? 's' : ''}</div>
                             )}
@@ -192,14 +308,25 @@ export default function OrderHistory() {
                           </Badge>
                         </td>
                         <td className="py-4 px-4">
-                          <Button 
-                            variant="link" 
-                            className="text-phomas-blue hover:underline text-sm p-0"
-                            onClick={() => setSelectedOrder(order)}
-                            data-testid={`button-view-order-${order.id}`}
-                          >
-                            {normalizeOrderStatus(order.status) === "shipped" ? "Track Order" : "View Details"}
-                          </Button>
+                          <div className="flex items-center gap-3">
+                            <Button 
+                              variant="link" 
+                              className="text-phomas-blue hover:underline text-sm p-0"
+                              onClick={() => setSelectedOrder(order)}
+                              data-testid={`button-view-order-${order.id}`}
+                            >
+                              {normalizeOrderStatus(order.status) === "shipped" ? "Track Order" : "View Details"}
+                            </Button>
+                            <Button
+                              variant="link"
+                              className="text-phomas-green hover:underline text-sm p-0"
+                              onClick={() => handleReorder(order)}
+                              disabled={isReordering}
+                              data-testid={`button-reorder-${order.id}`}
+                            >
+                              Reorder
+                            </Button>
+                          </div>
                         </td>
                       </tr>
                     );
@@ -212,7 +339,7 @@ export default function OrderHistory() {
       </div>
 
       {/* Order Details Dialog */}
-      <Dialog open={!!selectedOrder} onOpenChange={(open) => !open && setSelectedOrder(null)}>
+      <Dialog open={!!selectedOrder} onOpenChange={(open) => !open && closeOrderDetails()}>
         <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="text-xl font-bold text-phomas-green">
@@ -246,16 +373,41 @@ export default function OrderHistory() {
               <div>
                 <h4 className="font-semibold text-gray-800 mb-3">Order Items</h4>
                 <div className="space-y-3">
-                  {(JSON.parse(selectedOrder.items) as OrderItem[]).map((item, index) => (
-                    <div key={index} className="flex justify-between items-center p-3 border border-gray-200 rounded-lg">
+                  {getOrderLines(selectedOrder).map((line) => (
+                    <div key={line.id} className="flex justify-between items-center p-3 border border-gray-200 rounded-lg">
                       <div>
-                        <p className="font-medium text-gray-800">{item.name}</p>
-                        <p className="text-sm text-gray-500">Ref: {item.referenceNumber}</p>
+                        <p className="font-medium text-gray-800">{line.productName}</p>
+                        <p className="text-sm text-gray-500">Ref: {line.referenceNumber || line.productCode}</p>
                       </div>
                       <div className="text-right">
-                        <p className="text-sm text-gray-600">{item.quantity}x @ TZS {parseFloat(item.price).toLocaleString()}</p>
+                        {editQuantities ? (
+                          <div className="flex items-center justify-end gap-2 text-sm text-gray-600">
+                            <Input
+                              type="number"
+                              min={0}
+                              value={editQuantities[line.lineNumber] ?? line.quantity}
+                              onChange={(event) =>
+                                setEditQuantities({
+                                  ...editQuantities,
+                                  [line.lineNumber]: Math.max(0, Number.parseInt(event.target.value, 10) || 0),
+                                })
+                              }
+                              className="h-8 w-20"
+                              data-testid={`input-line-quantity-${line.lineNumber}`}
+                            />
+                            <span>x @ TZS {parseFloat(line.unitPrice).toLocaleString()}</span>
+                          </div>
+                        ) : (
+                          <p className="text-sm text-gray-600">{line.quantity}x @ TZS {parseFloat(line.unitPrice).toLocaleString()}</p>
+                        )}
+                        {parseFloat(line.discountAmount) > 0 && (
+                          <p className="text-xs text-emerald-700">- TZS {formatTzs(line.discountAmount)} {line.discountLabel}</p>
+                        )}
+                        {parseFloat(line.vatAmount) > 0 && (
+                          <p className="text-xs text-gray-500">+ TZS {formatTzs(line.vatAmount)} {getVatClassLabel(line.vatClass)}</p>
+                        )}
                         <p className="font-semibold text-phomas-green">
-                          TZS {Math.round(item.quantity * parseFloat(item.price)).toLocaleString()}
+                          TZS {Math.round(parseFloat(line.lineTotal)).toLocaleString()}
                         </p>
                       </div>
                     </div>
@@ -270,6 +422,12 @@ export default function OrderHistory() {
                     <span className="text-gray-600">Subtotal</span>
                     <span>TZS {Math.round(parseFloat(selectedOrder.subtotal)).toLocaleString()}</span>
                   </div>
+                  {parseFloat(selectedOrder.discountTotal) > 0 && (
+                    <div className="flex justify-between text-emerald-700">
+                      <span>Discounts{selectedOrder.couponCode ? ` (coupon ${selectedOrder.couponCode})` : ""}</span>
+                      <span>- TZS {formatTzs(selectedOrder.discountTotal)}</span>
+                    </div>
+                  )}
                   {selectedOrder.deliveryOption === "delivery" && (
                     <div className="flex justify-between">
                       <span className="text-gray-600">
@@ -289,6 +447,12 @@ export default function OrderHistory() {
                       <span>TZS {formatTzs(selectedOrder.icePackCost)}</span>
                     </div>
                   )}
+                  {parseFloat(selectedOrder.tax) > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">VAT</span>
+                      <span>TZS {formatTzs(selectedOrder.tax)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between font-bold text-lg border-t pt-2">
                     <span>Total</span>
                     <span className="text-phomas-green">TZS {Math.round(parseFloat(selectedOrder.total)).toLocaleString()}</span>
@@ -305,6 +469,14 @@ export default function OrderHistory() {
                       <span className="text-green-600">Synced to eCount</span>
                     ) : selectedOrder.erpSyncStatus === 'failed' ? (
                       <span className="text-red-600">Sync failed - will retry</span>
+                    ) : selectedOrder.erpSyncStatus === 'awaiting_payment' ? (
+                      <span className="text-orange-600">Waiting for payment</span>
+                    ) : selectedOrder.erpSyncStatus === 'backordered' ? (
+                      <span className="text-blue-600">
+                        Waiting for stock, expected {formatExpectedArrival(selectedOrder.expectedArrivalAt)}
+                      </span>
+                    ) : selectedOrder.erpSyncStatus === 'cancelled' ? (
+                      <span className="text-gray-600">Not sent - order cancelled</span>
                     ) : (
                       <span className="text-amber-600">Pending sync</span>
                     )}
@@ -315,10 +487,95 @@ export default function OrderHistory() {
                 </div>
               )}
 
-              {/* Close Button */}
-              <div className="flex justify-end pt-2">
+              {/* Cancellation Request */}
+              {selectedOrder.cancellationStatus === "requested" && (
+                <div className="p-3 bg-orange-50 rounded-lg text-sm text-orange-800">
+                  Cancellation requested - our team will confirm once the order is reversed.
+                </div>
+              )}
+              {selectedOrder.cancellationStatus === "rejected" && (
+                <div className="p-3 bg-gray-50 rounded-lg text-sm text-gray-700">
+                  Your cancellation request was declined. Contact us if you still need to change this order.
+                </div>
+              )}
+
+              {/* Change Order */}
+              {selectedOrderActions && (selectedOrderActions.canAmend || selectedOrderActions.canCancel || selectedOrderActions.canRequestCancellation) && (
+                <div className="flex flex-wrap gap-2">
+                  {selectedOrderActions.canAmend && (editQuantities ? (
+                    <>
+                      <Button
+                        onClick={() => amendOrderMutation.mutate({ order: selectedOrder, quantities: editQuantities })}
+                        disabled={amendOrderMutation.isPending}
+                        className="bg-phomas-green hover:bg-phomas-green/90"
+                        data-testid="button-save-order-changes"
+                      >
+                        {amendOrderMutation.isPending ? "Saving..." : "Save changes"}
+                      </Button>
+                      <Button variant="outline" onClick={() => setEditQuantities(null)} data-testid="button-discard-order-changes">
+                        Discard
+                      </Button>
+                    </>
+                  ) : (
+                    <Button variant="outline" onClick={() => startEditingQuantities(selectedOrder)} data-testid="button-edit-order">
+                      <Pencil className="w-4 h-4 mr-2" />
+                      Edit quantities
+                    </Button>
+                  ))}
+                  {(selectedOrderActions.canCancel || selectedOrderActions.canRequestCancellation) && !editQuantities && (
+                    <Button
+                      variant="outline"
+                      className="text-red-600 border-red-200 hover:bg-red-50"
+                      onClick={() => setCancelDialogOpen(true)}
+                      data-testid="button-cancel-order"
+                    >
+                      <XCircle className="w-4 h-4 mr-2" />
+                      {selectedOrderActions.canCancel ? "Cancel order" : "Request cancellation"}
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {/* Order History */}
+              <OrderTimeline orderId={selectedOrder.id} />
+
+              {/* Documents and Close Button */}
+              <div className="flex flex-wrap justify-end gap-2 pt-2">
+                <Button
+                  variant="outline"
+                  onClick={() => handleReorder(selectedOrder)}
+                  disabled={isReordering}
+                  data-testid="button-reorder-order"
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  {isReordering ? "Checking stock..." : "Reorder"}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setSaveBasketOrder(selectedOrder)}
+                  data-testid="button-save-order-basket"
+                >
+                  <Bookmark className="w-4 h-4 mr-2" />
+                  Save as basket
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleDownloadOrderDocument(selectedOrder, "invoice")}
+                  data-testid="button-download-invoice"
+                >
+                  <FileText className="w-4 h-4 mr-2" />
+                  Invoice PDF
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleDownloadOrderDocument(selectedOrder, "delivery-note")}
+                  data-testid="button-download-delivery-note"
+                >
+                  <Truck className="w-4 h-4 mr-2" />
+                  Delivery Note PDF
+                </Button>
                 <Button 
-                  onClick={() => setSelectedOrder(null)}
+                  onClick={closeOrderDetails}
                   className="bg-phomas-green hover:bg-phomas-green/90"
                   data-testid="button-close-order-details"
                 >
@@ -329,6 +586,53 @@ export default function OrderHistory() {
           )}
         </DialogContent>
       </Dialog>
+
+      <SaveBasketDialog
+        open={!!saveBasketOrder}
+        onOpenChange={(open) => !open && setSaveBasketOrder(null)}
+        items={saveBasketOrder ? getOrderBasketItems(saveBasketOrder) : []}
+      />
+
+      {/* Cancel Order Confirmation */}
+      <AlertDialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {selectedOrderActions?.canCancel ? "Cancel this order?" : "Request cancellation?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {selectedOrderActions?.canCancel
+                ? `Order ${selectedOrder?.orderNumber} will be cancelled straight away and its stock released.`
+                : `Order ${selectedOrder?.orderNumber} is already confirmed in our system. Our team will review the request and reverse it.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            value={cancelReason}
+            onChange={(event) => setCancelReason(event.target.value)}
+            placeholder="Reason (optional)"
+            maxLength={500}
+            data-testid="input-cancel-reason"
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep order</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                if (selectedOrder) {
+                  cancelOrderMutation.mutate({ order: selectedOrder, reason: cancelReason.trim() });
+                }
+              }}
+              disabled={cancelOrderMutation.isPending}
+              className="bg-red-600 hover:bg-red-700"
+              data-testid="button-confirm-cancel-order"
+            >
+              {cancelOrderMutation.isPending
+                ? "Sending..."
+                : selectedOrderActions?.canCancel ? "Cancel order" : "Request cancellation"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
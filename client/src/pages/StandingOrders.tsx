@@ -0,0 +1,517 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addDays, format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCart } from "@/contexts/CartContext";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { ecountService } from "@/services/ecountService";
+import { CalendarClock, Pause, Pencil, Play, Plus, SkipForward, Trash2 } from "lucide-react";
+import { DEFAULT_DELIVERY_ZONES } from "@shared/orderPricing";
+import { toDeliveryZoneTariff } from "@shared/deliveryZones";
+import { MOBILE_MONEY_NETWORK_VALUES, getMobileMoneyNetworkLabel, type MobileMoneyNetwork } from "@shared/payments";
+import {
+  STANDING_ORDER_CADENCE_VALUES,
+  getStandingOrderCadenceLabel,
+  type StandingOrderAction,
+  type StandingOrderCadence,
+} from "@shared/standingOrders";
+import type { DeliveryZone, OrderTemplate, OrderTemplateItem, StandingOrder } from "@shared/schema";
+
+const STANDING_ORDERS_QUERY_KEY = ["/api/standing-orders"];
+
+// Schedules run early each morning, so the first order can be tomorrow at the soonest.
+const getEarliestRunDate = () => format(addDays(new Date(), 1), "yyyy-MM-dd");
+
+const getStandingOrderStatusColor = (standingOrder: StandingOrder) =>
+  standingOrder.status === "paused"
+    ? "bg-gray-100 text-gray-700"
+    : standingOrder.lastRunStatus === "failed"
+      ? "bg-red-100 text-red-800"
+      : "bg-green-100 text-green-800";
+
+interface StandingOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The schedule being edited; creates a new one when omitted.
+  standingOrder?: StandingOrder | null;
+}
+
+function StandingOrderDialog({ open, onOpenChange, standingOrder }: StandingOrderDialogProps) {
+  const { toast } = useToast();
+  const { items: cartItems } = useCart();
+  const [name, setName] = useState("");
+  const [cadence, setCadence] = useState<StandingOrderCadence>("monthly");
+  const [nextRunDate, setNextRunDate] = useState(getEarliestRunDate());
+  const [basketSource, setBasketSource] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<"cash" | "online_now">("cash");
+  const [paymentPhone, setPaymentPhone] = useState("");
+  const [paymentNetwork, setPaymentNetwork] = useState<MobileMoneyNetwork | "">("");
+  const [deliveryOption, setDeliveryOption] = useState<"pickup" | "delivery">("pickup");
+  const [deliveryArea, setDeliveryArea] = useState("");
+  const [customerAddress, setCustomerAddress] = useState("");
+
+  const { data: templates = [] } = useQuery<OrderTemplate[]>({
+    queryKey: ["/api/order-templates"],
+    queryFn: () => ecountService.getOrderTemplates(),
+    enabled: open,
+  });
+  const { data: deliveryZones = [] } = useQuery<DeliveryZone[]>({
+    queryKey: ["/api/delivery-zones"],
+    queryFn: () => ecountService.getDeliveryZones(),
+    enabled: open,
+  });
+  const deliveryZoneTariffs = deliveryZones.length > 0 ? deliveryZones.map(toDeliveryZoneTariff) : DEFAULT_DELIVERY_ZONES;
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    setName(standingOrder?.name ?? "");
+    setCadence((standingOrder?.cadence as StandingOrderCadence) ?? "monthly");
+    setNextRunDate(standingOrder ? format(new Date(standingOrder.nextRunAt), "yyyy-MM-dd") : getEarliestRunDate());
+    setBasketSource(standingOrder ? "current" : cartItems.length > 0 ? "cart" : "");
+    setPaymentMethod(standingOrder?.paymentMethod === "online_now" ? "online_now" : "cash");
+    setPaymentPhone(standingOrder?.paymentPhone ?? "");
+    setPaymentNetwork((standingOrder?.paymentNetwork as MobileMoneyNetwork | null) ?? "");
+    setDeliveryOption(standingOrder?.deliveryOption === "delivery" ? "delivery" : "pickup");
+    setDeliveryArea(standingOrder?.deliveryArea ?? "");
+    setCustomerAddress(standingOrder?.customerAddress ?? "");
+  }, [open, standingOrder]);
+
+  const getBasketItems = (): OrderTemplateItem[] => {
+    if (basketSource === "current") {
+      return standingOrder?.items ?? [];
+    }
+    if (basketSource === "cart") {
+      return cartItems.map((item) => ({
+        productId: item.productId,
+        name: item.name,
+        referenceNumber: item.referenceNumber,
+        quantity: item.quantity,
+      }));
+    }
+    return templates.find((template) => template.id === basketSource)?.items ?? [];
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const nextRunAt = new Date(`${nextRunDate}T00:00:00`);
+      const schedule = {
+        name: name.trim(),
+        cadence,
+        items: getBasketItems(),
+        paymentMethod,
+        paymentPhone: paymentMethod === "online_now" ? paymentPhone : null,
+        paymentNetwork: paymentMethod === "online_now" && paymentNetwork ? paymentNetwork : null,
+        deliveryOption,
+        deliveryArea: deliveryOption === "delivery" ? deliveryArea || null : null,
+        customerAddress,
+      };
+      if (!standingOrder) {
+        return ecountService.createStandingOrder({ ...schedule, nextRunAt });
+      }
+
+      // Only send the date when it changed, so an edit on the run day does not fail the future-date check.
+      const dateChanged = format(new Date(standingOrder.nextRunAt), "yyyy-MM-dd") !== nextRunDate;
+      return ecountService.updateStandingOrder(standingOrder.id, dateChanged ? { ...schedule, nextRunAt } : schedule);
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: STANDING_ORDERS_QUERY_KEY });
+      toast({ title: standingOrder ? "Standing order updated" : "Standing order created", description: data.message });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not save standing order",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const basketItems = getBasketItems();
+  const canSave =
+    !!name.trim() &&
+    basketItems.length > 0 &&
+    !!nextRunDate &&
+    (paymentMethod === "cash" || !!paymentPhone.trim()) &&
+    (deliveryOption === "pickup" || (!!deliveryArea && !!customerAddress.trim()));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{standingOrder ? "Edit standing order" : "New standing order"}</DialogTitle>
+          <DialogDescription>
+            We place this order for you automatically. Items are priced and checked against stock on the day it is placed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="standing-order-name">Name</Label>
+            <Input
+              id="standing-order-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="e.g. Weekly reagents"
+              maxLength={80}
+              data-testid="input-standing-order-name"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Repeat</Label>
+              <Select value={cadence} onValueChange={(value) => setCadence(value as StandingOrderCadence)}>
+                <SelectTrigger data-testid="select-standing-order-cadence">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STANDING_ORDER_CADENCE_VALUES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {getStandingOrderCadenceLabel(value)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="standing-order-next-run">Next order on</Label>
+              <Input
+                id="standing-order-next-run"
+                type="date"
+                value={nextRunDate}
+                min={getEarliestRunDate()}
+                onChange={(event) => setNextRunDate(event.target.value)}
+                data-testid="input-standing-order-next-run"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Items</Label>
+            <Select value={basketSource} onValueChange={setBasketSource}>
+              <SelectTrigger data-testid="select-standing-order-items">
+                <SelectValue placeholder="Choose a saved basket" />
+              </SelectTrigger>
+              <SelectContent>
+                {standingOrder && (
+                  <SelectItem value="current">Keep current items ({standingOrder.items.length})</SelectItem>
+                )}
+                {cartItems.length > 0 && (
+                  <SelectItem value="cart">Items in my cart ({cartItems.length})</SelectItem>
+                )}
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    Basket "{template.name}" ({template.items.length})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {basketItems.length > 0 && (
+              <p className="text-xs text-gray-500">
+                {basketItems.map((item) => `${item.name} × ${item.quantity}`).join(", ")}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Delivery</Label>
+              <Select
+                value={deliveryOption}
+                onValueChange={(value) => {
+                  setDeliveryOption(value as "pickup" | "delivery");
+                  if (value === "delivery") {
+                    setPaymentMethod("online_now");
+                  }
+                }}
+              >
+                <SelectTrigger data-testid="select-standing-order-delivery">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pickup">Pickup</SelectItem>
+                  <SelectItem value="delivery">Delivery</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Payment</Label>
+              <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as "cash" | "online_now")}>
+                <SelectTrigger data-testid="select-standing-order-payment">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cash" disabled={deliveryOption === "delivery"}>Cash on pickup</SelectItem>
+                  <SelectItem value="online_now">Mobile money</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {deliveryOption === "delivery" && (
+            <div className="space-y-3 rounded-lg border border-gray-200 p-3">
+              <div className="space-y-2">
+                <Label htmlFor="standing-order-address">Delivery address</Label>
+                <Input
+                  id="standing-order-address"
+                  value={customerAddress}
+                  onChange={(event) => setCustomerAddress(event.target.value)}
+                  placeholder="Street, city, region"
+                  maxLength={500}
+                  data-testid="input-standing-order-address"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Delivery area</Label>
+                <Select value={deliveryArea} onValueChange={setDeliveryArea}>
+                  <SelectTrigger data-testid="select-standing-order-area">
+                    <SelectValue placeholder="Choose a delivery area" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {deliveryZoneTariffs.map((zone) => (
+                      <SelectItem key={zone.code} value={zone.code}>
+                        {zone.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {paymentMethod === "online_now" && (
+            <div className="grid grid-cols-2 gap-3 rounded-lg border border-gray-200 p-3">
+              <div className="space-y-2">
+                <Label htmlFor="standing-order-phone">Mobile money number</Label>
+                <Input
+                  id="standing-order-phone"
+                  value={paymentPhone}
+                  onChange={(event) => setPaymentPhone(event.target.value)}
+                  placeholder="0712 345 678"
+                  data-testid="input-standing-order-phone"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Network</Label>
+                <Select value={paymentNetwork} onValueChange={(value) => setPaymentNetwork(value as MobileMoneyNetwork)}>
+                  <SelectTrigger data-testid="select-standing-order-network">
+                    <SelectValue placeholder="Detect from number" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MOBILE_MONEY_NETWORK_VALUES.map((network) => (
+                      <SelectItem key={network} value={network}>
+                        {getMobileMoneyNetworkLabel(network)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="col-span-2 text-xs text-gray-500">
+                A payment prompt is sent to this number each time the order is placed.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!canSave || saveMutation.isPending}
+            className="bg-phomas-green hover:bg-phomas-green/90"
+            data-testid="button-save-standing-order"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function StandingOrders() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingStandingOrder, setEditingStandingOrder] = useState<StandingOrder | null>(null);
+
+  const { data: standingOrders = [], isLoading } = useQuery<StandingOrder[]>({
+    queryKey: STANDING_ORDERS_QUERY_KEY,
+    queryFn: () => ecountService.getStandingOrders(),
+    enabled: !!user,
+  });
+
+  const handleStandingOrderError = (error: unknown) => {
+    toast({
+      title: "Could not update standing order",
+      description: error instanceof Error ? error.message : "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: ({ standingOrder, action }: { standingOrder: StandingOrder; action: StandingOrderAction }) =>
+      ecountService.applyStandingOrderAction(standingOrder.id, action),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: STANDING_ORDERS_QUERY_KEY });
+      toast({ title: "Standing order updated", description: data.message });
+    },
+    onError: handleStandingOrderError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (standingOrder: StandingOrder) => ecountService.deleteStandingOrder(standingOrder.id),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: STANDING_ORDERS_QUERY_KEY });
+      toast({ title: "Standing order deleted", description: data.message });
+    },
+    onError: handleStandingOrderError,
+  });
+
+  const openDialog = (standingOrder: StandingOrder | null) => {
+    setEditingStandingOrder(standingOrder);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="p-6">
+      <div className="max-w-6xl mx-auto">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <CardTitle className="text-2xl flex items-center gap-2">
+              <CalendarClock className="w-6 h-6 text-phomas-green" />
+              Standing Orders
+            </CardTitle>
+            <Button
+              onClick={() => openDialog(null)}
+              className="bg-phomas-green hover:bg-phomas-green/90"
+              data-testid="button-new-standing-order"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New standing order
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading standing orders...</p>
+            ) : standingOrders.length === 0 ? (
+              <div className="text-center py-12">
+                <CalendarClock className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-800 mb-2">No standing orders yet</h3>
+                <p className="text-gray-600">
+                  Set up a repeat order from your cart or a saved basket and we will place it for you on schedule.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {standingOrders.map((standingOrder) => (
+                  <div
+                    key={standingOrder.id}
+                    className="flex flex-wrap items-start justify-between gap-3 p-4 border border-gray-200 rounded-lg"
+                    data-testid={`standing-order-${standingOrder.id}`}
+                  >
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-gray-800">{standingOrder.name}</p>
+                        <Badge className={getStandingOrderStatusColor(standingOrder)}>
+                          {standingOrder.status === "paused" ? "Paused" : "Active"}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {getStandingOrderCadenceLabel(standingOrder.cadence)} · {standingOrder.items.length} item
+                        {standingOrder.items.length === 1 ? "" : "s"} ·{" "}
+                        {standingOrder.deliveryOption === "delivery" ? "Delivery" : "Pickup"} ·{" "}
+                        {standingOrder.paymentMethod === "online_now" ? "Mobile money" : "Cash"}
+                      </p>
+                      {standingOrder.status === "active" && (
+                        <p className="text-sm text-gray-600">
+                          Next order: {format(new Date(standingOrder.nextRunAt), "EEE, MMM d, yyyy")}
+                        </p>
+                      )}
+                      {standingOrder.lastRunAt && (
+                        <p className={`text-xs ${standingOrder.lastRunStatus === "failed" ? "text-red-700" : "text-gray-500"}`}>
+                          Last run {format(new Date(standingOrder.lastRunAt), "MMM d, yyyy")}: {standingOrder.lastRunMessage}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => openDialog(standingOrder)}
+                        data-testid={`button-edit-standing-order-${standingOrder.id}`}
+                      >
+                        <Pencil className="w-4 h-4 mr-2" />
+                        Edit
+                      </Button>
+                      {standingOrder.status === "active" ? (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => actionMutation.mutate({ standingOrder, action: "skip" })}
+                            disabled={actionMutation.isPending}
+                            data-testid={`button-skip-standing-order-${standingOrder.id}`}
+                          >
+                            <SkipForward className="w-4 h-4 mr-2" />
+                            Skip next
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => actionMutation.mutate({ standingOrder, action: "pause" })}
+                            disabled={actionMutation.isPending}
+                            data-testid={`button-pause-standing-order-${standingOrder.id}`}
+                          >
+                            <Pause className="w-4 h-4 mr-2" />
+                            Pause
+                          </Button>
+                        </>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => actionMutation.mutate({ standingOrder, action: "resume" })}
+                          disabled={actionMutation.isPending}
+                          data-testid={`button-resume-standing-order-${standingOrder.id}`}
+                        >
+                          <Play className="w-4 h-4 mr-2" />
+                          Resume
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 border-red-200 hover:bg-red-50"
+                        onClick={() => deleteMutation.mutate(standingOrder)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-standing-order-${standingOrder.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <StandingOrderDialog open={dialogOpen} onOpenChange={setDialogOpen} standingOrder={editingStandingOrder} />
+    </div>
+  );
+}
@@ -1,5 +1,12 @@
 import { apiRequest, type ApiRequestOptions } from "@/lib/queryClient";
-import type { ProductWithInventory, InsertUser, LoginUser, InsertOrder, Order, User } from "@shared/schema";
+import type { ProductWithInventory, InsertUser, LoginUser, InsertOrder, Order, OrderWithLines, User, DeliveryZone, InsertDeliveryZone, UpdateDeliveryZone, OrderPaymentRequest, Payment, OrderEvent, OrderAmendment, OrderTemplate, InsertOrderTemplate, UpdateOrderTemplate, CartItem, StandingOrder, InsertStandingOrder, UpdateStandingOrder, PriceList, InsertPriceList, UpdatePriceList, CustomerPricing, UpdateCustomerPricing, CustomerEcountAccount, UpdateCustomerEcountAccount, DiscountRule, InsertDiscountRule, DiscountQuoteRequest, SyncJob, SyncJobWithOrder, ErpReconciliationRequest, ErpReconciliationRun, ErpReconciliationRunSummary, StockLotWithAvailability, StockThreshold, UpsertStockThreshold, StockSubscription, StockSubscriptionRequest, BackorderProduct, UpsertBackorderProduct } from "@shared/schema";
+import type { DiscountQuote } from "@shared/discounts";
+import type { StockLotImportResult } from "@shared/stockLots";
+import type { StockAlertRunResult } from "@shared/stockStatus";
+import type { BackorderReleaseSummary } from "@shared/backorders";
+import type { InventoryReport } from "@shared/inventoryReport";
+import type { StandingOrderAction } from "@shared/standingOrders";
+import type { SyncJobStatus } from "@shared/syncJobs";
 
 // This service layer abstracts API calls for easy eCOUNT integration
 // When eCOUNT API credentials are available, only this file needs to be modified
@@ -16,6 +23,11 @@ export const ecountService = {
     return await response.json();
   },
 
+  async getDiscountQuote(request: DiscountQuoteRequest): Promise<DiscountQuote> {
+    const response = await apiRequest("POST", "/api/discounts/quote", request);
+    return await response.json();
+  },
+
   // Authentication operations
   async register(userData: InsertUser): Promise<{ success: boolean; user: User }> {
     const response = await apiRequest("POST", "/api/auth/register", userData);
@@ -34,29 +46,209 @@ export const ecountService = {
 
   // Order operations
   async placeOrder(
-    orderData: InsertOrder,
+    orderData: InsertOrder & { payment?: OrderPaymentRequest },
     options?: ApiRequestOptions,
-  ): Promise<{ success: boolean; order: Order }> {
+  ): Promise<{
+    success: boolean;
+    order: Order;
+    // True when the idempotency key already had an order and that order was returned
+    replayed?: boolean;
+    // Lines beyond stock on hand, split off into their own order to wait for the stock
+    backorder?: Order | null;
+    pricing?: { adjusted: boolean };
+    payment?: Payment | null;
+    paymentError?: string | null;
+  }> {
     const response = await apiRequest("POST", "/api/orders", orderData, options);
     return await response.json();
   },
 
-  async getOrdersByUserId(userId: string): Promise<Order[]> {
+  async startOrderPayment(orderId: string, payment: OrderPaymentRequest): Promise<{ success: boolean; payment: Payment; order: Order }> {
+    const response = await apiRequest("POST", `/api/orders/${orderId}/payments`, payment);
+    return await response.json();
+  },
+
+  async getPayment(paymentId: string): Promise<{ payment: Payment; order: Order }> {
+    const response = await apiRequest("GET", `/api/payments/${paymentId}`);
+    return await response.json();
+  },
+
+  async getOrdersByUserId(userId: string): Promise<OrderWithLines[]> {
     const response = await apiRequest("GET", `/api/orders/user/${userId}`);
     return await response.json();
   },
 
+  async getDeliveryZones(): Promise<DeliveryZone[]> {
+    const response = await apiRequest("GET", "/api/delivery-zones");
+    return await response.json();
+  },
+
+  // Saves the order's pro-forma invoice or delivery note PDF through the browser
+  async downloadOrderDocument(
+    order: Pick<Order, "id" | "orderNumber">,
+    kind: "invoice" | "delivery-note",
+  ): Promise<void> {
+    const response = await apiRequest("GET", `/api/orders/${order.id}/${kind}.pdf`);
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${order.orderNumber}-${kind}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  },
+
+  // Server-side cart, mirrored by CartContext
+  async getCart(): Promise<{ items: CartItem[] }> {
+    const response = await apiRequest("GET", "/api/cart");
+    return await response.json();
+  },
+
+  async replaceCart(items: CartItem[]): Promise<{ items: CartItem[] }> {
+    const response = await apiRequest("PUT", "/api/cart", { items });
+    return await response.json();
+  },
+
+  async mergeCart(items: CartItem[]): Promise<{ items: CartItem[] }> {
+    const response = await apiRequest("POST", "/api/cart/merge", { items });
+    return await response.json();
+  },
+
+  async upsertCartItem(item: CartItem): Promise<{ items: CartItem[] }> {
+    const response = await apiRequest("PUT", `/api/cart/items/${encodeURIComponent(item.productId)}`, item);
+    return await response.json();
+  },
+
+  async removeCartItem(productId: string): Promise<{ items: CartItem[] }> {
+    const response = await apiRequest("DELETE", `/api/cart/items/${encodeURIComponent(productId)}`);
+    return await response.json();
+  },
+
+  async clearCart(): Promise<{ items: CartItem[] }> {
+    const response = await apiRequest("DELETE", "/api/cart");
+    return await response.json();
+  },
+
+  // Back-in-stock notifications
+  async getStockSubscriptions(): Promise<StockSubscription[]> {
+    const response = await apiRequest("GET", "/api/stock-subscriptions");
+    return await response.json();
+  },
+
+  async subscribeToStock(request: StockSubscriptionRequest): Promise<{ success: boolean; message: string; subscription: StockSubscription }> {
+    const response = await apiRequest("POST", "/api/stock-subscriptions", request);
+    return await response.json();
+  },
+
+  async unsubscribeFromStock(productId: string): Promise<{ success: boolean; message: string }> {
+    const response = await apiRequest("DELETE", `/api/stock-subscriptions/${encodeURIComponent(productId)}`);
+    return await response.json();
+  },
+
+  // Saved baskets for reordering
+  async getOrderTemplates(): Promise<OrderTemplate[]> {
+    const response = await apiRequest("GET", "/api/order-templates");
+    return await response.json();
+  },
+
+  async createOrderTemplate(template: InsertOrderTemplate): Promise<{ success: boolean; message: string; template: OrderTemplate }> {
+    const response = await apiRequest("POST", "/api/order-templates", template);
+    return await response.json();
+  },
+
+  async updateOrderTemplate(templateId: string, updates: UpdateOrderTemplate): Promise<{ success: boolean; message: string; template: OrderTemplate }> {
+    const response = await apiRequest("PATCH", `/api/order-templates/${templateId}`, updates);
+    return await response.json();
+  },
+
+  async deleteOrderTemplate(templateId: string): Promise<{ success: boolean; message: string }> {
+    const response = await apiRequest("DELETE", `/api/order-templates/${templateId}`);
+    return await response.json();
+  },
+
+  // Standing orders
+  async getStandingOrders(): Promise<StandingOrder[]> {
+    const response = await apiRequest("GET", "/api/standing-orders");
+    return await response.json();
+  },
+
+  async createStandingOrder(standingOrder: InsertStandingOrder): Promise<{ success: boolean; message: string; standingOrder: StandingOrder }> {
+    const response = await apiRequest("POST", "/api/standing-orders", standingOrder);
+    return await response.json();
+  },
+
+  async updateStandingOrder(standingOrderId: string, updates: UpdateStandingOrder): Promise<{ success: boolean; message: string; standingOrder: StandingOrder }> {
+    const response = await apiRequest("PATCH", `/api/standing-orders/${standingOrderId}`, updates);
+    return await response.json();
+  },
+
+  async deleteStandingOrder(standingOrderId: string): Promise<{ success: boolean; message: string }> {
+    const response = await apiRequest("DELETE", `/api/standing-orders/${standingOrderId}`);
+    return await response.json();
+  },
+
+  async applyStandingOrderAction(standingOrderId: string, action: StandingOrderAction): Promise<{ success: boolean; message: string; standingOrder: StandingOrder }> {
+    const response = await apiRequest("POST", `/api/standing-orders/${standingOrderId}/${action}`);
+    return await response.json();
+  },
+
   // Admin operations
   async getAllUsers(): Promise<User[]> {
     const response = await apiRequest("GET", "/api/admin/users");
     return await response.json();
   },
 
-  async getAllOrders(): Promise<Order[]> {
+  async getAllOrders(): Promise<OrderWithLines[]> {
     const response = await apiRequest("GET", "/api/admin/orders");
     return await response.json();
   },
 
+  async getAllStandingOrders(): Promise<StandingOrder[]> {
+    const response = await apiRequest("GET", "/api/admin/standing-orders");
+    return await response.json();
+  },
+
+  async adminUpdateStandingOrder(standingOrderId: string, updates: UpdateStandingOrder): Promise<{ success: boolean; message: string; standingOrder: StandingOrder }> {
+    const response = await apiRequest("PATCH", `/api/admin/standing-orders/${standingOrderId}`, updates);
+    return await response.json();
+  },
+
+  async adminApplyStandingOrderAction(standingOrderId: string, action: StandingOrderAction): Promise<{ success: boolean; message: string; standingOrder: StandingOrder }> {
+    const response = await apiRequest("POST", `/api/admin/standing-orders/${standingOrderId}/${action}`);
+    return await response.json();
+  },
+
+  async cancelOrder(orderId: string, reason?: string): Promise<{ success: boolean; message: string; order: Order }> {
+    const response = await apiRequest("POST", `/api/orders/${orderId}/cancel`, { reason });
+    return await response.json();
+  },
+
+  async requestOrderCancellation(orderId: string, reason?: string): Promise<{ success: boolean; message: string; order: Order }> {
+    const response = await apiRequest("POST", `/api/orders/${orderId}/cancellation-request`, { reason });
+    return await response.json();
+  },
+
+  async amendOrder(orderId: string, amendment: OrderAmendment): Promise<{ success: boolean; message: string; order: OrderWithLines }> {
+    const response = await apiRequest("PATCH", `/api/orders/${orderId}/lines`, amendment);
+    return await response.json();
+  },
+
+  async reviewOrderCancellation(orderId: string, decision: "approve" | "reject", note?: string): Promise<{ success: boolean; message: string; order: Order }> {
+    const response = await apiRequest("POST", `/api/admin/orders/${orderId}/cancellation/${decision}`, { note });
+    return await response.json();
+  },
+
+  async getOrderEvents(orderId: string): Promise<OrderEvent[]> {
+    const response = await apiRequest("GET", `/api/orders/${orderId}/events`);
+    return await response.json();
+  },
+
+  async getOrderPayments(orderId: string): Promise<Payment[]> {
+    const response = await apiRequest("GET", `/api/admin/orders/${orderId}/payments`);
+    return await response.json();
+  },
+
   async updateOrderStatus(orderId: string, status: string): Promise<{ success: boolean; order: Order }> {
     const response = await apiRequest("PATCH", `/api/admin/orders/${orderId}/status`, { status });
     return await response.json();
@@ -66,6 +258,178 @@ export const ecountService = {
     const response = await apiRequest("GET", "/api/admin/inventory");
     return await response.json();
   },
+
+  async getAdminDeliveryZones(): Promise<DeliveryZone[]> {
+    const response = await apiRequest("GET", "/api/admin/delivery-zones");
+    return await response.json();
+  },
+
+  async createDeliveryZone(zone: InsertDeliveryZone): Promise<{ success: boolean; zone: DeliveryZone }> {
+    const response = await apiRequest("POST", "/api/admin/delivery-zones", zone);
+    return await response.json();
+  },
+
+  async updateDeliveryZone(zoneId: string, updates: UpdateDeliveryZone): Promise<{ success: boolean; zone: DeliveryZone }> {
+    const response = await apiRequest("PATCH", `/api/admin/delivery-zones/${zoneId}`, updates);
+    return await response.json();
+  },
+
+  async deleteDeliveryZone(zoneId: string): Promise<{ success: boolean }> {
+    const response = await apiRequest("DELETE", `/api/admin/delivery-zones/${zoneId}`);
+    return await response.json();
+  },
+
+  // Price lists (admin)
+  async getPriceLists(): Promise<PriceList[]> {
+    const response = await apiRequest("GET", "/api/admin/price-lists");
+    return await response.json();
+  },
+
+  async createPriceList(priceList: InsertPriceList): Promise<{ success: boolean; message: string; priceList: PriceList }> {
+    const response = await apiRequest("POST", "/api/admin/price-lists", priceList);
+    return await response.json();
+  },
+
+  async updatePriceList(priceListId: string, updates: UpdatePriceList): Promise<{ success: boolean; message: string; priceList: PriceList }> {
+    const response = await apiRequest("PATCH", `/api/admin/price-lists/${priceListId}`, updates);
+    return await response.json();
+  },
+
+  async deletePriceList(priceListId: string): Promise<{ success: boolean; message: string }> {
+    const response = await apiRequest("DELETE", `/api/admin/price-lists/${priceListId}`);
+    return await response.json();
+  },
+
+  async getDiscountRules(): Promise<DiscountRule[]> {
+    const response = await apiRequest("GET", "/api/admin/discount-rules");
+    return await response.json();
+  },
+
+  async createDiscountRule(rule: InsertDiscountRule): Promise<{ success: boolean; message: string; rule: DiscountRule }> {
+    const response = await apiRequest("POST", "/api/admin/discount-rules", rule);
+    return await response.json();
+  },
+
+  async updateDiscountRule(ruleId: string, updates: Partial<InsertDiscountRule>): Promise<{ success: boolean; message: string; rule: DiscountRule }> {
+    const response = await apiRequest("PATCH", `/api/admin/discount-rules/${ruleId}`, updates);
+    return await response.json();
+  },
+
+  async deleteDiscountRule(ruleId: string): Promise<{ success: boolean; message: string }> {
+    const response = await apiRequest("DELETE", `/api/admin/discount-rules/${ruleId}`);
+    return await response.json();
+  },
+
+  async getSyncJobs(status?: SyncJobStatus): Promise<SyncJobWithOrder[]> {
+    const response = await apiRequest("GET", status ? `/api/admin/sync-jobs?status=${status}` : "/api/admin/sync-jobs");
+    return await response.json();
+  },
+
+  async requeueSyncJob(jobId: string): Promise<{ success: boolean; message: string; job: SyncJob }> {
+    const response = await apiRequest("POST", `/api/admin/sync-jobs/${jobId}/requeue`);
+    return await response.json();
+  },
+
+  async discardSyncJob(jobId: string): Promise<{ success: boolean; message: string; job: SyncJob }> {
+    const response = await apiRequest("POST", `/api/admin/sync-jobs/${jobId}/discard`);
+    return await response.json();
+  },
+
+  async getErpReconciliationRuns(): Promise<ErpReconciliationRunSummary[]> {
+    const response = await apiRequest("GET", "/api/admin/erp-reconciliation");
+    return await response.json();
+  },
+
+  async getErpReconciliationRun(runId: string): Promise<ErpReconciliationRun> {
+    const response = await apiRequest("GET", `/api/admin/erp-reconciliation/${runId}`);
+    return await response.json();
+  },
+
+  async runErpReconciliation(period: ErpReconciliationRequest): Promise<ErpReconciliationRun> {
+    const response = await apiRequest("POST", "/api/admin/erp-reconciliation", period);
+    return await response.json();
+  },
+
+  async getStockLots(): Promise<StockLotWithAvailability[]> {
+    const response = await apiRequest("GET", "/api/admin/stock-lots");
+    return await response.json();
+  },
+
+  async uploadStockLots(file: File): Promise<{ success: boolean; message: string; data: StockLotImportResult }> {
+    const formData = new FormData();
+    formData.append("file", file);
+    const response = await apiRequest("POST", "/api/admin/stock-lots/upload", formData);
+    return await response.json();
+  },
+
+  async getStockThresholds(): Promise<StockThreshold[]> {
+    const response = await apiRequest("GET", "/api/admin/stock-thresholds");
+    return await response.json();
+  },
+
+  async saveStockThreshold(threshold: UpsertStockThreshold): Promise<{ success: boolean; message: string; threshold: StockThreshold }> {
+    const response = await apiRequest("PUT", "/api/admin/stock-thresholds", threshold);
+    return await response.json();
+  },
+
+  async deleteStockThreshold(thresholdId: string): Promise<{ success: boolean; message: string }> {
+    const response = await apiRequest("DELETE", `/api/admin/stock-thresholds/${thresholdId}`);
+    return await response.json();
+  },
+
+  async runStockAlertCheck(): Promise<StockAlertRunResult> {
+    const response = await apiRequest("POST", "/api/admin/stock-alerts/run");
+    return await response.json();
+  },
+
+  async getBackorderProducts(): Promise<BackorderProduct[]> {
+    const response = await apiRequest("GET", "/api/admin/backorder-products");
+    return await response.json();
+  },
+
+  async saveBackorderProduct(product: UpsertBackorderProduct): Promise<{ success: boolean; message: string; product: BackorderProduct }> {
+    const response = await apiRequest("PUT", "/api/admin/backorder-products", product);
+    return await response.json();
+  },
+
+  async deleteBackorderProduct(productCode: string): Promise<{ success: boolean; message: string }> {
+    const response = await apiRequest("DELETE", `/api/admin/backorder-products/${encodeURIComponent(productCode)}`);
+    return await response.json();
+  },
+
+  async releaseBackorders(): Promise<{ success: boolean; message: string; data: BackorderReleaseSummary }> {
+    const response = await apiRequest("POST", "/api/admin/backorders/release");
+    return await response.json();
+  },
+
+  async getInventoryReport(days: number, productCode?: string | null): Promise<InventoryReport> {
+    const params = new URLSearchParams({ days: String(days) });
+    if (productCode) {
+      params.set("productCode", productCode);
+    }
+    const response = await apiRequest("GET", `/api/admin/inventory-report?${params.toString()}`);
+    return await response.json();
+  },
+
+  async getCustomerPricing(): Promise<CustomerPricing[]> {
+    const response = await apiRequest("GET", "/api/admin/customer-pricing");
+    return await response.json();
+  },
+
+  async setCustomerPricing(userId: string, pricing: UpdateCustomerPricing): Promise<{ success: boolean; message: string; pricing: CustomerPricing }> {
+    const response = await apiRequest("PUT", `/api/admin/customer-pricing/${userId}`, pricing);
+    return await response.json();
+  },
+
+  async verifyEcountCustomer(customerCode: string): Promise<{ success: boolean; exists: boolean; message: string; data?: any }> {
+    const response = await apiRequest("GET", `/api/admin/verify-customer/${encodeURIComponent(customerCode)}`);
+    return await response.json();
+  },
+
+  async setUserEcountCustomer(userId: string, account: UpdateCustomerEcountAccount): Promise<{ success: boolean; message: string; account: CustomerEcountAccount | null }> {
+    const response = await apiRequest("PUT", `/api/admin/users/${userId}/ecount-customer`, account);
+    return await response.json();
+  },
 };
 
 // Future eCOUNT integration example:
@@ -0,0 +1,82 @@
+CREATE TABLE IF NOT EXISTS public.order_items (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id varchar NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  line_number integer NOT NULL,
+  product_code text NOT NULL,
+  product_name text NOT NULL,
+  reference_number text NOT NULL DEFAULT '',
+  unit_price numeric(14, 2) NOT NULL,
+  quantity integer NOT NULL,
+  line_total numeric(14, 2) NOT NULL,
+  erp_line_status text NOT NULL DEFAULT 'pending',
+  created_at timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'order_items_order_id_line_number_key'
+  ) THEN
+    ALTER TABLE public.order_items
+      ADD CONSTRAINT order_items_order_id_line_number_key UNIQUE (order_id, line_number);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'order_items_erp_line_status_check'
+  ) THEN
+    ALTER TABLE public.order_items
+      ADD CONSTRAINT order_items_erp_line_status_check
+      CHECK (erp_line_status IN ('pending', 'synced', 'failed'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS order_items_product_code_idx
+  ON public.order_items (product_code);
+
+-- Back-fill lines from the legacy orders.items JSON snapshot.
+INSERT INTO public.order_items (
+  order_id,
+  line_number,
+  product_code,
+  product_name,
+  reference_number,
+  unit_price,
+  quantity,
+  line_total,
+  erp_line_status,
+  created_at
+)
+SELECT
+  o.id,
+  item.line_number::integer,
+  COALESCE(item.value->>'productId', ''),
+  COALESCE(NULLIF(item.value->>'name', ''), item.value->>'productId', ''),
+  COALESCE(item.value->>'referenceNumber', ''),
+  ROUND(COALESCE(NULLIF(item.value->>'price', '')::numeric, 0), 2),
+  COALESCE(NULLIF(item.value->>'quantity', '')::numeric, 0)::integer,
+  ROUND(
+    COALESCE(NULLIF(item.value->>'price', '')::numeric, 0) *
+    COALESCE(NULLIF(item.value->>'quantity', '')::numeric, 0)::integer,
+    2
+  ),
+  CASE
+    WHEN o.erp_sync_status IN ('synced', 'failed') THEN o.erp_sync_status
+    ELSE 'pending'
+  END,
+  o.created_at
+FROM public.orders o
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE
+    WHEN jsonb_typeof(o.items::jsonb) = 'array' THEN o.items::jsonb
+    ELSE '[]'::jsonb
+  END
+) WITH ORDINALITY AS item(value, line_number)
+WHERE NOT EXISTS (
+  SELECT 1
+  FROM public.order_items existing
+  WHERE existing.order_id = o.id
+);
@@ -0,0 +1,13 @@
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS quoted_subtotal numeric(10, 2),
+  ADD COLUMN IF NOT EXISTS price_mismatch boolean;
+
+UPDATE public.orders
+SET price_mismatch = COALESCE(price_mismatch, false);
+
+ALTER TABLE public.orders
+  ALTER COLUMN price_mismatch SET DEFAULT false,
+  ALTER COLUMN price_mismatch SET NOT NULL;
+
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS quoted_unit_price numeric(14, 2);
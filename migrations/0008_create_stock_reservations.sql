@@ -0,0 +1,41 @@
+CREATE TABLE IF NOT EXISTS public.stock_reservations (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id varchar NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  product_code text NOT NULL,
+  quantity integer NOT NULL,
+  status text NOT NULL DEFAULT 'active',
+  release_reason text,
+  expires_at timestamp NOT NULL,
+  released_at timestamp,
+  created_at timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'stock_reservations_status_check'
+  ) THEN
+    ALTER TABLE public.stock_reservations
+      ADD CONSTRAINT stock_reservations_status_check
+      CHECK (status IN ('active', 'released'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'stock_reservations_quantity_check'
+  ) THEN
+    ALTER TABLE public.stock_reservations
+      ADD CONSTRAINT stock_reservations_quantity_check
+      CHECK (quantity > 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS stock_reservations_active_product_idx
+  ON public.stock_reservations (product_code, expires_at)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS stock_reservations_order_id_idx
+  ON public.stock_reservations (order_id);
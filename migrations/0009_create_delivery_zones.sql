@@ -0,0 +1,68 @@
+CREATE TABLE IF NOT EXISTS public.delivery_zones (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  name text NOT NULL,
+  address_keywords text[] NOT NULL DEFAULT '{}'::text[],
+  transport_cost numeric(10, 2) NOT NULL,
+  free_delivery_minimum numeric(10, 2),
+  weight_threshold_kg numeric(10, 2),
+  extra_cost_per_kg numeric(10, 2) NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'delivery_zones_code_format_check'
+  ) THEN
+    ALTER TABLE public.delivery_zones
+      ADD CONSTRAINT delivery_zones_code_format_check
+      CHECK (code ~ '^[a-z0-9_]+$');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'delivery_zones_amounts_check'
+  ) THEN
+    ALTER TABLE public.delivery_zones
+      ADD CONSTRAINT delivery_zones_amounts_check
+      CHECK (
+        transport_cost >= 0 AND
+        extra_cost_per_kg >= 0 AND
+        (free_delivery_minimum IS NULL OR free_delivery_minimum >= 0) AND
+        (weight_threshold_kg IS NULL OR weight_threshold_kg >= 0)
+      );
+  END IF;
+END $$;
+
+-- Existing tariffs keep their codes so historical orders still resolve. Regional zones are
+-- seeded inactive until logistics confirms their tariffs in the admin panel.
+INSERT INTO public.delivery_zones (code, name, address_keywords, transport_cost, active, sort_order)
+VALUES
+  (
+    'dar_es_salaam',
+    'Dar es Salaam',
+    ARRAY['dar es salaam', 'dar-es-salaam', 'dsm', 'mikocheni', 'masaki', 'kinondoni', 'ilala', 'temeke', 'ubungo', 'kigamboni'],
+    10000,
+    true,
+    10
+  ),
+  ('arusha', 'Arusha', ARRAY['arusha'], 20000, false, 20),
+  ('mwanza', 'Mwanza', ARRAY['mwanza'], 20000, false, 30),
+  ('dodoma', 'Dodoma', ARRAY['dodoma'], 20000, false, 40),
+  ('zanzibar', 'Zanzibar', ARRAY['zanzibar', 'unguja', 'pemba'], 20000, false, 50),
+  ('outside_dar_es_salaam', 'Outside Dar es Salaam', '{}'::text[], 20000, true, 100)
+ON CONFLICT (code) DO NOTHING;
+
+-- delivery_area now holds any delivery_zones code.
+ALTER TABLE public.orders
+  DROP CONSTRAINT IF EXISTS orders_delivery_area_check;
+
+ALTER TABLE IF EXISTS public.product_mappings
+  ADD COLUMN IF NOT EXISTS weight_kg numeric(10, 3);
@@ -0,0 +1,35 @@
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS vat_class text,
+  ADD COLUMN IF NOT EXISTS vat_rate numeric(5, 4),
+  ADD COLUMN IF NOT EXISTS vat_amount numeric(14, 2);
+
+-- Orders placed before the VAT engine were never charged VAT.
+UPDATE public.order_items
+SET
+  vat_class = COALESCE(vat_class, 'exempt'),
+  vat_rate = COALESCE(vat_rate, 0),
+  vat_amount = COALESCE(vat_amount, 0);
+
+ALTER TABLE public.order_items
+  ALTER COLUMN vat_class SET DEFAULT 'exempt',
+  ALTER COLUMN vat_class SET NOT NULL,
+  ALTER COLUMN vat_rate SET DEFAULT 0,
+  ALTER COLUMN vat_rate SET NOT NULL,
+  ALTER COLUMN vat_amount SET DEFAULT 0,
+  ALTER COLUMN vat_amount SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'order_items_vat_class_check'
+  ) THEN
+    ALTER TABLE public.order_items
+      ADD CONSTRAINT order_items_vat_class_check
+      CHECK (vat_class IN ('standard', 'zero_rated', 'exempt'));
+  END IF;
+END $$;
+
+ALTER TABLE IF EXISTS public.product_mappings
+  ADD COLUMN IF NOT EXISTS vat_class text;
@@ -0,0 +1,49 @@
+CREATE TABLE IF NOT EXISTS public.payments (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id varchar NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  network text,
+  phone text NOT NULL,
+  amount numeric(10, 2) NOT NULL,
+  currency text NOT NULL DEFAULT 'TZS',
+  status text NOT NULL DEFAULT 'pending',
+  provider_reference text,
+  failure_reason text,
+  paid_at timestamp,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'payments_status_check'
+  ) THEN
+    ALTER TABLE public.payments
+      ADD CONSTRAINT payments_status_check
+      CHECK (status IN ('pending', 'succeeded', 'failed', 'cancelled'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'payments_amount_check'
+  ) THEN
+    ALTER TABLE public.payments
+      ADD CONSTRAINT payments_amount_check
+      CHECK (amount >= 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS payments_order_id_idx
+  ON public.payments (order_id);
+
+-- Callbacks look payments up by the provider's transaction ID.
+CREATE UNIQUE INDEX IF NOT EXISTS payments_provider_reference_idx
+  ON public.payments (provider, provider_reference)
+  WHERE provider_reference IS NOT NULL;
+
+-- Unpaid online orders use status/erp_sync_status 'awaiting_payment', which the eCount sync
+-- queue (pending/failed only) already skips.
@@ -0,0 +1,38 @@
+CREATE TABLE IF NOT EXISTS public.order_events (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id varchar NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  from_status text,
+  to_status text,
+  actor_type text NOT NULL,
+  actor_id text,
+  actor_email text,
+  message text,
+  created_at timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'order_events_actor_type_check'
+  ) THEN
+    ALTER TABLE public.order_events
+      ADD CONSTRAINT order_events_actor_type_check
+      CHECK (actor_type IN ('customer', 'admin', 'system', 'payment_provider'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS order_events_order_id_created_at_idx
+  ON public.order_events (order_id, created_at);
+
+-- Seed one "created" event per existing order so older orders still have a timeline start.
+INSERT INTO public.order_events (order_id, event_type, to_status, actor_type, message, created_at)
+SELECT o.id, 'created', o.status, 'system', 'Recorded before order history was introduced', o.created_at
+FROM public.orders o
+WHERE NOT EXISTS (
+  SELECT 1
+  FROM public.order_events e
+  WHERE e.order_id = o.id
+);
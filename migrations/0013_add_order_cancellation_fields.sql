@@ -0,0 +1,25 @@
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS cancellation_status text,
+  ADD COLUMN IF NOT EXISTS cancellation_reason text,
+  ADD COLUMN IF NOT EXISTS cancellation_requested_at timestamp,
+  ADD COLUMN IF NOT EXISTS erp_reversal_doc_number text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'orders_cancellation_status_check'
+  ) THEN
+    ALTER TABLE public.orders
+      ADD CONSTRAINT orders_cancellation_status_check
+      CHECK (cancellation_status IS NULL OR cancellation_status IN ('requested', 'approved', 'rejected'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS orders_cancellation_requested_idx
+  ON public.orders (cancellation_requested_at)
+  WHERE cancellation_status = 'requested';
+
+-- Orders cancelled before reaching eCount use erp_sync_status 'cancelled', which the sync queue
+-- (pending/failed only) skips.
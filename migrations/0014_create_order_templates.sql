@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS public.order_templates (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id varchar NOT NULL,
+  name text NOT NULL,
+  items text NOT NULL,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+-- Basket names are unique per customer, ignoring case.
+CREATE UNIQUE INDEX IF NOT EXISTS order_templates_user_id_name_idx
+  ON public.order_templates (user_id, lower(name));
@@ -0,0 +1,37 @@
+CREATE TABLE IF NOT EXISTS public.carts (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id varchar NOT NULL UNIQUE,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.cart_items (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  cart_id varchar NOT NULL REFERENCES public.carts(id) ON DELETE CASCADE,
+  product_id text NOT NULL,
+  name text NOT NULL,
+  price numeric(14, 2) NOT NULL,
+  reference_number text NOT NULL DEFAULT '',
+  image_url text,
+  vat_class text,
+  quantity integer NOT NULL,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'cart_items_quantity_check'
+  ) THEN
+    ALTER TABLE public.cart_items
+      ADD CONSTRAINT cart_items_quantity_check
+      CHECK (quantity > 0);
+  END IF;
+END $$;
+
+-- Upserts target (cart_id, product_id), so each product appears once per cart.
+CREATE UNIQUE INDEX IF NOT EXISTS cart_items_cart_id_product_id_idx
+  ON public.cart_items (cart_id, product_id);
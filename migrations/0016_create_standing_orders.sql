@@ -0,0 +1,55 @@
+CREATE TABLE IF NOT EXISTS public.standing_orders (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id varchar NOT NULL,
+  name text NOT NULL,
+  cadence text NOT NULL,
+  status text NOT NULL DEFAULT 'active',
+  next_run_at timestamp NOT NULL,
+  items text NOT NULL,
+  payment_method text NOT NULL DEFAULT 'cash',
+  payment_phone text,
+  payment_network text,
+  delivery_option text NOT NULL DEFAULT 'pickup',
+  delivery_area text,
+  customer_name text NOT NULL,
+  customer_email text NOT NULL,
+  customer_phone text NOT NULL,
+  customer_company text NOT NULL DEFAULT '',
+  customer_address text NOT NULL DEFAULT '',
+  last_run_at timestamp,
+  last_run_status text,
+  last_run_message text,
+  last_order_id varchar,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'standing_orders_cadence_check'
+  ) THEN
+    ALTER TABLE public.standing_orders
+      ADD CONSTRAINT standing_orders_cadence_check
+      CHECK (cadence IN ('weekly', 'fortnightly', 'monthly'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'standing_orders_status_check'
+  ) THEN
+    ALTER TABLE public.standing_orders
+      ADD CONSTRAINT standing_orders_status_check
+      CHECK (status IN ('active', 'paused'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS standing_orders_due_idx
+  ON public.standing_orders (next_run_at)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS standing_orders_user_id_idx
+  ON public.standing_orders (user_id);
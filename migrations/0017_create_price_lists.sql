@@ -0,0 +1,43 @@
+CREATE TABLE IF NOT EXISTS public.price_lists (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text NOT NULL DEFAULT '',
+  customer_group text UNIQUE,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.price_list_items (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  price_list_id varchar NOT NULL REFERENCES public.price_lists(id) ON DELETE CASCADE,
+  product_id text NOT NULL,
+  price numeric(14, 2) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.customer_pricing (
+  user_id varchar PRIMARY KEY,
+  price_list_id varchar REFERENCES public.price_lists(id) ON DELETE SET NULL,
+  customer_group text,
+  updated_at timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'price_list_items_price_check'
+  ) THEN
+    ALTER TABLE public.price_list_items
+      ADD CONSTRAINT price_list_items_price_check
+      CHECK (price > 0);
+  END IF;
+END $$;
+
+-- A product is priced once per list.
+CREATE UNIQUE INDEX IF NOT EXISTS price_list_items_price_list_id_product_id_idx
+  ON public.price_list_items (price_list_id, product_id);
+
+CREATE INDEX IF NOT EXISTS customer_pricing_customer_group_idx
+  ON public.customer_pricing (customer_group);
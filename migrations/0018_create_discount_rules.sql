@@ -0,0 +1,57 @@
+CREATE TABLE IF NOT EXISTS public.discount_rules (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  type text NOT NULL,
+  product_id text,
+  category text,
+  coupon_code text UNIQUE,
+  min_quantity integer NOT NULL DEFAULT 1,
+  percent_off numeric(5, 2),
+  amount_off numeric(14, 2),
+  min_order_subtotal numeric(14, 2),
+  starts_at timestamp,
+  ends_at timestamp,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'discount_rules_type_check'
+  ) THEN
+    ALTER TABLE public.discount_rules
+      ADD CONSTRAINT discount_rules_type_check
+      CHECK (type IN ('volume_break', 'category_promotion', 'coupon'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'discount_rules_amount_check'
+  ) THEN
+    ALTER TABLE public.discount_rules
+      ADD CONSTRAINT discount_rules_amount_check
+      CHECK (
+        (percent_off IS NULL) <> (amount_off IS NULL) AND
+        (percent_off IS NULL OR (percent_off > 0 AND percent_off <= 100)) AND
+        (amount_off IS NULL OR amount_off > 0) AND
+        min_quantity > 0
+      );
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS discount_rules_active_idx
+  ON public.discount_rules (active);
+
+-- Existing orders had no discounts.
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS discount_total numeric(10, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS coupon_code text;
+
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS discount_amount numeric(14, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS discount_label text;
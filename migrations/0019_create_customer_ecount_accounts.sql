@@ -0,0 +1,24 @@
+CREATE TABLE IF NOT EXISTS public.customer_ecount_accounts (
+  user_id varchar PRIMARY KEY,
+  cust_code text NOT NULL,
+  cust_name text NOT NULL DEFAULT '',
+  created_in_ecount boolean NOT NULL DEFAULT false,
+  updated_at timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'customer_ecount_accounts_cust_code_check'
+  ) THEN
+    ALTER TABLE public.customer_ecount_accounts
+      ADD CONSTRAINT customer_ecount_accounts_cust_code_check
+      CHECK (length(btrim(cust_code)) > 0);
+  END IF;
+END $$;
+
+-- Accountants look up which web accounts book against an eCount customer.
+CREATE INDEX IF NOT EXISTS customer_ecount_accounts_cust_code_idx
+  ON public.customer_ecount_accounts (cust_code);
@@ -0,0 +1,8 @@
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS idempotency_key text;
+
+-- One order per checkout attempt: a repeated submission with the same key returns the saved order
+-- instead of creating a duplicate (and a duplicate eCount sale order).
+CREATE UNIQUE INDEX IF NOT EXISTS orders_user_id_idempotency_key_idx
+  ON public.orders (user_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
@@ -0,0 +1,71 @@
+CREATE TABLE IF NOT EXISTS public.sync_jobs (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_type text NOT NULL,
+  subject_id varchar NOT NULL,
+  payload text NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL,
+  run_at timestamp NOT NULL DEFAULT now(),
+  lease_owner text,
+  lease_expires_at timestamp,
+  last_error text,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now(),
+  completed_at timestamp
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'sync_jobs_status_check'
+  ) THEN
+    ALTER TABLE public.sync_jobs
+      ADD CONSTRAINT sync_jobs_status_check
+      CHECK (status IN ('pending', 'running', 'succeeded', 'dead', 'discarded'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'sync_jobs_max_attempts_check'
+  ) THEN
+    ALTER TABLE public.sync_jobs
+      ADD CONSTRAINT sync_jobs_max_attempts_check
+      CHECK (max_attempts > 0);
+  END IF;
+END $$;
+
+-- One live job per subject, so the Vercel cron and the VPS worker can never run the same order twice.
+CREATE UNIQUE INDEX IF NOT EXISTS sync_jobs_live_subject_idx
+  ON public.sync_jobs (job_type, subject_id)
+  WHERE status IN ('pending', 'running');
+
+CREATE INDEX IF NOT EXISTS sync_jobs_due_idx
+  ON public.sync_jobs (job_type, run_at)
+  WHERE status IN ('pending', 'running');
+
+CREATE INDEX IF NOT EXISTS sync_jobs_status_idx
+  ON public.sync_jobs (status, updated_at DESC);
+
+-- Orders already waiting for eCount keep their retry schedule as jobs.
+INSERT INTO public.sync_jobs (job_type, subject_id, attempts, max_attempts, run_at, last_error)
+SELECT
+  'ecount_order_sync',
+  o.id,
+  COALESCE(o.erp_sync_attempts, 0),
+  GREATEST(COALESCE(o.erp_sync_attempts, 0) + 1, 10),
+  COALESCE(o.erp_next_sync_attempt_at, now()),
+  o.erp_sync_error
+FROM public.orders o
+WHERE COALESCE(o.erp_sync_status, 'pending') IN ('pending', 'failed')
+  AND o.status <> 'cancelled'
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.sync_jobs j
+    WHERE j.job_type = 'ecount_order_sync'
+      AND j.subject_id = o.id
+      AND j.status IN ('pending', 'running')
+  );
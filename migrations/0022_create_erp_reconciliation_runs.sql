@@ -0,0 +1,30 @@
+CREATE TABLE IF NOT EXISTS public.erp_reconciliation_runs (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_from text NOT NULL,
+  period_to text NOT NULL,
+  triggered_by text NOT NULL,
+  status text NOT NULL,
+  orders_checked integer NOT NULL DEFAULT 0,
+  documents_checked integer NOT NULL DEFAULT 0,
+  matched_count integer NOT NULL DEFAULT 0,
+  issue_count integer NOT NULL DEFAULT 0,
+  issues text NOT NULL DEFAULT '[]',
+  error text,
+  created_at timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'erp_reconciliation_runs_status_check'
+  ) THEN
+    ALTER TABLE public.erp_reconciliation_runs
+      ADD CONSTRAINT erp_reconciliation_runs_status_check
+      CHECK (status IN ('completed', 'failed'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS erp_reconciliation_runs_created_at_idx
+  ON public.erp_reconciliation_runs (created_at DESC);
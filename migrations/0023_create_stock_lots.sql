@@ -0,0 +1,64 @@
+CREATE TABLE IF NOT EXISTS public.stock_lots (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_code text NOT NULL,
+  lot_number text NOT NULL,
+  expires_at timestamp,
+  quantity integer NOT NULL,
+  updated_at timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS stock_lots_product_lot_idx
+  ON public.stock_lots (product_code, lot_number);
+
+CREATE TABLE IF NOT EXISTS public.order_lot_allocations (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id varchar NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  line_number integer NOT NULL,
+  product_code text NOT NULL,
+  lot_number text NOT NULL,
+  expires_at timestamp,
+  quantity integer NOT NULL,
+  status text NOT NULL DEFAULT 'allocated',
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'stock_lots_quantity_check'
+  ) THEN
+    ALTER TABLE public.stock_lots
+      ADD CONSTRAINT stock_lots_quantity_check
+      CHECK (quantity >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'order_lot_allocations_status_check'
+  ) THEN
+    ALTER TABLE public.order_lot_allocations
+      ADD CONSTRAINT order_lot_allocations_status_check
+      CHECK (status IN ('allocated', 'shipped', 'released'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'order_lot_allocations_quantity_check'
+  ) THEN
+    ALTER TABLE public.order_lot_allocations
+      ADD CONSTRAINT order_lot_allocations_quantity_check
+      CHECK (quantity > 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS order_lot_allocations_lot_idx
+  ON public.order_lot_allocations (product_code, lot_number)
+  WHERE status <> 'released';
+
+CREATE INDEX IF NOT EXISTS order_lot_allocations_order_id_idx
+  ON public.order_lot_allocations (order_id);
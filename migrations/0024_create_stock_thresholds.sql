@@ -0,0 +1,53 @@
+CREATE TABLE IF NOT EXISTS public.stock_thresholds (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope text NOT NULL,
+  target text NOT NULL,
+  reorder_point integer NOT NULL,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS stock_thresholds_scope_target_idx
+  ON public.stock_thresholds (scope, target);
+
+CREATE TABLE IF NOT EXISTS public.stock_alert_states (
+  product_code text PRIMARY KEY,
+  status text NOT NULL,
+  quantity integer NOT NULL,
+  reorder_point integer NOT NULL,
+  alerted_at timestamp,
+  updated_at timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'stock_thresholds_scope_check'
+  ) THEN
+    ALTER TABLE public.stock_thresholds
+      ADD CONSTRAINT stock_thresholds_scope_check
+      CHECK (scope IN ('product', 'category'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'stock_thresholds_reorder_point_check'
+  ) THEN
+    ALTER TABLE public.stock_thresholds
+      ADD CONSTRAINT stock_thresholds_reorder_point_check
+      CHECK (reorder_point >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'stock_alert_states_status_check'
+  ) THEN
+    ALTER TABLE public.stock_alert_states
+      ADD CONSTRAINT stock_alert_states_status_check
+      CHECK (status IN ('in_stock', 'low_stock', 'out_of_stock'));
+  END IF;
+END $$;
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS public.stock_subscriptions (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id varchar NOT NULL,
+  email text NOT NULL,
+  product_id text NOT NULL,
+  product_name text NOT NULL,
+  notified_at timestamp,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS stock_subscriptions_user_product_idx
+  ON public.stock_subscriptions (user_id, product_id);
+
+-- The job after each inventory refresh only reads subscriptions still waiting
+CREATE INDEX IF NOT EXISTS stock_subscriptions_waiting_idx
+  ON public.stock_subscriptions (created_at)
+  WHERE notified_at IS NULL;
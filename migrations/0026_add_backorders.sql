@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS public.backorder_products (
+  product_code text PRIMARY KEY,
+  expected_arrival_at timestamp NOT NULL,
+  updated_at timestamp DEFAULT now()
+);
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS backorder_of_order_id varchar,
+  ADD COLUMN IF NOT EXISTS expected_arrival_at timestamp;
+
+-- Backordered orders use status/erp_sync_status 'backordered', which the eCount sync queue
+-- (pending/failed only) already skips. The release after each inventory refresh reads them oldest first.
+CREATE INDEX IF NOT EXISTS orders_backordered_idx
+  ON public.orders (created_at)
+  WHERE status = 'backordered';
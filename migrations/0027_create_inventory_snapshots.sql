@@ -0,0 +1,36 @@
+CREATE TABLE IF NOT EXISTS public.inventory_snapshots (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  source text NOT NULL,
+  product_count integer NOT NULL,
+  taken_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.inventory_snapshot_items (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  snapshot_id varchar NOT NULL REFERENCES public.inventory_snapshots(id) ON DELETE CASCADE,
+  product_code text NOT NULL,
+  warehouse_code text NOT NULL,
+  quantity integer NOT NULL
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'inventory_snapshots_source_check'
+  ) THEN
+    ALTER TABLE public.inventory_snapshots
+      ADD CONSTRAINT inventory_snapshots_source_check
+      CHECK (source IN ('bulk_sync', 'inventory_cache', 'vps_sync'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS inventory_snapshots_taken_at_idx
+  ON public.inventory_snapshots (taken_at);
+
+CREATE UNIQUE INDEX IF NOT EXISTS inventory_snapshot_items_snapshot_product_idx
+  ON public.inventory_snapshot_items (snapshot_id, product_code, warehouse_code);
+
+CREATE INDEX IF NOT EXISTS inventory_snapshot_items_product_idx
+  ON public.inventory_snapshot_items (product_code, snapshot_id);
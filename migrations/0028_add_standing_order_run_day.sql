@@ -0,0 +1,8 @@
+-- Monthly standing orders are scheduled from the day of month the customer picked, so one short
+-- month (31 January -> 28 February) does not move every later run to the 28th.
+ALTER TABLE public.standing_orders
+  ADD COLUMN IF NOT EXISTS run_day_of_month integer;
+
+UPDATE public.standing_orders
+SET run_day_of_month = EXTRACT(DAY FROM next_run_at)::integer
+WHERE run_day_of_month IS NULL;
@@ -186,6 +186,7 @@ function normalizeInventoryRows(rows, warehouseCode) {
     } else {
       grouped.set(productCode, {
         productCode,
+        warehouseCode: rowWarehouseCode || warehouseCode || "",
         productName: row.PROD_DES || row.ITEM_NAME || row.ITEM_NM || `eCount Product - ${productCode}`,
         availableQuantity: quantity,
         sourceRows: 1,
@@ -196,8 +197,12 @@ function normalizeInventoryRows(rows, warehouseCode) {
   return Array.from(grouped.values());
 }
 
+function getEcountBaseUrl(config, zone) {
+  return config.apiBaseUrl || `https://oapi${zone}.ecount.com`;
+}
+
 async function loginToEcount(config) {
-  const zoneResult = await postJson("https://oapi.ecount.com/OAPI/V2/Zone", {
+  const zoneResult = await postJson(`${config.apiBaseUrl || "https://oapi.ecount.com"}/OAPI/V2/Zone`, {
     COM_CODE: config.companyCode,
   });
   const zone = zoneResult.json?.Data?.ZONE || zoneResult.json?.Data?.Zone || config.zone;
@@ -206,7 +211,7 @@ async function loginToEcount(config) {
     throw new Error(`Zone API failed (${zoneResult.response.status}): ${zoneResult.json?.Error?.Message || zoneResult.text.slice(0, 200)}`);
   }
 
-  const loginResult = await postJson(`https://oapi${zone}.ecount.com/OAPI/V2/OAPILogin`, {
+  const loginResult = await postJson(`${getEcountBaseUrl(config, zone)}/OAPI/V2/OAPILogin`, {
     COM_CODE: config.companyCode,
     USER_ID: config.userId,
     API_CERT_KEY: config.authKey,
@@ -244,7 +249,7 @@ async function loginToEcount(config) {
 async function fetchInventory(config, session) {
   const baseDate = new Date().toISOString().slice(0, 10).replace(/-/g, "");
   const inventoryResult = await postJson(
-    `https://oapi${session.zone}.ecount.com/OAPI/V2/InventoryBalance/GetListInventoryBalanceStatus?SESSION_ID=${encodeURIComponent(session.sessionId)}`,
+    `${getEcountBaseUrl(config, session.zone)}/OAPI/V2/InventoryBalance/GetListInventoryBalanceStatus?SESSION_ID=${encodeURIComponent(session.sessionId)}`,
     {
       COM_CODE: config.companyCode,
       SESSION_ID: session.sessionId,
@@ -286,6 +291,23 @@ async function ensureTables(sql) {
       expiration_date timestamp
     )
   `;
+  await sql`
+    CREATE TABLE IF NOT EXISTS inventory_snapshots (
+      id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      source text NOT NULL,
+      product_count integer NOT NULL,
+      taken_at timestamp NOT NULL DEFAULT now()
+    )
+  `;
+  await sql`
+    CREATE TABLE IF NOT EXISTS inventory_snapshot_items (
+      id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      snapshot_id varchar NOT NULL REFERENCES inventory_snapshots(id) ON DELETE CASCADE,
+      product_code text NOT NULL,
+      warehouse_code text NOT NULL,
+      quantity integer NOT NULL
+    )
+  `;
 }
 
 async function persistInventory(config, inventoryRows) {
@@ -308,12 +330,55 @@ async function persistInventory(config, inventoryRows) {
           VALUES (${randomUUID()}, ${item.productCode}, ${Math.max(0, Math.floor(item.availableQuantity))}, NULL)
         `;
       }
+
+      // The inventory table only holds the latest balance; the snapshot keeps it for the stock history report.
+      if (inventoryRows.length > 0) {
+        const [snapshot] = await transaction`
+          INSERT INTO inventory_snapshots (source, product_count)
+          VALUES ('vps_sync', ${inventoryRows.length})
+          RETURNING id
+        `;
+        for (const item of inventoryRows) {
+          await transaction`
+            INSERT INTO inventory_snapshot_items (snapshot_id, product_code, warehouse_code, quantity)
+            VALUES (${snapshot.id}, ${item.productCode}, ${item.warehouseCode}, ${Math.floor(item.availableQuantity)})
+          `;
+        }
+      }
+      await transaction`
+        DELETE FROM inventory_snapshots
+        WHERE taken_at < now() - make_interval(days => ${config.snapshotRetentionDays})
+      `;
     });
   } finally {
     await sql.end({ timeout: 5 });
   }
 }
 
+// Ask the app to email customers waiting on products this refresh found in stock again.
+async function notifyBackInStock(config, inventoryRows) {
+  if (!config.backInStockNotifyUrl) {
+    return { skipped: "BACK_IN_STOCK_NOTIFY_URL not set" };
+  }
+
+  const result = await postJson(
+    config.backInStockNotifyUrl,
+    {
+      quantities: inventoryRows.map((item) => ({
+        productCode: item.productCode,
+        availableQuantity: Math.max(0, Math.floor(item.availableQuantity)),
+      })),
+    },
+    config.cronSecret ? { Authorization: `Bearer ${config.cronSecret}` } : {}
+  );
+
+  if (!result.response.ok) {
+    throw new Error(`Back-in-stock notify failed (${result.response.status}): ${result.json?.message || result.text.slice(0, 200)}`);
+  }
+
+  return result.json?.data ?? null;
+}
+
 async function main() {
   applyEnvFile();
 
@@ -324,13 +389,28 @@ async function main() {
     zone: requireEnv("ECOUNT_ZONE"),
     warehouseCode: requireEnv("ECOUNT_WAREHOUSE_CODE"),
     customerCode: process.env.ECOUNT_CUSTOMER_CODE || DEFAULT_CUSTOMER_CODE,
+    // e.g. the local simulator (scripts/ecount-simulator.mjs); blank uses eCount itself.
+    apiBaseUrl: String(process.env.ECOUNT_API_BASE_URL || "").trim().replace(/\/+$/, ""),
     databaseUrl: requireEnv("DATABASE_URL"),
+    // e.g. https://<app>/api/cron/back-in-stock; blank skips backorder release and back-in-stock emails.
+    backInStockNotifyUrl: String(process.env.BACK_IN_STOCK_NOTIFY_URL || "").trim(),
+    cronSecret: process.env.ORDER_SYNC_CRON_SECRET || process.env.CRON_SECRET || "",
+    // Matches the app's pruning of inventory snapshots.
+    snapshotRetentionDays: Number.parseInt(process.env.INVENTORY_SNAPSHOT_RETENTION_DAYS || "", 10) || 90,
   };
 
   const session = await loginToEcount(config);
   const inventoryRows = await fetchInventory(config, session);
   await persistInventory(config, inventoryRows);
 
+  // The inventory is already stored, so a failed notification is reported without failing the sync.
+  let backInStock;
+  try {
+    backInStock = await notifyBackInStock(config, inventoryRows);
+  } catch (error) {
+    backInStock = { error: error instanceof Error ? error.message : String(error) };
+  }
+
   const inStockCount = inventoryRows.filter((item) => item.availableQuantity > 0).length;
   const totalQuantity = inventoryRows.reduce((sum, item) => sum + item.availableQuantity, 0);
 
@@ -340,6 +420,7 @@ async function main() {
     productCount: inventoryRows.length,
     inStockProductCount: inStockCount,
     totalAvailableQuantity: totalQuantity,
+    backInStock,
     sample: inventoryRows.slice(0, 8),
   }, null, 2));
 }
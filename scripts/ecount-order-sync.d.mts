@@ -0,0 +1,59 @@
+export interface EcountOrderSyncConfig {
+  companyCode: string;
+  authKey: string;
+  userId: string;
+  zone: string;
+  warehouseCode: string;
+  customerCode: string;
+  apiBaseUrl: string;
+  orderDateTimeZone: string;
+  ioDateMode: "blank" | "order-date";
+}
+
+export interface EcountSession {
+  zone: string;
+  sessionId: string;
+  cookie: string;
+}
+
+export interface ProductMappingRow {
+  normalized_code: string;
+  original_code: string;
+  name: string;
+  price: string | number | null;
+  uom?: string | null;
+  category?: string | null;
+}
+
+// Row shapes as the worker reads them from Postgres
+export interface SyncOrderRow {
+  id: string;
+  order_number: string;
+  items: string | unknown[];
+  created_at?: Date | string | null;
+  customer_name?: string | null;
+  customer_company?: string | null;
+}
+
+export interface SyncOrderLineRow {
+  product_code: string;
+  product_name: string;
+  quantity: number;
+  unit_price: string;
+  vat_rate: string | number;
+  discount_amount?: string | number | null;
+  discount_label?: string | null;
+}
+
+export function indexProductMappings(rows: ProductMappingRow[]): Map<string, unknown>;
+
+export function loginToEcount(config: EcountOrderSyncConfig): Promise<EcountSession>;
+
+export function submitSaleOrder(
+  config: EcountOrderSyncConfig,
+  session: EcountSession,
+  order: SyncOrderRow,
+  mappings: Map<string, unknown>,
+  lines: SyncOrderLineRow[],
+  customerAccount: { cust_code: string; cust_name: string } | null,
+): Promise<{ docNo: string; ioDate: string; itemCount: number; totalValue: number }>;
@@ -1,4 +1,7 @@
 import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { fileURLToPath } from "node:url";
 import postgres from "postgres";
 
 const DEFAULT_CUSTOMER_CODE = "10839";
@@ -8,6 +11,8 @@ const DEFAULT_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
 const DEFAULT_SPACING_MS = 22 * 1000;
 const DEFAULT_CLAIM_LOCK_MS = 15 * 60 * 1000;
 const DEFAULT_ORDER_DATE_TIME_ZONE = "Africa/Dar_es_Salaam";
+const DEFAULT_MAX_ATTEMPTS = 10;
+const ORDER_SYNC_JOB_TYPE = "ecount_order_sync";
 
 function parseEnvFile(filePath) {
   const env = {};
@@ -197,8 +202,12 @@ async function postJson(url, body, headers = {}) {
   };
 }
 
-async function loginToEcount(config) {
-  const zoneResult = await postJson("https://oapi.ecount.com/OAPI/V2/Zone", {
+function getEcountBaseUrl(config, zone) {
+  return config.apiBaseUrl || `https://oapi${zone}.ecount.com`;
+}
+
+export async function loginToEcount(config) {
+  const zoneResult = await postJson(`${config.apiBaseUrl || "https://oapi.ecount.com"}/OAPI/V2/Zone`, {
     COM_CODE: config.companyCode,
   });
   const zone = zoneResult.json?.Data?.ZONE || zoneResult.json?.Data?.Zone || config.zone;
@@ -207,7 +216,7 @@ async function loginToEcount(config) {
     throw new Error(`Zone API failed (${zoneResult.response.status}): ${zoneResult.json?.Error?.Message || zoneResult.text.slice(0, 200)}`);
   }
 
-  const loginResult = await postJson(`https://oapi${zone}.ecount.com/OAPI/V2/OAPILogin`, {
+  const loginResult = await postJson(`${getEcountBaseUrl(config, zone)}/OAPI/V2/OAPILogin`, {
     COM_CODE: config.companyCode,
     USER_ID: config.userId,
     API_CERT_KEY: config.authKey,
@@ -262,11 +271,126 @@ async function ensureOrderRetryColumns(sql) {
   `;
 }
 
+// Mirrors migrations/0021_create_sync_jobs.sql so the worker can run before the migration does.
+async function ensureSyncJobsTable(sql, config) {
+  await sql`
+    CREATE TABLE IF NOT EXISTS public.sync_jobs (
+      id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      job_type text NOT NULL,
+      subject_id varchar NOT NULL,
+      payload text NOT NULL DEFAULT '{}',
+      status text NOT NULL DEFAULT 'pending',
+      attempts integer NOT NULL DEFAULT 0,
+      max_attempts integer NOT NULL,
+      run_at timestamp NOT NULL DEFAULT now(),
+      lease_owner text,
+      lease_expires_at timestamp,
+      last_error text,
+      created_at timestamp DEFAULT now(),
+      updated_at timestamp DEFAULT now(),
+      completed_at timestamp
+    )
+  `;
+
+  await sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS sync_jobs_live_subject_idx
+      ON public.sync_jobs (job_type, subject_id)
+      WHERE status IN ('pending', 'running')
+  `;
+
+  await sql`
+    INSERT INTO public.sync_jobs (job_type, subject_id, attempts, max_attempts, run_at, last_error)
+    SELECT
+      ${ORDER_SYNC_JOB_TYPE},
+      o.id,
+      COALESCE(o.erp_sync_attempts, 0),
+      GREATEST(COALESCE(o.erp_sync_attempts, 0) + 1, ${config.maxAttempts}),
+      COALESCE(o.erp_next_sync_attempt_at, now()),
+      o.erp_sync_error
+    FROM public.orders o
+    WHERE COALESCE(o.erp_sync_status, 'pending') IN ('pending', 'failed')
+      AND o.status <> 'cancelled'
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.sync_jobs j
+        WHERE j.job_type = ${ORDER_SYNC_JOB_TYPE}
+          AND j.subject_id = o.id
+      )
+    ON CONFLICT DO NOTHING
+  `;
+}
+
+async function ensureOrderItemsTable(sql) {
+  await sql`
+    CREATE TABLE IF NOT EXISTS public.order_items (
+      id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      order_id varchar NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+      line_number integer NOT NULL,
+      product_code text NOT NULL,
+      product_name text NOT NULL,
+      reference_number text NOT NULL DEFAULT '',
+      unit_price numeric(14, 2) NOT NULL,
+      quantity integer NOT NULL,
+      line_total numeric(14, 2) NOT NULL,
+      erp_line_status text NOT NULL DEFAULT 'pending',
+      created_at timestamp DEFAULT now()
+    )
+  `;
+
+  await sql`
+    ALTER TABLE public.order_items
+      ADD COLUMN IF NOT EXISTS vat_class text NOT NULL DEFAULT 'exempt',
+      ADD COLUMN IF NOT EXISTS vat_rate numeric(5, 4) NOT NULL DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS vat_amount numeric(14, 2) NOT NULL DEFAULT 0
+  `;
+
+  await sql`
+    ALTER TABLE public.order_items
+      ADD COLUMN IF NOT EXISTS discount_amount numeric(14, 2) NOT NULL DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS discount_label text
+  `;
+}
+
+async function loadOrderLines(sql, orderId) {
+  return await sql`
+    SELECT product_code, product_name, quantity, unit_price, vat_rate, discount_amount, discount_label
+    FROM public.order_items
+    WHERE order_id = ${orderId}
+    ORDER BY line_number ASC
+  `;
+}
+
+async function loadCustomerEcountAccount(sql, userId) {
+  if (!userId) {
+    return null;
+  }
+
+  try {
+    const [row] = await sql`
+      SELECT cust_code, cust_name
+      FROM public.customer_ecount_accounts
+      WHERE user_id = ${userId}
+    `;
+    return row || null;
+  } catch (error) {
+    // Databases without migration 0019 keep booking every order to the default customer.
+    if (error?.code === "42P01") {
+      return null;
+    }
+    throw error;
+  }
+}
+
 async function loadProductMappings(sql) {
   const rows = await sql`
     SELECT normalized_code, original_code, name, price, uom, category
     FROM public.product_mappings
   `;
+  return indexProductMappings(rows);
+}
+
+// Index product_mappings rows under every spelling an order line may use for the code.
+export function indexProductMappings(rows) {
   const mappings = new Map();
 
   for (const row of rows) {
@@ -301,6 +425,14 @@ function getMappedProduct(mappings, productCode) {
   return null;
 }
 
+function roundToCents(value) {
+  return Math.round(value * 100) / 100;
+}
+
+function getSupplyAmount(item) {
+  return roundToCents(item.quantity * item.price - item.discountAmount);
+}
+
 function parseOrderItems(order) {
   const parsed = typeof order.items === "string" ? JSON.parse(order.items) : order.items;
   if (!Array.isArray(parsed)) {
@@ -310,14 +442,24 @@ function parseOrderItems(order) {
   return parsed;
 }
 
-function buildSaleOrderPayload(order, mappings, config) {
-  const items = parseOrderItems(order);
+function buildSaleOrderPayload(order, mappings, config, lines = [], customerAccount = null) {
+  // Prefer normalized order_items; orders placed before the table existed only have the JSON snapshot.
+  const items = lines.length > 0
+    ? lines.map((line) => ({
+      productId: line.product_code,
+      quantity: line.quantity,
+      price: line.unit_price,
+      vatRate: line.vat_rate,
+      discountAmount: line.discount_amount,
+      discountLabel: line.discount_label,
+    }))
+    : parseOrderItems(order);
   const unmapped = [];
   const mappedItems = [];
   const ioDates = getSaleOrderIoDates(order, config);
   const uploadSerial = getSaleOrderUploadSerial(order);
-  const customerCode = config.customerCode;
-  const customerName = "Online Store Sales";
+  const customerCode = customerAccount?.cust_code || config.customerCode;
+  const customerName = customerAccount?.cust_name || "Online Store Sales";
   const receiverName = order.customer_name || order.customer_company || customerName;
 
   for (const item of items) {
@@ -333,11 +475,20 @@ function buildSaleOrderPayload(order, mappings, config) {
       throw new Error(`Order ${order.order_number} has invalid quantity for ${item.productId}`);
     }
 
+    // Legacy JSON-only orders were never charged VAT.
+    const vatRate = Number.parseFloat(String(item.vatRate ?? "0")) || 0;
+    // Whole-line discount given at checkout
+    const discountAmount = Number.parseFloat(String(item.discountAmount ?? "0")) || 0;
+
     mappedItems.push({
       productId: item.productId,
       productName: mapping.name,
       quantity,
-      price: mapping.price,
+      // Price charged on the order (contract or Excel price); legacy JSON lines may lack one.
+      price: Number.parseFloat(String(item.price ?? "")) || mapping.price,
+      vatRate,
+      discountAmount,
+      discountLabel: item.discountLabel || "",
     });
   }
 
@@ -350,7 +501,7 @@ function buildSaleOrderPayload(order, mappings, config) {
     submittedIoDate: ioDates.payloadIoDate,
     ioDateMode: config.ioDateMode,
     itemCount: mappedItems.length,
-    totalValue: mappedItems.reduce((sum, item) => sum + (item.quantity * item.price), 0),
+    totalValue: mappedItems.reduce((sum, item) => sum + getSupplyAmount(item), 0),
     payload: {
       SaleOrderList: mappedItems.map((item) => ({
         BulkDatas: {
@@ -407,14 +558,15 @@ function buildSaleOrderPayload(order, mappings, config) {
           UQTY: "",
           QTY: item.quantity.toString(),
           PRICE: item.price.toString(),
-          USER_PRICE_VAT: "",
-          SUPPLY_AMT: (item.quantity * item.price).toString(),
+          USER_PRICE_VAT: roundToCents(item.price * (1 + item.vatRate)).toString(),
+          // Supply amount and VAT are after the line discount, as the web app sends them.
+          SUPPLY_AMT: getSupplyAmount(item).toString(),
           SUPPLY_AMT_F: "",
-          VAT_AMT: "",
+          VAT_AMT: roundToCents(Math.max(0, getSupplyAmount(item)) * item.vatRate).toString(),
           ITEM_TIME_DATE: "",
           REMARKS: `Order from Phomas Online Store - ${order.order_number}`,
           ITEM_CD: "",
-          P_REMARKS1: "",
+          P_REMARKS1: item.discountAmount > 0 ? `Discount ${item.discountAmount.toFixed(2)}: ${item.discountLabel}`.slice(0, 100) : "",
           P_REMARKS2: "",
           P_REMARKS3: "",
           ADD_TXT_01: "",
@@ -513,10 +665,10 @@ function getValidationMessages(result) {
   });
 }
 
-async function submitSaleOrder(config, session, order, mappings) {
-  const saleOrder = buildSaleOrderPayload(order, mappings, config);
+export async function submitSaleOrder(config, session, order, mappings, lines, customerAccount) {
+  const saleOrder = buildSaleOrderPayload(order, mappings, config, lines, customerAccount);
   const result = await postJson(
-    `https://oapi${session.zone}.ecount.com/OAPI/V2/SaleOrder/SaveSaleOrder?SESSION_ID=${encodeURIComponent(session.sessionId)}`,
+    `${getEcountBaseUrl(config, session.zone)}/OAPI/V2/SaleOrder/SaveSaleOrder?SESSION_ID=${encodeURIComponent(session.sessionId)}`,
     {
       COM_CODE: config.companyCode,
       SESSION_ID: session.sessionId,
@@ -549,54 +701,111 @@ async function submitSaleOrder(config, session, order, mappings) {
   };
 }
 
-async function getDueOrders(sql, limit, orderId = "") {
-  if (orderId) {
-    return await sql`
-      SELECT *
-      FROM public.orders
-      WHERE id = ${orderId}
-        AND COALESCE(erp_sync_status, 'pending') IN ('pending', 'failed')
-        AND (erp_next_sync_attempt_at IS NULL OR erp_next_sync_attempt_at <= now())
-      ORDER BY created_at ASC
-      LIMIT ${limit}
-    `;
-  }
+async function hasDueJobs(sql, config) {
+  const rows = await sql`
+    SELECT 1
+    FROM public.sync_jobs
+    WHERE job_type = ${ORDER_SYNC_JOB_TYPE}
+      AND (${config.orderId} = '' OR subject_id = ${config.orderId})
+      AND (
+        (status = 'pending' AND run_at <= now())
+        OR (status = 'running' AND lease_expires_at <= now())
+      )
+    LIMIT 1
+  `;
+
+  return rows.length > 0;
+}
+
+// Jobs held by a runner that died are taken over once their lease expires. SKIP LOCKED keeps
+// this worker and the Vercel cron from ever leasing the same order.
+async function leaseDueJobs(sql, config) {
+  const leaseExpiresAt = new Date(Date.now() + config.claimLockMs);
 
   return await sql`
+    UPDATE public.sync_jobs
+    SET
+      status = 'running',
+      attempts = attempts + 1,
+      lease_owner = ${config.leaseOwner},
+      lease_expires_at = ${leaseExpiresAt},
+      updated_at = now()
+    WHERE id IN (
+      SELECT id
+      FROM public.sync_jobs
+      WHERE job_type = ${ORDER_SYNC_JOB_TYPE}
+        AND (${config.orderId} = '' OR subject_id = ${config.orderId})
+        AND (
+          (status = 'pending' AND run_at <= now())
+          OR (status = 'running' AND lease_expires_at <= now())
+        )
+      ORDER BY run_at ASC
+      LIMIT ${config.limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+}
+
+async function completeJob(sql, job) {
+  await sql`
+    UPDATE public.sync_jobs
+    SET
+      status = 'succeeded',
+      lease_owner = NULL,
+      lease_expires_at = NULL,
+      last_error = NULL,
+      completed_at = now(),
+      updated_at = now()
+    WHERE id = ${job.id}
+      AND status = 'running'
+      AND lease_owner = ${job.lease_owner}
+  `;
+}
+
+async function failJob(sql, job, error, nextAttemptAt) {
+  const rows = await sql`
+    UPDATE public.sync_jobs
+    SET
+      status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'pending' END,
+      run_at = ${nextAttemptAt},
+      lease_owner = NULL,
+      lease_expires_at = NULL,
+      last_error = ${error instanceof Error ? error.message : String(error)},
+      updated_at = now()
+    WHERE id = ${job.id}
+      AND status = 'running'
+      AND lease_owner = ${job.lease_owner}
+    RETURNING status
+  `;
+
+  return rows[0]?.status === "dead";
+}
+
+async function loadOrder(sql, orderId) {
+  const rows = await sql`
     SELECT *
     FROM public.orders
-    WHERE COALESCE(erp_sync_status, 'pending') IN ('pending', 'failed')
-      AND (erp_next_sync_attempt_at IS NULL OR erp_next_sync_attempt_at <= now())
-    ORDER BY created_at ASC
-    LIMIT ${limit}
+    WHERE id = ${orderId}
   `;
+
+  return rows[0] || null;
 }
 
-async function claimOrderForSync(sql, order, config) {
+async function startOrderAttempt(sql, order) {
   const attempts = Number(order.erp_sync_attempts || 0) + 1;
-  const lockExpiresAt = new Date(Date.now() + config.claimLockMs);
 
-  const rows = await sql`
+  await sql`
     UPDATE public.orders
     SET
       erp_sync_status = 'pending',
       erp_sync_attempts = ${attempts},
       erp_last_sync_attempt_at = now(),
-      erp_next_sync_attempt_at = ${lockExpiresAt}
+      erp_next_sync_attempt_at = NULL
     WHERE id = ${order.id}
-      AND COALESCE(erp_sync_status, 'pending') IN ('pending', 'failed')
-      AND (erp_next_sync_attempt_at IS NULL OR erp_next_sync_attempt_at <= now())
-    RETURNING *
   `;
 
-  if (rows.length === 0) {
-    return null;
-  }
-
-  return {
-    order: rows[0],
-    attempts,
-  };
+  return attempts;
 }
 
 async function markSynced(sql, order, attempts, result) {
@@ -612,11 +821,48 @@ async function markSynced(sql, order, attempts, result) {
       erp_next_sync_attempt_at = NULL
     WHERE id = ${order.id}
   `;
+
+  await sql`
+    UPDATE public.order_items
+    SET erp_line_status = 'synced'
+    WHERE order_id = ${order.id}
+  `;
+
+  await releaseStockReservations(sql, order);
+  await recordOrderEvent(sql, order, "erp_sync_succeeded", `eCount document ${result.docNo} (attempt ${attempts}, static-IP worker)`);
 }
 
-async function markFailed(sql, order, attempts, error, config) {
+async function recordOrderEvent(sql, order, eventType, message) {
+  try {
+    await sql`
+      INSERT INTO public.order_events (order_id, event_type, actor_type, actor_id, message)
+      VALUES (${order.id}, ${eventType}, 'system', 'ecount-order-sync', ${message})
+    `;
+  } catch (error) {
+    // The audit trail is best-effort; never fail a sync result because of it.
+    console.error(`Failed to record ${eventType} event for ${order.order_number}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function releaseStockReservations(sql, order) {
+  try {
+    await sql`
+      UPDATE public.stock_reservations
+      SET status = 'released', release_reason = 'synced', released_at = now()
+      WHERE order_id = ${order.id}
+        AND status = 'active'
+    `;
+  } catch (error) {
+    // Reservations expire on their own; a missing table must not fail an already-synced order.
+    console.error(`Failed to release stock reservations for ${order.order_number}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function markFailed(sql, job, order, attempts, error, config) {
   const nextDelayMs = getRetryDelayMs(attempts, config);
-  const nextAttemptAt = new Date(Date.now() + nextDelayMs);
+  const retryAt = new Date(Date.now() + nextDelayMs);
+  const deadLettered = await failJob(sql, job, error, retryAt);
+  const nextAttemptAt = deadLettered ? null : retryAt;
 
   await sql`
     UPDATE public.orders
@@ -629,6 +875,20 @@ async function markFailed(sql, order, attempts, error, config) {
     WHERE id = ${order.id}
   `;
 
+  await sql`
+    UPDATE public.order_items
+    SET erp_line_status = 'failed'
+    WHERE order_id = ${order.id}
+  `;
+
+  const message = `Attempt ${attempts}: ${error instanceof Error ? error.message : String(error)}`;
+  await recordOrderEvent(
+    sql,
+    order,
+    "erp_sync_failed",
+    deadLettered ? `${message}. Gave up after ${job.attempts} job attempts; requeue it from Sync Jobs` : message,
+  );
+
   return nextAttemptAt;
 }
 
@@ -642,11 +902,16 @@ async function main() {
     zone: requireEnv("ECOUNT_ZONE"),
     warehouseCode: requireEnv("ECOUNT_WAREHOUSE_CODE"),
     customerCode: process.env.ECOUNT_CUSTOMER_CODE || DEFAULT_CUSTOMER_CODE,
+    // e.g. the local simulator (scripts/ecount-simulator.mjs); blank uses eCount itself.
+    apiBaseUrl: String(process.env.ECOUNT_API_BASE_URL || "").trim().replace(/\/+$/, ""),
     databaseUrl: requireEnv("DATABASE_URL"),
     limit: parsePositiveInt(process.env.ECOUNT_ORDER_SYNC_LIMIT, DEFAULT_BATCH_LIMIT),
     orderId: String(process.env.ECOUNT_ORDER_SYNC_ORDER_ID || "").trim(),
     spacingMs: parsePositiveInt(process.env.ECOUNT_ORDER_SYNC_SPACING_MS, DEFAULT_SPACING_MS),
     claimLockMs: parsePositiveInt(process.env.ECOUNT_ORDER_SYNC_CLAIM_LOCK_MS, DEFAULT_CLAIM_LOCK_MS),
+    leaseOwner: `vps-worker:${process.pid}:${randomUUID()}`,
+    // Only used for jobs this worker backfills; the web app sets max_attempts on the jobs it queues.
+    maxAttempts: parsePositiveInt(process.env.ORDER_SYNC_MAX_ATTEMPTS, DEFAULT_MAX_ATTEMPTS),
     retryBaseDelayMs: parsePositiveInt(process.env.ORDER_SYNC_RETRY_BASE_DELAY_MS, DEFAULT_RETRY_BASE_DELAY_MS),
     retryMaxDelayMs: parsePositiveInt(process.env.ORDER_SYNC_RETRY_MAX_DELAY_MS, DEFAULT_RETRY_MAX_DELAY_MS),
     orderDateTimeZone: process.env.ECOUNT_ORDER_DATE_TIMEZONE || DEFAULT_ORDER_DATE_TIME_ZONE,
@@ -666,65 +931,87 @@ async function main() {
 
   try {
     await ensureOrderRetryColumns(sql);
+    await ensureOrderItemsTable(sql);
+    await ensureSyncJobsTable(sql, config);
 
-    const [mappings, orders] = await Promise.all([
-      loadProductMappings(sql),
-      getDueOrders(sql, config.limit, config.orderId),
-    ]);
+    const mappings = await loadProductMappings(sql);
 
-    summary.checked = orders.length;
+    if (mappings.size === 0) {
+      throw new Error("No product mappings found in product_mappings table. Upload the product mapping Excel before syncing orders.");
+    }
 
-    if (orders.length === 0) {
+    if (!(await hasDueJobs(sql, config))) {
       console.log(JSON.stringify(summary, null, 2));
       return;
     }
 
-    if (mappings.size === 0) {
-      throw new Error("No product mappings found in product_mappings table. Upload the product mapping Excel before syncing orders.");
-    }
-
+    // Log in before leasing so a rejected login never uses up job attempts.
     const session = await loginToEcount(config);
-
-    for (let index = 0; index < orders.length; index++) {
-      const order = orders[index];
-      const claim = await claimOrderForSync(sql, order, config);
-
-      if (!claim) {
+    const jobs = await leaseDueJobs(sql, config);
+    summary.checked = jobs.length;
+
+    for (let index = 0; index < jobs.length; index++) {
+      const job = jobs[index];
+      const order = await loadOrder(sql, job.subject_id);
+
+      // Cancelled, deleted, unpaid, backordered or already synced orders just close their job; eCount
+      // must not get them. Payment confirmation and backorder release queue the order again.
+      if (
+        !order
+        || order.status === "cancelled"
+        || order.status === "awaiting_payment"
+        || order.status === "backordered"
+        || order.erp_sync_status === "synced"
+      ) {
+        await completeJob(sql, job);
         summary.skipped++;
         summary.results.push({
-          orderId: order.id,
-          orderNumber: order.order_number,
+          orderId: job.subject_id,
+          orderNumber: order?.order_number || "",
           status: "skipped",
-          message: "Order was already claimed by another worker",
+          message: !order
+            ? "Order no longer exists"
+            : order.status === "cancelled"
+              ? "Order was cancelled before reaching eCount"
+              : order.status === "awaiting_payment"
+                ? "Order is awaiting online payment"
+                : order.status === "backordered"
+                  ? "Order is backordered until its stock arrives"
+                  : `Order is already in eCount as ${order.erp_doc_number}`,
         });
         continue;
       }
 
+      const attempts = await startOrderAttempt(sql, order);
+
       try {
-        const result = await submitSaleOrder(config, session, claim.order, mappings);
-        await markSynced(sql, claim.order, claim.attempts, result);
+        const lines = await loadOrderLines(sql, order.id);
+        const customerAccount = await loadCustomerEcountAccount(sql, order.user_id);
+        const result = await submitSaleOrder(config, session, order, mappings, lines, customerAccount);
+        await markSynced(sql, order, attempts, result);
+        await completeJob(sql, job);
         summary.synced++;
         summary.results.push({
-          orderId: claim.order.id,
-          orderNumber: claim.order.order_number,
+          orderId: order.id,
+          orderNumber: order.order_number,
           status: "synced",
           erpDocNumber: result.docNo,
           itemCount: result.itemCount,
           totalValue: result.totalValue,
         });
       } catch (error) {
-        const nextAttemptAt = await markFailed(sql, claim.order, claim.attempts, error, config);
+        const nextAttemptAt = await markFailed(sql, job, order, attempts, error, config);
         summary.failed++;
         summary.results.push({
-          orderId: claim.order.id,
-          orderNumber: claim.order.order_number,
+          orderId: order.id,
+          orderNumber: order.order_number,
           status: "failed",
           error: error instanceof Error ? error.message : String(error),
-          nextAttemptAt: nextAttemptAt.toISOString(),
+          nextAttemptAt: nextAttemptAt ? nextAttemptAt.toISOString() : null,
         });
       }
 
-      if (index < orders.length - 1) {
+      if (index < jobs.length - 1) {
         await new Promise((resolve) => setTimeout(resolve, config.spacingMs));
       }
     }
@@ -735,11 +1022,14 @@ async function main() {
   }
 }
 
-main().catch((error) => {
-  console.error(JSON.stringify({
-    ok: false,
-    syncedAt: new Date().toISOString(),
-    error: error instanceof Error ? error.message : String(error),
-  }, null, 2));
-  process.exitCode = 1;
-});
+// Runs when started directly; tests import the eCount submission on its own.
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main().catch((error) => {
+    console.error(JSON.stringify({
+      ok: false,
+      syncedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : String(error),
+    }, null, 2));
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,44 @@
+import type { Server } from "node:http";
+
+export const FAILURE_TYPES: string[];
+
+export type EcountSimulatorFailureType = "rate_limit" | "session_expired" | "validation_error" | "server_error";
+
+export interface EcountSimulatorSaleOrder {
+  docNo: string;
+  ioDate: string;
+  ioNo: string;
+  custCode: string;
+  reference: string;
+  lines: Array<Record<string, unknown>>;
+  savedAt: string;
+}
+
+export interface EcountSimulatorState {
+  products: Map<string, Record<string, string>>;
+  customers: Map<string, Record<string, string>>;
+  // Session ID to expiry time in ms
+  sessions: Map<string, number>;
+  saleOrders: EcountSimulatorSaleOrder[];
+  failures: Array<{ endpoint: string; type: EcountSimulatorFailureType; remaining: number }>;
+  requests: Array<{ endpoint: string; body: unknown; at: string }>;
+  slipSequence: number;
+}
+
+export interface EcountSimulatorOptions {
+  sessionTtlMs?: number;
+  authKey?: string;
+  products?: Array<Record<string, string>>;
+  customers?: Array<Record<string, string>>;
+}
+
+export interface EcountSimulator {
+  server: Server;
+  readonly state: EcountSimulatorState;
+  failNext(endpoint: string, type: EcountSimulatorFailureType, count?: number): void;
+  reset(): void;
+  listen(port?: number, host?: string): Promise<string>;
+  close(): Promise<void>;
+}
+
+export function createEcountSimulator(options?: EcountSimulatorOptions): EcountSimulator;
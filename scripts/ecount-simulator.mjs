@@ -0,0 +1,377 @@
+import { randomUUID } from "node:crypto";
+import fs from "node:fs";
+import { createServer } from "node:http";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+// Local stand-in for the eCount Open API. Point the app and the sync scripts at it with
+// ECOUNT_API_BASE_URL=http://127.0.0.1:5055 so checkout can be exercised without creating real
+// ERP documents or counting towards eCount's lockout limits.
+
+const DEFAULT_PORT = 5055;
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_SESSION_TTL_MS = 30 * 60 * 1000;
+const MAX_BODY_BYTES = 1024 * 1024;
+const SIMULATOR_ZONE = "SIM";
+
+export const FAILURE_TYPES = ["rate_limit", "session_expired", "validation_error", "server_error"];
+
+const DEFAULT_PRODUCTS = [
+  { PROD_CD: "91100B", PROD_DES: "Surgical Gloves (Box of 100)", SIZE_DES: "Box", UNIT: "BOX", CLASS_CD: "Consumables", PRICE: "18000", BAL_QTY: "240" },
+  { PROD_CD: "10422", PROD_DES: "Paracetamol 500mg (Pack of 1000)", SIZE_DES: "Pack", UNIT: "PCK", CLASS_CD: "Pharmaceuticals", PRICE: "32000", BAL_QTY: "75" },
+  { PROD_CD: "20871", PROD_DES: "Disposable Syringe 5ml (Box of 100)", SIZE_DES: "Box", UNIT: "BOX", CLASS_CD: "Consumables", PRICE: "15500", BAL_QTY: "8" },
+  { PROD_CD: "33105", PROD_DES: "Digital Thermometer", SIZE_DES: "Each", UNIT: "EA", CLASS_CD: "Equipment", PRICE: "12000", BAL_QTY: "0" },
+];
+
+const DEFAULT_CUSTOMERS = [{ CUST: "10839", CUST_NAME: "Online Store Sales" }];
+
+const ok = (data) => ({ Status: "200", Error: null, Data: data, Timestamp: new Date().toISOString() });
+const apiError = (status, message) => ({ Status: String(status), Error: { Code: 0, Message: message, MessageDetail: "" }, Data: null });
+
+const validationFailure = (errors, successCnt = 0) => ok({
+  SuccessCnt: successCnt,
+  FailCnt: errors.length,
+  ResultDetails: errors.map((error) => ({
+    IsSuccess: false,
+    Line: error.line,
+    TotalError: `[${error.line + 1}] ${error.message}`,
+    Errors: [{ ColCd: error.column, Message: error.message }],
+  })),
+  SlipNos: [],
+});
+
+function formatDate(date) {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function sendJson(res, statusCode, payload) {
+  res.writeHead(statusCode, { "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store" });
+  res.end(JSON.stringify(payload));
+}
+
+async function readJsonBody(req) {
+  let raw = "";
+
+  for await (const chunk of req) {
+    raw += chunk;
+    if (raw.length > MAX_BODY_BYTES) {
+      throw new Error("Request body is too large");
+    }
+  }
+
+  return raw.trim() ? JSON.parse(raw) : {};
+}
+
+/**
+ * Create a simulator with its own in-memory ERP: products with stock, customers, sessions and the
+ * sale orders it accepted. `failNext` queues a failure for an endpoint; the next matching calls get
+ * it instead of a normal response.
+ */
+export function createEcountSimulator(options = {}) {
+  const sessionTtlMs = options.sessionTtlMs ?? DEFAULT_SESSION_TTL_MS;
+  // When set, logins with another API_CERT_KEY are refused like a revoked key.
+  const authKey = options.authKey || "";
+  let state;
+
+  const reset = () => {
+    state = {
+      products: new Map((options.products || DEFAULT_PRODUCTS).map((product) => [product.PROD_CD, { ...product }])),
+      customers: new Map((options.customers || DEFAULT_CUSTOMERS).map((customer) => [customer.CUST, { ...customer }])),
+      sessions: new Map(),
+      saleOrders: [],
+      failures: [],
+      requests: [],
+      slipSequence: 0,
+    };
+  };
+  reset();
+
+  const failNext = (endpoint, type, count = 1) => {
+    if (!FAILURE_TYPES.includes(type)) {
+      throw new Error(`Unknown failure type "${type}". Use one of: ${FAILURE_TYPES.join(", ")}`);
+    }
+    state.failures.push({ endpoint, type, remaining: Math.max(1, count) });
+  };
+
+  const takeFailure = (endpoint) => {
+    const failure = state.failures.find((candidate) => candidate.endpoint === "*" || endpoint.endsWith(candidate.endpoint));
+    if (!failure) {
+      return null;
+    }
+
+    failure.remaining -= 1;
+    if (failure.remaining <= 0) {
+      state.failures.splice(state.failures.indexOf(failure), 1);
+    }
+    return failure.type;
+  };
+
+  const getSessionId = (url, body) => url.searchParams.get("SESSION_ID") || body.SESSION_ID || "";
+
+  const isAuthenticated = (sessionId) => {
+    const expiresAt = state.sessions.get(sessionId);
+    if (!expiresAt) {
+      return false;
+    }
+    if (expiresAt <= Date.now()) {
+      state.sessions.delete(sessionId);
+      return false;
+    }
+    return true;
+  };
+
+  const handleLogin = (body) => {
+    if (authKey && body.API_CERT_KEY !== authKey) {
+      return ok({ Code: "204", Message: "The API authentication key is invalid.", Datas: null });
+    }
+
+    const sessionId = `${randomUUID().replace(/-/g, "")}!SIM=`;
+    state.sessions.set(sessionId, Date.now() + sessionTtlMs);
+    return ok({
+      EXPIRE_DATE: "",
+      NOTICE: "",
+      Code: "00",
+      Message: "",
+      Datas: {
+        COM_CODE: body.COM_CODE || "",
+        USER_ID: body.USER_ID || "",
+        SESSION_ID: sessionId,
+        session_guid: randomUUID().replace(/-/g, ""),
+        SET_COOKIE: randomUUID().replace(/-/g, ""),
+      },
+    });
+  };
+
+  const handleInventoryBalance = (body) => {
+    const itemCode = String(body.ITEM_CODE || "").trim();
+    const rows = Array.from(state.products.values())
+      .filter((product) => !itemCode || product.PROD_CD === itemCode)
+      .map((product) => ({
+        WH_CD: body.WH_CODE || "",
+        PROD_CD: product.PROD_CD,
+        PROD_DES: product.PROD_DES,
+        BAL_QTY: String(product.BAL_QTY ?? "0"),
+      }));
+    return ok({ IsSuccess: true, EXPIRE_DATE: "", QUANTITY_INFO: "", TotalCnt: rows.length, Result: rows });
+  };
+
+  const handleProductList = (body) => {
+    const productCode = String(body.PROD_CD || "").trim();
+    const rows = Array.from(state.products.values())
+      .filter((product) => !productCode || product.PROD_CD === productCode)
+      .map(({ BAL_QTY: _balance, ...product }) => ({ ...product, OUT_PRICE: product.PRICE }));
+    return ok({ TotalCnt: rows.length, Datas: rows });
+  };
+
+  const handleCustomer = (body) => {
+    const code = String(body.CUST || "").trim();
+    const rows = Array.from(state.customers.values()).filter((customer) => !code || customer.CUST === code);
+    return ok({ TotalCnt: rows.length, Datas: rows });
+  };
+
+  const handleSaveCustomer = (body) => {
+    const errors = [];
+    (body.CustList || []).forEach((entry, line) => {
+      const data = entry?.BulkDatas || {};
+      const code = String(data.BUSINESS_NO || "").trim();
+      if (!code) {
+        errors.push({ line, column: "BUSINESS_NO", message: "Customer code is required." });
+      } else if (state.customers.has(code)) {
+        errors.push({ line, column: "BUSINESS_NO", message: `Customer code ${code} already exists.` });
+      } else if (!String(data.CUST_NAME || "").trim()) {
+        errors.push({ line, column: "CUST_NAME", message: "Customer name is required." });
+      }
+    });
+    if (errors.length > 0) {
+      return validationFailure(errors);
+    }
+
+    for (const entry of body.CustList || []) {
+      const data = entry.BulkDatas;
+      state.customers.set(String(data.BUSINESS_NO).trim(), { ...data, CUST: String(data.BUSINESS_NO).trim() });
+    }
+    return ok({ SuccessCnt: (body.CustList || []).length, FailCnt: 0, ResultDetails: "" });
+  };
+
+  // Lines sharing an UPLOAD_SER_NO form one slip, as in eCount's Web Uploader.
+  const handleSaveSaleOrder = (body) => {
+    const lines = (body.SaleOrderList || []).map((entry) => entry?.BulkDatas || {});
+    const errors = [];
+    lines.forEach((line, index) => {
+      if (!state.customers.has(String(line.CUST || ""))) {
+        errors.push({ line: index, column: "CUST", message: `Customer ${line.CUST || "(blank)"} does not exist.` });
+      }
+      if (!state.products.has(String(line.PROD_CD || ""))) {
+        errors.push({ line: index, column: "PROD_CD", message: `Item ${line.PROD_CD || "(blank)"} does not exist.` });
+      }
+      if (!(Number.parseFloat(String(line.QTY ?? "")) || 0)) {
+        errors.push({ line: index, column: "QTY", message: "Quantity is required." });
+      }
+    });
+    if (lines.length === 0) {
+      errors.push({ line: 0, column: "SaleOrderList", message: "No lines to save." });
+    }
+    if (errors.length > 0) {
+      return validationFailure(errors);
+    }
+
+    const slips = new Map();
+    for (const line of lines) {
+      const key = String(line.UPLOAD_SER_NO || "");
+      slips.set(key, [...(slips.get(key) || []), line]);
+    }
+
+    const slipNos = [];
+    for (const slipLines of slips.values()) {
+      state.slipSequence += 1;
+      const ioDate = slipLines[0].IO_DATE || formatDate(new Date());
+      const ioNo = String(state.slipSequence);
+      const docNo = `${ioDate}-${ioNo}`;
+      slipNos.push(docNo);
+      state.saleOrders.push({ docNo, ioDate, ioNo, custCode: slipLines[0].CUST, reference: slipLines[0].REF_DES || "", lines: slipLines, savedAt: new Date().toISOString() });
+    }
+
+    return ok({ SuccessCnt: lines.length, FailCnt: 0, ResultDetails: "", SlipNos: slipNos });
+  };
+
+  // One row per line of every sale order dated within the range, paged like eCount's list APIs.
+  const handleSaleOrderList = (body) => {
+    const params = body.ListParam || {};
+    const from = String(params.BASE_DATE_FROM || "");
+    const to = String(params.BASE_DATE_TO || "99999999");
+    const pageSize = Number.parseInt(String(params.PAGE_SIZE || "100"), 10) || 100;
+    const page = Math.max(1, Number.parseInt(String(params.PAGE_CURRENT || "1"), 10) || 1);
+    const rows = state.saleOrders
+      .filter((saleOrder) => saleOrder.ioDate >= from && saleOrder.ioDate <= to)
+      .flatMap((saleOrder) => saleOrder.lines.map((line) => ({
+        IO_DATE: saleOrder.ioDate,
+        IO_NO: saleOrder.ioNo ?? saleOrder.docNo.slice(saleOrder.ioDate.length + 1),
+        CUST: saleOrder.custCode,
+        REF_DES: saleOrder.reference,
+        PROD_CD: line.PROD_CD,
+        QTY: line.QTY,
+        PRICE: line.PRICE,
+        SUPPLY_AMT: line.SUPPLY_AMT ?? "0",
+        VAT_AMT: line.VAT_AMT ?? "0",
+      })));
+    return ok({ TotalCnt: rows.length, Result: rows.slice((page - 1) * pageSize, page * pageSize) });
+  };
+
+  const routes = {
+    "/OAPI/V2/Zone": { auth: false, handle: () => ok({ ZONE: SIMULATOR_ZONE, DOMAIN: "" }) },
+    "/OAPI/V2/OAPILogin": { auth: false, handle: handleLogin },
+    "/OAPI/V2/InventoryBalance/GetListInventoryBalanceStatus": { auth: true, handle: handleInventoryBalance },
+    "/OAPI/V2/Product/GetProductList": { auth: true, handle: handleProductList },
+    "/OAPI/V2/InventoryBasic/GetBasicProductsList": { auth: true, handle: handleProductList },
+    "/OAPI/V2/BasicItem": { auth: true, handle: handleProductList },
+    "/OAPI/V2/Price/GetPriceList": { auth: true, handle: handleProductList },
+    "/OAPI/V2/Customer": { auth: true, handle: handleCustomer },
+    "/OAPI/V2/AccountBasic/SaveBasicCust": { auth: true, handle: handleSaveCustomer },
+    "/OAPI/V2/SaleOrder/SaveSaleOrder": { auth: true, handle: handleSaveSaleOrder },
+    "/OAPI/V2/SaleOrder/GetListSaleOrder": { auth: true, handle: handleSaleOrderList },
+  };
+
+  // Test controls; not part of the eCount API.
+  const handleControl = async (req, res, url) => {
+    if (req.method === "GET" && url.pathname === "/__simulator/state") {
+      return sendJson(res, 200, {
+        products: Array.from(state.products.values()),
+        customers: Array.from(state.customers.values()),
+        activeSessions: Array.from(state.sessions.values()).filter((expiresAt) => expiresAt > Date.now()).length,
+        saleOrders: state.saleOrders,
+        pendingFailures: state.failures,
+        requestCount: state.requests.length,
+      });
+    }
+    if (req.method === "POST" && url.pathname === "/__simulator/failures") {
+      const body = await readJsonBody(req);
+      failNext(String(body.endpoint || "*"), String(body.type || ""), Number.parseInt(String(body.count ?? "1"), 10) || 1);
+      return sendJson(res, 200, { ok: true, pendingFailures: state.failures });
+    }
+    if (req.method === "POST" && url.pathname === "/__simulator/reset") {
+      reset();
+      return sendJson(res, 200, { ok: true });
+    }
+    return sendJson(res, 404, { ok: false, message: `Unknown simulator control ${url.pathname}` });
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || "/", "http://simulator.local");
+
+    try {
+      if (url.pathname.startsWith("/__simulator/")) {
+        return await handleControl(req, res, url);
+      }
+
+      const route = routes[url.pathname];
+      if (req.method !== "POST" || !route) {
+        return sendJson(res, 404, apiError(404, `Unknown endpoint ${req.method} ${url.pathname}`));
+      }
+
+      const body = await readJsonBody(req);
+      state.requests.push({ endpoint: url.pathname, body, at: new Date().toISOString() });
+
+      const failure = takeFailure(url.pathname);
+      if (failure === "rate_limit") {
+        // eCount answers throttled calls with a bare 412 page, not JSON.
+        res.writeHead(412, { "Content-Type": "text/html; charset=utf-8" });
+        return res.end("<html><body>412 Precondition Failed</body></html>");
+      }
+      if (failure === "session_expired") {
+        state.sessions.clear();
+        return sendJson(res, 200, apiError(500, "Please login."));
+      }
+      if (failure === "validation_error") {
+        return sendJson(res, 200, validationFailure([{ line: 0, column: "PROD_CD", message: "Simulated validation error." }]));
+      }
+      if (failure === "server_error") {
+        return sendJson(res, 500, apiError(500, "Simulated eCount server error."));
+      }
+
+      if (route.auth && !isAuthenticated(getSessionId(url, body))) {
+        return sendJson(res, 200, apiError(500, "Please login."));
+      }
+
+      return sendJson(res, 200, route.handle(body));
+    } catch (error) {
+      return sendJson(res, 400, apiError(400, error instanceof Error ? error.message : String(error)));
+    }
+  });
+
+  return {
+    server,
+    get state() {
+      return state;
+    },
+    failNext,
+    reset,
+    listen(port = 0, host = DEFAULT_HOST) {
+      return new Promise((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, host, () => {
+          const address = server.address();
+          resolve(`http://${host}:${typeof address === "object" && address ? address.port : port}`);
+        });
+      });
+    },
+    close() {
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const port = Number.parseInt(process.env.ECOUNT_SIMULATOR_PORT || String(DEFAULT_PORT), 10);
+  const host = process.env.ECOUNT_SIMULATOR_HOST || DEFAULT_HOST;
+  // A JSON array of {PROD_CD, PROD_DES, PRICE, BAL_QTY, ...} rows, e.g. codes from the product mapping file.
+  const productsFile = process.env.ECOUNT_SIMULATOR_PRODUCTS_FILE;
+  const simulator = createEcountSimulator({
+    authKey: process.env.ECOUNT_SIMULATOR_AUTH_KEY,
+    products: productsFile ? JSON.parse(fs.readFileSync(productsFile, "utf8")) : undefined,
+  });
+
+  simulator.listen(port, host).then((url) => {
+    console.log(`eCount simulator listening on ${url}`);
+    console.log(`Set ECOUNT_API_BASE_URL=${url} for the app and the eCount sync scripts.`);
+  });
+}
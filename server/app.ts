@@ -5,7 +5,12 @@ import { log } from "./logger.js";
 let cachedVercelAppPromise: Promise<Express> | null = null;
 
 function applyCommonMiddleware(app: Express) {
-  app.use(express.json());
+  app.use(express.json({
+    // Payment callbacks are signed over the exact request bytes.
+    verify: (req, _res, buf) => {
+      (req as any).rawBody = buf;
+    },
+  }));
   app.use(express.urlencoded({ extended: false }));
 
   app.use((req, res, next) => {
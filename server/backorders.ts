@@ -0,0 +1,191 @@
+import type { Order, OrderItem, ProductWithInventory, UpsertBackorderProduct } from "../shared/schema.js";
+import { isOrderBackordered, ORDER_BACKORDERED_STATUS, splitBackorderItems, type BackorderSplit } from "../shared/backorders.js";
+import { getOrderLines, orderLineToItem } from "../shared/orderLines.js";
+import { ERP_SYNC_AWAITING_PAYMENT, ORDER_AWAITING_PAYMENT_STATUS } from "../shared/payments.js";
+import { SYSTEM_ACTOR, transitionOrderStatus, type OrderEventActor } from "./orderLifecycle.js";
+import { normalizeProductCode } from "./productCode.js";
+import { allocateOrderLots } from "./stockLots.js";
+import { loadAvailableStock, releaseOrderStock, reserveOrderStock, type OrderStockShortage } from "./stockReservations.js";
+import { storage, type NewBackorderProduct } from "./storage.js";
+import { enqueueOrderSyncJobIfReady } from "./syncJobs.js";
+
+const BACKORDER_PRODUCT_CACHE_TTL_MS = 60 * 1000;
+
+let cachedArrivals: { arrivalsByCode: Map<string, Date>; loadedAt: number } | null = null;
+
+export function invalidateBackorderProductCache(): void {
+  cachedArrivals = null;
+}
+
+/** Store the product under its normalized code, arriving at the start of the given day (UTC). */
+export function toBackorderProduct(product: UpsertBackorderProduct): NewBackorderProduct {
+  return {
+    productCode: normalizeProductCode(product.productCode),
+    expectedArrivalAt: new Date(`${product.expectedArrivalAt}T00:00:00.000Z`),
+  };
+}
+
+async function loadBackorderArrivals(): Promise<Map<string, Date>> {
+  if (cachedArrivals && Date.now() - cachedArrivals.loadedAt < BACKORDER_PRODUCT_CACHE_TTL_MS) {
+    return cachedArrivals.arrivalsByCode;
+  }
+
+  const products = await storage.getBackorderProducts();
+  const arrivalsByCode = new Map(products.map((product) => [product.productCode, product.expectedArrivalAt]));
+  cachedArrivals = { arrivalsByCode, loadedAt: Date.now() };
+  return arrivalsByCode;
+}
+
+/** Flag catalogue products that may be ordered beyond stock, with their expected arrival date. */
+export async function applyBackorderSettings(products: ProductWithInventory[]): Promise<ProductWithInventory[]> {
+  const arrivalsByCode = await loadBackorderArrivals();
+  if (arrivalsByCode.size === 0) {
+    return products;
+  }
+
+  return products.map((product) => {
+    const expectedArrivalAt = arrivalsByCode.get(normalizeProductCode(product.id));
+    return expectedArrivalAt
+      ? { ...product, backorderable: true, expectedArrivalAt: expectedArrivalAt.toISOString() }
+      : product;
+  });
+}
+
+export type OrderBackorderSplit = BackorderSplit & {
+  // Latest arrival date among the backordered lines
+  expectedArrivalAt: Date | null;
+};
+
+/**
+ * Split priced checkout lines against stock on hand less what other orders have reserved. Nothing
+ * is split off when no product is backorderable or no inventory snapshot is available.
+ */
+export async function splitOrderBackorders(items: OrderItem[]): Promise<OrderBackorderSplit> {
+  const arrivalsByCode = await loadBackorderArrivals();
+  const orderCodes = items.map((item) => normalizeProductCode(item.productId));
+  if (!orderCodes.some((productCode) => arrivalsByCode.has(productCode))) {
+    return { inStockItems: items, backorderItems: [], expectedArrivalAt: null };
+  }
+
+  const stock = await loadAvailableStock();
+  if (!stock) {
+    return { inStockItems: items, backorderItems: [], expectedArrivalAt: null };
+  }
+
+  const reservedByCode = await storage.getActiveReservedQuantities(Array.from(new Set(orderCodes)));
+  const availableByCode = new Map<string, number>();
+  for (const productCode of orderCodes) {
+    availableByCode.set(productCode, (stock.get(productCode) ?? 0) - (reservedByCode.get(productCode) ?? 0));
+  }
+
+  const split = splitBackorderItems(items, {
+    getProductCode: normalizeProductCode,
+    availableByCode,
+    backorderableCodes: new Set(arrivalsByCode.keys()),
+  });
+  const arrivals = split.backorderItems
+    .map((item) => arrivalsByCode.get(normalizeProductCode(item.productId))?.getTime() ?? 0);
+
+  return {
+    ...split,
+    expectedArrivalAt: arrivals.length > 0 ? new Date(Math.max(...arrivals)) : null,
+  };
+}
+
+export type BackorderActivationResult =
+  | { activated: true; order: Order }
+  | { activated: false; statusCode: number; message: string; shortLines?: OrderStockShortage[] };
+
+/**
+ * Move a backordered order on once its stock is here: reserve and allocate the stock, then hand it
+ * to eCount, or to payment first when it is paid online. `availableByCode` is the stock to check
+ * against; null skips the check, for an admin releasing the order by hand.
+ */
+export async function activateBackorderedOrder(
+  order: Order,
+  options: {
+    availableByCode: Map<string, number> | null;
+    actor?: OrderEventActor;
+    toStatus?: typeof ORDER_AWAITING_PAYMENT_STATUS | "processing";
+    message?: string | null;
+  },
+): Promise<BackorderActivationResult> {
+  if (!isOrderBackordered(order)) {
+    return { activated: false, statusCode: 409, message: `Order ${order.orderNumber} is not backordered` };
+  }
+
+  const lines = getOrderLines(order);
+  const reservation = await reserveOrderStock(order.id, lines.map(orderLineToItem), { availableByCode: options.availableByCode });
+  if (!reservation.reserved) {
+    return {
+      activated: false,
+      statusCode: 409,
+      message: `Not enough stock yet for ${reservation.shortages.map((shortage) => shortage.name).join(", ")}`,
+      shortLines: reservation.shortages,
+    };
+  }
+
+  const toStatus = options.toStatus ?? (order.paymentMethod === "online_now" ? ORDER_AWAITING_PAYMENT_STATUS : "processing");
+  const awaitingPayment = toStatus === ORDER_AWAITING_PAYMENT_STATUS;
+  const transition = await transitionOrderStatus(
+    order.id,
+    toStatus,
+    options.actor ?? SYSTEM_ACTOR,
+    options.message === undefined ? "Backordered stock arrived" : options.message,
+  );
+  if (!transition.transitioned) {
+    await releaseOrderStock(order.id, "cancelled");
+    return { activated: false, statusCode: transition.statusCode, message: transition.message };
+  }
+
+  const activatedOrder = await storage.updateOrderErpInfo(order.id, {
+    erpSyncStatus: awaitingPayment ? ERP_SYNC_AWAITING_PAYMENT : "pending",
+    erpSyncError: null,
+    erpNextSyncAttemptAt: null,
+  });
+  await allocateOrderLots(order.id, lines);
+  try {
+    await enqueueOrderSyncJobIfReady(activatedOrder);
+  } catch (queueError) {
+    console.error(`⚠️ Could not queue eCount sync for ${order.orderNumber}, the background sync will queue it:`, queueError);
+  }
+
+  return { activated: true, order: activatedOrder };
+}
+
+export type BackorderReleaseResult = {
+  waiting: number;
+  released: Order[];
+};
+
+/**
+ * Release backordered orders whose stock has arrived, oldest first so earlier customers are served
+ * first. An order is only released whole; one that is still short keeps waiting.
+ */
+export async function releaseBackorders(): Promise<BackorderReleaseResult> {
+  const orders = await storage.getOrdersByStatus(ORDER_BACKORDERED_STATUS);
+  if (orders.length === 0) {
+    return { waiting: 0, released: [] };
+  }
+
+  const availableByCode = await loadAvailableStock();
+  if (!availableByCode) {
+    console.warn(`⚠️ No inventory snapshot available - ${orders.length} backordered order(s) keep waiting`);
+    return { waiting: orders.length, released: [] };
+  }
+
+  const released: Order[] = [];
+  for (const order of orders) {
+    try {
+      const activation = await activateBackorderedOrder(order, { availableByCode });
+      if (activation.activated) {
+        released.push(activation.order);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to release backordered order ${order.orderNumber}:`, error);
+    }
+  }
+
+  console.log(`📦 Backorder release: ${orders.length} waiting, ${released.length} released`);
+  return { waiting: orders.length - released.length, released };
+}
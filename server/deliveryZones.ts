@@ -0,0 +1,43 @@
+import type { OrderItem } from "../shared/schema.js";
+import { toDeliveryZoneTariff } from "../shared/deliveryZones.js";
+import { DEFAULT_DELIVERY_ZONES, type DeliveryZoneTariff } from "../shared/orderPricing.js";
+import { ProductMapping } from "./productMapping.js";
+import { storage } from "./storage.js";
+
+const DELIVERY_ZONES_CACHE_TTL_MS = 60 * 1000;
+
+let cachedTariffs: { tariffs: DeliveryZoneTariff[]; loadedAt: number } | null = null;
+
+export function invalidateDeliveryZonesCache(): void {
+  cachedTariffs = null;
+}
+
+/**
+ * Active delivery zone tariffs. Falls back to the built-in Dar / outside-Dar tariffs when the
+ * delivery_zones table is empty or unreachable so checkout keeps working before the migration runs.
+ */
+export async function loadDeliveryZoneTariffs(): Promise<DeliveryZoneTariff[]> {
+  if (cachedTariffs && Date.now() - cachedTariffs.loadedAt < DELIVERY_ZONES_CACHE_TTL_MS) {
+    return cachedTariffs.tariffs;
+  }
+
+  const zones = await storage.getDeliveryZones();
+  if (zones.length === 0) {
+    console.warn('⚠️ No active delivery zones found - using default transport tariffs');
+    return DEFAULT_DELIVERY_ZONES;
+  }
+
+  const tariffs = zones.map(toDeliveryZoneTariff);
+  cachedTariffs = { tariffs, loadedAt: Date.now() };
+  return tariffs;
+}
+
+// Products without a weight in the mapping file count as 0 kg, so weight surcharges are a floor.
+export async function getOrderWeightKg(items: OrderItem[]): Promise<number> {
+  await ProductMapping.ensureLoaded();
+
+  return items.reduce((total, item) => {
+    const weightKg = ProductMapping.getProduct(item.productId)?.weightKg ?? 0;
+    return total + weightKg * item.quantity;
+  }, 0);
+}
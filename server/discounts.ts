@@ -0,0 +1,42 @@
+import type { DiscountRule, OrderItem } from "../shared/schema.js";
+import { applyDiscountRules, type DiscountResult } from "../shared/discounts.js";
+import { ecountApi } from "./ecountApi.js";
+import { ProductMapping } from "./productMapping.js";
+import { storage } from "./storage.js";
+
+const DISCOUNT_RULES_CACHE_TTL_MS = 60 * 1000;
+
+let cachedRules: { rules: DiscountRule[]; loadedAt: number } | null = null;
+
+export function invalidateDiscountRulesCache(): void {
+  cachedRules = null;
+}
+
+async function loadDiscountRules(): Promise<DiscountRule[]> {
+  if (cachedRules && Date.now() - cachedRules.loadedAt < DISCOUNT_RULES_CACHE_TTL_MS) {
+    return cachedRules.rules;
+  }
+
+  const rules = await storage.getDiscountRules();
+  cachedRules = { rules, loadedAt: Date.now() };
+  return rules;
+}
+
+// Same category the catalogue shows: the mapping file's, then eCount's.
+const getProductCategory = (productId: string) =>
+  ProductMapping.getProduct(productId)?.category || ecountApi.getCachedProduct(productId)?.category || null;
+
+/**
+ * Discount already re-priced order lines with the current rules. Lines keep their unit price;
+ * the discount is carried per line as discountAmount, so VAT and eCount use the discounted amount.
+ */
+export async function applyOrderDiscounts(
+  items: OrderItem[],
+  couponCode?: string | null,
+  now = new Date(),
+): Promise<DiscountResult> {
+  await ProductMapping.ensureLoaded();
+  const rules = await loadDiscountRules();
+
+  return applyDiscountRules(items, rules, { couponCode, now, getCategory: getProductCategory });
+}
@@ -1,6 +1,13 @@
-import type { ProductWithInventory, Order } from "../shared/schema.js";
+import type { ProductWithInventory, Order, OrderWithLines } from "../shared/schema.js";
+import { getOrderLines, orderLineToItem } from "../shared/orderLines.js";
 import { ProductMapping } from "./productMapping.js";
 import { storage } from "./storage.js";
+import { normalizeProductCode } from "./productCode.js";
+import { calculateLineVat, getVatInclusivePrice, normalizeVatClass, type VatClass } from "../shared/orderTax.js";
+import type { ErpSaleDocument } from "../shared/erpReconciliation.js";
+import { getStockLevel } from "../shared/stockStatus.js";
+import type { InventorySnapshotSource } from "../shared/inventoryReport.js";
+import { recordInventorySnapshot } from "./inventorySnapshots.js";
 
 // eCount API Configuration - Production Ready
 const ECOUNT_CONFIG = {
@@ -76,8 +83,14 @@ function getSaleOrderIoDates(order: Order) {
   };
 }
 
+// Sale order list paging for reconciliation; a day of web orders fits in one page.
+const SALE_ORDER_LIST_PAGE_SIZE = 500;
+const SALE_ORDER_LIST_MAX_PAGES = 20;
+
 const TEST_BASE_URL = "https://sboapi{ZONE}.ecount.com";
 const PROD_BASE_URL = "https://oapi{ZONE}.ecount.com";
+// Overrides every eCount host, zone lookup included; used to point at scripts/ecount-simulator.mjs.
+const ECOUNT_API_BASE_URL = (process.env.ECOUNT_API_BASE_URL || "").trim().replace(/\/+$/, "");
 
 interface EcountSession {
   sessionId: string;
@@ -162,10 +175,15 @@ class EcountApiService {
   private readonly MIN_LOGIN_INTERVAL = 30000; // 30 seconds minimum between login attempts (increased)
 
   constructor() {
-    // ✅ PRODUCTION: Using production API URL with production auth key
-    this.baseUrl = PROD_BASE_URL;
-    console.log('🚀 eCount API configured for PRODUCTION environment');
-    console.log('✅ Using PRODUCTION URL with production auth key');
+    if (ECOUNT_API_BASE_URL) {
+      this.baseUrl = ECOUNT_API_BASE_URL;
+      console.log(`🧪 eCount API pointed at ${ECOUNT_API_BASE_URL} (ECOUNT_API_BASE_URL) - no requests reach eCount`);
+    } else {
+      // ✅ PRODUCTION: Using production API URL with production auth key
+      this.baseUrl = PROD_BASE_URL;
+      console.log('🚀 eCount API configured for PRODUCTION environment');
+      console.log('✅ Using PRODUCTION URL with production auth key');
+    }
     
     // CRITICAL: Clear any cached sessions to force fresh authentication with new key
     this.session = null;
@@ -375,7 +393,7 @@ class EcountApiService {
   private async getZone(): Promise<string> {
     try {
       // Use production endpoint for zone API
-      const response = await fetch(`https://oapi.ecount.com/OAPI/V2/Zone`, {
+      const response = await fetch(`${ECOUNT_API_BASE_URL || 'https://oapi.ecount.com'}/OAPI/V2/Zone`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -739,8 +757,14 @@ class EcountApiService {
     };
   }
 
-  private getSaleOrderUploadSerial(order: Order): string {
-    const seed = `${order.id}:${order.orderNumber}`;
+  // Rows are already narrowed to the configured warehouse. Not awaited: the snapshot only feeds
+  // the stock history report and must not slow down checkout or the sync.
+  private snapshotInventory(inventoryMap: Map<string, number>, source: InventorySnapshotSource): void {
+    void recordInventorySnapshot(source, ECOUNT_CONFIG.warehouseCode || '', inventoryMap);
+  }
+
+  private getSaleOrderUploadSerial(order: Order, variant = ''): string {
+    const seed = variant ? `${order.id}:${order.orderNumber}:${variant}` : `${order.id}:${order.orderNumber}`;
     let hash = 0;
 
     for (let index = 0; index < seed.length; index++) {
@@ -847,6 +871,10 @@ class EcountApiService {
         console.log('✅ Successfully retrieved products from InventoryBalance!');
         console.log(`🎉 REAL eCount data: ${products.length} products found!`);
         this.lastProductList = products; // Cache for rate limit scenarios
+        this.snapshotInventory(
+          new Map(products.map((item) => [this.getInventoryProductCode(item), this.getInventoryQuantity(item)])),
+          'inventory_cache'
+        );
         return products;
       } else {
         console.error('❌ InventoryBalance API failed or returned empty:', result.Status, result.Error?.Message);
@@ -893,7 +921,7 @@ class EcountApiService {
             imageUrl: null, // Images handled by separate /api/images system
             category: this.getCategoryFromCode(productCode),
             availableQuantity: quantity,
-            isLowStock: quantity < 10,
+            ...getStockLevel(quantity),
             isExpiringSoon: false,
             hasRealTimeData: true,
             lastUpdated: new Date().toISOString()
@@ -950,23 +978,33 @@ class EcountApiService {
    * Submit sale order to eCount using CORRECT SaveSale endpoint and JSON format
    * Based on official eCount API documentation provided by user
    */
-  async submitSaleOrder(order: Order, userProfile?: any): Promise<{ docNo: string, ioDate: string }> {
+  async submitSaleOrder(
+    order: Order | OrderWithLines,
+    userProfile?: any,
+    options: { reversalOf?: string | null } = {},
+  ): Promise<{ docNo: string, ioDate: string }> {
     try {
-      const orderItems = JSON.parse(order.items);
+      const orderItems = getOrderLines(order).map(orderLineToItem);
       const ioDates = getSaleOrderIoDates(order);
       const currentDate = ioDates.recordedIoDate;
       const payloadIoDate = ioDates.payloadIoDate;
+      // A reversal is the same sale order with negated quantities and amounts, so eCount nets it off.
+      const isReversal = options.reversalOf !== undefined;
+      const sign = isReversal ? -1 : 1;
+      const reference = isReversal ? `WEB-${order.orderNumber}-CXL` : `WEB-${order.orderNumber}`;
       
       // UPLOAD_SER_NO must be SMALLINT(4,0). Keep it deterministic per order so retries
       // reuse the same upload serial instead of risking duplicate ERP orders.
-      const sequenceNumber = this.getSaleOrderUploadSerial(order);
+      const sequenceNumber = this.getSaleOrderUploadSerial(order, isReversal ? 'reversal' : '');
       
-      // Map customer to eCount CUST code - use correct Phomas Online Store customer
-      const customerCode = userProfile?.ecountCustCode || ECOUNT_CONFIG.customerCode || "10839";
-      const customerName = userProfile?.ecountCustName || "Online Store Sales";
+      // Book against the customer's own eCount record when an admin linked one; otherwise the
+      // shared Phomas Online Store customer.
+      const customerAccount = userProfile?.ecountCustCode ? undefined : await storage.getCustomerEcountAccount(order.userId);
+      const customerCode = userProfile?.ecountCustCode || customerAccount?.custCode || ECOUNT_CONFIG.customerCode || "10839";
+      const customerName = userProfile?.ecountCustName || customerAccount?.custName || "Online Store Sales";
       const receiverName = userProfile?.name || customerName;
       
-      console.log(`🧾 Submitting sale to eCount ERP: Order ${order.orderNumber} with ${orderItems.length} items`);
+      console.log(`🧾 Submitting ${isReversal ? 'reversal' : 'sale'} to eCount ERP: Order ${order.orderNumber} with ${orderItems.length} items`);
       
       // CRITICAL FIX: Apply ProductMapping to get correct eCount PROD_CD for each item
       console.log('🔍 Ensuring ProductMapping is loaded for order submission...');
@@ -980,6 +1018,9 @@ class EcountApiService {
         packaging: string;
         quantity: number;
         price: number;
+        discountAmount: number;
+        discountLabel: string;
+        vatClass: VatClass;
         matchRule: string;
       }> = [];
       
@@ -1001,7 +1042,10 @@ class EcountApiService {
             name: mapping.name, // Use real name from Excel
             packaging: mapping.uom,
             quantity: item.quantity,
-            price: mapping.price, // Use real price from Excel
+            price: Number.parseFloat(item.price) || mapping.price, // Price charged on the order (contract or Excel price)
+            discountAmount: Number.parseFloat(item.discountAmount || "0") || 0, // Whole-line discount given at checkout
+            discountLabel: item.discountLabel || "",
+            vatClass: normalizeVatClass(item.vatClass), // VAT class charged at checkout
             matchRule: mapping.matchRule || 'direct'
           });
           console.log(`✅ Mapped ${item.productId} -> eCount PROD_CD: ${ecountProdCode} "${mapping.name}" (${mapping.matchRule})`);  
@@ -1034,7 +1078,7 @@ class EcountApiService {
       console.log(`  - IO_DATE mode: ${ioDates.mode}, payload: ${payloadIoDate || "(omitted; eCount current date)"}`);
       console.log(`  - Items: ${mappedItems.length}`);
       mappedItems.forEach((item, idx) => {
-        console.log(`    ${idx + 1}. ${item.ecountProdCd} "${item.name}" x${item.quantity} @ ${item.price} (${item.matchRule})`);
+        console.log(`    ${idx + 1}. ${item.ecountProdCd} "${item.name}" x${item.quantity} @ ${item.price}${item.discountAmount > 0 ? ` less ${item.discountAmount}` : ""} (${item.matchRule})`);
       });
       
       // 🚀 FIXED SALES ORDER API - Transform to SaleOrderList format (per documentation)
@@ -1054,11 +1098,13 @@ class EcountApiService {
             "PJT_CD": "",
             "DOC_NO": "",
             "TTL_CTT": "",
-            "REF_DES": `WEB-${order.orderNumber}`,
+            "REF_DES": reference,
             "COLL_TERM": "",
             "AGREE_TERM": "",
             "TIME_DATE": "",
-            "REMARKS_WIN": `Online order ${order.orderNumber} - ${receiverName}`,
+            "REMARKS_WIN": isReversal
+              ? `Cancellation of ${options.reversalOf || 'sale order'} for online order ${order.orderNumber} - ${receiverName}`
+              : `Online order ${order.orderNumber} - ${receiverName}${order.couponCode ? ` (coupon ${order.couponCode})` : ""}`,
             "U_MEMO1": "",
             "U_MEMO2": "",
             "U_MEMO3": "",
@@ -1093,16 +1139,19 @@ class EcountApiService {
             "PROD_DES": item.name,
             "SIZE_DES": "", // Could map item size if available
             "UQTY": "",
-            "QTY": item.quantity.toString(),
+            "QTY": (sign * item.quantity).toString(),
             "PRICE": item.price.toString(),
-            "USER_PRICE_VAT": "",
-            "SUPPLY_AMT": (item.quantity * item.price).toString(),
+            "USER_PRICE_VAT": getVatInclusivePrice(item.price, item.vatClass).toString(),
+            // Supply amount is after the line discount so the ERP document matches what was charged.
+            "SUPPLY_AMT": (sign * (item.quantity * item.price - item.discountAmount)).toString(),
             "SUPPLY_AMT_F": "",
-            "VAT_AMT": "",
+            "VAT_AMT": (sign * calculateLineVat(item.price, item.quantity, item.vatClass, item.discountAmount)).toString(),
             "ITEM_TIME_DATE": "",
-            "REMARKS": `Order from Phomas Online Store - ${order.orderNumber}`,
+            "REMARKS": isReversal
+              ? `Cancelled online order - ${order.orderNumber}`
+              : `Order from Phomas Online Store - ${order.orderNumber}`,
             "ITEM_CD": "",
-            "P_REMARKS1": "",
+            "P_REMARKS1": item.discountAmount > 0 ? `Discount ${item.discountAmount.toFixed(2)}: ${item.discountLabel}`.slice(0, 100) : "",
             "P_REMARKS2": "",
             "P_REMARKS3": "",
             "ADD_TXT_01": "",
@@ -1338,7 +1387,7 @@ class EcountApiService {
       console.error('  ❌ Error Type:', error instanceof Error ? error.constructor.name : typeof error);
       console.error('  ❌ Error Message:', error instanceof Error ? error.message : String(error));
       console.error('  📄 Order Number:', order.orderNumber);
-      console.error('  🔢 Items Count:', JSON.parse(order.items).length);
+      console.error('  🔢 Items Count:', getOrderLines(order).length);
       
       // Log stack trace for debugging
       if (error instanceof Error && error.stack) {
@@ -1359,6 +1408,69 @@ class EcountApiService {
     return result.docNo;
   }
 
+  /**
+   * Sale order documents booked in eCount between two YYYYMMDD dates, one entry per document with
+   * its lines summed. Throws when eCount refuses the query, so a reconciliation never mistakes an
+   * API failure for an empty ERP.
+   */
+  async getSaleOrderDocuments(fromDate: string, toDate: string): Promise<ErpSaleDocument[]> {
+    const documents = new Map<string, ErpSaleDocument>();
+
+    for (let page = 1; page <= SALE_ORDER_LIST_MAX_PAGES; page++) {
+      const result = await this.ecountRequest({
+        endpoint: '/OAPI/V2/SaleOrder/GetListSaleOrder',
+        body: {
+          ListParam: {
+            BASE_DATE_FROM: fromDate,
+            BASE_DATE_TO: toDate,
+            PAGE_CURRENT: String(page),
+            PAGE_SIZE: String(SALE_ORDER_LIST_PAGE_SIZE),
+          },
+        },
+        requiresAuth: true,
+      });
+
+      if (!this.isSuccessfulResponse(result)) {
+        throw new Error(`eCount sale order list failed: ${result.Error?.Message || `status ${result.Status}`}`);
+      }
+
+      // Rows are lines; IO_DATE and IO_NO together are the slip number SaveSaleOrder returned.
+      const rows = this.parseEcountRows(result.Data?.Result ?? result.Data?.Datas);
+      for (const row of rows) {
+        const ioDate = String(row.IO_DATE || '').trim();
+        const ioNo = String(row.IO_NO || '').trim();
+        if (!ioDate || !ioNo) {
+          continue;
+        }
+
+        const docNo = `${ioDate}-${ioNo}`;
+        const supplyAmount = this.parseEcountNumber(row.SUPPLY_AMT) ?? 0;
+        const vatAmount = this.parseEcountNumber(row.VAT_AMT) ?? 0;
+        const document = documents.get(docNo) ?? {
+          docNo,
+          ioDate,
+          reference: String(row.REF_DES || '').trim(),
+          custCode: String(row.CUST || '').trim(),
+          supplyAmount: 0,
+          vatAmount: 0,
+          totalAmount: 0,
+          lineCount: 0,
+        };
+        document.supplyAmount += supplyAmount;
+        document.vatAmount += vatAmount;
+        document.totalAmount += supplyAmount + vatAmount;
+        document.lineCount += 1;
+        documents.set(docNo, document);
+      }
+
+      if (rows.length < SALE_ORDER_LIST_PAGE_SIZE) {
+        return Array.from(documents.values());
+      }
+    }
+
+    throw new Error(`eCount returned more than ${SALE_ORDER_LIST_MAX_PAGES} pages of sale orders; reconcile a shorter period`);
+  }
+
   /**
    * Transform eCount item data to product format with inventory information
    */
@@ -1374,7 +1486,7 @@ class EcountApiService {
         imageUrl: null, // Images handled by separate /api/images system
         category: item.CATEGORY || this.getCategoryFromCode(item.PROD_CD),
         availableQuantity,
-        isLowStock: availableQuantity < 10,
+        ...getStockLevel(availableQuantity),
         isExpiringSoon: false
       };
     });
@@ -1397,7 +1509,7 @@ class EcountApiService {
         imageUrl: null, // Images handled by separate /api/images system
         category: this.getCategoryFromCode(productCode),
         availableQuantity: quantity,
-        isLowStock: quantity < 10,
+        ...getStockLevel(quantity),
         isExpiringSoon: false
       };
     });
@@ -1582,12 +1694,14 @@ class EcountApiService {
             imageUrl: null, // Images handled by separate /api/images system
             category: excelProduct?.category || this.getCategoryFromCode(productCode),
             availableQuantity: quantity, // LIVE stock from eCount
-            isLowStock: quantity < 10,
+            ...getStockLevel(quantity),
             isExpiringSoon: false,
             hasRealTimeData: true,
             lastUpdated: new Date().toISOString(),
             description: excelProduct?.name || '',
-            specification: excelProduct?.uom || ''
+            specification: excelProduct?.uom || '',
+            weightKg: excelProduct?.weightKg ?? null,
+            vatClass: normalizeVatClass(excelProduct?.vatClass)
           };
         });
         
@@ -1609,6 +1723,7 @@ class EcountApiService {
           data: inventoryMap,
           timestamp: now
         });
+        this.snapshotInventory(inventoryMap, 'bulk_sync');
 
         // Cache the combined data (Excel names + live stock)
         this.inventoryCache.set('all_products', {
@@ -1674,6 +1789,7 @@ class EcountApiService {
           data: inventoryMap,
           timestamp: now
         });
+        this.snapshotInventory(inventoryMap, 'bulk_sync');
 
         const cachedProducts = this.inventoryCache.get('all_products');
         if (cachedProducts && Array.isArray(cachedProducts.data)) {
@@ -1687,7 +1803,7 @@ class EcountApiService {
             return {
               ...product,
               availableQuantity: quantity,
-              isLowStock: quantity < 10,
+              ...getStockLevel(quantity),
               hasRealTimeData: true,
               lastUpdated: new Date(now).toISOString()
             };
@@ -1742,6 +1858,7 @@ class EcountApiService {
       });
       
       console.log(`✅ Fresh inventory data cached: ${freshData.size} products`);
+      this.snapshotInventory(freshData, 'inventory_cache');
       return freshData;
     } catch (error) {
       // If fresh fetch fails and we have expired cache, use it as fallback
@@ -1870,6 +1987,23 @@ class EcountApiService {
     };
   }
 
+  /**
+   * Look up a product in the last eCount product list we cached, regardless of age.
+   * Used as a price fallback when the product mapping has no entry for a code.
+   */
+  getCachedProduct(productCode: string): ProductWithInventory | null {
+    const cached = this.inventoryCache.get('all_products');
+    if (!cached || !Array.isArray(cached.data)) {
+      return null;
+    }
+
+    const normalizedCode = normalizeProductCode(productCode);
+    return cached.data.find((product: ProductWithInventory) =>
+      normalizeProductCode(product.id) === normalizedCode ||
+      normalizeProductCode(product.referenceNumber) === normalizedCode
+    ) || null;
+  }
+
   /**
    * Pure eCount Integration: Get ALL products from eCount with inventory data
    * This replaces the hybrid system approach
@@ -1935,12 +2069,14 @@ class EcountApiService {
             imageUrl: null, // Images handled by separate /api/images system
             category: excelProduct?.category || this.getCategoryFromCode(productCode), // Smart categories
             availableQuantity: quantity, // LIVE stock from eCount (real-time, no database caching)
-            isLowStock: quantity < 10,
+            ...getStockLevel(quantity),
             isExpiringSoon: false,
             hasRealTimeData: true,
             lastUpdated: new Date().toISOString(),
             description: excelProduct?.name || '', // Use product name as description
-            specification: excelProduct?.uom || ''
+            specification: excelProduct?.uom || '',
+            weightKg: excelProduct?.weightKg ?? null,
+            vatClass: normalizeVatClass(excelProduct?.vatClass)
           };
         });
       } else {
@@ -1970,12 +2106,14 @@ class EcountApiService {
               imageUrl: null,
               category: excelProduct?.category || this.getCategoryFromCode(productCode),
               availableQuantity: fallbackQuantity,
-              isLowStock: fallbackQuantity < 10,
+              ...getStockLevel(fallbackQuantity),
               isExpiringSoon: false,
               hasRealTimeData: true,
               lastUpdated: inventoryItem.expirationDate?.toISOString?.() || new Date().toISOString(),
               description: excelProduct?.name || '',
-              specification: excelProduct?.uom || ''
+              specification: excelProduct?.uom || '',
+              weightKg: excelProduct?.weightKg ?? null,
+            vatClass: normalizeVatClass(excelProduct?.vatClass)
             };
           });
         } else {
@@ -1995,12 +2133,14 @@ class EcountApiService {
               imageUrl: null, // Images handled by separate /api/images system
               category: excelProduct.category || this.getCategoryFromCode(excelProduct.code),
               availableQuantity: fallbackQuantity,
-              isLowStock: fallbackQuantity < 10,
+              ...getStockLevel(fallbackQuantity),
               isExpiringSoon: false,
               hasRealTimeData: typeof cachedQuantity === "number",
               lastUpdated: new Date().toISOString(),
               description: excelProduct.name,
-              specification: excelProduct.uom
+              specification: excelProduct.uom,
+              weightKg: excelProduct.weightKg ?? null,
+              vatClass: normalizeVatClass(excelProduct.vatClass)
             };
           });
         }
@@ -2125,7 +2265,7 @@ class EcountApiService {
         return;
       }
 
-      const failedOrders = await storage.getAllOrders();
+      const failedOrders = await storage.getAllOrdersWithLines();
       const actualFailedOrders = failedOrders.filter(order =>
         order.erpSyncStatus === 'failed' || order.erpSyncStatus === 'pending'
       );
@@ -2158,6 +2298,8 @@ class EcountApiService {
             erpSyncStatus: 'synced',
             erpSyncError: null
           });
+          await storage.updateOrderLinesErpStatus(order.id, 'synced');
+          await storage.releaseStockReservations(order.id, 'synced');
           
           successCount++;
           console.log(`✅ Order ${order.orderNumber} successfully retried and synced to eCount`);
@@ -2243,6 +2385,48 @@ class EcountApiService {
     }
   }
 
+  /**
+   * Create a customer (CUST) record in eCount. Throws with eCount's validation messages when the
+   * record is rejected, e.g. because the code is already taken.
+   */
+  async createCustomer(customer: {
+    code: string;
+    name: string;
+    phone?: string;
+    email?: string;
+    address?: string;
+    businessNumber?: string;
+  }): Promise<void> {
+    console.log(`🧾 Creating eCount customer ${customer.code} (${customer.name})`);
+
+    const result = await this.ecountRequest({
+      endpoint: '/OAPI/V2/AccountBasic/SaveBasicCust',
+      body: {
+        CustList: [{
+          BulkDatas: {
+            BUSINESS_NO: customer.code,
+            CUST_NAME: customer.name.slice(0, 100),
+            TEL: customer.phone || '',
+            HP_NO: customer.phone || '',
+            EMAIL: customer.email || '',
+            ADDR: customer.address || '',
+            REMARKS: customer.businessNumber ? `TIN ${customer.businessNumber}` : 'Online store customer',
+          },
+        }],
+      },
+      requiresAuth: true,
+    });
+
+    if (result.Status !== "200" || result.Data?.FailCnt > 0) {
+      const messages = this.getValidationMessages(result);
+      throw new Error(
+        `eCount rejected customer ${customer.code}: ${messages.length > 0 ? messages.join('; ') : result.Error?.Message || `status ${result.Status}`}`
+      );
+    }
+
+    console.log(`✅ eCount customer ${customer.code} created`);
+  }
+
   /**
    * Categorize error based on status and type
    * Only CRITICAL and NETWORK errors count toward eCount lockout threshold
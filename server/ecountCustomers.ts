@@ -0,0 +1,82 @@
+import type { CustomerEcountAccount } from "../shared/schema.js";
+import { ecountApi } from "./ecountApi.js";
+import { storage } from "./storage.js";
+
+// "true" creates an eCount customer for every newly approved account that is not linked yet.
+const ECOUNT_AUTO_CREATE_CUSTOMERS = (process.env.ECOUNT_AUTO_CREATE_CUSTOMERS || "false").trim().toLowerCase() === "true";
+
+// Registration details kept in Supabase user_metadata.
+export interface EcountCustomerProfile {
+  id: string;
+  email?: string | null;
+  user_metadata?: Record<string, any> | null;
+}
+
+export type EcountCustomerLinkResult =
+  | { linked: true; account: CustomerEcountAccount }
+  | { linked: false; statusCode: number; message: string };
+
+// verifyCustomer returns eCount's matching records; the first one is the exact code.
+const getEcountCustomerName = (records: any) => {
+  const record = Array.isArray(records) ? records[0] : records;
+  return String(record?.CUST_NAME || record?.CUST_DES || "").trim();
+};
+
+/**
+ * Link a customer account to an existing eCount customer. The code is looked up in eCount first
+ * so a typo cannot send sale orders to a customer record that does not exist.
+ */
+export async function linkEcountCustomer(userId: string, custCode: string): Promise<EcountCustomerLinkResult> {
+  const records = await ecountApi.verifyCustomer(custCode);
+  if (!records || (Array.isArray(records) && records.length === 0)) {
+    return {
+      linked: false,
+      statusCode: 404,
+      message: `Customer ${custCode} was not found in eCount (or eCount could not be reached). Check the code and try again.`,
+    };
+  }
+
+  const account = await storage.setCustomerEcountAccount(userId, {
+    custCode,
+    custName: getEcountCustomerName(records),
+    createdInEcount: false,
+  });
+  return { linked: true, account };
+}
+
+// eCount customer codes are business numbers, so a customer's TIN is used when they gave one.
+export function getNewEcountCustomerCode(user: EcountCustomerProfile): string {
+  const tinDigits = String(user.user_metadata?.tin_number || "").replace(/\D/g, "");
+  return tinDigits.length >= 9 ? tinDigits : `WEB-${user.id.replace(/-/g, "").slice(0, 8).toUpperCase()}`;
+}
+
+/**
+ * Called once an account is approved. With ECOUNT_AUTO_CREATE_CUSTOMERS on, an unlinked customer
+ * gets their own eCount customer record; an existing record with the same code is linked instead
+ * of creating a duplicate. Returns null when nothing was done.
+ */
+export async function ensureEcountCustomerOnApproval(user: EcountCustomerProfile): Promise<CustomerEcountAccount | null> {
+  if (!ECOUNT_AUTO_CREATE_CUSTOMERS || (await storage.getCustomerEcountAccount(user.id))) {
+    return null;
+  }
+
+  const metadata = user.user_metadata || {};
+  const custCode = getNewEcountCustomerCode(user);
+  const existing = await linkEcountCustomer(user.id, custCode);
+  if (existing.linked) {
+    console.log(`🔗 Linked ${user.email} to existing eCount customer ${custCode}`);
+    return existing.account;
+  }
+
+  const custName = String(metadata.company_name || metadata.name || user.email || custCode).trim();
+  await ecountApi.createCustomer({
+    code: custCode,
+    name: custName,
+    phone: metadata.phone,
+    email: user.email || undefined,
+    address: metadata.address,
+    businessNumber: metadata.tin_number,
+  });
+
+  return storage.setCustomerEcountAccount(user.id, { custCode, custName, createdInEcount: true });
+}
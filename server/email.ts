@@ -0,0 +1,37 @@
+// Transactional email through Resend, shared by order, approval and stock notifications.
+const RESEND_API_KEY = process.env.RESEND_API_KEY;
+const NOTIFICATION_FROM = process.env.ORDER_NOTIFICATION_FROM || "Phomas Diagnostics <onboarding@resend.dev>";
+
+export const escapeHtml = (value: unknown) =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Send one email. Returns false without sending when RESEND_API_KEY is not configured, so local
+ * and test environments run the same flows; throws when Resend rejects the message.
+ */
+export async function sendEmail(message: { to: string[]; subject: string; html: string }): Promise<boolean> {
+  if (!RESEND_API_KEY) {
+    return false;
+  }
+
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${RESEND_API_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ from: NOTIFICATION_FROM, ...message }),
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text().catch(() => response.statusText);
+    throw new Error(`Resend email failed (${response.status}): ${errorBody}`);
+  }
+
+  return true;
+}
@@ -0,0 +1,87 @@
+import type { ErpReconciliationRequest, ErpReconciliationRun } from "../shared/schema.js";
+import { parseErpOrderReference, reconcileErpDocuments } from "../shared/erpReconciliation.js";
+import { ecountApi } from "./ecountApi.js";
+import { storage } from "./storage.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_ERP_RECONCILIATION_LOOKBACK_DAYS = 7;
+
+// eCount dates a sale order on the day it is synced, which can trail checkout while retries run.
+const ERP_DOCUMENT_SLACK_DAYS = 3;
+
+const ERP_RECONCILIATION_LOOKBACK_DAYS = Number.parseInt(process.env.ERP_RECONCILIATION_LOOKBACK_DAYS || "0", 10);
+
+const toIsoDay = (date: Date) => date.toISOString().slice(0, 10);
+const toEcountDate = (isoDay: string) => isoDay.replace(/-/g, "");
+const addDays = (isoDay: string, days: number) => toIsoDay(new Date(Date.parse(`${isoDay}T00:00:00.000Z`) + days * DAY_MS));
+
+/** The nightly window: the last ERP_RECONCILIATION_LOOKBACK_DAYS (default 7) full UTC days. */
+export function getDefaultErpReconciliationPeriod(now = new Date()): ErpReconciliationRequest {
+  const lookbackDays = Number.isFinite(ERP_RECONCILIATION_LOOKBACK_DAYS) && ERP_RECONCILIATION_LOOKBACK_DAYS > 0
+    ? ERP_RECONCILIATION_LOOKBACK_DAYS
+    : DEFAULT_ERP_RECONCILIATION_LOOKBACK_DAYS;
+  const to = addDays(toIsoDay(now), -1);
+  return { from: addDays(to, 1 - lookbackDays), to };
+}
+
+/**
+ * Reconcile orders created on the period's UTC days against eCount and save the run. eCount is
+ * read a few days past the period so late syncs still match; documents in that tail that belong to
+ * orders outside the period are left for the run covering them. A run that cannot reach eCount is
+ * saved as failed rather than thrown, so the report shows it.
+ */
+export async function runErpReconciliation(
+  period: ErpReconciliationRequest,
+  triggeredBy: string,
+): Promise<ErpReconciliationRun> {
+  const baseRun = { periodFrom: period.from, periodTo: period.to, triggeredBy };
+
+  try {
+    const orders = await storage.getOrdersCreatedBetween(
+      new Date(`${period.from}T00:00:00.000Z`),
+      new Date(`${addDays(period.to, 1)}T00:00:00.000Z`),
+    );
+
+    const today = toIsoDay(new Date());
+    const erpTo = [addDays(period.to, ERP_DOCUMENT_SLACK_DAYS), today].sort()[0];
+    const documents = await ecountApi.getSaleOrderDocuments(toEcountDate(period.from), toEcountDate(erpTo));
+
+    const periodOrderNumbers = new Set(orders.map((order) => order.orderNumber));
+    const strayOrderNumbers = Array.from(new Set(documents
+      .map((document) => parseErpOrderReference(document.reference)?.orderNumber)
+      .filter((orderNumber): orderNumber is string => Boolean(orderNumber) && !periodOrderNumbers.has(orderNumber!))));
+    const otherPeriodOrderNumbers = new Set(
+      (await storage.getOrdersByOrderNumbers(strayOrderNumbers)).map((order) => order.orderNumber),
+    );
+    const periodDocuments = documents.filter((document) => {
+      const orderNumber = parseErpOrderReference(document.reference)?.orderNumber;
+      return !orderNumber || !otherPeriodOrderNumbers.has(orderNumber);
+    });
+
+    const result = reconcileErpDocuments(orders, periodDocuments);
+    console.log(`🧮 ERP reconciliation ${period.from}..${period.to}: ${result.matched} matched, ${result.issues.length} issues`);
+
+    return await storage.createErpReconciliationRun({
+      ...baseRun,
+      status: "completed",
+      ordersChecked: result.ordersChecked,
+      documentsChecked: result.documentsChecked,
+      matchedCount: result.matched,
+      issueCount: result.issues.length,
+      issues: result.issues,
+      error: null,
+    });
+  } catch (error) {
+    console.error(`❌ ERP reconciliation ${period.from}..${period.to} failed:`, error);
+    return storage.createErpReconciliationRun({
+      ...baseRun,
+      status: "failed",
+      ordersChecked: 0,
+      documentsChecked: 0,
+      matchedCount: 0,
+      issueCount: 0,
+      issues: [],
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,114 @@
+import {
+  buildStockMovementRows,
+  DEFAULT_INVENTORY_REPORT_DAYS,
+  getDailyClosingQuantities,
+  MAX_INVENTORY_REPORT_DAYS,
+  type InventoryReport,
+  type InventorySnapshotSource,
+} from "../shared/inventoryReport.js";
+import { getOrderLines, orderLineToItem } from "../shared/orderLines.js";
+import { normalizeProductCode } from "./productCode.js";
+import { ProductMapping } from "./productMapping.js";
+import { storage, type NewInventorySnapshotItem } from "./storage.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_INVENTORY_SNAPSHOT_RETENTION_DAYS = 90;
+
+const INVENTORY_SNAPSHOT_RETENTION_DAYS = Number.parseInt(process.env.INVENTORY_SNAPSHOT_RETENTION_DAYS || "0", 10);
+
+const getRetentionDays = () =>
+  Number.isFinite(INVENTORY_SNAPSHOT_RETENTION_DAYS) && INVENTORY_SNAPSHOT_RETENTION_DAYS > 0
+    ? INVENTORY_SNAPSHOT_RETENTION_DAYS
+    : DEFAULT_INVENTORY_SNAPSHOT_RETENTION_DAYS;
+
+/**
+ * Save a fresh eCount balance as a snapshot and prune snapshots past the retention window
+ * (INVENTORY_SNAPSHOT_RETENTION_DAYS, default 90). Codes are kept as eCount returned them. The
+ * history is a report, so a failure is logged and never breaks the inventory refresh.
+ */
+export async function recordInventorySnapshot(
+  source: InventorySnapshotSource,
+  warehouseCode: string,
+  quantities: Map<string, number>,
+): Promise<void> {
+  if (quantities.size === 0) {
+    return;
+  }
+
+  const items: NewInventorySnapshotItem[] = Array.from(quantities.entries())
+    .filter(([productCode]) => productCode)
+    .map(([productCode, quantity]) => ({ productCode, warehouseCode, quantity: Math.floor(Number(quantity) || 0) }));
+
+  try {
+    const snapshot = await storage.createInventorySnapshot(source, items);
+    const pruned = await storage.deleteInventorySnapshotsBefore(new Date(Date.now() - getRetentionDays() * DAY_MS));
+    console.log(`📸 Inventory snapshot (${source}): ${snapshot.productCount} products${pruned > 0 ? `, pruned ${pruned} old snapshots` : ""}`);
+  } catch (error) {
+    console.error(`❌ Failed to record inventory snapshot (${source}):`, error);
+  }
+}
+
+function clampInventoryReportDays(days: unknown): number {
+  const parsed = Number.parseInt(String(days ?? ""), 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return DEFAULT_INVENTORY_REPORT_DAYS;
+  }
+  return Math.min(parsed, MAX_INVENTORY_REPORT_DAYS);
+}
+
+/**
+ * Stock movement over the last `days`: each product's stock at the first and last snapshot in the
+ * window against the units web customers ordered in it (cancelled orders excluded). With a product
+ * code, the report also carries that product's daily closing stock for the chart.
+ */
+export async function buildInventoryReport(options: { days?: number; productCode?: string | null } = {}): Promise<InventoryReport> {
+  const days = clampInventoryReportDays(options.days);
+  const to = new Date();
+  const from = new Date(to.getTime() - days * DAY_MS);
+
+  const [snapshots, orders] = await Promise.all([
+    storage.getInventorySnapshotsBetween(from, to),
+    storage.getOrdersCreatedBetween(from, to),
+  ]);
+  await ProductMapping.ensureLoaded();
+
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  const snapshotItems = await storage.getInventorySnapshotItems(
+    Array.from(new Set([first?.id, last?.id].filter((id): id is string => Boolean(id)))),
+  );
+  const itemsOf = (snapshotId?: string) =>
+    snapshotId ? snapshotItems.filter((item) => item.snapshotId === snapshotId) : null;
+
+  const products = buildStockMovementRows({
+    days,
+    getProductCode: normalizeProductCode,
+    startItems: itemsOf(first?.id),
+    currentItems: itemsOf(last?.id),
+    orderItems: orders
+      .filter((order) => order.status !== "cancelled")
+      .flatMap((order) => getOrderLines(order).map(orderLineToItem)),
+    getProductName: (productCode) => ProductMapping.getProduct(productCode)?.name,
+  });
+
+  let history: InventoryReport["history"] = null;
+  const productCode = normalizeProductCode(options.productCode);
+  if (productCode) {
+    // Snapshots keep eCount's own codes, so look the product up under every code it was stored as
+    const storedCodes = Array.from(new Set(snapshotItems
+      .map((item) => item.productCode)
+      .filter((code) => normalizeProductCode(code) === productCode)));
+    const points = await storage.getInventorySnapshotHistory(storedCodes, from, to);
+    history = { productCode, points: getDailyClosingQuantities(points) };
+  }
+
+  return {
+    days,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    snapshotCount: snapshots.length,
+    lastSnapshotAt: last?.takenAt.toISOString() ?? null,
+    products,
+    history,
+  };
+}
@@ -0,0 +1,298 @@
+import type { Order, OrderAmendment, OrderItem, OrderWithLines } from "../shared/schema.js";
+import { getOrderLines, orderLineToItem } from "../shared/orderLines.js";
+import { ECOUNT_ORDER_SYNC_JOB } from "../shared/syncJobs.js";
+import { calculateOrderTotal, getTransportCost, sumOrderItemsSubtotal } from "../shared/orderPricing.js";
+import {
+  canTransitionOrderStatus,
+  ERP_SYNC_CANCELLED,
+  getCustomerOrderActions,
+  isOrderSyncInProgress,
+} from "../shared/orderLifecycle.js";
+import { ecountApi } from "./ecountApi.js";
+import { getOrderWeightKg, loadDeliveryZoneTariffs } from "./deliveryZones.js";
+import { applyOrderDiscounts } from "./discounts.js";
+import { recordOrderEvent, transitionOrderStatus, type OrderEventActor } from "./orderLifecycle.js";
+import { repriceOrderItems } from "./orderRepricing.js";
+import { resolveCustomerPriceList } from "./priceLists.js";
+import { applyOrderVat } from "./orderTax.js";
+import { releaseOrderStock, replaceOrderStockReservation, type OrderStockShortage } from "./stockReservations.js";
+import { reallocateOrderLots, releaseOrderLots } from "./stockLots.js";
+import { storage } from "./storage.js";
+
+type OrderChangeRejection = { statusCode: number; message: string };
+
+type OrderWithSyncLease<T extends Order> = T & { syncLeaseExpiresAt: Date | null };
+
+const formatTzs = (value?: string | number | null) =>
+  `TZS ${Math.round(Number.parseFloat(String(value ?? 0)) || 0).toLocaleString("en-US")}`;
+
+// Attach the lease of the order's running sync job, so customer changes wait while it is submitted.
+const withSyncLease = async <T extends Order>(order: T): Promise<OrderWithSyncLease<T>> => {
+  const [job] = await storage.getSyncJobs({ jobType: ECOUNT_ORDER_SYNC_JOB, subjectId: order.id, statuses: ["running"] });
+  return { ...order, syncLeaseExpiresAt: job?.leaseExpiresAt ?? null };
+};
+
+// Why a customer change was refused, phrased for the customer.
+const getClosedOrderMessage = (order: OrderWithSyncLease<Order>) => {
+  if (isOrderSyncInProgress(order)) {
+    return `Order ${order.orderNumber} is being sent to eCount right now. Please try again in a minute.`;
+  }
+  if (order.erpSyncStatus === "synced") {
+    return `Order ${order.orderNumber} has already been confirmed in our system. Please request a cancellation instead.`;
+  }
+  return `Order ${order.orderNumber} can no longer be changed online. Please contact Phomas Diagnostics.`;
+};
+
+/**
+ * Side effects of cancelling an order: free its stock and, if eCount never received it, keep the
+ * sync queue from sending it later.
+ */
+export async function releaseCancelledOrder(order: Order): Promise<Order> {
+  await releaseOrderStock(order.id, "cancelled");
+  await releaseOrderLots(order.id);
+  if (order.erpSyncStatus === "synced") {
+    return order;
+  }
+
+  return storage.updateOrderErpInfo(order.id, {
+    erpSyncStatus: ERP_SYNC_CANCELLED,
+    erpSyncError: null,
+    erpNextSyncAttemptAt: null,
+  });
+}
+
+export type CustomerCancellationResult =
+  | { cancelled: true; order: Order }
+  | ({ cancelled: false } & OrderChangeRejection);
+
+export async function cancelOrderForCustomer(
+  order: Order,
+  actor: OrderEventActor,
+  reason?: string,
+): Promise<CustomerCancellationResult> {
+  const syncState = await withSyncLease(order);
+  if (!getCustomerOrderActions(syncState).canCancel) {
+    return { cancelled: false, statusCode: 409, message: getClosedOrderMessage(syncState) };
+  }
+
+  const payments = await storage.getPaymentsByOrderId(order.id);
+  const refundDue = payments.some((payment) => payment.status === "succeeded");
+  const message = [reason, refundDue ? "Refund due for the mobile money payment" : ""].filter(Boolean).join(" · ");
+
+  const transition = await transitionOrderStatus(order.id, "cancelled", actor, message || null);
+  if (!transition.transitioned) {
+    return { cancelled: false, statusCode: transition.statusCode, message: transition.message };
+  }
+
+  return { cancelled: true, order: await releaseCancelledOrder(transition.order) };
+}
+
+export type OrderAmendmentResult =
+  | { amended: true; order: OrderWithLines; changed: boolean }
+  | ({ amended: false; shortLines?: OrderStockShortage[] } & OrderChangeRejection);
+
+/**
+ * Apply a customer's quantity changes to an order that has not reached eCount. Lines are
+ * re-priced and totals recalculated exactly as at checkout, and the stock reservation follows.
+ */
+export async function amendOrderForCustomer(
+  order: OrderWithLines,
+  amendment: OrderAmendment,
+  actor: OrderEventActor,
+): Promise<OrderAmendmentResult> {
+  const syncState = await withSyncLease(order);
+  if (!getCustomerOrderActions(syncState).canAmend) {
+    return { amended: false, statusCode: 409, message: getClosedOrderMessage(syncState) };
+  }
+
+  const lines = getOrderLines(order);
+  const requestedQuantities = new Map(amendment.lines.map((line) => [line.lineNumber, line.quantity]));
+  const unknownLineNumbers = Array.from(requestedQuantities.keys())
+    .filter((lineNumber) => !lines.some((line) => line.lineNumber === lineNumber));
+  if (unknownLineNumbers.length > 0) {
+    return { amended: false, statusCode: 400, message: `Unknown order line(s): ${unknownLineNumbers.join(", ")}` };
+  }
+
+  const changes = lines
+    .filter((line) => requestedQuantities.has(line.lineNumber) && requestedQuantities.get(line.lineNumber) !== line.quantity)
+    .map((line) => `${line.productName}: ${line.quantity} → ${requestedQuantities.get(line.lineNumber)}`);
+  if (changes.length === 0) {
+    return { amended: true, order, changed: false };
+  }
+
+  const requestedItems: OrderItem[] = lines
+    .map((line) => ({ ...orderLineToItem(line), quantity: requestedQuantities.get(line.lineNumber) ?? line.quantity }))
+    .filter((item) => item.quantity > 0);
+  if (requestedItems.length === 0) {
+    return { amended: false, statusCode: 400, message: "An order needs at least one item. Cancel the order instead." };
+  }
+
+  const repricing = await repriceOrderItems(requestedItems, await resolveCustomerPriceList(order.userId));
+  if (repricing.unpricedProductIds.length > 0) {
+    return {
+      amended: false,
+      statusCode: 409,
+      message: `Cannot price ${repricing.unpricedProductIds.slice(0, 3).join(", ")} any more. Please contact Phomas Diagnostics to change this order.`,
+    };
+  }
+
+  // The coupon stays on the order only while the amended basket still qualifies for it.
+  let discounts = await applyOrderDiscounts(repricing.items, order.couponCode);
+  if (discounts.couponError) {
+    discounts = await applyOrderDiscounts(repricing.items);
+  }
+
+  const { items, tax } = await applyOrderVat(discounts.items);
+  const subtotal = sumOrderItemsSubtotal(items);
+  const discountTotal = discounts.discountTotal;
+  const deliveryZones = order.deliveryOption === "delivery" ? await loadDeliveryZoneTariffs() : [];
+  const totalWeightKg = order.deliveryArea ? await getOrderWeightKg(items) : 0;
+  const transportCost = getTransportCost(order.deliveryOption, order.deliveryArea, {
+    zones: deliveryZones,
+    subtotal: subtotal - discountTotal,
+    totalWeightKg,
+  });
+  const total = calculateOrderTotal({
+    subtotal,
+    discount: discountTotal,
+    tax,
+    deliveryOption: order.deliveryOption,
+    deliveryArea: order.deliveryArea,
+    deliveryZones,
+    totalWeightKg,
+    icePackRequired: order.icePackRequired,
+    icePackSize: order.icePackSize,
+    icePackQuantity: order.icePackQuantity,
+  });
+
+  try {
+    const reservation = await replaceOrderStockReservation(order.id, lines.map(orderLineToItem), items);
+    if (!reservation.reserved) {
+      return {
+        amended: false,
+        statusCode: 409,
+        message: `Not enough stock for ${reservation.shortages
+          .map((shortage) => `${shortage.name} (requested ${shortage.requested}, available ${shortage.available})`)
+          .join(", ")}.`,
+        shortLines: reservation.shortages,
+      };
+    }
+  } catch (reservationError) {
+    console.error(`⚠️ Stock reservation failed while amending ${order.orderNumber}, continuing without reservation:`, reservationError);
+  }
+
+  const amendedOrder = await storage.amendOrderLines(order.id, items, {
+    subtotal: subtotal.toFixed(2),
+    quotedSubtotal: sumOrderItemsSubtotal(requestedItems).toFixed(2),
+    priceMismatch: repricing.mismatches.length > 0,
+    discountTotal: discountTotal.toFixed(2),
+    tax: tax.toFixed(2),
+    total: total.toFixed(2),
+    transportCost: transportCost.toFixed(2),
+  });
+  if (!amendedOrder) {
+    return { amended: false, statusCode: 404, message: "Order not found" };
+  }
+  await reallocateOrderLots(order.id, getOrderLines(amendedOrder));
+
+  await recordOrderEvent(order.id, "amended", actor, {
+    message: `${changes.join("; ")}. Total ${formatTzs(order.total)} → ${formatTzs(amendedOrder.total)}`,
+  });
+
+  return { amended: true, order: amendedOrder, changed: true };
+}
+
+export type CancellationRequestResult =
+  | { requested: true; order: Order }
+  | ({ requested: false } & OrderChangeRejection);
+
+export async function requestOrderCancellation(
+  order: Order,
+  actor: OrderEventActor,
+  reason?: string,
+): Promise<CancellationRequestResult> {
+  if (!getCustomerOrderActions(order).canRequestCancellation) {
+    return {
+      requested: false,
+      statusCode: 409,
+      message: order.cancellationStatus === "requested"
+        ? `A cancellation for order ${order.orderNumber} has already been requested`
+        : `Order ${order.orderNumber} cannot be cancelled at this stage. Please contact Phomas Diagnostics.`,
+    };
+  }
+
+  const updatedOrder = await storage.updateOrderCancellation(order.id, {
+    cancellationStatus: "requested",
+    cancellationReason: reason || null,
+    cancellationRequestedAt: new Date(),
+  });
+  await recordOrderEvent(order.id, "cancellation_requested", actor, { message: reason || null });
+
+  return { requested: true, order: updatedOrder ?? order };
+}
+
+export type CancellationReviewResult =
+  | { reviewed: true; order: Order }
+  | ({ reviewed: false } & OrderChangeRejection);
+
+/**
+ * Approve a customer's cancellation request: post a reversing sale order to eCount, then cancel
+ * the order. If eCount rejects the reversal the request stays open so an admin can retry.
+ */
+export async function approveOrderCancellation(
+  order: Order,
+  actor: OrderEventActor,
+  ecountUserProfile: Record<string, unknown>,
+): Promise<CancellationReviewResult> {
+  if (order.cancellationStatus !== "requested") {
+    return { reviewed: false, statusCode: 409, message: `Order ${order.orderNumber} has no open cancellation request` };
+  }
+  if (!canTransitionOrderStatus(order.status, "cancelled")) {
+    return { reviewed: false, statusCode: 409, message: `Order ${order.orderNumber} is already ${order.status} and cannot be cancelled` };
+  }
+
+  let reversalDocNumber: string | null = order.erpReversalDocNumber;
+  if (!reversalDocNumber) {
+    try {
+      const orderWithLines = await storage.getOrderWithLines(order.id);
+      const reversal = await ecountApi.submitSaleOrder(orderWithLines || order, ecountUserProfile, {
+        reversalOf: order.erpDocNumber,
+      });
+      reversalDocNumber = reversal.docNo;
+      await storage.updateOrderCancellation(order.id, { erpReversalDocNumber: reversalDocNumber });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Unknown ERP error";
+      await recordOrderEvent(order.id, "admin_action", actor, { message: `eCount reversal failed: ${reason}` });
+      return { reviewed: false, statusCode: 502, message: `Could not reverse the eCount sale order: ${reason}` };
+    }
+  }
+
+  const transition = await transitionOrderStatus(
+    order.id,
+    "cancelled",
+    actor,
+    `Cancellation approved; eCount sale order ${order.erpDocNumber || "(unknown)"} reversed by ${reversalDocNumber}`,
+  );
+  if (!transition.transitioned) {
+    return { reviewed: false, statusCode: transition.statusCode, message: transition.message };
+  }
+
+  const releasedOrder = await releaseCancelledOrder(transition.order);
+  const updatedOrder = await storage.updateOrderCancellation(order.id, { cancellationStatus: "approved" });
+  return { reviewed: true, order: updatedOrder ?? releasedOrder };
+}
+
+export async function rejectOrderCancellation(
+  order: Order,
+  actor: OrderEventActor,
+  note?: string,
+): Promise<CancellationReviewResult> {
+  if (order.cancellationStatus !== "requested") {
+    return { reviewed: false, statusCode: 409, message: `Order ${order.orderNumber} has no open cancellation request` };
+  }
+
+  const updatedOrder = await storage.updateOrderCancellation(order.id, { cancellationStatus: "rejected" });
+  await recordOrderEvent(order.id, "cancellation_rejected", actor, { message: note || null });
+
+  return { reviewed: true, order: updatedOrder ?? order };
+}
@@ -0,0 +1,285 @@
+import PDFDocument from "pdfkit";
+import type { OrderLotAllocation, OrderWithLines } from "../shared/schema.js";
+import { getOrderLines } from "../shared/orderLines.js";
+import { getDeliveryAreaLabel, getIcePackSizeLabel, type DeliveryZoneTariff } from "../shared/orderPricing.js";
+import { getVatClassLabel } from "../shared/orderTax.js";
+import { formatLotExpiry } from "../shared/stockLots.js";
+
+export type OrderDocumentKind = "invoice" | "delivery-note";
+
+export interface OrderDocumentCustomer {
+  name: string;
+  company?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  tinNumber?: string | null;
+  brelaNumber?: string | null;
+}
+
+const SELLER_NAME = "PHOMAS DIAGNOSTICS";
+const PAGE_MARGIN = 50;
+const BRAND_COLOR = "#0f7a4d";
+const MUTED_COLOR = "#6b7280";
+
+const DOCUMENT_TITLES: Record<OrderDocumentKind, string> = {
+  invoice: "PRO-FORMA INVOICE",
+  "delivery-note": "DELIVERY NOTE",
+};
+
+const formatAmount = (value?: string | number | null) =>
+  `TZS ${Math.round(Number.parseFloat(String(value ?? 0)) || 0).toLocaleString("en-US")}`;
+
+const formatDate = (value?: Date | string | null) =>
+  value
+    ? new Date(value).toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" })
+    : "N/A";
+
+export function getOrderDocumentFilename(order: Pick<OrderWithLines, "orderNumber">, kind: OrderDocumentKind): string {
+  const safeOrderNumber = order.orderNumber.replace(/[^A-Za-z0-9_-]+/g, "-");
+  return `${safeOrderNumber}-${kind}.pdf`;
+}
+
+type TableColumn = { header: string; width: number; align?: "left" | "right" | "center" };
+
+const drawTableRow = (
+  doc: PDFKit.PDFDocument,
+  columns: TableColumn[],
+  values: string[],
+  options: { bold?: boolean } = {},
+) => {
+  const top = doc.y;
+  let x = PAGE_MARGIN;
+  let rowHeight = 0;
+
+  doc.font(options.bold ? "Helvetica-Bold" : "Helvetica").fontSize(9).fillColor("#111827");
+  columns.forEach((column, index) => {
+    const text = values[index] ?? "";
+    const height = doc.heightOfString(text, { width: column.width - 6 });
+    rowHeight = Math.max(rowHeight, height);
+    doc.text(text, x + 3, top, { width: column.width - 6, align: column.align ?? "left" });
+    x += column.width;
+  });
+
+  const bottom = top + rowHeight + 4;
+  doc
+    .moveTo(PAGE_MARGIN, bottom)
+    .lineTo(PAGE_MARGIN + columns.reduce((sum, column) => sum + column.width, 0), bottom)
+    .strokeColor("#e5e7eb")
+    .stroke();
+  doc.x = PAGE_MARGIN;
+  doc.y = bottom + 4;
+};
+
+const drawTable = (doc: PDFKit.PDFDocument, columns: TableColumn[], rows: string[][]) => {
+  drawTableRow(doc, columns, columns.map((column) => column.header), { bold: true });
+  for (const row of rows) {
+    if (doc.y > doc.page.height - PAGE_MARGIN - 40) {
+      doc.addPage();
+      drawTableRow(doc, columns, columns.map((column) => column.header), { bold: true });
+    }
+    drawTableRow(doc, columns, row);
+  }
+};
+
+const drawLabelValue = (doc: PDFKit.PDFDocument, label: string, value: string, x: number, width: number) => {
+  doc.font("Helvetica").fontSize(9).fillColor(MUTED_COLOR).text(label, x, doc.y, { continued: true, width });
+  doc.fillColor("#111827").text(` ${value}`);
+};
+
+const drawHeader = (doc: PDFKit.PDFDocument, order: OrderWithLines, kind: OrderDocumentKind) => {
+  doc.font("Helvetica-Bold").fontSize(18).fillColor(BRAND_COLOR).text(SELLER_NAME, PAGE_MARGIN, PAGE_MARGIN);
+  doc.font("Helvetica-Bold").fontSize(14).fillColor("#111827").text(DOCUMENT_TITLES[kind]);
+  doc.moveDown(0.5);
+
+  drawLabelValue(doc, "Order number:", order.orderNumber, PAGE_MARGIN, 300);
+  drawLabelValue(doc, "Order date:", formatDate(order.createdAt), PAGE_MARGIN, 300);
+  drawLabelValue(doc, "eCount document:", order.erpDocNumber || "Pending", PAGE_MARGIN, 300);
+  if (kind === "invoice") {
+    drawLabelValue(doc, "Payment method:", order.paymentMethod, PAGE_MARGIN, 300);
+  }
+  doc.moveDown();
+};
+
+const drawCustomer = (
+  doc: PDFKit.PDFDocument,
+  order: OrderWithLines,
+  customer: OrderDocumentCustomer,
+  kind: OrderDocumentKind,
+  zones: DeliveryZoneTariff[],
+) => {
+  doc.font("Helvetica-Bold").fontSize(11).fillColor(BRAND_COLOR).text(kind === "invoice" ? "Bill to" : "Deliver to", PAGE_MARGIN);
+  doc.font("Helvetica").fontSize(10).fillColor("#111827").text(customer.company || customer.name);
+  if (customer.company && customer.company !== customer.name) {
+    doc.text(`Attn: ${customer.name}`);
+  }
+  if (customer.address) doc.text(customer.address);
+  if (customer.phone) doc.text(`Phone: ${customer.phone}`);
+  if (customer.email) doc.text(`Email: ${customer.email}`);
+  drawLabelValue(doc, "TIN:", customer.tinNumber || "N/A", PAGE_MARGIN, 300);
+  drawLabelValue(doc, "BRELA:", customer.brelaNumber || "N/A", PAGE_MARGIN, 300);
+
+  const delivery =
+    order.deliveryOption === "delivery"
+      ? `Delivery - ${getDeliveryAreaLabel(order.deliveryArea, zones)}`
+      : "Pickup";
+  drawLabelValue(doc, "Fulfilment:", delivery, PAGE_MARGIN, 300);
+  doc.moveDown();
+};
+
+const drawInvoiceBody = (doc: PDFKit.PDFDocument, order: OrderWithLines, zones: DeliveryZoneTariff[]) => {
+  const lines = getOrderLines(order);
+  drawTable(
+    doc,
+    [
+      { header: "#", width: 25 },
+      { header: "Code", width: 70 },
+      { header: "Description", width: 115 },
+      { header: "Qty", width: 40, align: "right" },
+      { header: "Unit price", width: 75, align: "right" },
+      { header: "Discount", width: 45, align: "right" },
+      { header: "VAT", width: 50, align: "right" },
+      { header: "Amount", width: 75, align: "right" },
+    ],
+    lines.map((line) => [
+      String(line.lineNumber),
+      line.productCode,
+      line.productName,
+      String(line.quantity),
+      formatAmount(line.unitPrice),
+      Number.parseFloat(line.discountAmount) > 0 ? `-${formatAmount(line.discountAmount)}` : "",
+      getVatClassLabel(line.vatClass),
+      formatAmount(line.lineTotal),
+    ]),
+  );
+
+  const totals: Array<[string, string]> = [["Subtotal", formatAmount(order.subtotal)]];
+  if (Number.parseFloat(order.discountTotal) > 0) {
+    totals.push([order.couponCode ? `Discounts (incl. coupon ${order.couponCode})` : "Discounts", `-${formatAmount(order.discountTotal)}`]);
+  }
+  if (order.deliveryOption === "delivery") {
+    totals.push([`Transport (${getDeliveryAreaLabel(order.deliveryArea, zones)})`, formatAmount(order.transportCost)]);
+  }
+  if (order.icePackRequired) {
+    totals.push([
+      `Ice pack (${getIcePackSizeLabel(order.icePackSize)} x ${order.icePackQuantity || 1})`,
+      formatAmount(order.icePackCost),
+    ]);
+  }
+  totals.push(["VAT", formatAmount(order.tax)]);
+
+  doc.moveDown(0.5);
+  const labelX = PAGE_MARGIN + 255;
+  for (const [label, value] of totals) {
+    const y = doc.y;
+    doc.font("Helvetica").fontSize(10).fillColor(MUTED_COLOR).text(label, labelX, y, { width: 165 });
+    doc.fillColor("#111827").text(value, labelX + 165, y, { width: 75, align: "right" });
+  }
+  const totalY = doc.y + 4;
+  doc.font("Helvetica-Bold").fontSize(11).fillColor(BRAND_COLOR).text("Total", labelX, totalY, { width: 165 });
+  doc.text(formatAmount(order.total), labelX + 165, totalY, { width: 75, align: "right" });
+
+  doc.moveDown(2);
+  doc
+    .font("Helvetica")
+    .fontSize(8)
+    .fillColor(MUTED_COLOR)
+    .text(
+      "This is a pro-forma invoice and is not a tax invoice. The fiscal receipt is issued on payment.",
+      PAGE_MARGIN,
+      doc.y,
+      { width: 495 },
+    );
+};
+
+// One "lot · expiry · qty" entry per lot the line was picked from; blank when no lot file covered it.
+const formatLineLots = (lotAllocations: OrderLotAllocation[], lineNumber: number) =>
+  lotAllocations
+    .filter((allocation) => allocation.lineNumber === lineNumber && allocation.status !== "released")
+    .map((allocation) => `${allocation.lotNumber} · ${formatLotExpiry(allocation.expiresAt)} · ${allocation.quantity}`)
+    .join("\n");
+
+const drawDeliveryNoteBody = (doc: PDFKit.PDFDocument, order: OrderWithLines, lotAllocations: OrderLotAllocation[]) => {
+  const lines = getOrderLines(order);
+  drawTable(
+    doc,
+    [
+      { header: "#", width: 25 },
+      { header: "Code", width: 65 },
+      { header: "Description", width: 165 },
+      { header: "Lot · Expiry · Qty", width: 120 },
+      { header: "Qty ordered", width: 55, align: "right" },
+      { header: "Qty received", width: 65, align: "right" },
+    ],
+    lines.map((line) => [
+      String(line.lineNumber),
+      line.productCode,
+      line.productName,
+      formatLineLots(lotAllocations, line.lineNumber),
+      String(line.quantity),
+      "",
+    ]),
+  );
+
+  if (order.icePackRequired) {
+    doc.moveDown(0.5);
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(10)
+      .fillColor("#111827")
+      .text(`Cold chain: ${getIcePackSizeLabel(order.icePackSize)} ice pack x ${order.icePackQuantity || 1}`, PAGE_MARGIN);
+  }
+
+  doc.moveDown(3);
+  const signatureY = doc.y;
+  doc.font("Helvetica").fontSize(9).fillColor(MUTED_COLOR);
+  doc.text("Delivered by (name / signature / date)", PAGE_MARGIN, signatureY, { width: 220 });
+  doc.text("Received by (name / signature / stamp / date)", PAGE_MARGIN + 275, signatureY, { width: 220 });
+  doc
+    .moveTo(PAGE_MARGIN, signatureY + 40)
+    .lineTo(PAGE_MARGIN + 220, signatureY + 40)
+    .moveTo(PAGE_MARGIN + 275, signatureY + 40)
+    .lineTo(PAGE_MARGIN + 495, signatureY + 40)
+    .strokeColor("#9ca3af")
+    .stroke();
+};
+
+/**
+ * Render an order's pro-forma invoice or delivery note. Amounts come from the stored order and
+ * its lines, so the document always matches what the customer was charged at checkout. The
+ * delivery note lists the lots each line was picked from.
+ */
+export function renderOrderDocumentPdf(
+  kind: OrderDocumentKind,
+  order: OrderWithLines,
+  customer: OrderDocumentCustomer,
+  zones: DeliveryZoneTariff[],
+  lotAllocations: OrderLotAllocation[] = [],
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: PAGE_MARGIN,
+      info: {
+        Title: `${DOCUMENT_TITLES[kind]} ${order.orderNumber}`,
+        Author: SELLER_NAME,
+      },
+    });
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    drawHeader(doc, order, kind);
+    drawCustomer(doc, order, customer, kind, zones);
+
+    if (kind === "invoice") {
+      drawInvoiceBody(doc, order, zones);
+    } else {
+      drawDeliveryNoteBody(doc, order, lotAllocations);
+    }
+
+    doc.end();
+  });
+}
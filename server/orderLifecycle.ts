@@ -0,0 +1,100 @@
+import type { Request } from "express";
+import type { Order, OrderEvent } from "../shared/schema.js";
+import {
+  canTransitionOrderStatus,
+  getAllowedOrderStatusTransitions,
+  getOrderStatusLabel,
+  normalizeOrderStatus,
+  type OrderEventActorType,
+  type OrderEventType,
+  type OrderStatus,
+} from "../shared/orderLifecycle.js";
+import { LOT_SHIPPED_ORDER_STATUSES } from "../shared/stockLots.js";
+import { markOrderLotsShipped } from "./stockLots.js";
+import { storage } from "./storage.js";
+
+export interface OrderEventActor {
+  type: OrderEventActorType;
+  id?: string | null;
+  email?: string | null;
+}
+
+export const SYSTEM_ACTOR: OrderEventActor = { type: "system" };
+
+// Actor for a request that passed requireAuth or requireAdminAuth.
+export function getRequestActor(req: Request): OrderEventActor {
+  return {
+    type: (req as any).userRole === "admin" ? "admin" : "customer",
+    id: (req as any).userId || null,
+    email: (req as any).userEmail || null,
+  };
+}
+
+/**
+ * Append an event to an order's history. The audit trail must never block the order flow it
+ * describes, so failures are logged and swallowed.
+ */
+export async function recordOrderEvent(
+  orderId: string,
+  eventType: OrderEventType,
+  actor: OrderEventActor,
+  details: { fromStatus?: string | null; toStatus?: string | null; message?: string | null } = {},
+): Promise<OrderEvent | undefined> {
+  try {
+    return await storage.createOrderEvent({
+      orderId,
+      eventType,
+      fromStatus: details.fromStatus ?? null,
+      toStatus: details.toStatus ?? null,
+      actorType: actor.type,
+      actorId: actor.id ?? null,
+      actorEmail: actor.email ?? null,
+      message: details.message ?? null,
+    });
+  } catch (error) {
+    console.error(`❌ Failed to record ${eventType} event for order ${orderId}:`, error);
+    return undefined;
+  }
+}
+
+export type OrderTransitionResult =
+  | { transitioned: true; order: Order; previousStatus: string; changed: boolean }
+  | { transitioned: false; statusCode: number; message: string; allowedStatuses?: readonly OrderStatus[] };
+
+/**
+ * Move an order to a new status if the lifecycle allows it and record who did it. Setting the
+ * current status again is a no-op rather than an error so retried requests stay harmless.
+ */
+export async function transitionOrderStatus(
+  orderId: string,
+  toStatus: OrderStatus,
+  actor: OrderEventActor,
+  message?: string | null,
+): Promise<OrderTransitionResult> {
+  const order = await storage.getOrderById(orderId);
+  if (!order) {
+    return { transitioned: false, statusCode: 404, message: "Order not found" };
+  }
+
+  const previousStatus = order.status;
+  if (normalizeOrderStatus(previousStatus) === toStatus) {
+    return { transitioned: true, order, previousStatus, changed: false };
+  }
+
+  if (!canTransitionOrderStatus(previousStatus, toStatus)) {
+    return {
+      transitioned: false,
+      statusCode: 409,
+      message: `Order ${order.orderNumber} cannot move from ${getOrderStatusLabel(previousStatus)} to ${getOrderStatusLabel(toStatus)}`,
+      allowedStatuses: getAllowedOrderStatusTransitions(previousStatus),
+    };
+  }
+
+  const updatedOrder = await storage.updateOrderStatus(orderId, toStatus);
+  if ((LOT_SHIPPED_ORDER_STATUSES as readonly string[]).includes(toStatus)) {
+    await markOrderLotsShipped(orderId);
+  }
+  await recordOrderEvent(orderId, "status_changed", actor, { fromStatus: previousStatus, toStatus, message });
+
+  return { transitioned: true, order: updatedOrder, previousStatus, changed: true };
+}
@@ -0,0 +1,323 @@
+import {
+  deliveryAreaSchema,
+  icePackSizeSchema,
+  insertOrderSchema,
+  orderItemsSchema,
+  type Order,
+  type OrderItem,
+} from "../shared/schema.js";
+import {
+  calculateOrderTotal,
+  findDeliveryZone,
+  getIcePackCost,
+  getTransportCost,
+  inferDeliveryAreaFromAddress,
+  sumOrderItemsDiscount,
+  sumOrderItemsSubtotal,
+} from "../shared/orderPricing.js";
+import { getOrderLines } from "../shared/orderLines.js";
+import { sumOrderItemsVat } from "../shared/orderTax.js";
+import { ORDER_AWAITING_PAYMENT_STATUS } from "../shared/payments.js";
+import { isOrderBackordered, ORDER_BACKORDERED_STATUS } from "../shared/backorders.js";
+import { splitOrderBackorders } from "./backorders.js";
+import { getOrderWeightKg, loadDeliveryZoneTariffs } from "./deliveryZones.js";
+import { applyOrderDiscounts } from "./discounts.js";
+import { recordOrderEvent, type OrderEventActor } from "./orderLifecycle.js";
+import { repriceOrderItems, type OrderRepricingResult } from "./orderRepricing.js";
+import { resolveCustomerPriceList } from "./priceLists.js";
+import { applyOrderVat } from "./orderTax.js";
+import { reserveOrderStock, type OrderStockShortage } from "./stockReservations.js";
+import { allocateOrderLots } from "./stockLots.js";
+import { isOrderIdempotencyKeyConflict, storage } from "./storage.js";
+import { enqueueOrderSyncJobIfReady } from "./syncJobs.js";
+
+// "flag" saves the order at server prices and marks it for admin review; "reject" returns 409 instead.
+const ORDER_PRICE_MISMATCH_MODE = (process.env.ORDER_PRICE_MISMATCH_MODE || "flag").trim().toLowerCase();
+
+export interface OrderPlacementRequest {
+  userId: string;
+  // Lines as quoted by the caller; they are validated and re-priced here.
+  items: unknown;
+  paymentMethod?: string | null;
+  deliveryOption?: string | null;
+  deliveryArea?: unknown;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  customerCompany: string;
+  customerAddress: string;
+  icePackRequired?: boolean;
+  icePackSize?: unknown;
+  icePackQuantity?: unknown;
+  couponCode?: string | null;
+  // Client key for this checkout attempt; at most one order is saved per user and key.
+  idempotencyKey?: string | null;
+}
+
+export type OrderPlacementResult =
+  // `backorder` holds lines split off to wait for stock; `order` is then only what is in stock now.
+  | { placed: true; order: Order; orderItems: OrderItem[]; repricing: OrderRepricingResult; replayed?: false; backorder?: Order }
+  // A concurrent submission with the same idempotency key saved the order first.
+  | { placed: true; order: Order; replayed: true }
+  | {
+      placed: false;
+      statusCode: number;
+      message: string;
+      unpricedProductIds?: string[];
+      mismatches?: OrderRepricingResult["mismatches"];
+      shortLines?: OrderStockShortage[];
+    };
+
+/**
+ * Validate, price and save an order exactly as checkout does: lines are re-priced on the server
+ * (at the customer's contract prices where a price list applies), discounts are applied, VAT,
+ * transport and ice packs are added, and stock is reserved. Lines of backorderable products beyond
+ * stock on hand are split off into a second, backordered order. Used by checkout and by standing
+ * orders so both produce identical orders.
+ */
+export async function placeOrder(
+  request: OrderPlacementRequest,
+  actor: OrderEventActor,
+  log: (stage: string, detail?: string) => void = () => {},
+): Promise<OrderPlacementResult> {
+  const deliveryOption = request.deliveryOption || "pickup";
+  const paymentMethod = request.paymentMethod || "cash";
+  const customerName = request.customerName.trim();
+  const customerEmail = request.customerEmail.trim();
+  const customerPhone = request.customerPhone.trim();
+  const customerAddress = request.customerAddress.trim();
+  const deliveryZones = deliveryOption === "delivery" ? await loadDeliveryZoneTariffs() : [];
+  const parsedDeliveryArea = deliveryAreaSchema.safeParse(request.deliveryArea);
+  const requestedDeliveryArea =
+    parsedDeliveryArea.success && findDeliveryZone(parsedDeliveryArea.data, deliveryZones)
+      ? parsedDeliveryArea.data
+      : inferDeliveryAreaFromAddress(customerAddress, deliveryZones);
+  const deliveryArea = deliveryOption === "delivery" ? requestedDeliveryArea ?? undefined : undefined;
+
+  if (!customerName || !customerEmail || !customerPhone) {
+    return { placed: false, statusCode: 400, message: "Customer name, email, and phone number are required" };
+  }
+
+  if (deliveryOption === "delivery" && !customerAddress) {
+    return { placed: false, statusCode: 400, message: "Delivery address is required for delivery orders" };
+  }
+
+  if (deliveryOption === "delivery" && !deliveryArea) {
+    return { placed: false, statusCode: 400, message: "Delivery area is required for delivery orders" };
+  }
+
+  // Cash payment is only allowed with pickup (not delivery)
+  if (paymentMethod === "cash" && deliveryOption === "delivery") {
+    return {
+      placed: false,
+      statusCode: 400,
+      message: "Cash payment is only available for pickup orders. Please choose online payment for delivery.",
+    };
+  }
+
+  const quotedOrderItems = orderItemsSchema.parse(request.items);
+  log("items:validated", `count=${quotedOrderItems.length}`);
+
+  const priceList = await resolveCustomerPriceList(request.userId);
+  const repricing = await repriceOrderItems(quotedOrderItems, priceList);
+  if (repricing.unpricedProductIds.length > 0) {
+    return {
+      placed: false,
+      statusCode: 400,
+      message: `Cannot price ${repricing.unpricedProductIds.length} product(s): ${repricing.unpricedProductIds.slice(0, 3).join(", ")}. Please remove them from your cart and try again.`,
+      unpricedProductIds: repricing.unpricedProductIds,
+    };
+  }
+
+  const priceMismatch = repricing.mismatches.length > 0;
+  if (priceMismatch) {
+    console.warn(
+      `💸 Checkout price drift for ${request.userId}: ` +
+      repricing.mismatches
+        .map((mismatch) => `${mismatch.productId} quoted=${mismatch.quotedPrice} authoritative=${mismatch.price} (${mismatch.source})`)
+        .join("; ")
+    );
+
+    if (ORDER_PRICE_MISMATCH_MODE === "reject") {
+      return {
+        placed: false,
+        statusCode: 409,
+        message: "Some prices in your cart have changed. Please refresh your cart and review the updated prices before placing the order.",
+        mismatches: repricing.mismatches,
+      };
+    }
+  }
+
+  log("items:repriced", `mismatches=${repricing.mismatches.length} priceList=${priceList?.name || "catalogue"}`);
+  const discounts = await applyOrderDiscounts(repricing.items, request.couponCode);
+  if (discounts.couponError) {
+    return { placed: false, statusCode: 400, message: discounts.couponError };
+  }
+
+  log("items:discounted", `discount=${discounts.discountTotal.toFixed(2)} coupon=${discounts.couponCode || "none"}`);
+  const { items: orderItems, tax } = await applyOrderVat(discounts.items);
+  const quotedSubtotal = sumOrderItemsSubtotal(quotedOrderItems);
+  const subtotal = sumOrderItemsSubtotal(orderItems);
+  const discountTotal = discounts.discountTotal;
+  const totalWeightKg = deliveryArea ? await getOrderWeightKg(orderItems) : 0;
+  const transportCost = getTransportCost(deliveryOption, deliveryArea, {
+    zones: deliveryZones,
+    subtotal: subtotal - discountTotal,
+    totalWeightKg,
+  });
+  const icePackRequired = request.icePackRequired === true;
+  const parsedIcePackSize = icePackSizeSchema.safeParse(request.icePackSize);
+  const rawIcePackQuantity = Number.parseInt(String(request.icePackQuantity ?? "1"), 10);
+  const icePackQuantity = icePackRequired ? Math.max(1, rawIcePackQuantity || 1) : 0;
+
+  if (icePackRequired && !parsedIcePackSize.success) {
+    return { placed: false, statusCode: 400, message: "Ice pack size is required when ice pack is selected" };
+  }
+
+  const icePackSize = icePackRequired ? parsedIcePackSize.data : undefined;
+  const icePackCost = getIcePackCost(icePackRequired, icePackSize, icePackQuantity);
+  const total = calculateOrderTotal({
+    subtotal,
+    discount: discountTotal,
+    tax,
+    deliveryOption,
+    deliveryArea,
+    deliveryZones,
+    totalWeightKg,
+    icePackRequired,
+    icePackSize,
+    icePackQuantity,
+  });
+  const backorderSplit = await splitOrderBackorders(orderItems);
+  const splitsBackorder = backorderSplit.backorderItems.length > 0;
+  if (splitsBackorder) {
+    log("items:backordered", `inStock=${backorderSplit.inStockItems.length} backordered=${backorderSplit.backorderItems.length}`);
+  }
+
+  // Persist customer data exactly as entered for this order. A split order's delivery and ice pack
+  // charges go on the part that ships first; each part carries its own lines, discount and VAT.
+  const buildOrderData = (
+    items: OrderItem[],
+    part: { status: string; idempotencyKey: string | null; withCharges: boolean },
+  ) => {
+    const partSubtotal = splitsBackorder ? sumOrderItemsSubtotal(items) : subtotal;
+    const partDiscount = splitsBackorder ? sumOrderItemsDiscount(items) : discountTotal;
+    const partTax = splitsBackorder ? sumOrderItemsVat(items) : tax;
+    const partQuotedSubtotal = splitsBackorder
+      ? sumOrderItemsSubtotal(items.map((item) => ({ price: item.quotedPrice ?? item.price, quantity: item.quantity })))
+      : quotedSubtotal;
+    const partTransportCost = part.withCharges ? transportCost : 0;
+    const partIcePackCost = part.withCharges ? icePackCost : 0;
+    const partTotal = splitsBackorder
+      ? partSubtotal - partDiscount + partTax + partTransportCost + partIcePackCost
+      : total;
+
+    return insertOrderSchema.parse({
+      userId: request.userId,
+      items: JSON.stringify(items),
+      subtotal: partSubtotal.toFixed(2),
+      quotedSubtotal: partQuotedSubtotal.toFixed(2),
+      priceMismatch,
+      discountTotal: partDiscount.toFixed(2),
+      couponCode: discounts.couponCode,
+      tax: partTax.toFixed(2),
+      total: partTotal.toFixed(2),
+      status: part.status,
+      paymentMethod,
+      deliveryOption,
+      deliveryArea,
+      transportCost: partTransportCost.toFixed(2),
+      icePackRequired: part.withCharges && icePackRequired,
+      icePackSize: part.withCharges ? icePackSize : undefined,
+      icePackQuantity: part.withCharges ? icePackQuantity : 0,
+      icePackCost: partIcePackCost.toFixed(2),
+      customerName,
+      customerEmail,
+      customerPhone,
+      customerCompany: request.customerCompany.trim(),
+      customerAddress,
+      idempotencyKey: part.idempotencyKey,
+      backorderOfOrderId: null,
+      expectedArrivalAt: part.status === ORDER_BACKORDERED_STATUS ? backorderSplit.expectedArrivalAt : null,
+    });
+  };
+
+  const inStockItems = backorderSplit.inStockItems;
+  const orderData = buildOrderData(inStockItems.length > 0 ? inStockItems : backorderSplit.backorderItems, {
+    status: inStockItems.length === 0
+      ? ORDER_BACKORDERED_STATUS
+      : paymentMethod === "online_now" ? ORDER_AWAITING_PAYMENT_STATUS : "processing",
+    idempotencyKey: request.idempotencyKey || null,
+    withCharges: true,
+  });
+
+  const saveStartedAt = Date.now();
+  log("save:start", `userId=${request.userId}`);
+  let order: Order;
+  try {
+    order = await storage.createOrder(orderData);
+  } catch (saveError) {
+    if (!request.idempotencyKey || !isOrderIdempotencyKeyConflict(saveError)) {
+      throw saveError;
+    }
+    const existingOrder = await storage.getOrderByIdempotencyKey(request.userId, request.idempotencyKey);
+    if (!existingOrder) {
+      throw saveError;
+    }
+    log("save:replayed", `order=${existingOrder.orderNumber}`);
+    return { placed: true, order: existingOrder, replayed: true };
+  }
+  log("save:success", `order=${order.orderNumber} durationMs=${Date.now() - saveStartedAt}`);
+
+  // A fully backordered order takes no stock and waits out of the sync queue until it is released.
+  if (isOrderBackordered(order)) {
+    await recordOrderEvent(order.id, "created", actor, { toStatus: order.status });
+    return { placed: true, order, orderItems: backorderSplit.backorderItems, repricing };
+  }
+
+  try {
+    const reservation = await reserveOrderStock(order.id, inStockItems);
+    if (!reservation.reserved) {
+      await storage.deleteOrder(order.id);
+      log("stock:short", `lines=${reservation.shortages.length}`);
+      return {
+        placed: false,
+        statusCode: 409,
+        message: `Not enough stock for ${reservation.shortages
+          .map((shortage) => `${shortage.name} (requested ${shortage.requested}, available ${shortage.available})`)
+          .join(", ")}. Please adjust your cart and try again.`,
+        shortLines: reservation.shortages,
+      };
+    }
+    log("stock:reserved", `order=${order.orderNumber}`);
+  } catch (reservationError) {
+    console.error(`⚠️ Stock reservation failed for ${order.orderNumber}, continuing without reservation:`, reservationError);
+  }
+  // Lot allocation logs its own failures and never blocks checkout.
+  await allocateOrderLots(order.id, getOrderLines(order));
+  try {
+    await enqueueOrderSyncJobIfReady(order);
+  } catch (queueError) {
+    console.error(`⚠️ Could not queue eCount sync for ${order.orderNumber}, the background sync will queue it:`, queueError);
+  }
+  await recordOrderEvent(order.id, "created", actor, { toStatus: order.status });
+
+  let backorder: Order | undefined;
+  if (splitsBackorder) {
+    backorder = await storage.createOrder({
+      ...buildOrderData(backorderSplit.backorderItems, {
+        status: ORDER_BACKORDERED_STATUS,
+        idempotencyKey: request.idempotencyKey ? `${request.idempotencyKey.slice(0, 118)}-backorder` : null,
+        withCharges: false,
+      }),
+      backorderOfOrderId: order.id,
+    });
+    log("save:backorder", `order=${backorder.orderNumber} of=${order.orderNumber}`);
+    await recordOrderEvent(backorder.id, "created", actor, {
+      toStatus: backorder.status,
+      message: `Backordered from ${order.orderNumber}`,
+    });
+  }
+
+  return { placed: true, order, orderItems: inStockItems, repricing, backorder };
+}
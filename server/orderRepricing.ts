@@ -0,0 +1,96 @@
+import type { OrderItem } from "../shared/schema.js";
+import { ecountApi } from "./ecountApi.js";
+import type { CustomerPriceList } from "./priceLists.js";
+import { ProductMapping } from "./productMapping.js";
+
+// Anything under one cent is rounding noise from the browser's string formatting.
+const PRICE_MISMATCH_TOLERANCE = 0.01;
+
+export type OrderPriceSource = "price_list" | "product_mapping" | "ecount_cache";
+
+export interface OrderPriceMismatch {
+  productId: string;
+  name: string;
+  quotedPrice: number;
+  price: number;
+  source: OrderPriceSource;
+}
+
+export interface OrderRepricingResult {
+  items: OrderItem[];
+  mismatches: OrderPriceMismatch[];
+  unpricedProductIds: string[];
+}
+
+const parsePrice = (value: unknown) => {
+  const parsed = Number.parseFloat(String(value ?? ""));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const resolveAuthoritativePrice = (productId: string, priceList: CustomerPriceList | null) => {
+  const mapping = ProductMapping.getProduct(productId);
+  const contractPrice = priceList?.prices.get(productId);
+  if (contractPrice !== undefined && contractPrice > 0) {
+    return { price: contractPrice, name: mapping?.name || "", source: "price_list" as const };
+  }
+
+  if (mapping && mapping.price > 0) {
+    return { price: mapping.price, name: mapping.name, source: "product_mapping" as const };
+  }
+
+  const cachedProduct = ecountApi.getCachedProduct(productId);
+  const cachedPrice = parsePrice(cachedProduct?.price);
+  if (cachedProduct && cachedPrice !== null && cachedPrice > 0) {
+    return { price: cachedPrice, name: cachedProduct.name, source: "ecount_cache" as const };
+  }
+
+  return null;
+};
+
+/**
+ * Re-price client-submitted order items from the customer's price list, then the product
+ * mapping (falling back to the cached eCount product list). The browser's price is kept as
+ * `quotedPrice` so drift stays visible to admins; `price` is always the server-side value.
+ */
+export async function repriceOrderItems(
+  items: OrderItem[],
+  priceList: CustomerPriceList | null = null,
+): Promise<OrderRepricingResult> {
+  await ProductMapping.ensureLoaded();
+
+  const repricedItems: OrderItem[] = [];
+  const mismatches: OrderPriceMismatch[] = [];
+  const unpricedProductIds: string[] = [];
+
+  for (const item of items) {
+    const authoritative = resolveAuthoritativePrice(item.productId, priceList);
+    if (!authoritative) {
+      unpricedProductIds.push(item.productId);
+      continue;
+    }
+
+    const quotedPrice = parsePrice(item.price) ?? 0;
+    if (Math.abs(quotedPrice - authoritative.price) >= PRICE_MISMATCH_TOLERANCE) {
+      mismatches.push({
+        productId: item.productId,
+        name: authoritative.name || item.name,
+        quotedPrice,
+        price: authoritative.price,
+        source: authoritative.source,
+      });
+    }
+
+    repricedItems.push({
+      ...item,
+      name: authoritative.name || item.name,
+      price: authoritative.price.toFixed(2),
+      quotedPrice: quotedPrice.toFixed(2),
+    });
+  }
+
+  return {
+    items: repricedItems,
+    mismatches,
+    unpricedProductIds,
+  };
+}
@@ -0,0 +1,346 @@
+import "./testEnvironment.js";
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import type { Order } from "../shared/schema.js";
+import { createEcountSimulator } from "../scripts/ecount-simulator.mjs";
+
+// Checkout end to end: POST /api/orders saves to MemStorage and the direct sync runner sends the
+// order to the local eCount simulator, which stands in for the real API.
+const simulator = createEcountSimulator({ authKey: "test-auth-key" });
+let server: Server;
+let consoleLog: typeof console.log;
+let baseUrl = "";
+let storage: typeof import("./storage.js")["storage"];
+let placeOrder: typeof import("./orderPlacement.js")["placeOrder"];
+let SYSTEM_ACTOR: typeof import("./orderLifecycle.js")["SYSTEM_ACTOR"];
+let runErpReconciliation: typeof import("./erpReconciliation.js")["runErpReconciliation"];
+let cancelOrderForCustomer: typeof import("./orderAmendments.js")["cancelOrderForCustomer"];
+let requestOrderCancellation: typeof import("./orderAmendments.js")["requestOrderCancellation"];
+let approveOrderCancellation: typeof import("./orderAmendments.js")["approveOrderCancellation"];
+let importStockLots: typeof import("./stockLots.js")["importStockLots"];
+let settlePayment: typeof import("./payments.js")["settlePayment"];
+let startOrderPayment: typeof import("./payments.js")["startOrderPayment"];
+
+const MAPPING_CSV = [
+  "Item Code,Item Name,UOM,Price",
+  "91100B,Surgical Gloves (Box of 100),BOX,18000",
+  "10422,Paracetamol 500mg (Pack of 1000),PCK,32000",
+].join("\n");
+
+const CUSTOMER = {
+  customerName: "Test Pharmacy",
+  customerEmail: "orders@test-pharmacy.example",
+  customerPhone: "+255700000000",
+  customerCompany: "Test Pharmacy Ltd",
+  customerAddress: "",
+};
+
+const CHECKOUT_KEY = "checkout-attempt-0001";
+const CHECKOUT_BODY = JSON.stringify({
+  ...CUSTOMER,
+  paymentMethod: "cash",
+  deliveryOption: "pickup",
+  items: [
+    { productId: "91100B", name: "Surgical Gloves", price: "17500", quantity: 2, referenceNumber: "91100B" },
+    { productId: "10422", name: "Paracetamol", price: "32000", quantity: 1, referenceNumber: "10422" },
+  ],
+});
+
+const submitCheckout = () =>
+  fetch(`${baseUrl}/api/orders`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Idempotency-Key": CHECKOUT_KEY },
+    body: CHECKOUT_BODY,
+  });
+
+const placePickupOrder = async (userId: string, paymentMethod: "cash" | "online_now" = "cash") => {
+  const placement = await placeOrder(
+    {
+      ...CUSTOMER,
+      userId,
+      paymentMethod,
+      deliveryOption: "pickup",
+      items: [{ productId: "10422", name: "Paracetamol", price: "32000", quantity: 3, referenceNumber: "10422" }],
+    },
+    SYSTEM_ACTOR,
+  );
+  assert.ok(placement.placed);
+  return placement.order;
+};
+
+const runSyncCron = async () => (await (await fetch(`${baseUrl}/api/cron/ecount-order-sync`)).json()).data;
+
+const waitForOrder = async (orderId: string, done: (order: Order) => boolean, timeoutMs = 10000) => {
+  const startedAt = Date.now();
+  for (;;) {
+    const order = await storage.getOrderById(orderId);
+    if (order && done(order)) {
+      return order;
+    }
+    if (Date.now() - startedAt > timeoutMs) {
+      throw new Error(`Order ${orderId} did not reach the expected state (erpSyncStatus=${order?.erpSyncStatus})`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+};
+
+describe("order sync", () => {
+  before(async () => {
+    // The checkout and eCount logs are very chatty; the runner reads test results from stdout.
+    consoleLog = console.log;
+    console.log = () => {};
+    const simulatorUrl = await simulator.listen(0);
+    Object.assign(process.env, {
+      ECOUNT_API_BASE_URL: simulatorUrl,
+      ECOUNT_COMPANY_CODE: "600000",
+      ECOUNT_AUTH_KEY: "test-auth-key",
+      ECOUNT_USER_ID: "TESTER",
+      ECOUNT_ZONE: "SIM",
+      ECOUNT_WAREHOUSE_CODE: "00001",
+      ORDER_SYNC_MODE: "direct",
+      ORDER_SYNC_RETRY_BASE_DELAY_MS: "1",
+      ORDER_SYNC_RETRY_SPACING_MS: "1",
+      ORDER_SYNC_MAX_ATTEMPTS: "2",
+    });
+
+    // Route and eCount settings are read when the modules load, so import them after the env is set.
+    const { registerRoutes } = await import("./routes.js");
+    const { ProductMapping } = await import("./productMapping.js");
+    ({ storage } = await import("./storage.js"));
+    ({ placeOrder } = await import("./orderPlacement.js"));
+    ({ SYSTEM_ACTOR } = await import("./orderLifecycle.js"));
+    ({ runErpReconciliation } = await import("./erpReconciliation.js"));
+    ({ cancelOrderForCustomer, requestOrderCancellation, approveOrderCancellation } = await import("./orderAmendments.js"));
+    ({ importStockLots } = await import("./stockLots.js"));
+    ({ settlePayment, startOrderPayment } = await import("./payments.js"));
+
+    await ProductMapping.replaceUploadedExcel({ buffer: Buffer.from(MAPPING_CSV), originalName: "mapping.csv" });
+
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    await simulator.close();
+    console.log = consoleLog;
+  });
+
+  test("POST /api/orders saves the order at server prices and syncs it to eCount", async () => {
+    const response = await submitCheckout();
+    const body = await response.json();
+
+    assert.equal(response.status, 201);
+    assert.equal(body.localOrderSaved, true);
+    assert.equal(body.pricing.adjusted, true);
+    assert.equal(body.order.subtotal, "68000.00");
+
+    const synced = await waitForOrder(body.order.id, (order) => order.erpSyncStatus === "synced");
+    assert.equal(synced.erpSyncAttempts, 1);
+
+    const saleOrder = simulator.state.saleOrders.find((entry) => entry.docNo === synced.erpDocNumber);
+    assert.ok(saleOrder, "eCount received the sale order");
+    assert.equal(saleOrder.custCode, "10839");
+    assert.deepEqual(
+      saleOrder.lines.map((line: any) => [line.PROD_CD, line.QTY, line.PRICE]),
+      [["91100B", "2", "18000"], ["10422", "1", "32000"]],
+    );
+  });
+
+  test("a repeated Idempotency-Key returns the original order without a second sale order", async () => {
+    const [original] = await storage.getOrdersByUserId("guest-user");
+    const saleOrderCount = simulator.state.saleOrders.length;
+
+    const response = await submitCheckout();
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(body.replayed, true);
+    assert.equal(body.order.id, original.id);
+    assert.deepEqual(
+      body.pricing.mismatches.map((mismatch: any) => [mismatch.productId, mismatch.quotedPrice, mismatch.price]),
+      [["91100B", 17500, 18000]],
+    );
+    assert.equal((await storage.getOrdersByUserId("guest-user")).length, 1);
+    assert.equal(simulator.state.saleOrders.length, saleOrderCount);
+  });
+
+  test("a failed sync is retried by the sync queue", async () => {
+    const order = await placePickupOrder("retry-customer");
+
+    simulator.failNext("SaveSaleOrder", "validation_error");
+    const failedRun = await runSyncCron();
+    assert.equal(failedRun.failed, 1);
+    assert.equal(failedRun.results[0].orderId, order.id);
+
+    const failed = await storage.getOrderById(order.id);
+    assert.equal(failed?.erpSyncStatus, "failed");
+    assert.equal(failed?.erpSyncAttempts, 1);
+    assert.ok(failed?.erpNextSyncAttemptAt, "a retry was scheduled");
+    assert.ok(failed?.erpSyncError);
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const retryRun = await runSyncCron();
+    assert.equal(retryRun.synced, 1);
+
+    const synced = await storage.getOrderById(order.id);
+    assert.equal(synced?.erpSyncStatus, "synced");
+    assert.equal(synced?.erpSyncAttempts, 2);
+    assert.equal(synced?.erpNextSyncAttemptAt, null);
+    assert.ok(simulator.state.saleOrders.some((entry) => entry.docNo === synced?.erpDocNumber));
+
+    const [job] = await storage.getSyncJobs({ subjectId: order.id });
+    assert.equal(job.status, "succeeded");
+    assert.equal(job.attempts, 2);
+  });
+
+  test("a job that runs out of attempts is dead-lettered until it is requeued", async () => {
+    const order = await placePickupOrder("dead-letter-customer");
+
+    simulator.failNext("SaveSaleOrder", "validation_error", 2);
+    assert.equal((await runSyncCron()).failed, 1);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    assert.equal((await runSyncCron()).failed, 1);
+
+    const [deadJob] = await storage.getSyncJobs({ subjectId: order.id });
+    assert.equal(deadJob.status, "dead");
+    assert.equal(deadJob.attempts, 2);
+    assert.equal((await storage.getOrderById(order.id))?.erpNextSyncAttemptAt, null);
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    assert.equal((await runSyncCron()).checked, 0, "dead jobs are not retried");
+
+    await storage.requeueSyncJob(deadJob.id);
+    assert.equal((await runSyncCron()).synced, 1);
+    assert.equal((await storage.getOrderById(order.id))?.erpSyncStatus, "synced");
+  });
+
+  test("a leased job is not synced again by a second runner", async () => {
+    const order = await placePickupOrder("lease-customer");
+    const [job] = await storage.leaseSyncJobs("ecount_order_sync", { owner: "vps-worker", leaseMs: 60000, limit: 1, subjectId: order.id });
+    assert.equal(job.leaseOwner, "vps-worker");
+
+    assert.equal((await runSyncCron()).checked, 0);
+    assert.equal((await storage.getOrderById(order.id))?.erpSyncStatus, "pending");
+
+    // The worker may be submitting it right now, so the customer cannot cancel it under the worker
+    const cancellation = await cancelOrderForCustomer(order, SYSTEM_ACTOR);
+    assert.equal(cancellation.cancelled, false);
+    assert.equal(cancellation.statusCode, 409);
+    assert.equal((await storage.getOrderById(order.id))?.status, order.status);
+  });
+
+  test("reconciliation reports orders missing from or duplicated in eCount", async () => {
+    const [original] = await storage.getOrdersByUserId("guest-user");
+    const saleOrder = simulator.state.saleOrders.find((entry) => entry.docNo === original.erpDocNumber);
+    assert.ok(saleOrder);
+    simulator.state.saleOrders.push({ ...saleOrder, docNo: `${saleOrder.ioDate}-999`, ioNo: "999" });
+    const [leasedOrder] = await storage.getOrdersByUserId("lease-customer");
+
+    const today = new Date().toISOString().slice(0, 10);
+    const run = await runErpReconciliation({ from: today, to: today }, "test");
+
+    assert.equal(run.status, "completed");
+    assert.equal(run.ordersChecked, 4);
+    assert.equal(run.matchedCount, 2);
+    assert.deepEqual(
+      run.issues.map((issue) => [issue.type, issue.orderNumber]).sort(),
+      [["duplicated", original.orderNumber], ["missing", leasedOrder.orderNumber]].sort(),
+    );
+    assert.deepEqual((await storage.getErpReconciliationRuns()).map((saved) => saved.id), [run.id]);
+  });
+
+  test("a reconciliation that cannot read eCount is saved as failed", async () => {
+    simulator.failNext("GetListSaleOrder", "server_error");
+    const today = new Date().toISOString().slice(0, 10);
+
+    const run = await runErpReconciliation({ from: today, to: today }, "test");
+
+    assert.equal(run.status, "failed");
+    assert.ok(run.error);
+    assert.equal(run.issueCount, 0);
+  });
+
+  test("an order awaiting online payment is never sent to eCount", async () => {
+    const order = await placePickupOrder("unpaid-customer", "online_now");
+    assert.equal(order.status, "awaiting_payment");
+    const saleOrderCount = simulator.state.saleOrders.length;
+
+    // A job queued for it anyway is closed without submitting the order
+    await storage.enqueueSyncJob({ jobType: "ecount_order_sync", subjectId: order.id, maxAttempts: 2 });
+    await runSyncCron();
+
+    const unpaid = await storage.getOrderById(order.id);
+    assert.equal(unpaid?.status, "awaiting_payment");
+    assert.equal(unpaid?.erpDocNumber, null);
+    assert.equal(simulator.state.saleOrders.length, saleOrderCount);
+  });
+
+  test("a payment that does not cover the order total is kept but holds the order for review", async () => {
+    const order = await placePickupOrder("short-payment-customer", "online_now");
+    const payment = await storage.createPayment({
+      orderId: order.id,
+      provider: "sandbox",
+      network: "mpesa",
+      phone: "255712345678",
+      amount: (Number.parseFloat(order.total) - 1000).toFixed(2),
+      currency: "TZS",
+      status: "pending",
+    });
+
+    const settlement = await settlePayment(payment, { providerReference: "SANDBOX-SHORT", status: "succeeded" });
+
+    assert.equal(settlement.newlyPaid, false);
+    assert.equal(settlement.payment.status, "succeeded");
+    assert.equal((await storage.getOrderById(order.id))?.status, "awaiting_payment");
+    const events = await storage.getOrderEvents(order.id);
+    assert.ok(events.some((event) => event.eventType === "admin_action" && /does not match the order total/.test(event.message ?? "")));
+
+    // The customer was charged once already; a second push must not start
+    const retry = await startOrderPayment(order, { phone: "0712345678" });
+    assert.equal(retry.started, false);
+    assert.equal(retry.statusCode, 409);
+  });
+
+  test("an approved cancellation reverses the eCount sale order and releases the order's lots", async () => {
+    await importStockLots(Buffer.from("Item Code,Lot No,Expiry Date,Qty\n10422,P-01,31/12/2099,10"));
+    const order = await placePickupOrder("cancelling-customer");
+    assert.deepEqual((await storage.getOrderLotAllocations(order.id)).map((allocation) => allocation.status), ["allocated"]);
+    await runSyncCron();
+    const synced = await waitForOrder(order.id, (current) => current.erpSyncStatus === "synced");
+
+    const request = await requestOrderCancellation(synced, SYSTEM_ACTOR, "Ordered twice");
+    assert.ok(request.requested);
+    const review = await approveOrderCancellation(request.order, SYSTEM_ACTOR, {});
+    assert.ok(review.reviewed);
+
+    assert.equal(review.order.status, "cancelled");
+    assert.ok(review.order.erpReversalDocNumber);
+    assert.deepEqual((await storage.getOrderLotAllocations(order.id)).map((allocation) => allocation.status), ["released"]);
+  });
+
+  test("an order saved first by a concurrent submission is replayed instead of failing", async () => {
+    const request = {
+      ...CUSTOMER,
+      userId: "double-tap-customer",
+      paymentMethod: "cash",
+      deliveryOption: "pickup",
+      items: [{ productId: "10422", name: "Paracetamol", price: "32000", quantity: 1, referenceNumber: "10422" }],
+      idempotencyKey: "double-tap-0001",
+    };
+
+    const first = await placeOrder(request, SYSTEM_ACTOR);
+    const second = await placeOrder(request, SYSTEM_ACTOR);
+
+    assert.ok(first.placed && second.placed);
+    assert.equal(second.replayed, true);
+    assert.equal(second.order.id, first.order.id);
+    assert.equal((await storage.getOrdersByUserId("double-tap-customer")).length, 1);
+  });
+});
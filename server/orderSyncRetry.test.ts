@@ -0,0 +1,31 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { getRetryDelayMs } from "./orderSyncRetry.js";
+
+const MINUTE = 60 * 1000;
+
+describe("getRetryDelayMs", () => {
+  test("waits the base delay after the first failure and doubles after each further one", () => {
+    assert.deepEqual([1, 2, 3, 4].map((attempts) => getRetryDelayMs(attempts)), [5 * MINUTE, 10 * MINUTE, 20 * MINUTE, 40 * MINUTE]);
+  });
+
+  test("never waits longer than the maximum delay", () => {
+    assert.equal(getRetryDelayMs(5), 60 * MINUTE);
+    assert.equal(getRetryDelayMs(50), 60 * MINUTE);
+  });
+
+  test("treats zero or negative attempts like the first failure", () => {
+    assert.equal(getRetryDelayMs(0), 5 * MINUTE);
+    assert.equal(getRetryDelayMs(-3), 5 * MINUTE);
+  });
+
+  test("uses the configured base and maximum delays", () => {
+    const settings = { baseDelayMs: 1000, maxDelayMs: 5000 };
+    assert.deepEqual([1, 2, 3, 4].map((attempts) => getRetryDelayMs(attempts, settings)), [1000, 2000, 4000, 5000]);
+  });
+
+  test("falls back to the defaults for invalid settings", () => {
+    assert.equal(getRetryDelayMs(1, { baseDelayMs: Number.NaN, maxDelayMs: 0 }), 5 * MINUTE);
+    assert.equal(getRetryDelayMs(10, { baseDelayMs: -1, maxDelayMs: -1 }), 60 * MINUTE);
+  });
+});
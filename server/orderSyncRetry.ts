@@ -0,0 +1,19 @@
+const DEFAULT_RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+const DEFAULT_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+const positiveOr = (value: number | undefined, fallback: number) =>
+  value !== undefined && Number.isFinite(value) && value > 0 ? value : fallback;
+
+/**
+ * Wait before the next eCount sync attempt after `attempts` failed ones: the base delay, then
+ * doubling per attempt up to the maximum. Invalid settings fall back to 5 minutes and 1 hour.
+ */
+export function getRetryDelayMs(
+  attempts: number,
+  { baseDelayMs, maxDelayMs }: { baseDelayMs?: number; maxDelayMs?: number } = {},
+): number {
+  const safeAttempts = Math.max(0, attempts - 1);
+  const baseDelay = positiveOr(baseDelayMs, DEFAULT_RETRY_BASE_DELAY_MS);
+  const maxDelay = positiveOr(maxDelayMs, DEFAULT_RETRY_MAX_DELAY_MS);
+  return Math.min(maxDelay, baseDelay * (2 ** safeAttempts));
+}
@@ -0,0 +1,76 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createEcountSimulator } from "../scripts/ecount-simulator.mjs";
+import { indexProductMappings, loginToEcount, submitSaleOrder, type EcountOrderSyncConfig } from "../scripts/ecount-order-sync.mjs";
+
+// The static-IP VPS worker must send eCount the same document the web app would for an order.
+const simulator = createEcountSimulator({ authKey: "test-auth-key" });
+let config: EcountOrderSyncConfig;
+
+const mappings = indexProductMappings([
+  { normalized_code: "91100B", original_code: "91100B", name: "Surgical Gloves (Box of 100)", price: "18000" },
+]);
+
+const order = {
+  id: "worker-order-1",
+  order_number: "ORD-WORKER-001",
+  items: "[]",
+  created_at: new Date(),
+  customer_name: "Test Pharmacy",
+};
+
+const submit = async (lines: Parameters<typeof submitSaleOrder>[4]) => {
+  const session = await loginToEcount(config);
+  const result = await submitSaleOrder(config, session, order, mappings, lines, null);
+  const saleOrder = simulator.state.saleOrders.find((entry) => entry.docNo === result.docNo);
+  assert.ok(saleOrder, "eCount received the sale order");
+  return { result, line: saleOrder.lines[0] };
+};
+
+describe("VPS order sync worker", () => {
+  before(async () => {
+    config = {
+      companyCode: "600000",
+      authKey: "test-auth-key",
+      userId: "TESTER",
+      zone: "SIM",
+      warehouseCode: "00001",
+      customerCode: "10839",
+      apiBaseUrl: await simulator.listen(0),
+      orderDateTimeZone: "Africa/Dar_es_Salaam",
+      ioDateMode: "blank",
+    };
+  });
+
+  after(async () => {
+    await simulator.close();
+  });
+
+  test("a discounted line is sent after its discount, with VAT on the discounted amount", async () => {
+    const { result, line } = await submit([
+      {
+        product_code: "91100B",
+        product_name: "Surgical Gloves",
+        quantity: 2,
+        unit_price: "18000.00",
+        vat_rate: "0.1800",
+        discount_amount: "3600.00",
+        discount_label: "Bulk gloves 10%",
+      },
+    ]);
+
+    assert.equal(line.SUPPLY_AMT, "32400");
+    assert.equal(line.VAT_AMT, "5832");
+    assert.equal(line.P_REMARKS1, "Discount 3600.00: Bulk gloves 10%");
+    assert.equal(result.totalValue, 32400);
+  });
+
+  test("a line is sent at the price the customer was charged, not the catalogue price", async () => {
+    const { line } = await submit([
+      { product_code: "91100B", product_name: "Surgical Gloves", quantity: 3, unit_price: "16500.00", vat_rate: "0" },
+    ]);
+
+    assert.equal(line.PRICE, "16500");
+    assert.equal(line.SUPPLY_AMT, "49500");
+  });
+});
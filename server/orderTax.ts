@@ -0,0 +1,34 @@
+import type { OrderItem } from "../shared/schema.js";
+import { calculateLineVat, DEFAULT_VAT_CLASS, normalizeVatClass } from "../shared/orderTax.js";
+import { ProductMapping } from "./productMapping.js";
+
+export interface OrderVatResult {
+  items: OrderItem[];
+  tax: number;
+}
+
+/**
+ * Stamp each (already re-priced and discounted) order item with its product's VAT class and VAT amount.
+ * The class comes from the product mapping; the browser's vatClass is never trusted.
+ */
+export async function applyOrderVat(items: OrderItem[]): Promise<OrderVatResult> {
+  await ProductMapping.ensureLoaded();
+
+  let tax = 0;
+  const taxedItems = items.map((item) => {
+    const vatClass = normalizeVatClass(ProductMapping.getProduct(item.productId)?.vatClass ?? DEFAULT_VAT_CLASS);
+    const vatAmount = calculateLineVat(item.price, item.quantity, vatClass, item.discountAmount ?? 0);
+    tax += vatAmount;
+
+    return {
+      ...item,
+      vatClass,
+      vatAmount: vatAmount.toFixed(2),
+    };
+  });
+
+  return {
+    items: taxedItems,
+    tax: Math.round(tax * 100) / 100,
+  };
+}
@@ -0,0 +1,409 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { Order, OrderPaymentRequest, Payment } from "../shared/schema.js";
+import {
+  getMobileMoneyNetworkLabel,
+  inferMobileMoneyNetwork,
+  isOrderAwaitingPayment,
+  normalizeMobileMoneyPhone,
+  ORDER_PAID_STATUS,
+  type MobileMoneyNetwork,
+  type PaymentProviderName,
+  type PaymentStatus,
+} from "../shared/payments.js";
+import { recordOrderEvent, transitionOrderStatus, type OrderEventActor } from "./orderLifecycle.js";
+import { storage } from "./storage.js";
+import { enqueueOrderSyncJob } from "./syncJobs.js";
+
+const PAYMENT_PROVIDER = (process.env.PAYMENT_PROVIDER || "").trim().toLowerCase();
+const MOBILE_MONEY_API_URL = (process.env.MOBILE_MONEY_API_URL || "").trim().replace(/\/+$/, "");
+const MOBILE_MONEY_API_KEY = process.env.MOBILE_MONEY_API_KEY || "";
+const MOBILE_MONEY_CALLBACK_SECRET = process.env.MOBILE_MONEY_CALLBACK_SECRET || "";
+// Public URL of POST /api/payments/callback/mobile_money, registered with the aggregator per push.
+const MOBILE_MONEY_CALLBACK_URL = (process.env.MOBILE_MONEY_CALLBACK_URL || "").trim();
+const MOBILE_MONEY_TIMEOUT_MS = Number.parseInt(process.env.MOBILE_MONEY_TIMEOUT_MS || "20000", 10);
+
+export interface PaymentPushRequest {
+  paymentId: string;
+  orderNumber: string;
+  amount: number;
+  currency: string;
+  msisdn: string;
+  network: MobileMoneyNetwork;
+}
+
+export interface PaymentProviderResult {
+  providerReference: string;
+  status: PaymentStatus;
+  failureReason?: string;
+  // Amount the provider reports as paid, when it reports one.
+  amount?: number;
+  // Our payment ID echoed back by the provider, for callbacks that beat the push response.
+  paymentId?: string;
+}
+
+export interface PaymentCallbackRequest {
+  rawBody?: Buffer;
+  body: any;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * A payment provider sends the push prompt to the customer's phone and turns the provider's
+ * callback into a payment outcome. Providers never touch orders; settlePayment does that.
+ */
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  requestPush(request: PaymentPushRequest): Promise<PaymentProviderResult>;
+  // Returns null when the callback cannot be authenticated.
+  parseCallback(request: PaymentCallbackRequest): PaymentProviderResult | null;
+}
+
+const toPaymentStatus = (value: unknown): PaymentStatus => {
+  const normalized = String(value ?? "").trim().toLowerCase();
+  if (["success", "successful", "succeeded", "completed", "paid"].includes(normalized)) {
+    return "succeeded";
+  }
+  if (["failed", "failure", "rejected", "declined", "expired", "timeout", "insufficient_funds"].includes(normalized)) {
+    return "failed";
+  }
+  if (["cancelled", "canceled", "user_cancelled"].includes(normalized)) {
+    return "cancelled";
+  }
+  return "pending";
+};
+
+const toPaidAmount = (value: unknown): number | undefined => {
+  const amount = Number.parseFloat(String(value ?? ""));
+  return Number.isFinite(amount) ? amount : undefined;
+};
+
+const signatureMatches = (payload: Buffer, signature: string, secret: string) => {
+  const expected = createHmac("sha256", secret).update(payload).digest("hex");
+  const provided = signature.trim().toLowerCase();
+  return (
+    provided.length === expected.length &&
+    timingSafeEqual(Buffer.from(provided), Buffer.from(expected))
+  );
+};
+
+// Push (STK) checkout through a mobile money aggregator that fronts M-Pesa, Tigo Pesa and Airtel Money.
+const mobileMoneyProvider: PaymentProvider = {
+  name: "mobile_money",
+
+  async requestPush(request) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), MOBILE_MONEY_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${MOBILE_MONEY_API_URL}/checkout/push`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${MOBILE_MONEY_API_KEY}`,
+        },
+        body: JSON.stringify({
+          reference: request.paymentId,
+          msisdn: request.msisdn,
+          network: request.network,
+          amount: request.amount,
+          currency: request.currency,
+          description: `Phomas order ${request.orderNumber}`,
+          callbackUrl: MOBILE_MONEY_CALLBACK_URL || undefined,
+        }),
+        signal: controller.signal,
+      });
+
+      const text = await response.text();
+      let data: any = null;
+      try {
+        data = text ? JSON.parse(text) : null;
+      } catch {
+        data = null;
+      }
+
+      if (!response.ok) {
+        throw new Error(data?.message || text.slice(0, 200) || `Mobile money API returned ${response.status}`);
+      }
+
+      const providerReference = data?.transactionId || data?.reference;
+      if (!providerReference) {
+        throw new Error("Mobile money API did not return a transaction reference");
+      }
+
+      return {
+        providerReference: String(providerReference),
+        status: toPaymentStatus(data?.status),
+        failureReason: data?.message || undefined,
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new Error(`Mobile money API timed out after ${MOBILE_MONEY_TIMEOUT_MS}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  },
+
+  parseCallback({ rawBody, body, headers }) {
+    const signature = headers["x-signature"];
+    if (!MOBILE_MONEY_CALLBACK_SECRET || !rawBody || typeof signature !== "string") {
+      return null;
+    }
+
+    if (!signatureMatches(rawBody, signature, MOBILE_MONEY_CALLBACK_SECRET)) {
+      return null;
+    }
+
+    const providerReference = body?.transactionId || body?.reference;
+    if (!providerReference) {
+      return null;
+    }
+
+    return {
+      providerReference: String(providerReference),
+      status: toPaymentStatus(body?.status),
+      failureReason: body?.reason || body?.message || undefined,
+      amount: toPaidAmount(body?.amount),
+      paymentId: body?.reference ? String(body.reference) : undefined,
+    };
+  },
+};
+
+// Local stand-in that settles instantly: numbers ending in 000 are declined, everything else is paid.
+const sandboxProvider: PaymentProvider = {
+  name: "sandbox",
+
+  async requestPush(request) {
+    const declined = request.msisdn.endsWith("000");
+    return {
+      providerReference: `SANDBOX-${randomUUID()}`,
+      status: declined ? "failed" : "succeeded",
+      failureReason: declined ? "Sandbox: payment declined by customer" : undefined,
+    };
+  },
+
+  // Sandbox callbacks are unsigned, so production never trusts them.
+  parseCallback({ body }) {
+    if (process.env.NODE_ENV === "production" || !body?.providerReference) {
+      return null;
+    }
+
+    return {
+      providerReference: String(body.providerReference),
+      status: toPaymentStatus(body.status),
+      failureReason: body.reason || undefined,
+      amount: toPaidAmount(body.amount),
+    };
+  },
+};
+
+const isMobileMoneyConfigured = () => Boolean(MOBILE_MONEY_API_URL && MOBILE_MONEY_API_KEY);
+
+/**
+ * Provider for new payments. PAYMENT_PROVIDER picks one explicitly; otherwise the mobile money
+ * aggregator is used when configured. The sandbox pays without collecting money, so production
+ * never uses it, even when PAYMENT_PROVIDER asks for it.
+ */
+export function getPaymentProvider(): PaymentProvider | null {
+  if (PAYMENT_PROVIDER === "sandbox") {
+    return process.env.NODE_ENV !== "production" ? sandboxProvider : null;
+  }
+
+  if (PAYMENT_PROVIDER === "mobile_money" || isMobileMoneyConfigured()) {
+    return isMobileMoneyConfigured() ? mobileMoneyProvider : null;
+  }
+
+  return process.env.NODE_ENV !== "production" ? sandboxProvider : null;
+}
+
+export function getPaymentProviderByName(name: string): PaymentProvider | null {
+  const provider = getPaymentProvider();
+  return provider?.name === name ? provider : null;
+}
+
+export interface PaymentSettlement {
+  payment: Payment;
+  order: Order | undefined;
+  // True only for the settlement that moved the order to paid, so eCount sync is triggered once.
+  newlyPaid: boolean;
+}
+
+// Why a successful payment cannot pay its order: the amount paid (as the provider reports it, else as
+// pushed) differs from the order total, e.g. because the order was amended after the push.
+const getPaymentAmountMismatch = (order: Order, payment: Payment, outcome: PaymentProviderResult) => {
+  const paid = outcome.amount ?? Number.parseFloat(payment.amount);
+  const total = Number.parseFloat(order.total);
+  if (Math.abs(paid - total) < 0.01) {
+    return null;
+  }
+  return `Amount paid (TZS ${paid.toFixed(2)}) does not match the order total (TZS ${total.toFixed(2)})`;
+};
+
+/**
+ * Record a provider outcome on the payment and, on success, mark the order paid and release it
+ * to the eCount sync queue. Repeated callbacks for an already-settled payment are ignored. A
+ * payment whose amount does not match the order total still stands, but holds the order unpaid
+ * for an admin to review.
+ */
+export async function settlePayment(payment: Payment, outcome: PaymentProviderResult): Promise<PaymentSettlement> {
+  if (payment.status !== "pending" || outcome.status === "pending") {
+    return { payment, order: await storage.getOrderById(payment.orderId), newlyPaid: false };
+  }
+
+  const settledPayment = await storage.updatePayment(payment.id, {
+    status: outcome.status,
+    providerReference: outcome.providerReference,
+    failureReason: outcome.status === "succeeded" ? null : outcome.failureReason || "Payment was not completed",
+    paidAt: outcome.status === "succeeded" ? new Date() : null,
+  }) ?? payment;
+
+  const providerActor = { type: "payment_provider" as const, id: payment.provider };
+  await recordOrderEvent(
+    payment.orderId,
+    outcome.status === "succeeded" ? "payment_succeeded" : "payment_failed",
+    providerActor,
+    {
+      message: outcome.status === "succeeded"
+        ? `${getMobileMoneyNetworkLabel(payment.network)} reference ${outcome.providerReference}`
+        : settledPayment.failureReason,
+    },
+  );
+
+  const order = await storage.getOrderById(payment.orderId);
+  if (outcome.status !== "succeeded" || !order || !isOrderAwaitingPayment(order)) {
+    return { payment: settledPayment, order, newlyPaid: false };
+  }
+
+  const amountMismatch = getPaymentAmountMismatch(order, payment, outcome);
+  if (amountMismatch) {
+    console.error(`❌ Payment ${payment.id} (${outcome.providerReference}) for ${order.orderNumber} held: ${amountMismatch}`);
+    await recordOrderEvent(order.id, "admin_action", providerActor, {
+      message: `${amountMismatch}. The order stays unpaid until an admin reviews the payment.`,
+    });
+    return { payment: settledPayment, order, newlyPaid: false };
+  }
+
+  const transition = await transitionOrderStatus(order.id, ORDER_PAID_STATUS, providerActor);
+  if (!transition.transitioned) {
+    return { payment: settledPayment, order, newlyPaid: false };
+  }
+
+  const paidOrder = await storage.updateOrderErpInfo(order.id, {
+    erpSyncStatus: "pending",
+    erpSyncError: null,
+    erpNextSyncAttemptAt: null,
+  });
+  await enqueueOrderSyncJob(order.id);
+  console.log(`💰 Order ${order.orderNumber} paid via ${payment.provider} (${outcome.providerReference})`);
+
+  return { payment: settledPayment, order: paidOrder, newlyPaid: true };
+}
+
+export type StartOrderPaymentResult =
+  | { started: true; settlement: PaymentSettlement }
+  | { started: false; statusCode: number; message: string };
+
+/**
+ * Send a push payment prompt for an order awaiting payment. Providers that settle immediately
+ * (the sandbox) are settled here; real pushes settle when the provider calls back.
+ */
+export async function startOrderPayment(
+  order: Order,
+  request: OrderPaymentRequest,
+  actor: OrderEventActor = { type: "customer", id: order.userId },
+): Promise<StartOrderPaymentResult> {
+  if (!isOrderAwaitingPayment(order)) {
+    return { started: false, statusCode: 409, message: `Order ${order.orderNumber} is not awaiting payment` };
+  }
+
+  // An order held with a received payment (see settlePayment) must not charge the customer again.
+  const payments = await storage.getPaymentsByOrderId(order.id);
+  if (payments.some((payment) => payment.status === "succeeded")) {
+    return {
+      started: false,
+      statusCode: 409,
+      message: `A payment for order ${order.orderNumber} was already received and is being reviewed. Please contact Phomas Diagnostics.`,
+    };
+  }
+
+  const provider = getPaymentProvider();
+  if (!provider) {
+    return { started: false, statusCode: 503, message: "Online payments are not configured on the server" };
+  }
+
+  const msisdn = normalizeMobileMoneyPhone(request.phone);
+  if (!msisdn) {
+    return { started: false, statusCode: 400, message: "Enter a valid Tanzanian mobile money number, e.g. 0712 345 678" };
+  }
+
+  const network = request.network ?? inferMobileMoneyNetwork(msisdn);
+  if (!network) {
+    return { started: false, statusCode: 400, message: "Choose the mobile money network for this number" };
+  }
+
+  const amount = Number.parseFloat(order.total);
+  const payment = await storage.createPayment({
+    orderId: order.id,
+    provider: provider.name,
+    network,
+    phone: msisdn,
+    amount: amount.toFixed(2),
+    currency: "TZS",
+    status: "pending",
+  });
+  await recordOrderEvent(order.id, "payment_requested", actor, {
+    message: `${getMobileMoneyNetworkLabel(network)} push to ${msisdn}`,
+  });
+
+  let result: PaymentProviderResult;
+  try {
+    result = await provider.requestPush({
+      paymentId: payment.id,
+      orderNumber: order.orderNumber,
+      amount,
+      currency: payment.currency,
+      msisdn,
+      network,
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "Payment request failed";
+    console.error(`❌ Payment push failed for ${order.orderNumber}:`, error);
+    await storage.updatePayment(payment.id, { status: "failed", failureReason: reason });
+    await recordOrderEvent(order.id, "payment_failed", { type: "payment_provider", id: provider.name }, { message: reason });
+    return { started: false, statusCode: 502, message: `Could not start the mobile money payment: ${reason}` };
+  }
+
+  if (result.status === "pending") {
+    const pendingPayment = await storage.updatePayment(payment.id, { providerReference: result.providerReference }) ?? payment;
+    return { started: true, settlement: { payment: pendingPayment, order, newlyPaid: false } };
+  }
+
+  return { started: true, settlement: await settlePayment(payment, result) };
+}
+
+export type PaymentCallbackResult =
+  | { handled: true; settlement: PaymentSettlement }
+  | { handled: false; statusCode: number; message: string };
+
+export async function handlePaymentCallback(providerName: string, request: PaymentCallbackRequest): Promise<PaymentCallbackResult> {
+  const provider = getPaymentProviderByName(providerName);
+  if (!provider) {
+    return { handled: false, statusCode: 404, message: `Payment provider ${providerName} is not active` };
+  }
+
+  const outcome = provider.parseCallback(request);
+  if (!outcome) {
+    return { handled: false, statusCode: 401, message: "Invalid payment callback" };
+  }
+
+  const paymentById = outcome.paymentId ? await storage.getPaymentById(outcome.paymentId) : undefined;
+  const payment =
+    (await storage.getPaymentByProviderReference(provider.name, outcome.providerReference)) ??
+    (paymentById?.provider === provider.name ? paymentById : undefined);
+  if (!payment) {
+    return { handled: false, statusCode: 404, message: `Unknown payment reference ${outcome.providerReference}` };
+  }
+
+  return { handled: true, settlement: await settlePayment(payment, outcome) };
+}
@@ -0,0 +1,70 @@
+import type { PriceList, ProductWithInventory } from "../shared/schema.js";
+import { storage } from "./storage.js";
+
+const CUSTOMER_PRICE_LIST_CACHE_TTL_MS = 60 * 1000;
+
+export interface CustomerPriceList {
+  id: string;
+  name: string;
+  // Contract unit price (before VAT) by product code
+  prices: Map<string, number>;
+}
+
+const cachedPriceLists = new Map<string, { priceList: CustomerPriceList | null; loadedAt: number }>();
+
+export function invalidateCustomerPriceListCache(): void {
+  cachedPriceLists.clear();
+}
+
+const toCustomerPriceList = (priceList: PriceList | undefined): CustomerPriceList | null =>
+  priceList?.active
+    ? {
+        id: priceList.id,
+        name: priceList.name,
+        prices: new Map(priceList.items.map((item) => [item.productId, item.price])),
+      }
+    : null;
+
+/**
+ * The price list that applies to a customer: their own list first, then their customer group's.
+ * Inactive lists are ignored, so deactivating a tender returns its customers to catalogue prices.
+ */
+export async function resolveCustomerPriceList(userId?: string | null): Promise<CustomerPriceList | null> {
+  if (!userId || userId === "guest-user") {
+    return null;
+  }
+
+  const cached = cachedPriceLists.get(userId);
+  if (cached && Date.now() - cached.loadedAt < CUSTOMER_PRICE_LIST_CACHE_TTL_MS) {
+    return cached.priceList;
+  }
+
+  const pricing = await storage.getCustomerPricing(userId);
+  let priceList: CustomerPriceList | null = null;
+  if (pricing?.priceListId) {
+    priceList = toCustomerPriceList(await storage.getPriceListById(pricing.priceListId));
+  }
+  if (!priceList && pricing?.customerGroup) {
+    priceList = toCustomerPriceList(await storage.getPriceListByCustomerGroup(pricing.customerGroup));
+  }
+
+  cachedPriceLists.set(userId, { priceList, loadedAt: Date.now() });
+  return priceList;
+}
+
+// Catalogue products as a customer sees them; the catalogue price is kept as listPrice.
+export function applyCustomerPriceList(
+  products: ProductWithInventory[],
+  priceList: CustomerPriceList | null,
+): ProductWithInventory[] {
+  if (!priceList) {
+    return products;
+  }
+
+  return products.map((product) => {
+    const contractPrice = priceList.prices.get(product.id);
+    return contractPrice === undefined
+      ? product
+      : { ...product, price: contractPrice.toFixed(2), listPrice: product.price, priceListName: priceList.name };
+  });
+}
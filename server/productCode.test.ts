@@ -0,0 +1,49 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { getProductCodeLookupCandidates, normalizeProductCode } from "./productCode.js";
+
+describe("normalizeProductCode", () => {
+  test("uppercases and strips everything but letters and digits", () => {
+    assert.equal(normalizeProductCode(" ab-12 c/d "), "AB12CD");
+  });
+
+  test("drops leading zeros before a digit", () => {
+    assert.equal(normalizeProductCode("000123"), "123");
+    assert.equal(normalizeProductCode("0-0-45A"), "45A");
+  });
+
+  test("keeps a lone zero and a zero before letters", () => {
+    assert.equal(normalizeProductCode("0"), "0");
+    assert.equal(normalizeProductCode("0AB"), "0AB");
+  });
+
+  test("returns an empty string for missing codes", () => {
+    assert.equal(normalizeProductCode(undefined), "");
+    assert.equal(normalizeProductCode(null), "");
+    assert.equal(normalizeProductCode(""), "");
+  });
+});
+
+describe("getProductCodeLookupCandidates", () => {
+  test("lists the raw code first, then progressively normalized variants", () => {
+    assert.deepEqual(getProductCodeLookupCandidates("pc-00 12 a"), [
+      "pc-00 12 a",
+      "PC-00 12 A",
+      "PC-0012A",
+      "PC0012A",
+    ]);
+  });
+
+  test("includes the normalized code when leading zeros are dropped", () => {
+    assert.deepEqual(getProductCodeLookupCandidates("0012-3"), ["0012-3", "00123", "123"]);
+  });
+
+  test("does not repeat identical variants", () => {
+    assert.deepEqual(getProductCodeLookupCandidates("91100B"), ["91100B"]);
+  });
+
+  test("returns nothing for blank codes", () => {
+    assert.deepEqual(getProductCodeLookupCandidates("   "), []);
+    assert.deepEqual(getProductCodeLookupCandidates(null), []);
+  });
+});
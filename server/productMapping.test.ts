@@ -0,0 +1,60 @@
+import "./testEnvironment.js";
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { ProductMapping } from "./productMapping.js";
+
+const MAPPING_CSV = [
+  "Item Code,Item Name,UOM,Price,Weight (kg),VAT",
+  "10422,Paracetamol 500mg,PCK,32000,1.2,exempt",
+  "91100,Surgical Gloves,BOX,18000,,",
+  "SYR,Disposable Syringe,BOX,15500,,",
+  "GL-3310,Glucose Strips,BOX,9000,,",
+  "AB5555,Bandage A,ROLL,1000,,",
+  "CD5555,Bandage C,ROLL,1200,,",
+].join("\n");
+
+describe("ProductMapping.getProduct", () => {
+  before(async () => {
+    await ProductMapping.replaceUploadedExcel({ buffer: Buffer.from(MAPPING_CSV), originalName: "mapping.csv" });
+  });
+
+  after(() => {
+    ProductMapping.resetMapping();
+  });
+
+  test("matches codes directly after normalization", () => {
+    const product = ProductMapping.getProduct("0010422");
+    assert.equal(product?.matchRule, "direct");
+    assert.equal(product?.name, "Paracetamol 500mg");
+    assert.equal(product?.price, 32000);
+    assert.equal(product?.weightKg, 1.2);
+    assert.equal(ProductMapping.getProduct(" gl-3310 ")?.matchRule, "direct");
+  });
+
+  test("drops a trailing letter suffix", () => {
+    const product = ProductMapping.getProduct("91100B");
+    assert.equal(product?.matchRule, "no-letter-suffix");
+    assert.equal(product?.name, "Surgical Gloves");
+  });
+
+  test("drops a trailing pack size", () => {
+    const product = ProductMapping.getProduct("SYR-5ML");
+    assert.equal(product?.matchRule, "no-pack-suffix");
+    assert.equal(product?.name, "Disposable Syringe");
+  });
+
+  test("falls back to the digits when they identify a single product", () => {
+    const product = ProductMapping.getProduct("3310X");
+    assert.equal(product?.matchRule, "digits-only");
+    assert.equal(product?.name, "Glucose Strips");
+  });
+
+  test("does not guess between products that share the same digits", () => {
+    assert.equal(ProductMapping.getProduct("5555Z"), null);
+  });
+
+  test("returns null for unknown codes", () => {
+    assert.equal(ProductMapping.getProduct("UNKNOWN-1"), null);
+    assert.equal(ProductMapping.getProduct(""), null);
+  });
+});
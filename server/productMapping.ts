@@ -7,6 +7,7 @@ import { basename, extname, isAbsolute, join, resolve } from 'path';
 import { productMappings } from '../shared/schema.js';
 import { storage } from './storage.js';
 import { normalizeProductCode as normalizeCode } from './productCode.js';
+import { normalizeVatClass, type VatClass } from '../shared/orderTax.js';
 
 interface ProductMappingEntry {
   name: string;
@@ -15,6 +16,8 @@ interface ProductMappingEntry {
   category: string;
   originalCode: string;
   imageUrl: string | null;
+  weightKg: number | null;
+  vatClass: VatClass | null;
 }
 
 interface ParsedProductMappingEntry extends ProductMappingEntry {
@@ -27,6 +30,8 @@ interface MappingColumnMap {
   uom: number;
   price: number;
   image: number | null;
+  weight: number | null;
+  vat: number | null;
 }
 
 interface MappingConfig {
@@ -88,7 +93,9 @@ export class ProductMapping {
           name: mapping.name,
           price: mapping.price.toString(),
           packaging: mapping.uom,
-          category: mapping.category
+          category: mapping.category,
+          weightKg: mapping.weightKg,
+          vatClass: normalizeVatClass(mapping.vatClass)
         };
       }
 
@@ -262,6 +269,8 @@ export class ProductMapping {
     category: string;
     originalCode: string;
     imageUrl: string | null;
+    weightKg: number | null;
+    vatClass: VatClass | null;
     matchRule?: string;
   } | null {
     const normalizedCode = this.normalizeProductCode(code);
@@ -315,6 +324,8 @@ export class ProductMapping {
     category: string;
     originalCode: string;
     imageUrl: string | null;
+    weightKg: number | null;
+    vatClass: VatClass | null;
   }> {
     const products: Array<{
       code: string;
@@ -324,6 +335,8 @@ export class ProductMapping {
       category: string;
       originalCode: string;
       imageUrl: string | null;
+      weightKg: number | null;
+      vatClass: VatClass | null;
     }> = [];
 
     this.productMap.forEach((value, key) => {
@@ -384,7 +397,9 @@ export class ProductMapping {
         uom: entry.uom,
         category: entry.category,
         originalCode: entry.originalCode,
-        imageUrl: entry.imageUrl
+        imageUrl: entry.imageUrl,
+        weightKg: entry.weightKg,
+        vatClass: entry.vatClass
       });
     }
 
@@ -474,6 +489,16 @@ export class ProductMapping {
               cell.includes('link')
             );
             return idx === -1 ? null : idx;
+          })(),
+          weight: (() => {
+            const idx = rowText.findIndex(cell => cell.includes('weight') || cell === 'kg');
+            return idx === -1 ? null : idx;
+          })(),
+          vat: (() => {
+            const idx = rowText.findIndex(cell =>
+              (cell.includes('vat') || cell.includes('tax')) && !cell.includes('price') && !cell.includes('amount')
+            );
+            return idx === -1 ? null : idx;
           })()
         };
         break;
@@ -497,6 +522,11 @@ export class ProductMapping {
       const imageUrl = columnMap.image !== null
         ? this.parseImageUrl(row[columnMap.image])
         : null;
+      const weightKg = columnMap.weight !== null
+        ? this.parseWeight(row[columnMap.weight])
+        : null;
+      const rawVatClass = columnMap.vat !== null ? row[columnMap.vat]?.toString()?.trim() : '';
+      const vatClass = rawVatClass ? normalizeVatClass(rawVatClass) : null;
 
       if (code && name && code.length > 0 && name.length > 0) {
         parsedEntries.push({
@@ -506,7 +536,9 @@ export class ProductMapping {
           uom: uom || 'Standard',
           category: this.getCategoryFromName(name),
           originalCode: code,
-          imageUrl
+          imageUrl,
+          weightKg,
+          vatClass
         });
         processed++;
       }
@@ -555,11 +587,19 @@ export class ProductMapping {
           price numeric(14, 2) NOT NULL,
           uom text NOT NULL,
           category text,
+          weight_kg numeric(10, 3),
+          vat_class text,
           created_at timestamp DEFAULT now(),
           updated_at timestamp DEFAULT now()
         )
       `);
 
+      await db.execute(sql`
+        ALTER TABLE product_mappings
+        ADD COLUMN IF NOT EXISTS weight_kg numeric(10, 3),
+        ADD COLUMN IF NOT EXISTS vat_class text
+      `);
+
       await db.execute(sql`
         ALTER TABLE product_mappings
         ALTER COLUMN price TYPE numeric(14, 2)
@@ -598,6 +638,8 @@ export class ProductMapping {
               price: entry.price.toFixed(2),
               uom: entry.uom,
               category: entry.category,
+              weightKg: entry.weightKg === null ? null : entry.weightKg.toFixed(3),
+              vatClass: entry.vatClass,
               createdAt: now,
               updatedAt: now
             }))
@@ -638,7 +680,9 @@ export class ProductMapping {
         price: this.parsePrice(row.price),
         uom: row.uom,
         category: row.category || this.getCategoryFromName(row.name),
-        imageUrl: null
+        imageUrl: null,
+        weightKg: this.parseWeight(row.weightKg),
+        vatClass: row.vatClass ? normalizeVatClass(row.vatClass) : null
       }));
 
       const latestUpdatedAt = rows[0]?.updatedAt instanceof Date
@@ -659,6 +703,16 @@ export class ProductMapping {
     }
   }
 
+  // Weight is optional in the Excel file; blanks and non-positive values mean "unknown".
+  private static parseWeight(value: unknown): number | null {
+    if (value === null || value === undefined || value === '') {
+      return null;
+    }
+
+    const parsed = typeof value === 'number' ? value : parseFloat(value.toString().replace(/,/g, '').replace(/kg$/i, '').trim());
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+  }
+
   private static parsePrice(value: unknown): number {
     if (typeof value === 'number' && Number.isFinite(value)) {
       return value;
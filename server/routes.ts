@@ -1,28 +1,89 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage.js";
+import { isOrderIdempotencyKeyConflict, storage } from "./storage.js";
 import { ecountApi } from "./ecountApi.js";
 import { ProductMapping } from "./productMapping.js";
+import { escapeHtml, sendEmail } from "./email.js";
 import {
   adminPasswordChangeSchema,
   adminSessions as adminSessionsTable,
-  deliveryAreaSchema,
-  icePackSizeSchema,
-  insertOrderSchema,
+  backInStockRunSchema,
+  cartItemSchema,
+  cartItemsSchema,
+  customerEcountAccountSchema,
+  customerPricingSchema,
+  discountQuoteRequestSchema,
+  erpReconciliationRequestSchema,
+  insertDeliveryZoneSchema,
+  insertDiscountRuleSchema,
+  insertPriceListSchema,
+  insertOrderTemplateSchema,
+  insertStandingOrderSchema,
   insertUserSchema,
   loginSchema,
-  orderItemsSchema,
+  orderAmendmentSchema,
+  orderCancellationSchema,
+  orderIdempotencyKeySchema,
+  orderPaymentRequestSchema,
+  stockSubscriptionRequestSchema,
+  stockThresholdSchema,
+  backorderProductSchema,
   supabaseSignUpSchema,
+  updateDeliveryZoneSchema,
+  updateOrderTemplateSchema,
+  updatePriceListSchema,
+  type DiscountRule,
+  type InsertDiscountRule,
   type Order,
+  type PriceList,
+  type UpdatePriceList,
+  type StandingOrder,
+  type SyncJob,
+  type StockLotWithAvailability,
 } from "../shared/schema.js";
+import { getIcePackSizeLabel } from "../shared/orderPricing.js";
+import { getOrderLines, hasOrderLinePriceDrift } from "../shared/orderLines.js";
+import { releaseOrderStock } from "./stockReservations.js";
+import { applyStockLotExpiry, importStockLots } from "./stockLots.js";
+import { applyStockThresholds, invalidateStockThresholdCache, normalizeStockThreshold, runStockAlertCheck } from "./stockAlerts.js";
+import { notifyBackInStockSubscribers } from "./stockSubscriptions.js";
+import { buildInventoryReport } from "./inventorySnapshots.js";
+import { normalizeProductCode } from "./productCode.js";
 import {
-  calculateOrderTotal,
-  getIcePackCost,
-  getIcePackSizeLabel,
-  getTransportCost,
-  inferDeliveryAreaFromAddress,
-  sumOrderItemsSubtotal,
-} from "../shared/orderPricing.js";
+  activateBackorderedOrder,
+  applyBackorderSettings,
+  invalidateBackorderProductCache,
+  releaseBackorders,
+  toBackorderProduct,
+} from "./backorders.js";
+import { invalidateDeliveryZonesCache, loadDeliveryZoneTariffs } from "./deliveryZones.js";
+import { placeOrder } from "./orderPlacement.js";
+import { applyCustomerPriceList, invalidateCustomerPriceListCache, resolveCustomerPriceList } from "./priceLists.js";
+import { applyOrderDiscounts, invalidateDiscountRulesCache } from "./discounts.js";
+import { ensureEcountCustomerOnApproval, linkEcountCustomer } from "./ecountCustomers.js";
+import { getRetryDelayMs } from "./orderSyncRetry.js";
+import { enqueueOrderSyncJob, leaseOrderSyncJobs } from "./syncJobs.js";
+import { ECOUNT_ORDER_SYNC_JOB, isSyncJobStatus, LIVE_SYNC_JOB_STATUSES, type SyncJobStatus } from "../shared/syncJobs.js";
+import { getDefaultErpReconciliationPeriod, runErpReconciliation } from "./erpReconciliation.js";
+import { repriceOrderItems } from "./orderRepricing.js";
+import { toDiscountRuleInput, type DiscountQuote } from "../shared/discounts.js";
+import { getLotAvailableQuantity } from "../shared/stockLots.js";
+import { getOrderDocumentFilename, renderOrderDocumentPdf, type OrderDocumentKind } from "./orderDocuments.js";
+import { handlePaymentCallback, startOrderPayment, type PaymentSettlement } from "./payments.js";
+import { isOrderAwaitingPayment, normalizeMobileMoneyPhone } from "../shared/payments.js";
+import { formatExpectedArrival, isOrderBackordered, type BackorderReleaseSummary } from "../shared/backorders.js";
+import { STANDING_ORDER_ACTION_VALUES, type StandingOrderAction } from "../shared/standingOrders.js";
+import { applyStandingOrderAction, runDueStandingOrders } from "./standingOrders.js";
+import { getRequestActor, recordOrderEvent, SYSTEM_ACTOR, transitionOrderStatus } from "./orderLifecycle.js";
+import { CUSTOMER_VISIBLE_ORDER_EVENT_TYPES, normalizeOrderStatus, ORDER_STATUS_VALUES } from "../shared/orderLifecycle.js";
+import {
+  amendOrderForCustomer,
+  approveOrderCancellation,
+  cancelOrderForCustomer,
+  rejectOrderCancellation,
+  releaseCancelledOrder,
+  requestOrderCancellation,
+} from "./orderAmendments.js";
 import { eq, lt } from "drizzle-orm";
 import { v2 as cloudinary } from 'cloudinary';
 import multer from 'multer';
@@ -46,20 +107,16 @@ const resolvedSupabaseServiceKey =
   process.env.SUPABASE_SERVICE_ROLE ||
   process.env.SUPABASE_SECRET_KEY;
 const ORDER_NOTIFICATION_EMAIL = process.env.ORDER_NOTIFICATION_EMAIL || "orders@phomasdiagnosticstz.com";
-const ORDER_NOTIFICATION_FROM = process.env.ORDER_NOTIFICATION_FROM || "Phomas Diagnostics <onboarding@resend.dev>";
 const ORDER_SYNC_TIMEOUT_MS = Number.parseInt(process.env.ORDER_SYNC_TIMEOUT_MS || "12000", 10);
 const ORDER_SYNC_BATCH_SIZE = Number.parseInt(process.env.ORDER_SYNC_BATCH_SIZE || "1", 10);
 const ORDER_SYNC_RETRY_BASE_DELAY_MS = Number.parseInt(process.env.ORDER_SYNC_RETRY_BASE_DELAY_MS || `${5 * 60 * 1000}`, 10);
 const ORDER_SYNC_RETRY_MAX_DELAY_MS = Number.parseInt(process.env.ORDER_SYNC_RETRY_MAX_DELAY_MS || `${60 * 60 * 1000}`, 10);
 const ORDER_SYNC_RETRY_SPACING_MS = Number.parseInt(process.env.ORDER_SYNC_RETRY_SPACING_MS || "22000", 10);
-const ORDER_SYNC_MAX_ATTEMPTS = Number.parseInt(process.env.ORDER_SYNC_MAX_ATTEMPTS || "0", 10);
 const ORDER_SYNC_CRON_SECRET = process.env.ORDER_SYNC_CRON_SECRET || process.env.CRON_SECRET;
 const ORDER_SYNC_RUNNER = (process.env.ECOUNT_ORDER_SYNC_MODE || process.env.ORDER_SYNC_MODE || "").trim().toLowerCase();
 const ORDER_SYNC_WORKER_URL = (process.env.ECOUNT_ORDER_SYNC_WORKER_URL || process.env.ORDER_SYNC_WORKER_URL || "").trim();
 const ORDER_SYNC_WORKER_SECRET = process.env.ECOUNT_ORDER_SYNC_WORKER_SECRET || process.env.ORDER_SYNC_WORKER_SECRET;
 const ORDER_SYNC_WORKER_TIMEOUT_MS = Number.parseInt(process.env.ECOUNT_ORDER_SYNC_WORKER_TIMEOUT_MS || "50000", 10);
-const RESEND_API_KEY = process.env.RESEND_API_KEY;
-const ORDER_STATUS_VALUES = ["processing", "shipped", "delivered", "completed", "cancelled"] as const;
 const appIsDevelopment = () => process.env.NODE_ENV !== 'production';
 const envFlagEnabled = (value?: string) => ["1", "true", "yes", "on"].includes((value || "").trim().toLowerCase());
 const isExternalOrderSyncEnabled = () => {
@@ -622,6 +679,65 @@ const enforceReadRateLimit = (req: Request, res: Response, next: NextFunction) =
   next();
 };
 
+// Answer a repeated checkout submission with the order it already created. The price adjustments
+// are rebuilt from the quoted prices kept on its lines, and a failed payment push from its payment.
+const sendReplayedOrder = async (res: Response, order: Order) => {
+  const [payment] = await storage.getPaymentsByOrderId(order.id);
+  const mismatches = getOrderLines(order)
+    .filter(hasOrderLinePriceDrift)
+    .map((line) => ({
+      productId: line.productCode,
+      name: line.productName,
+      quotedPrice: Number.parseFloat(line.quotedUnitPrice!),
+      price: Number.parseFloat(line.unitPrice),
+    }));
+  console.log(`♻️ Replaying order ${order.orderNumber} for a repeated checkout submission`);
+  res.status(200).json({
+    success: true,
+    localOrderSaved: true,
+    replayed: true,
+    order,
+    message: `Order ${order.orderNumber} was already placed.`,
+    pricing: {
+      adjusted: order.priceMismatch,
+      mismatches,
+    },
+    payment: payment || null,
+    paymentError: payment?.status === 'failed' ? payment.failureReason : null,
+    erp: {
+      syncStatus: order.erpSyncStatus || 'pending'
+    }
+  });
+};
+
+// Checkout sends an Idempotency-Key per attempt. A key that already has an order is answered with that
+// order before the save rate limit, so double taps and timed-out retries never place a second order.
+const replayIdempotentOrder = async (req: Request, res: Response, next: NextFunction) => {
+  const rawKey = req.get('Idempotency-Key');
+  if (!rawKey) {
+    return next();
+  }
+
+  const parsedKey = orderIdempotencyKeySchema.safeParse(rawKey);
+  if (!parsedKey.success) {
+    return res.status(400).json({ message: "Invalid Idempotency-Key header", error: parsedKey.error.errors });
+  }
+
+  try {
+    const existingOrder = await storage.getOrderByIdempotencyKey((req as any).userId, parsedKey.data);
+    if (existingOrder) {
+      return sendReplayedOrder(res, existingOrder);
+    }
+  } catch (error) {
+    // Placing the order anyway could duplicate one saved by an earlier submission.
+    console.error('❌ Idempotency key lookup failed:', error);
+    return res.status(503).json({ message: "Could not check whether this order was already placed. Please try again in a moment." });
+  }
+
+  (req as any).idempotencyKey = parsedKey.data;
+  next();
+};
+
 // Rate limiter for eCount save operations (10 seconds)
 const enforceSaveRateLimit = (req: Request, res: Response, next: NextFunction) => {
   const userId = (req as any).userId;
@@ -644,52 +760,19 @@ const enforceSaveRateLimit = (req: Request, res: Response, next: NextFunction) =
   next();
 };
 
-const normalizeOrderStatus = (status: unknown) => {
-  if (typeof status !== "string") {
-    return null;
-  }
-
-  const normalizedStatus = status.trim().toLowerCase();
-  if (normalizedStatus === "complete") {
-    return "completed";
-  }
-
-  return (ORDER_STATUS_VALUES as readonly string[]).includes(normalizedStatus)
-    ? normalizedStatus
-    : null;
-};
-
 const formatCurrency = (value?: string | number | null) =>
   `TZS ${Math.round(Number.parseFloat(String(value ?? 0))).toLocaleString()}`;
 
-const parseOrderItemsForNotification = (items: string) => {
-  try {
-    const parsed = JSON.parse(items);
-    return Array.isArray(parsed) ? parsed : [];
-  } catch {
-    return [];
-  }
-};
-
-const escapeHtml = (value: unknown) =>
-  String(value ?? "")
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#39;");
-
 const buildOrderNotificationHtml = (order: any) => {
-  const items = parseOrderItemsForNotification(order.items);
-  const itemRows = items
-    .map((item: any) => {
-      const lineTotal = Number.parseFloat(item.price || "0") * Number(item.quantity || 0);
+  const lines = getOrderLines(order);
+  const itemRows = lines
+    .map((line) => {
       return `
         <tr>
-          <td style="padding:8px;border-bottom:1px solid #e5e7eb;">${escapeHtml(item.name || item.productId || "Item")}</td>
-          <td style="padding:8px;border-bottom:1px solid #e5e7eb;">${escapeHtml(item.referenceNumber || "")}</td>
-          <td style="padding:8px;border-bottom:1px solid #e5e7eb;text-align:right;">${item.quantity || 0}</td>
-          <td style="padding:8px;border-bottom:1px solid #e5e7eb;text-align:right;">${formatCurrency(lineTotal)}</td>
+          <td style="padding:8px;border-bottom:1px solid #e5e7eb;">${escapeHtml(line.productName || line.productCode || "Item")}</td>
+          <td style="padding:8px;border-bottom:1px solid #e5e7eb;">${escapeHtml(line.referenceNumber || "")}</td>
+          <td style="padding:8px;border-bottom:1px solid #e5e7eb;text-align:right;">${line.quantity || 0}</td>
+          <td style="padding:8px;border-bottom:1px solid #e5e7eb;text-align:right;">${formatCurrency(line.lineTotal)}</td>
         </tr>
       `;
     })
@@ -705,7 +788,9 @@ const buildOrderNotificationHtml = (order: any) => {
         <tr><td style="padding:6px 0;color:#6b7280;">Email</td><td style="padding:6px 0;">${escapeHtml(order.customerEmail || "N/A")}</td></tr>
         <tr><td style="padding:6px 0;color:#6b7280;">Phone</td><td style="padding:6px 0;">${escapeHtml(order.customerPhone || "N/A")}</td></tr>
         <tr><td style="padding:6px 0;color:#6b7280;">Fulfillment</td><td style="padding:6px 0;">${escapeHtml(order.deliveryOption || "pickup")}</td></tr>
+        ${isOrderBackordered(order) ? `<tr><td style="padding:6px 0;color:#6b7280;">Backorder</td><td style="padding:6px 0;font-weight:600;">Held until stock arrives, expected ${escapeHtml(formatExpectedArrival(order.expectedArrivalAt))}</td></tr>` : ""}
         <tr><td style="padding:6px 0;color:#6b7280;">Ice pack</td><td style="padding:6px 0;">${order.icePackRequired ? `${escapeHtml(getIcePackSizeLabel(order.icePackSize))} x ${order.icePackQuantity || 1}` : "Not requested"}</td></tr>
+        <tr><td style="padding:6px 0;color:#6b7280;">VAT</td><td style="padding:6px 0;">${formatCurrency(order.tax)}</td></tr>
         <tr><td style="padding:6px 0;color:#6b7280;">Total</td><td style="padding:6px 0;font-weight:700;">${formatCurrency(order.total)}</td></tr>
       </table>
       <table style="border-collapse:collapse;width:100%;max-width:680px;">
@@ -724,30 +809,16 @@ const buildOrderNotificationHtml = (order: any) => {
 };
 
 const sendOrderNotification = async (order: any) => {
-  if (!RESEND_API_KEY) {
+  const sent = await sendEmail({
+    to: [ORDER_NOTIFICATION_EMAIL],
+    subject: `New Phomas order ${order.orderNumber}`,
+    html: buildOrderNotificationHtml(order),
+  });
+  if (!sent) {
     console.log(`📧 Order notification skipped for ${order.orderNumber}: RESEND_API_KEY not configured`);
     return;
   }
 
-  const response = await fetch("https://api.resend.com/emails", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${RESEND_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      from: ORDER_NOTIFICATION_FROM,
-      to: [ORDER_NOTIFICATION_EMAIL],
-      subject: `New Phomas order ${order.orderNumber}`,
-      html: buildOrderNotificationHtml(order),
-    }),
-  });
-
-  if (!response.ok) {
-    const errorBody = await response.text().catch(() => response.statusText);
-    throw new Error(`Resend notification failed (${response.status}): ${errorBody}`);
-  }
-
   console.log(`📧 Order notification sent to ${ORDER_NOTIFICATION_EMAIL} for ${order.orderNumber}`);
 };
 
@@ -779,30 +850,16 @@ const buildPendingApprovalNotificationHtml = (registration: any) => {
 };
 
 const sendPendingApprovalNotification = async (registration: any) => {
-  if (!RESEND_API_KEY) {
+  const sent = await sendEmail({
+    to: [ORDER_NOTIFICATION_EMAIL],
+    subject: `New Phomas account pending approval: ${registration.name || registration.email || "New user"}`,
+    html: buildPendingApprovalNotificationHtml(registration),
+  });
+  if (!sent) {
     console.log(`📧 Pending approval notification skipped for ${registration.email}: RESEND_API_KEY not configured`);
     return;
   }
 
-  const response = await fetch("https://api.resend.com/emails", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${RESEND_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      from: ORDER_NOTIFICATION_FROM,
-      to: [ORDER_NOTIFICATION_EMAIL],
-      subject: `New Phomas account pending approval: ${registration.name || registration.email || "New user"}`,
-      html: buildPendingApprovalNotificationHtml(registration),
-    }),
-  });
-
-  if (!response.ok) {
-    const errorBody = await response.text().catch(() => response.statusText);
-    throw new Error(`Resend pending approval notification failed (${response.status}): ${errorBody}`);
-  }
-
   console.log(`📧 Pending approval notification sent to ${ORDER_NOTIFICATION_EMAIL} for ${registration.email}`);
 };
 
@@ -866,13 +923,6 @@ const buildOrderEcountUserProfile = (order: any) => ({
 const sanitizePositiveInt = (value: number, fallback: number) =>
   Number.isFinite(value) && value > 0 ? value : fallback;
 
-const getRetryDelayMs = (attempts: number) => {
-  const safeAttempts = Math.max(0, attempts - 1);
-  const baseDelay = sanitizePositiveInt(ORDER_SYNC_RETRY_BASE_DELAY_MS, 5 * 60 * 1000);
-  const maxDelay = sanitizePositiveInt(ORDER_SYNC_RETRY_MAX_DELAY_MS, 60 * 60 * 1000);
-  return Math.min(maxDelay, baseDelay * (2 ** safeAttempts));
-};
-
 const getOrderSyncBatchSize = (requestedLimit?: unknown) => {
   const parsedLimit = Number.parseInt(String(requestedLimit ?? ""), 10);
   const configuredLimit = sanitizePositiveInt(ORDER_SYNC_BATCH_SIZE, 2);
@@ -1022,7 +1072,35 @@ const triggerExternalOrderSyncWorker = async (
 };
 
 const syncOrderToEcount = async (order: Order) => {
-  const attemptNumber = (order.erpSyncAttempts || 0) + 1;
+  // Customers can cancel until the order reaches eCount; never send one that was cancelled meanwhile.
+  // Unpaid online orders wait for their payment, and backordered orders for their stock.
+  const currentOrder = await storage.getOrderById(order.id);
+  if (currentOrder && (currentOrder.status === 'cancelled' || isOrderAwaitingPayment(currentOrder) || isOrderBackordered(currentOrder))) {
+    console.log(`⏭️ Skipping eCount sync for ${currentOrder.status} order ${order.orderNumber}`);
+    return {
+      updatedOrder: currentOrder,
+      erp: {
+        docNumber: currentOrder.erpDocNumber ?? undefined,
+        ioDate: currentOrder.erpIoDate ?? undefined,
+        syncStatus: currentOrder.erpSyncStatus || 'cancelled'
+      }
+    };
+  }
+
+  // A requeued job can outlive the order's sync; never create a second sale order.
+  if (currentOrder?.erpSyncStatus === 'synced') {
+    console.log(`⏭️ Skipping eCount sync for ${order.orderNumber}, already synced as ${currentOrder.erpDocNumber}`);
+    return {
+      updatedOrder: currentOrder,
+      erp: {
+        docNumber: currentOrder.erpDocNumber ?? undefined,
+        ioDate: currentOrder.erpIoDate ?? undefined,
+        syncStatus: 'synced'
+      }
+    };
+  }
+
+  const attemptNumber = ((currentOrder ?? order).erpSyncAttempts || 0) + 1;
   const attemptStartedAt = new Date();
 
   await storage.updateOrderErpInfo(order.id, {
@@ -1032,7 +1110,8 @@ const syncOrderToEcount = async (order: Order) => {
     erpNextSyncAttemptAt: null
   });
 
-  const erpResult = await ecountApi.submitSaleOrder(order, buildOrderEcountUserProfile(order));
+  const orderWithLines = await storage.getOrderWithLines(order.id);
+  const erpResult = await ecountApi.submitSaleOrder(orderWithLines || order, buildOrderEcountUserProfile(order));
 
   const updatedOrder = await storage.updateOrderErpInfo(order.id, {
     erpDocNumber: erpResult.docNo,
@@ -1043,6 +1122,11 @@ const syncOrderToEcount = async (order: Order) => {
     erpLastSyncAttemptAt: attemptStartedAt,
     erpNextSyncAttemptAt: null
   });
+  await storage.updateOrderLinesErpStatus(order.id, 'synced');
+  await releaseOrderStock(order.id, 'synced');
+  await recordOrderEvent(order.id, 'erp_sync_succeeded', SYSTEM_ACTOR, {
+    message: `eCount document ${erpResult.docNo} (attempt ${attemptNumber})`,
+  });
 
   console.log(`✅ Order ${order.orderNumber} successfully synced to eCount ERP`);
   console.log(`📄 ERP Doc: ${erpResult.docNo}, Date: ${erpResult.ioDate}`);
@@ -1058,12 +1142,15 @@ const syncOrderToEcount = async (order: Order) => {
 };
 
 const queueOrderForExternalEcountSync = async (order: Order) => {
+  await enqueueOrderSyncJob(order.id);
   const updatedOrder = await storage.updateOrderErpInfo(order.id, {
     erpSyncStatus: 'pending',
     erpSyncError: null,
     erpNextSyncAttemptAt: null
   });
 
+  await recordOrderEvent(order.id, 'erp_sync_queued', SYSTEM_ACTOR, { message: "Queued for static-IP VPS eCount sync" });
+
   console.log(`📮 Order ${order.orderNumber} queued for static-IP VPS eCount sync`);
 
   return {
@@ -1154,38 +1241,109 @@ const queueAndStartExternalEcountSync = async (order: Order, source: string) =>
   };
 };
 
-const markOrderEcountSyncFailed = async (orderId: string, error: unknown) => {
+const markOrderEcountSyncFailed = async (orderId: string, error: unknown, job: SyncJob) => {
   const currentOrder = await storage.getOrderById(orderId);
   const attempts = currentOrder?.erpSyncAttempts || 0;
-  const nextSyncAttemptAt = new Date(Date.now() + getRetryDelayMs(attempts));
+  const nextSyncAttemptAt = new Date(Date.now() + getRetryDelayMs(attempts, {
+    baseDelayMs: ORDER_SYNC_RETRY_BASE_DELAY_MS,
+    maxDelayMs: ORDER_SYNC_RETRY_MAX_DELAY_MS,
+  }));
+
+  const errorMessage = error instanceof Error ? error.message : 'Unknown ERP error';
+  const failedJob = await storage.failSyncJob(job.id, job.leaseOwner!, errorMessage, nextSyncAttemptAt);
+  const deadLettered = failedJob?.status === 'dead';
 
   await storage.updateOrderErpInfo(orderId, {
     erpSyncStatus: 'failed',
-    erpSyncError: error instanceof Error ? error.message : 'Unknown ERP error',
-    erpNextSyncAttemptAt: nextSyncAttemptAt
+    erpSyncError: errorMessage,
+    erpNextSyncAttemptAt: deadLettered ? null : nextSyncAttemptAt
+  });
+  await storage.updateOrderLinesErpStatus(orderId, 'failed');
+  await recordOrderEvent(orderId, 'erp_sync_failed', SYSTEM_ACTOR, {
+    message: deadLettered
+      ? `Attempt ${attempts}: ${errorMessage}. Gave up after ${failedJob.attempts} job attempts; requeue it from Sync Jobs`
+      : `Attempt ${attempts}: ${errorMessage}`,
   });
 };
 
-const getNextOrderForExternalEcountQueue = async () => {
-  const dueOrders = await storage.getOrdersNeedingErpSync(1);
-  if (dueOrders[0]) {
-    return dueOrders[0];
+// Sync an order whose job this process has leased, then settle the job either way.
+const syncLeasedOrderToEcount = async (job: SyncJob, order: Order) => {
+  try {
+    const syncResult = await syncOrderToEcount(order);
+    await storage.completeSyncJob(job.id, job.leaseOwner!);
+    return syncResult;
+  } catch (syncError) {
+    await markOrderEcountSyncFailed(order.id, syncError, job);
+    throw syncError;
+  }
+};
+
+// Queue the order if needed and sync it here. Resolves to null when its job is not due yet or
+// another runner (the VPS worker, a parallel cron) holds the lease.
+const runOrderSyncJob = async (order: Order, source: string) => {
+  await enqueueOrderSyncJob(order.id);
+  const [job] = await leaseOrderSyncJobs(source, { limit: 1, orderId: order.id });
+  return job ? syncLeasedOrderToEcount(job, order) : null;
+};
+
+// Hand an order to eCount in the background using whichever sync runner is configured.
+const scheduleOrderEcountSync = (order: Order, source: string) => {
+  if (isExternalOrderSyncEnabled()) {
+    runBackgroundTask(`queue and trigger eCount sync ${order.orderNumber}`, async () => {
+      const externalResult = await queueAndTriggerExternalEcountSync(order, source);
+      if (externalResult.worker?.triggered) {
+        console.log(`📮 Static-IP VPS worker result for ${order.orderNumber}: ${externalResult.message}`);
+      }
+    });
+  } else {
+    runBackgroundTask(`eCount sync ${order.orderNumber}`, async () => {
+      try {
+        const syncResult = await runOrderSyncJob(order, source);
+        if (!syncResult) {
+          console.log(`⏭️ eCount sync for ${order.orderNumber} is already leased by another runner`);
+        }
+      } catch (ecountError) {
+        console.error('❌ Failed to sync order to eCount ERP:', ecountError);
+      }
+    });
+  }
+};
+
+// Release backorders whose stock arrived and send the released orders that need no payment to eCount.
+const releaseBackordersAndSync = async (source: string): Promise<BackorderReleaseSummary> => {
+  const result = await releaseBackorders();
+  for (const order of result.released) {
+    if (!isOrderAwaitingPayment(order)) {
+      scheduleOrderEcountSync(order, source);
+    }
+  }
+  return {
+    waiting: result.waiting,
+    released: result.released.map((order) => order.orderNumber),
+  };
+};
+
+const schedulePaidOrderEcountSync = (settlement: PaymentSettlement, source: string) => {
+  if (settlement.newlyPaid && settlement.order) {
+    scheduleOrderEcountSync(settlement.order, source);
   }
+};
 
-  const allOrders = await storage.getAllOrders();
-  return allOrders
-    .filter(order => (order.erpSyncStatus || 'pending') !== 'synced')
-    .sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime())[0];
+// The job that is due first, or else the one waiting for its next retry. Dead-lettered jobs stay
+// put until an admin requeues them.
+const getNextOrderForExternalEcountQueue = async () => {
+  const [dueJob] = await storage.getSyncJobs({ jobType: ECOUNT_ORDER_SYNC_JOB, statuses: ['pending'], dueBy: new Date(), limit: 1 });
+  const [waitingJob] = dueJob ? [dueJob] : await storage.getSyncJobs({ jobType: ECOUNT_ORDER_SYNC_JOB, statuses: ['pending'], limit: 1 });
+  return waitingJob ? storage.getOrderById(waitingJob.subjectId) : undefined;
 };
 
 const processEcountOrderSyncQueue = async (source: string, requestedLimit?: unknown) => {
   const limit = getOrderSyncBatchSize(requestedLimit);
-  const dueOrders = await storage.getOrdersNeedingErpSync(limit);
   const spacingMs = sanitizePositiveInt(ORDER_SYNC_RETRY_SPACING_MS, 22000);
 
   const summary = {
     source,
-    checked: dueOrders.length,
+    checked: 0,
     synced: 0,
     failed: 0,
     queued: 0,
@@ -1201,18 +1359,22 @@ const processEcountOrderSyncQueue = async (source: string, requestedLimit?: unkn
   };
 
   if (isExternalOrderSyncEnabled()) {
-    for (const order of dueOrders) {
-      await queueOrderForExternalEcountSync(order);
+    // The VPS worker leases the jobs itself; here we only report what is waiting and wake it up.
+    const dueJobs = await storage.getSyncJobs({ jobType: ECOUNT_ORDER_SYNC_JOB, statuses: ['pending'], dueBy: new Date(), limit });
+    summary.checked = dueJobs.length;
+
+    for (const job of dueJobs) {
+      const order = await storage.getOrderById(job.subjectId);
       summary.queued++;
       summary.results.push({
-        orderId: order.id,
-        orderNumber: order.orderNumber,
+        orderId: job.subjectId,
+        orderNumber: order?.orderNumber || "",
         status: 'queued',
         message: "Waiting for static-IP VPS order sync worker"
       });
     }
 
-    if (dueOrders.length > 0) {
+    if (dueJobs.length > 0) {
       const workerResult = await triggerExternalOrderSyncWorker(source, { limit });
       summary.worker = workerResult;
 
@@ -1222,7 +1384,7 @@ const processEcountOrderSyncQueue = async (source: string, requestedLimit?: unkn
         summary.synced = getExternalWorkerSummaryValue(workerResult, "synced");
         summary.failed = getExternalWorkerSummaryValue(workerResult, "failed");
         summary.skipped = getExternalWorkerSummaryValue(workerResult, "skipped");
-        summary.queued = Math.max(0, dueOrders.length - summary.synced - summary.failed - summary.skipped);
+        summary.queued = Math.max(0, dueJobs.length - summary.synced - summary.failed - summary.skipped);
 
         if (workerResults.length > 0) {
           summary.results = workerResults.map((result: any) => ({
@@ -1239,26 +1401,27 @@ const processEcountOrderSyncQueue = async (source: string, requestedLimit?: unkn
     return summary;
   }
 
-  for (let index = 0; index < dueOrders.length; index++) {
-    const order = dueOrders[index];
-    const attempts = order.erpSyncAttempts || 0;
+  const leasedJobs = await leaseOrderSyncJobs(source, { limit });
+  summary.checked = leasedJobs.length;
+
+  for (let index = 0; index < leasedJobs.length; index++) {
+    const job = leasedJobs[index];
+    const order = await storage.getOrderById(job.subjectId);
 
-    if (ORDER_SYNC_MAX_ATTEMPTS > 0 && attempts >= ORDER_SYNC_MAX_ATTEMPTS) {
+    if (!order) {
+      await storage.completeSyncJob(job.id, job.leaseOwner!);
       summary.skipped++;
       summary.results.push({
-        orderId: order.id,
-        orderNumber: order.orderNumber,
+        orderId: job.subjectId,
+        orderNumber: "",
         status: 'skipped',
-        message: `Max ERP sync attempts reached (${ORDER_SYNC_MAX_ATTEMPTS})`,
-        nextSyncAttemptAt: order.erpNextSyncAttemptAt
-          ? new Date(order.erpNextSyncAttemptAt).toISOString()
-          : null
+        message: "Order no longer exists"
       });
       continue;
     }
 
     try {
-      const syncResult = await syncOrderToEcount(order);
+      const syncResult = await syncLeasedOrderToEcount(job, order);
       summary.synced++;
       summary.results.push({
         orderId: order.id,
@@ -1269,7 +1432,6 @@ const processEcountOrderSyncQueue = async (source: string, requestedLimit?: unkn
     } catch (syncError) {
       summary.failed++;
       console.error(`❌ ERP queue sync failed for ${order.orderNumber}:`, syncError);
-      await markOrderEcountSyncFailed(order.id, syncError);
 
       const failedOrder = await storage.getOrderById(order.id);
       summary.results.push({
@@ -1283,7 +1445,7 @@ const processEcountOrderSyncQueue = async (source: string, requestedLimit?: unkn
       });
     }
 
-    if (index < dueOrders.length - 1) {
+    if (index < leasedJobs.length - 1) {
       await new Promise(resolve => setTimeout(resolve, spacingMs));
     }
   }
@@ -1392,6 +1554,52 @@ const requireAdminAuth = async (req: Request, res: Response, next: NextFunction)
   }
 };
 
+// Single-order access (documents, history) - the order's customer (Supabase token) or an admin (any admin token)
+const requireOrderAccessAuth = async (req: Request, res: Response, next: NextFunction) => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ message: 'Authentication required to view this order' });
+  }
+
+  try {
+    const { data: { user }, error } = await supabase.auth.getUser(authHeader.substring(7));
+    if (!error && user) {
+      (req as any).userId = user.id;
+      (req as any).userEmail = user.email;
+      (req as any).userRole = isSupabaseAdminUser(user) ? 'admin' : 'client';
+      return next();
+    }
+  } catch (supabaseError) {
+    console.log('🔐 Supabase token validation failed for order access, trying admin session...');
+  }
+
+  return requireAdminAuth(req, res, next);
+};
+
+// Customer-owned resources (carts, saved baskets) need a signed-in Supabase user, never the guest fallback.
+const requireCustomerAuth = async (req: Request, res: Response, next: NextFunction) => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ message: 'Please log in to continue' });
+  }
+
+  try {
+    const { data: { user }, error } = await supabase.auth.getUser(authHeader.substring(7));
+    if (error || !user) {
+      return res.status(401).json({ message: 'Invalid or expired session. Please log in again.' });
+    }
+
+    (req as any).userId = user.id;
+    (req as any).userEmail = user.email;
+    (req as any).userRole = isSupabaseAdminUser(user) ? 'admin' : 'client';
+    (req as any).userMetadata = user.user_metadata || {};
+    next();
+  } catch (authError) {
+    console.error('🔐 Customer auth validation error:', authError);
+    return res.status(401).json({ message: 'Authentication failed. Please log in again.' });
+  }
+};
+
 const requireOrderSyncCronAuth = (req: Request, res: Response, next: NextFunction) => {
   if (appIsDevelopment()) {
     return next();
@@ -1418,6 +1626,11 @@ const requireOrderSyncCronAuth = (req: Request, res: Response, next: NextFunctio
 export async function registerRoutes(app: Express): Promise<Server> {
   const runOrderSyncQueueHandler = async (req: Request, res: Response) => {
     try {
+      const expiredReservations = await storage.releaseExpiredStockReservations();
+      if (expiredReservations > 0) {
+        console.log(`📦 Released ${expiredReservations} expired stock reservations`);
+      }
+
       const summary = await processEcountOrderSyncQueue(
         req.method === "GET" ? "cron:get" : "cron:post",
         req.query.limit || req.body?.limit
@@ -1441,6 +1654,138 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/cron/ecount-order-sync", requireOrderSyncCronAuth, runOrderSyncQueueHandler);
   app.post("/api/cron/ecount-order-sync", requireOrderSyncCronAuth, runOrderSyncQueueHandler);
 
+  // Standing orders become normal orders here, then follow the checkout notification and eCount sync path.
+  const runStandingOrdersHandler = async (req: Request, res: Response) => {
+    try {
+      const requestedLimit = Number.parseInt(String(req.query.limit || req.body?.limit || ""), 10);
+      const summary = await runDueStandingOrders(new Date(), Math.min(sanitizePositiveInt(requestedLimit, 25), 100));
+
+      for (const result of summary.results) {
+        if (result.status !== "placed") {
+          continue;
+        }
+
+        const { order, backorder, paymentSettlement } = result;
+        runBackgroundTask(`order notification ${order.orderNumber}`, () => sendOrderNotificationSafely(order));
+        if (backorder) {
+          runBackgroundTask(`order notification ${backorder.orderNumber}`, () => sendOrderNotificationSafely(backorder));
+        }
+        if (paymentSettlement) {
+          schedulePaidOrderEcountSync(paymentSettlement, "standing-order");
+        } else if (!isOrderAwaitingPayment(order) && !isOrderBackordered(order)) {
+          scheduleOrderEcountSync(order, "standing-order");
+        }
+      }
+
+      res.json({
+        success: true,
+        message: `Standing orders processed: ${summary.placed} placed, ${summary.failed} failed`,
+        data: {
+          checked: summary.checked,
+          placed: summary.placed,
+          failed: summary.failed,
+          results: summary.results.map((result) => ({
+            standingOrderId: result.standingOrder.id,
+            status: result.status,
+            orderNumber: result.status === "placed" ? result.order.orderNumber : null,
+            message: result.message || null,
+          })),
+        }
+      });
+    } catch (error) {
+      console.error('❌ Standing order run failed:', error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to process standing orders",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  app.get("/api/cron/standing-orders", requireOrderSyncCronAuth, runStandingOrdersHandler);
+  app.post("/api/cron/standing-orders", requireOrderSyncCronAuth, runStandingOrdersHandler);
+
+  // Nightly check that every web order of the last week is in eCount exactly once, for the right amount.
+  const runErpReconciliationHandler = async (_req: Request, res: Response) => {
+    const period = getDefaultErpReconciliationPeriod();
+    const run = await runErpReconciliation(period, "cron");
+    const { issues: _issues, ...summary } = run;
+
+    if (run.status !== "completed") {
+      return res.status(500).json({
+        success: false,
+        message: `ERP reconciliation ${period.from}..${period.to} failed`,
+        error: run.error || 'Unknown error',
+        data: summary,
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `ERP reconciliation ${period.from}..${period.to}: ${run.matchedCount} matched, ${run.issueCount} issues`,
+      data: summary,
+    });
+  };
+
+  app.get("/api/cron/erp-reconciliation", requireOrderSyncCronAuth, runErpReconciliationHandler);
+  app.post("/api/cron/erp-reconciliation", requireOrderSyncCronAuth, runErpReconciliationHandler);
+
+  // Daily restock digest for purchasing: products that fell below their reorder point since the last check.
+  const runStockAlertsHandler = async (_req: Request, res: Response) => {
+    try {
+      const result = await runStockAlertCheck();
+      res.status(result.error ? 502 : 200).json({
+        success: !result.error,
+        message: `Stock alert check: ${result.alerts.length} of ${result.checked} products below reorder point`,
+        ...(result.error ? { error: result.error } : {}),
+        data: result,
+      });
+    } catch (error) {
+      console.error('❌ Stock alert cron error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Stock alert check failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  app.get("/api/cron/stock-alerts", requireOrderSyncCronAuth, runStockAlertsHandler);
+  app.post("/api/cron/stock-alerts", requireOrderSyncCronAuth, runStockAlertsHandler);
+
+  // Backorder release and back-in-stock emails after an inventory refresh. scripts/ecount-inventory-sync.mjs
+  // posts the quantities it just stored; without a body the inventory eCount last returned is used for emails.
+  const runBackInStockHandler = async (req: Request, res: Response) => {
+    try {
+      const parsed = backInStockRunSchema.safeParse(req.method === "POST" ? req.body ?? {} : {});
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, message: "Invalid inventory quantities", error: parsed.error.errors });
+      }
+
+      const quantities = parsed.data.quantities
+        ? new Map(parsed.data.quantities.map((item) => [item.productCode, item.availableQuantity]))
+        : undefined;
+      // Backordered customers have already ordered, so they get the arrived stock first
+      const backorders = await releaseBackordersAndSync("backorder:release");
+      const result = await notifyBackInStockSubscribers(quantities);
+      res.json({
+        success: true,
+        message: `Back-in-stock check: ${backorders.released.length} backordered order(s) released, ${result.notified} of ${result.waiting} waiting subscriptions notified`,
+        data: { ...result, backorders },
+      });
+    } catch (error) {
+      console.error('❌ Back-in-stock cron error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Back-in-stock check failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  app.get("/api/cron/back-in-stock", requireOrderSyncCronAuth, runBackInStockHandler);
+  app.post("/api/cron/back-in-stock", requireOrderSyncCronAuth, runBackInStockHandler);
+
   // Customer registration endpoint using Supabase
   app.post("/api/auth/register", async (req, res) => {
     try {
@@ -1880,21 +2225,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Delivery zones offered at checkout (active only)
+  app.get("/api/delivery-zones", async (_req, res) => {
+    try {
+      const zones = await storage.getDeliveryZones();
+      res.json(zones);
+    } catch (error) {
+      console.error('❌ Delivery zones error:', error);
+      res.status(500).json({ message: "Failed to fetch delivery zones", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
   // Products - Pure eCount Integration (Public catalog browsing)
-  app.get("/api/products", async (req, res) => {
+  // Signed-in customers see their contract prices; guests get the catalogue price.
+  app.get("/api/products", requireAuth, async (req, res) => {
     try {
       // Get ALL product data directly from eCount - no local storage
       const ecountProducts = await ecountApi.getAllProductsFromEcount();
+      const priceList = await resolveCustomerPriceList((req as any).userId);
       
-      console.log(`🚀 Pure eCount catalog: ${ecountProducts.length} products from ERP`);
+      console.log(`🚀 Pure eCount catalog: ${ecountProducts.length} products from ERP${priceList ? ` (price list "${priceList.name}")` : ''}`);
       
-      res.json(ecountProducts);
+      res.json(applyCustomerPriceList(await applyBackorderSettings(await applyStockThresholds(await applyStockLotExpiry(ecountProducts))), priceList));
     } catch (error) {
       console.error('❌ Failed to get eCount products:', error);
       res.status(500).json({ error: 'Failed to fetch products from eCount ERP' });
     }
   });
 
+  // Cart preview of the discounts checkout will apply; POST /api/orders recomputes them.
+  app.post("/api/discounts/quote", requireAuth, async (req, res) => {
+    try {
+      const parsed = discountQuoteRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid cart", error: parsed.error.errors });
+      }
+
+      const repricing = await repriceOrderItems(parsed.data.items, await resolveCustomerPriceList((req as any).userId));
+      const discounts = await applyOrderDiscounts(repricing.items, parsed.data.couponCode);
+      const quote: DiscountQuote = {
+        lines: discounts.items.flatMap((item) =>
+          item.discountAmount
+            ? [{ productId: item.productId, discountAmount: item.discountAmount, discountLabel: item.discountLabel || "" }]
+            : [],
+        ),
+        discountTotal: discounts.discountTotal.toFixed(2),
+        couponCode: discounts.couponCode,
+        couponError: discounts.couponError,
+      };
+      res.json(quote);
+    } catch (error) {
+      console.error('❌ Discount quote error:', error);
+      res.status(500).json({ message: "Failed to calculate discounts", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
   app.get("/api/products/:id", requireAuth, enforceReadRateLimit, async (req, res) => {
     try {
       // Pure eCount integration - get ALL products from eCount ERP only
@@ -1910,7 +2295,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       console.log(`✅ Product ${req.params.id} found in eCount ERP`);
-      res.json(product);
+      const [pricedProduct] = applyCustomerPriceList(
+        await applyBackorderSettings(await applyStockThresholds(await applyStockLotExpiry([product]))),
+        await resolveCustomerPriceList((req as any).userId),
+      );
+      res.json(pricedProduct);
     } catch (error) {
       console.error('❌ Failed to fetch product from eCount:', error);
       res.status(500).json({ 
@@ -1921,7 +2310,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Order routes - now with CORRECTED eCount sales integration
-  app.post("/api/orders", requireAuth, enforceSaveRateLimit, async (req, res) => {
+  app.post("/api/orders", requireAuth, replayIdempotentOrder, enforceSaveRateLimit, async (req, res) => {
     const checkoutStartedAt = Date.now();
     logCheckoutStage(req, "route:start");
     res.once("finish", () => {
@@ -1934,124 +2323,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     try {
       const authenticatedUserId = (req as any).userId || req.body.userId || 'guest-user';
-      const requestedDeliveryOption = req.body.deliveryOption || 'pickup';
       const userMetadata = (req as any).userMetadata || {};
       const metadataName =
         userMetadata.name ||
         userMetadata.company_name ||
         (req as any).userEmail?.split('@')[0] ||
         '';
-      const customerName = String(req.body.customerName || metadataName).trim();
-      const customerEmail = String(req.body.customerEmail || (req as any).userEmail || '').trim();
-      const customerPhone = String(req.body.customerPhone || userMetadata.phone || '').trim();
-      const customerCompany = String(req.body.customerCompany || userMetadata.company_name || userMetadata.name || '').trim();
-      const requestedCustomerAddress = String(req.body.customerAddress || '').trim();
-      const parsedDeliveryArea = deliveryAreaSchema.safeParse(req.body.deliveryArea);
-      const deliveryArea =
-        requestedDeliveryOption === 'delivery'
-          ? parsedDeliveryArea.success
-            ? parsedDeliveryArea.data
-            : inferDeliveryAreaFromAddress(requestedCustomerAddress)
-          : undefined;
-
-      if (!customerName || !customerEmail || !customerPhone) {
-        return res.status(400).json({
-          message: "Customer name, email, and phone number are required",
-        });
-      }
-
-      if (requestedDeliveryOption === 'delivery' && !requestedCustomerAddress) {
+      const paysOnline = (req.body.paymentMethod || 'cash') === 'online_now';
+      const parsedPaymentRequest = orderPaymentRequestSchema.safeParse(req.body.payment);
+      if (paysOnline && !parsedPaymentRequest.success) {
         return res.status(400).json({
-          message: "Delivery address is required for delivery orders",
+          message: "A mobile money number is required to pay online",
+          error: parsedPaymentRequest.error.errors,
         });
       }
 
-      if (requestedDeliveryOption === 'delivery' && !deliveryArea) {
-        return res.status(400).json({
-          message: "Delivery area is required for delivery orders",
-        });
+      const placement = await placeOrder(
+        {
+          userId: authenticatedUserId,
+          items: typeof req.body.items === "string" ? JSON.parse(req.body.items || "[]") : req.body.items || [],
+          paymentMethod: req.body.paymentMethod,
+          deliveryOption: req.body.deliveryOption,
+          deliveryArea: req.body.deliveryArea,
+          customerName: String(req.body.customerName || metadataName),
+          customerEmail: String(req.body.customerEmail || (req as any).userEmail || ''),
+          customerPhone: String(req.body.customerPhone || userMetadata.phone || ''),
+          customerCompany: String(req.body.customerCompany || userMetadata.company_name || userMetadata.name || ''),
+          customerAddress: String(req.body.customerAddress || ''),
+          icePackRequired: req.body.icePackRequired,
+          icePackSize: req.body.icePackSize,
+          icePackQuantity: req.body.icePackQuantity,
+          couponCode: typeof req.body.couponCode === "string" ? req.body.couponCode : null,
+          idempotencyKey: (req as any).idempotencyKey || null,
+        },
+        getRequestActor(req),
+        (stage, detail) => logCheckoutStage(req, stage, detail),
+      );
+      if (!placement.placed) {
+        const { placed, statusCode, ...failure } = placement;
+        return res.status(statusCode).json(failure);
       }
-
-      // Validate payment method / delivery option combination
-      // Cash payment is only allowed with pickup (not delivery)
-      const requestedPaymentMethod = req.body.paymentMethod || 'cash';
-      if (requestedPaymentMethod === 'cash' && requestedDeliveryOption === 'delivery') {
-        return res.status(400).json({
-          message: "Cash payment is only available for pickup orders. Please choose online payment for delivery.",
-        });
+      if (placement.replayed) {
+        return sendReplayedOrder(res, placement.order);
       }
 
-      const rawOrderItems =
-        typeof req.body.items === "string" ? JSON.parse(req.body.items || "[]") : req.body.items || [];
-      const orderItems = orderItemsSchema.parse(rawOrderItems);
-      logCheckoutStage(req, "items:validated", `count=${orderItems.length}`);
-      const subtotal = sumOrderItemsSubtotal(orderItems);
-      const tax = 0;
-      const transportCost = getTransportCost(requestedDeliveryOption, deliveryArea);
-      const icePackRequired = req.body.icePackRequired === true;
-      const parsedIcePackSize = icePackSizeSchema.safeParse(req.body.icePackSize);
-      const rawIcePackQuantity = Number.parseInt(String(req.body.icePackQuantity ?? "1"), 10);
-      const icePackQuantity = icePackRequired ? Math.max(1, rawIcePackQuantity || 1) : 0;
-
-      if (icePackRequired && !parsedIcePackSize.success) {
-        return res.status(400).json({
-          message: "Ice pack size is required when ice pack is selected",
-        });
+      const { order, repricing, backorder } = placement;
+      const priceMismatch = repricing.mismatches.length > 0;
+      // A fully backordered order is neither paid for nor synced until its stock arrives.
+      const backordered = isOrderBackordered(order);
+
+      // Online orders only reach eCount once the payment provider confirms the money.
+      let paymentSettlement: PaymentSettlement | null = null;
+      let paymentError: string | null = null;
+      if (paysOnline && parsedPaymentRequest.success && !backordered) {
+        const paymentResult = await startOrderPayment(order, parsedPaymentRequest.data, getRequestActor(req));
+        if (paymentResult.started) {
+          paymentSettlement = paymentResult.settlement;
+        } else {
+          paymentError = paymentResult.message;
+        }
+        logCheckoutStage(
+          req,
+          "payment:requested",
+          `order=${order.orderNumber} status=${paymentSettlement?.payment.status || "not-started"}`
+        );
       }
-
-      const icePackSize = icePackRequired ? parsedIcePackSize.data : undefined;
-      const icePackCost = getIcePackCost(icePackRequired, icePackSize, icePackQuantity);
-      const total = calculateOrderTotal({
-        subtotal,
-        tax,
-        deliveryOption: requestedDeliveryOption,
-        deliveryArea,
-        icePackRequired,
-        icePackSize,
-        icePackQuantity,
-      });
-
-      // Persist checkout customer data exactly as entered for this order.
-      const orderDataWithCustomer = {
-        ...req.body,
-        userId: authenticatedUserId,
-        subtotal: subtotal.toFixed(2),
-        tax: tax.toFixed(2),
-        total: total.toFixed(2),
-        paymentMethod: req.body.paymentMethod || 'cash',
-        deliveryOption: requestedDeliveryOption,
-        deliveryArea,
-        transportCost: transportCost.toFixed(2),
-        icePackRequired,
-        icePackSize,
-        icePackQuantity,
-        icePackCost: icePackCost.toFixed(2),
-        customerName,
-        customerEmail,
-        customerPhone,
-        customerCompany,
-        customerAddress: requestedCustomerAddress,
-      };
-      
-      const orderData = insertOrderSchema.parse(orderDataWithCustomer);
-      
-      // Create order in local storage first
-      const saveStartedAt = Date.now();
-      logCheckoutStage(req, "save:start", `userId=${authenticatedUserId}`);
-      const order = await storage.createOrder(orderData);
-      logCheckoutStage(
-        req,
-        "save:success",
-        `order=${order.orderNumber} durationMs=${Date.now() - saveStartedAt}`
-      );
+      const savedOrder = paymentSettlement?.order || order;
+      const backorderMessage = backorder
+        ? ` ${backorder.orderNumber} holds the backordered items, expected ${formatExpectedArrival(backorder.expectedArrivalAt)}.`
+        : "";
 
       res.status(201).json({
         success: true,
         localOrderSaved: true,
-        order,
-        message: "Order saved. eCount sync will continue in the background.",
+        order: savedOrder,
+        backorder: backorder || null,
+        message: backordered
+          ? `Order saved on backorder, expected ${formatExpectedArrival(order.expectedArrivalAt)}. It will be sent to eCount when the stock arrives.`
+          : isOrderAwaitingPayment(savedOrder)
+            ? `Order saved. Approve the mobile money prompt on your phone to complete payment.${backorderMessage}`
+            : `Order saved. eCount sync will continue in the background.${backorderMessage}`,
+        pricing: {
+          adjusted: priceMismatch,
+          mismatches: repricing.mismatches,
+        },
+        payment: paymentSettlement?.payment || null,
+        paymentError,
         erp: {
-          syncStatus: order.erpSyncStatus || 'pending'
+          syncStatus: savedOrder.erpSyncStatus || 'pending'
         }
       });
       logCheckoutStage(
@@ -2061,23 +2420,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
 
       runBackgroundTask(`order notification ${order.orderNumber}`, () => sendOrderNotificationSafely(order));
+      if (backorder) {
+        runBackgroundTask(`order notification ${backorder.orderNumber}`, () => sendOrderNotificationSafely(backorder));
+      }
 
-      if (isExternalOrderSyncEnabled()) {
-        runBackgroundTask(`queue and trigger eCount sync ${order.orderNumber}`, async () => {
-          const externalResult = await queueAndTriggerExternalEcountSync(order, "order:create");
-          if (externalResult.worker?.triggered) {
-            console.log(`📮 Static-IP VPS worker result for ${order.orderNumber}: ${externalResult.message}`);
-          }
-        });
-      } else {
-        runBackgroundTask(`eCount sync ${order.orderNumber}`, async () => {
-          try {
-            await syncOrderToEcount(order);
-          } catch (ecountError) {
-            console.error('❌ Failed to sync order to eCount ERP:', ecountError);
-            await markOrderEcountSyncFailed(order.id, ecountError);
-          }
-        });
+      if (paymentSettlement) {
+        schedulePaidOrderEcountSync(paymentSettlement, "order:create");
+      } else if (!paysOnline && !backordered) {
+        scheduleOrderEcountSync(order, "order:create");
       }
       logCheckoutStage(
         req,
@@ -2085,6 +2435,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         `order=${order.orderNumber} mode=${isExternalOrderSyncEnabled() ? "external" : "direct"}`
       );
     } catch (error) {
+      // A concurrent submission with the same Idempotency-Key won the unique index; answer with its order.
+      const idempotencyKey = (req as any).idempotencyKey;
+      if (idempotencyKey && isOrderIdempotencyKeyConflict(error)) {
+        try {
+          const existingOrder = await storage.getOrderByIdempotencyKey((req as any).userId, idempotencyKey);
+          if (existingOrder) {
+            return sendReplayedOrder(res, existingOrder);
+          }
+        } catch (lookupError) {
+          console.error('❌ Idempotency key lookup failed after a duplicate submission:', lookupError);
+        }
+      }
+
       logCheckoutStage(
         req,
         "route:error",
@@ -2112,7 +2475,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!order) {
         return res.status(404).json({ message: "Order not found" });
       }
+
+      if (isOrderAwaitingPayment(order)) {
+        return res.status(409).json({
+          message: `Order ${order.orderNumber} is awaiting online payment and cannot be sent to eCount yet`
+        });
+      }
+
+      if (isOrderBackordered(order)) {
+        return res.status(409).json({
+          message: `Order ${order.orderNumber} is backordered and goes to eCount once its stock arrives`
+        });
+      }
       
+      if (order.status === 'cancelled' && order.erpSyncStatus !== 'synced') {
+        return res.status(409).json({
+          message: `Order ${order.orderNumber} was cancelled before reaching eCount and will not be sent`
+        });
+      }
+
       // Check if already synced
       if (order.erpSyncStatus === 'synced') {
         return res.json({
@@ -2138,7 +2519,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const syncResult = await syncOrderToEcount(order);
+      const syncResult = await runOrderSyncJob(order, "manual");
+      if (!syncResult) {
+        return res.status(409).json({
+          success: false,
+          message: `Order ${order.orderNumber} is already being synced by another runner`
+        });
+      }
       
       console.log(`✅ Manual ERP sync successful for order ${order.orderNumber}`);
       
@@ -2151,15 +2538,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     } catch (error) {
       console.error('❌ Manual ERP sync failed:', error);
       
-      // Update order with error status if we have the order
-      if (req.body.orderId) {
-        try {
-          await markOrderEcountSyncFailed(req.body.orderId, error);
-        } catch (updateError) {
-          console.error('Failed to update order error status:', updateError);
-        }
-      }
-      
       res.status(500).json({
         success: false,
         message: "Failed to sync order to eCount ERP",
@@ -2195,7 +2573,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         console.log(`📦 User ${user.email} fetching orders for ${effectiveUserId}`);
-        const orders = await storage.getOrdersByUserId(effectiveUserId);
+        const orders = await storage.getOrdersWithLinesByUserId(effectiveUserId);
         res.json(orders);
         
       } catch (authError) {
@@ -2207,21 +2585,716 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all orders (admin only) - shows customer information for order attribution
-  app.get("/api/orders", requireAdminAuth, async (req, res) => {
+  // Retry the mobile money push for an order that is still awaiting payment
+  app.post("/api/orders/:orderId/payments", requireAuth, async (req, res) => {
     try {
-      const orders = await storage.getAllOrders();
-      console.log(`📦 Admin fetched ${orders.length} orders with customer information`);
-      res.json(orders);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch all orders", error });
-    }
-  });
+      const order = await storage.getOrderById(req.params.orderId);
+      if (!order || ((req as any).userRole !== 'admin' && order.userId !== (req as any).userId)) {
+        return res.status(404).json({ message: "Order not found" });
+      }
 
-  app.get("/api/admin/orders", requireAdminAuth, async (req, res) => {
-    try {
-      const orders = await storage.getAllOrders();
-      console.log(`📦 Admin fetched ${orders.length} orders from /api/admin/orders`);
+      const parsed = orderPaymentRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid payment details", error: parsed.error.errors });
+      }
+
+      const result = await startOrderPayment(order, parsed.data, getRequestActor(req));
+      if (!result.started) {
+        return res.status(result.statusCode).json({ message: result.message });
+      }
+
+      schedulePaidOrderEcountSync(result.settlement, "payment:retry");
+      res.status(201).json({
+        success: true,
+        payment: result.settlement.payment,
+        order: result.settlement.order || order,
+      });
+    } catch (error) {
+      console.error('❌ Failed to start order payment:', error);
+      res.status(500).json({
+        message: "Failed to start payment",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Payment status polling for the checkout page
+  app.get("/api/payments/:paymentId", requireAuth, async (req, res) => {
+    try {
+      const payment = await storage.getPaymentById(req.params.paymentId);
+      const order = payment ? await storage.getOrderById(payment.orderId) : undefined;
+      if (!payment || !order || ((req as any).userRole !== 'admin' && order.userId !== (req as any).userId)) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      res.json({ payment, order });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to fetch payment",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Provider callbacks (webhooks) - authenticated by the provider's signature, not a user session
+  app.post("/api/payments/callback/:provider", async (req, res) => {
+    try {
+      const result = await handlePaymentCallback(req.params.provider, {
+        rawBody: (req as any).rawBody,
+        body: req.body,
+        headers: req.headers,
+      });
+
+      if (!result.handled) {
+        console.warn(`⚠️ Rejected ${req.params.provider} payment callback: ${result.message}`);
+        return res.status(result.statusCode).json({ message: result.message });
+      }
+
+      schedulePaidOrderEcountSync(result.settlement, `payment:callback:${req.params.provider}`);
+      res.json({ received: true, status: result.settlement.payment.status });
+    } catch (error) {
+      console.error('❌ Failed to process payment callback:', error);
+      res.status(500).json({
+        message: "Failed to process payment callback",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.get("/api/admin/orders/:orderId/payments", requireAdminAuth, async (req, res) => {
+    try {
+      res.json(await storage.getPaymentsByOrderId(req.params.orderId));
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to fetch order payments",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Admins see every order; customers only their own (orders may carry the profile's user ID)
+  const getOrderAccess = async (req: Request, order: Order) => {
+    const userId = (req as any).userId;
+    const profile = await storage.getProfileByUserId(order.userId);
+    const isOwner = order.userId === userId || profile?.userId === userId;
+    return { allowed: (req as any).userRole === 'admin' || isOwner, profile };
+  };
+
+  // Pro-forma invoice / delivery note PDFs for a single order
+  const sendOrderDocument = (kind: OrderDocumentKind) => async (req: Request, res: Response) => {
+    try {
+      const order = await storage.getOrderWithLines(req.params.orderId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const { allowed, profile } = await getOrderAccess(req, order);
+      if (!allowed) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      let metadata: Record<string, any> = {};
+      if (!profile && supabaseAdminClient) {
+        const { data } = await supabaseAdminClient.auth.admin.getUserById(order.userId);
+        metadata = data?.user?.user_metadata || {};
+      }
+
+      const pdf = await renderOrderDocumentPdf(
+        kind,
+        order,
+        {
+          name: order.customerName,
+          company: order.customerCompany || profile?.name || metadata.name || metadata.company_name,
+          email: order.customerEmail,
+          phone: order.customerPhone || profile?.phone || metadata.phone,
+          address: order.customerAddress || profile?.address || metadata.address,
+          tinNumber: profile?.tinNumber || metadata.tin_number,
+          brelaNumber: profile?.brelaNumber || metadata.brela_number,
+        },
+        await loadDeliveryZoneTariffs(),
+        kind === "delivery-note" ? await storage.getOrderLotAllocations(order.id) : [],
+      );
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${getOrderDocumentFilename(order, kind)}"`);
+      res.setHeader("Cache-Control", "private, no-store");
+      res.send(pdf);
+    } catch (error) {
+      console.error('❌ Failed to generate order document:', error);
+      res.status(500).json({
+        message: "Failed to generate order document",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  app.get("/api/orders/:orderId/invoice.pdf", requireOrderAccessAuth, sendOrderDocument("invoice"));
+  app.get("/api/orders/:orderId/delivery-note.pdf", requireOrderAccessAuth, sendOrderDocument("delivery-note"));
+
+  // Customer self-service: cancel or change quantities until the order reaches eCount
+  app.post("/api/orders/:orderId/cancel", requireOrderAccessAuth, async (req, res) => {
+    try {
+      const order = await storage.getOrderById(req.params.orderId);
+      if (!order || !(await getOrderAccess(req, order)).allowed) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const parsed = orderCancellationSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid cancellation details", error: parsed.error.errors });
+      }
+
+      const result = await cancelOrderForCustomer(order, getRequestActor(req), parsed.data.reason);
+      if (!result.cancelled) {
+        return res.status(result.statusCode).json({ message: result.message });
+      }
+
+      res.json({ success: true, message: `Order ${order.orderNumber} cancelled`, order: result.order });
+    } catch (error) {
+      console.error('❌ Failed to cancel order:', error);
+      res.status(500).json({
+        message: "Failed to cancel order",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.patch("/api/orders/:orderId/lines", requireOrderAccessAuth, async (req, res) => {
+    try {
+      const order = await storage.getOrderWithLines(req.params.orderId);
+      if (!order || !(await getOrderAccess(req, order)).allowed) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const parsed = orderAmendmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid order changes", error: parsed.error.errors });
+      }
+
+      const result = await amendOrderForCustomer(order, parsed.data, getRequestActor(req));
+      if (!result.amended) {
+        return res.status(result.statusCode).json({ message: result.message, shortLines: result.shortLines });
+      }
+
+      res.json({
+        success: true,
+        message: result.changed ? `Order ${order.orderNumber} updated` : "No changes to save",
+        order: result.order,
+      });
+    } catch (error) {
+      console.error('❌ Failed to amend order:', error);
+      res.status(500).json({
+        message: "Failed to update order",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Orders already in eCount can only be cancelled by an admin, who reverses the sale order
+  app.post("/api/orders/:orderId/cancellation-request", requireOrderAccessAuth, async (req, res) => {
+    try {
+      const order = await storage.getOrderById(req.params.orderId);
+      if (!order || !(await getOrderAccess(req, order)).allowed) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const parsed = orderCancellationSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid cancellation details", error: parsed.error.errors });
+      }
+
+      const result = await requestOrderCancellation(order, getRequestActor(req), parsed.data.reason);
+      if (!result.requested) {
+        return res.status(result.statusCode).json({ message: result.message });
+      }
+
+      res.status(202).json({
+        success: true,
+        message: `Cancellation requested for order ${order.orderNumber}. We will confirm once it is processed.`,
+        order: result.order,
+      });
+    } catch (error) {
+      console.error('❌ Failed to request order cancellation:', error);
+      res.status(500).json({
+        message: "Failed to request cancellation",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Order timeline - customers see status and payment events, admins also see ERP sync and admin actions
+  app.get("/api/orders/:orderId/events", requireOrderAccessAuth, async (req, res) => {
+    try {
+      const order = await storage.getOrderById(req.params.orderId);
+      if (!order || !(await getOrderAccess(req, order)).allowed) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const events = await storage.getOrderEvents(order.id);
+      if ((req as any).userRole === 'admin') {
+        return res.json(events);
+      }
+
+      res.json(
+        events
+          .filter((event) => (CUSTOMER_VISIBLE_ORDER_EVENT_TYPES as readonly string[]).includes(event.eventType))
+          .map(({ actorId, actorEmail, ...event }) => event)
+      );
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to fetch order history",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Server-side cart - CartProvider keeps a localStorage copy for offline use and syncs through these
+  const sendCartError = (res: Response, message: string, error: unknown) => {
+    console.error(`❌ ${message}:`, error);
+    res.status(500).json({
+      message,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  };
+
+  app.get("/api/cart", requireCustomerAuth, async (req, res) => {
+    try {
+      res.json({ items: await storage.getCartItems((req as any).userId) });
+    } catch (error) {
+      sendCartError(res, "Failed to fetch cart", error);
+    }
+  });
+
+  // Replace the whole cart; used to push changes made while offline
+  app.put("/api/cart", requireCustomerAuth, async (req, res) => {
+    try {
+      const parsed = cartItemsSchema.safeParse(req.body?.items);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid cart", error: parsed.error.errors });
+      }
+
+      res.json({ items: await storage.replaceCartItems((req as any).userId, parsed.data) });
+    } catch (error) {
+      sendCartError(res, "Failed to save cart", error);
+    }
+  });
+
+  // Merge a device's local cart into the server cart on login
+  app.post("/api/cart/merge", requireCustomerAuth, async (req, res) => {
+    try {
+      const parsed = cartItemsSchema.safeParse(req.body?.items);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid cart", error: parsed.error.errors });
+      }
+
+      res.json({ items: await storage.mergeCartItems((req as any).userId, parsed.data) });
+    } catch (error) {
+      sendCartError(res, "Failed to merge cart", error);
+    }
+  });
+
+  app.put("/api/cart/items/:productId", requireCustomerAuth, async (req, res) => {
+    try {
+      const parsed = cartItemSchema.safeParse({ ...req.body, productId: req.params.productId });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid cart line", error: parsed.error.errors });
+      }
+
+      res.json({ items: await storage.upsertCartItem((req as any).userId, parsed.data) });
+    } catch (error) {
+      sendCartError(res, "Failed to update cart", error);
+    }
+  });
+
+  app.delete("/api/cart/items/:productId", requireCustomerAuth, async (req, res) => {
+    try {
+      res.json({ items: await storage.removeCartItem((req as any).userId, req.params.productId) });
+    } catch (error) {
+      sendCartError(res, "Failed to update cart", error);
+    }
+  });
+
+  app.delete("/api/cart", requireCustomerAuth, async (req, res) => {
+    try {
+      res.json({ items: await storage.replaceCartItems((req as any).userId, []) });
+    } catch (error) {
+      sendCartError(res, "Failed to clear cart", error);
+    }
+  });
+
+  // "Notify me when available" - waiting back-in-stock subscriptions of the signed-in customer
+  app.get("/api/stock-subscriptions", requireCustomerAuth, async (req, res) => {
+    try {
+      res.json(await storage.getWaitingStockSubscriptions((req as any).userId));
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to fetch stock notifications",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.post("/api/stock-subscriptions", requireCustomerAuth, async (req, res) => {
+    try {
+      const parsed = stockSubscriptionRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid product", error: parsed.error.errors });
+      }
+
+      const email = (req as any).userEmail;
+      if (!email) {
+        return res.status(400).json({ message: "Your account has no email address to notify" });
+      }
+
+      const subscription = await storage.subscribeToStock({
+        userId: (req as any).userId,
+        email,
+        productId: parsed.data.productId,
+        productName: parsed.data.productName,
+      });
+      res.status(201).json({
+        success: true,
+        message: `We'll email ${email} when ${subscription.productName} is back in stock`,
+        subscription,
+      });
+    } catch (error) {
+      console.error('❌ Create stock subscription error:', error);
+      res.status(500).json({
+        message: "Failed to save stock notification",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.delete("/api/stock-subscriptions/:productId", requireCustomerAuth, async (req, res) => {
+    try {
+      const deleted = await storage.deleteStockSubscription((req as any).userId, req.params.productId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Stock notification not found" });
+      }
+      res.json({ success: true, message: "Stock notification cancelled" });
+    } catch (error) {
+      console.error('❌ Delete stock subscription error:', error);
+      res.status(500).json({
+        message: "Failed to cancel stock notification",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Saved order templates ("baskets") - stored per customer so they follow them across devices
+  app.get("/api/order-templates", requireCustomerAuth, async (req, res) => {
+    try {
+      const templates = await storage.getOrderTemplatesByUserId((req as any).userId);
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to fetch saved baskets",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.post("/api/order-templates", requireCustomerAuth, async (req, res) => {
+    try {
+      const parsed = insertOrderTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid basket", error: parsed.error.errors });
+      }
+
+      const userId = (req as any).userId;
+      const existingTemplates = await storage.getOrderTemplatesByUserId(userId);
+      if (existingTemplates.some((template) => template.name.toLowerCase() === parsed.data.name.toLowerCase())) {
+        return res.status(409).json({ message: `You already have a basket named "${parsed.data.name}"` });
+      }
+
+      const template = await storage.createOrderTemplate(userId, parsed.data);
+      res.status(201).json({ success: true, message: `Saved basket "${template.name}"`, template });
+    } catch (error) {
+      console.error('❌ Create order template error:', error);
+      res.status(500).json({
+        message: "Failed to save basket",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.patch("/api/order-templates/:templateId", requireCustomerAuth, async (req, res) => {
+    try {
+      const userId = (req as any).userId;
+      const template = await storage.getOrderTemplateById(req.params.templateId);
+      if (!template || template.userId !== userId) {
+        return res.status(404).json({ message: "Basket not found" });
+      }
+
+      const parsed = updateOrderTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid basket", error: parsed.error.errors });
+      }
+
+      const newName = parsed.data.name;
+      if (newName) {
+        const existingTemplates = await storage.getOrderTemplatesByUserId(userId);
+        if (existingTemplates.some((existing) => existing.id !== template.id && existing.name.toLowerCase() === newName.toLowerCase())) {
+          return res.status(409).json({ message: `You already have a basket named "${newName}"` });
+        }
+      }
+
+      const updatedTemplate = await storage.updateOrderTemplate(template.id, parsed.data);
+      if (!updatedTemplate) {
+        return res.status(404).json({ message: "Basket not found" });
+      }
+
+      res.json({ success: true, message: `Updated basket "${updatedTemplate.name}"`, template: updatedTemplate });
+    } catch (error) {
+      console.error('❌ Update order template error:', error);
+      res.status(500).json({
+        message: "Failed to update basket",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.delete("/api/order-templates/:templateId", requireCustomerAuth, async (req, res) => {
+    try {
+      const template = await storage.getOrderTemplateById(req.params.templateId);
+      if (!template || template.userId !== (req as any).userId) {
+        return res.status(404).json({ message: "Basket not found" });
+      }
+
+      await storage.deleteOrderTemplate(template.id);
+      res.json({ success: true, message: `Deleted basket "${template.name}"` });
+    } catch (error) {
+      console.error('❌ Delete order template error:', error);
+      res.status(500).json({
+        message: "Failed to delete basket",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Standing orders - a basket placed automatically every week, fortnight or month
+  const standingOrderEditableFields = (standingOrder: StandingOrder) => ({
+    name: standingOrder.name,
+    cadence: standingOrder.cadence,
+    nextRunAt: standingOrder.nextRunAt,
+    items: standingOrder.items,
+    paymentMethod: standingOrder.paymentMethod,
+    paymentPhone: standingOrder.paymentPhone,
+    paymentNetwork: standingOrder.paymentNetwork,
+    deliveryOption: standingOrder.deliveryOption,
+    deliveryArea: standingOrder.deliveryArea,
+    customerAddress: standingOrder.customerAddress,
+  });
+
+  // Validates a new schedule, or an edit merged over the stored one. Sends the 400 and returns null when invalid.
+  const parseStandingOrderRequest = (req: Request, res: Response, current?: StandingOrder) => {
+    const parsed = insertStandingOrderSchema.safeParse(
+      current ? { ...standingOrderEditableFields(current), ...req.body } : req.body
+    );
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid standing order", error: parsed.error.errors });
+      return null;
+    }
+
+    const nextRunChosen = !current || req.body?.nextRunAt !== undefined;
+    if (nextRunChosen && parsed.data.nextRunAt.getTime() <= Date.now()) {
+      res.status(400).json({ message: "The next order date must be in the future" });
+      return null;
+    }
+
+    const paysOnline = parsed.data.paymentMethod === "online_now";
+    const paymentPhone = paysOnline ? normalizeMobileMoneyPhone(parsed.data.paymentPhone || "") : null;
+    if (paysOnline && !paymentPhone) {
+      res.status(400).json({ message: "Enter a valid Tanzanian mobile money number, e.g. 0712 345 678" });
+      return null;
+    }
+
+    return {
+      ...parsed.data,
+      paymentPhone,
+      paymentNetwork: paysOnline ? parsed.data.paymentNetwork ?? null : null,
+      deliveryArea: parsed.data.deliveryOption === "delivery" ? parsed.data.deliveryArea ?? null : null,
+      customerAddress: parsed.data.customerAddress ?? "",
+      // Monthly runs stay on the day of month the customer picked
+      runDayOfMonth: nextRunChosen ? parsed.data.nextRunAt.getDate() : current!.runDayOfMonth,
+    };
+  };
+
+  const updateStandingOrderHandler = async (req: Request, res: Response, standingOrder: StandingOrder) => {
+    const values = parseStandingOrderRequest(req, res, standingOrder);
+    if (!values) {
+      return;
+    }
+
+    const updatedStandingOrder = await storage.updateStandingOrder(standingOrder.id, values);
+    if (!updatedStandingOrder) {
+      return res.status(404).json({ message: "Standing order not found" });
+    }
+    res.json({ success: true, message: `Updated standing order "${updatedStandingOrder.name}"`, standingOrder: updatedStandingOrder });
+  };
+
+  const standingOrderActionHandler = async (req: Request, res: Response, standingOrder: StandingOrder) => {
+    const action = req.params.action as StandingOrderAction;
+    if (!STANDING_ORDER_ACTION_VALUES.includes(action)) {
+      return res.status(400).json({ message: `Unknown standing order action "${req.params.action}"` });
+    }
+
+    const result = await applyStandingOrderAction(standingOrder, action);
+    if (!result.applied) {
+      return res.status(result.statusCode).json({ message: result.message });
+    }
+
+    const actionMessages: Record<StandingOrderAction, string> = {
+      pause: "Paused",
+      resume: "Resumed",
+      skip: "Skipped the next order for",
+    };
+    res.json({
+      success: true,
+      message: `${actionMessages[action]} "${result.standingOrder.name}"`,
+      standingOrder: result.standingOrder,
+    });
+  };
+
+  const sendStandingOrderError = (res: Response, message: string, error: unknown) => {
+    console.error(`❌ ${message}:`, error);
+    res.status(500).json({
+      message,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  };
+
+  // Loads a schedule owned by the signed-in customer, or sends a 404.
+  const getOwnStandingOrder = async (req: Request, res: Response) => {
+    const standingOrder = await storage.getStandingOrderById(req.params.standingOrderId);
+    if (!standingOrder || standingOrder.userId !== (req as any).userId) {
+      res.status(404).json({ message: "Standing order not found" });
+      return null;
+    }
+    return standingOrder;
+  };
+
+  app.get("/api/standing-orders", requireCustomerAuth, async (req, res) => {
+    try {
+      res.json(await storage.getStandingOrdersByUserId((req as any).userId));
+    } catch (error) {
+      sendStandingOrderError(res, "Failed to fetch standing orders", error);
+    }
+  });
+
+  app.post("/api/standing-orders", requireCustomerAuth, async (req, res) => {
+    try {
+      const values = parseStandingOrderRequest(req, res);
+      if (!values) {
+        return;
+      }
+
+      const userMetadata = (req as any).userMetadata || {};
+      const customerEmail = String((req as any).userEmail || "");
+      const customerPhone = String(userMetadata.phone || "").trim();
+      if (!customerPhone) {
+        return res.status(400).json({ message: "Add a phone number to your account before setting up a standing order" });
+      }
+
+      const standingOrder = await storage.createStandingOrder({
+        ...values,
+        userId: (req as any).userId,
+        customerName: String(userMetadata.name || userMetadata.company_name || customerEmail.split("@")[0]),
+        customerEmail,
+        customerPhone,
+        customerCompany: String(userMetadata.company_name || userMetadata.name || ""),
+        customerAddress: values.customerAddress || String(userMetadata.address || ""),
+      });
+      res.status(201).json({ success: true, message: `Created standing order "${standingOrder.name}"`, standingOrder });
+    } catch (error) {
+      sendStandingOrderError(res, "Failed to create standing order", error);
+    }
+  });
+
+  app.patch("/api/standing-orders/:standingOrderId", requireCustomerAuth, async (req, res) => {
+    try {
+      const standingOrder = await getOwnStandingOrder(req, res);
+      if (standingOrder) {
+        await updateStandingOrderHandler(req, res, standingOrder);
+      }
+    } catch (error) {
+      sendStandingOrderError(res, "Failed to update standing order", error);
+    }
+  });
+
+  app.delete("/api/standing-orders/:standingOrderId", requireCustomerAuth, async (req, res) => {
+    try {
+      const standingOrder = await getOwnStandingOrder(req, res);
+      if (!standingOrder) {
+        return;
+      }
+
+      await storage.deleteStandingOrder(standingOrder.id);
+      res.json({ success: true, message: `Deleted standing order "${standingOrder.name}"` });
+    } catch (error) {
+      sendStandingOrderError(res, "Failed to delete standing order", error);
+    }
+  });
+
+  app.post("/api/standing-orders/:standingOrderId/:action", requireCustomerAuth, async (req, res) => {
+    try {
+      const standingOrder = await getOwnStandingOrder(req, res);
+      if (standingOrder) {
+        await standingOrderActionHandler(req, res, standingOrder);
+      }
+    } catch (error) {
+      sendStandingOrderError(res, "Failed to update standing order", error);
+    }
+  });
+
+  app.get("/api/admin/standing-orders", requireAdminAuth, async (req, res) => {
+    try {
+      res.json(await storage.getAllStandingOrders());
+    } catch (error) {
+      sendStandingOrderError(res, "Failed to fetch standing orders", error);
+    }
+  });
+
+  app.patch("/api/admin/standing-orders/:standingOrderId", requireAdminAuth, async (req, res) => {
+    try {
+      const standingOrder = await storage.getStandingOrderById(req.params.standingOrderId);
+      if (!standingOrder) {
+        return res.status(404).json({ message: "Standing order not found" });
+      }
+      await updateStandingOrderHandler(req, res, standingOrder);
+    } catch (error) {
+      sendStandingOrderError(res, "Failed to update standing order", error);
+    }
+  });
+
+  app.post("/api/admin/standing-orders/:standingOrderId/:action", requireAdminAuth, async (req, res) => {
+    try {
+      const standingOrder = await storage.getStandingOrderById(req.params.standingOrderId);
+      if (!standingOrder) {
+        return res.status(404).json({ message: "Standing order not found" });
+      }
+      await standingOrderActionHandler(req, res, standingOrder);
+    } catch (error) {
+      sendStandingOrderError(res, "Failed to update standing order", error);
+    }
+  });
+
+  // Get all orders (admin only) - shows customer information for order attribution
+  app.get("/api/orders", requireAdminAuth, async (req, res) => {
+    try {
+      const orders = await storage.getAllOrdersWithLines();
+      console.log(`📦 Admin fetched ${orders.length} orders with customer information`);
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch all orders", error });
+    }
+  });
+
+  app.get("/api/admin/orders", requireAdminAuth, async (req, res) => {
+    try {
+      const orders = await storage.getAllOrdersWithLines();
+      console.log(`📦 Admin fetched ${orders.length} orders from /api/admin/orders`);
       res.json(orders);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch all orders", error });
@@ -2326,6 +3399,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Order not found" });
       }
 
+      if (isOrderAwaitingPayment(order)) {
+        return res.status(409).json({
+          message: `Order ${order.orderNumber} is awaiting online payment and cannot be sent to eCount yet`
+        });
+      }
+
+      if (isOrderBackordered(order)) {
+        return res.status(409).json({
+          message: `Order ${order.orderNumber} is backordered and goes to eCount once its stock arrives`
+        });
+      }
+
+      if (order.status === 'cancelled' && order.erpSyncStatus !== 'synced') {
+        return res.status(409).json({
+          message: `Order ${order.orderNumber} was cancelled before reaching eCount and will not be sent`
+        });
+      }
+
       if (order.erpSyncStatus === 'synced') {
         return res.json({
           success: true,
@@ -2339,6 +3430,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      await recordOrderEvent(order.id, "admin_action", getRequestActor(req), { message: "Requested manual eCount sync" });
+
       if (isExternalOrderSyncEnabled()) {
         const externalResult = await queueAndStartExternalEcountSync(order, "admin:single-order-sync");
 
@@ -2356,57 +3449,307 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const syncPromise = syncOrderToEcount(order);
-      const syncResult = await withTimeout(syncPromise, sanitizePositiveInt(ORDER_SYNC_TIMEOUT_MS, 12000));
+      const syncPromise = runOrderSyncJob(order, "admin:single-order-sync");
+      const syncResult = await withTimeout(syncPromise, sanitizePositiveInt(ORDER_SYNC_TIMEOUT_MS, 12000));
+
+      if (isTimeoutResult(syncResult)) {
+        syncPromise.catch((error) => {
+          console.error(`❌ Admin ERP sync failed after timeout for order ${order.id}:`, error);
+        });
+
+        const updatedOrder = await storage.getOrderById(order.id);
+
+        return res.status(202).json({
+          success: true,
+          queued: true,
+          message: `Order ${order.orderNumber} ERP sync is still running in the background. Refresh orders in a minute for the result.`,
+          order: updatedOrder || order,
+          erp: {
+            docNumber: updatedOrder?.erpDocNumber || order.erpDocNumber || null,
+            ioDate: updatedOrder?.erpIoDate || order.erpIoDate || null,
+            syncStatus: updatedOrder?.erpSyncStatus || order.erpSyncStatus || 'pending'
+          }
+        });
+      }
+
+      if (!syncResult) {
+        return res.status(409).json({
+          success: false,
+          message: `Order ${order.orderNumber} is already being synced by another runner. Refresh orders in a minute for the result.`
+        });
+      }
+
+      res.json({
+        success: true,
+        message: "Order successfully synced to eCount ERP",
+        order: syncResult.updatedOrder,
+        erp: syncResult.erp
+      });
+    } catch (error) {
+      const orderId = req.params.orderId;
+      const message = error instanceof Error ? error.message : 'Unknown ERP error';
+
+      console.error(`❌ Admin ERP sync failed for order ${orderId}:`, error);
+
+      res.status(502).json({
+        success: false,
+        message: "Failed to sync order to eCount ERP",
+        error: message,
+      });
+    }
+  });
+
+  // Sync jobs: the eCount order queue, including dead-lettered jobs that ran out of attempts
+  app.get("/api/admin/sync-jobs", requireAdminAuth, async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : "";
+      if (status && status !== "all" && !isSyncJobStatus(status)) {
+        return res.status(400).json({ message: `Unknown sync job status ${status}` });
+      }
+
+      const jobs = await storage.getSyncJobs(isSyncJobStatus(status) ? { statuses: [status] } : {});
+      const jobsWithOrders = await Promise.all(jobs.map(async (job) => {
+        const order = job.jobType === ECOUNT_ORDER_SYNC_JOB ? await storage.getOrderById(job.subjectId) : undefined;
+        return {
+          ...job,
+          orderNumber: order?.orderNumber ?? null,
+          customerName: order ? order.customerCompany || order.customerName : null,
+          erpSyncStatus: order?.erpSyncStatus ?? null,
+        };
+      }));
+      res.json(jobsWithOrders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sync jobs", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/admin/sync-jobs/:jobId/requeue", requireAdminAuth, async (req, res) => {
+    try {
+      const job = await storage.getSyncJobById(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Sync job not found" });
+      }
+
+      const order = job.jobType === ECOUNT_ORDER_SYNC_JOB ? await storage.getOrderById(job.subjectId) : undefined;
+      if (job.jobType === ECOUNT_ORDER_SYNC_JOB) {
+        if (!order) {
+          return res.status(409).json({ message: "The order for this job no longer exists" });
+        }
+        if (order.erpSyncStatus === 'synced') {
+          return res.status(409).json({ message: `Order ${order.orderNumber} is already in eCount as ${order.erpDocNumber}` });
+        }
+        if (order.status === 'cancelled') {
+          return res.status(409).json({ message: `Order ${order.orderNumber} was cancelled and will not be sent to eCount` });
+        }
+      }
+
+      if (!LIVE_SYNC_JOB_STATUSES.includes(job.status as SyncJobStatus)) {
+        const [liveJob] = await storage.getSyncJobs({ jobType: job.jobType, subjectId: job.subjectId, statuses: LIVE_SYNC_JOB_STATUSES, limit: 1 });
+        if (liveJob) {
+          return res.status(409).json({ message: "A newer job for the same order is already queued" });
+        }
+      }
+
+      const requeuedJob = await storage.requeueSyncJob(job.id);
+      if (!requeuedJob) {
+        return res.status(409).json({ message: "Running jobs cannot be requeued; wait for the current attempt to finish" });
+      }
+
+      if (order) {
+        const pendingOrder = await storage.updateOrderErpInfo(order.id, { erpSyncStatus: 'pending', erpSyncError: null, erpNextSyncAttemptAt: null });
+        await recordOrderEvent(order.id, "admin_action", getRequestActor(req), { message: "Requeued the eCount sync job" });
+        scheduleOrderEcountSync(pendingOrder, "admin:sync-job-requeue");
+      }
+
+      res.json({ success: true, message: `Sync job requeued${order ? ` for order ${order.orderNumber}` : ""}`, job: requeuedJob });
+    } catch (error) {
+      console.error('❌ Requeue sync job error:', error);
+      res.status(500).json({ message: "Failed to requeue sync job", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Discarded order jobs leave the order as it is in eCount terms; nothing retries it until requeued.
+  app.post("/api/admin/sync-jobs/:jobId/discard", requireAdminAuth, async (req, res) => {
+    try {
+      const job = await storage.getSyncJobById(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Sync job not found" });
+      }
+
+      const discardedJob = await storage.discardSyncJob(job.id);
+      if (!discardedJob) {
+        return res.status(409).json({ message: "Only queued or dead-lettered jobs can be discarded" });
+      }
+
+      if (job.jobType === ECOUNT_ORDER_SYNC_JOB && await storage.getOrderById(job.subjectId)) {
+        await storage.updateOrderErpInfo(job.subjectId, { erpNextSyncAttemptAt: null });
+        await recordOrderEvent(job.subjectId, "admin_action", getRequestActor(req), { message: "Discarded the eCount sync job" });
+      }
+
+      res.json({ success: true, message: "Sync job discarded", job: discardedJob });
+    } catch (error) {
+      console.error('❌ Discard sync job error:', error);
+      res.status(500).json({ message: "Failed to discard sync job", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // ERP reconciliation: runs list without their issues; open a run for its full report
+  app.get("/api/admin/erp-reconciliation", requireAdminAuth, async (_req, res) => {
+    try {
+      const runs = await storage.getErpReconciliationRuns();
+      res.json(runs.map(({ issues: _issues, ...run }) => run));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch ERP reconciliation runs", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.get("/api/admin/erp-reconciliation/:runId", requireAdminAuth, async (req, res) => {
+    try {
+      const run = await storage.getErpReconciliationRunById(req.params.runId);
+      if (!run) {
+        return res.status(404).json({ message: "Reconciliation run not found" });
+      }
+      res.json(run);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch ERP reconciliation run", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/admin/erp-reconciliation", requireAdminAuth, async (req, res) => {
+    try {
+      const parsed = erpReconciliationRequestSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid reconciliation period", error: parsed.error.errors });
+      }
+
+      const actor = getRequestActor(req);
+      const run = await runErpReconciliation(parsed.data, actor.email || actor.id || "admin");
+      if (run.status !== "completed") {
+        return res.status(502).json({ message: "Could not reconcile against eCount", error: run.error || 'Unknown error', run });
+      }
+
+      res.json(run);
+    } catch (error) {
+      console.error('❌ ERP reconciliation error:', error);
+      res.status(500).json({ message: "Failed to run ERP reconciliation", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Reorder points per product or category; products without one use the default
+  app.get("/api/admin/stock-thresholds", requireAdminAuth, async (_req, res) => {
+    try {
+      res.json(await storage.getStockThresholds());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch stock thresholds", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put("/api/admin/stock-thresholds", requireAdminAuth, async (req, res) => {
+    try {
+      const parsed = stockThresholdSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid stock threshold", error: parsed.error.errors });
+      }
+
+      const threshold = await storage.upsertStockThreshold(normalizeStockThreshold(parsed.data));
+      invalidateStockThresholdCache();
+      res.json({ success: true, message: `Reorder point for ${threshold.target} set to ${threshold.reorderPoint}`, threshold });
+    } catch (error) {
+      console.error('❌ Save stock threshold error:', error);
+      res.status(500).json({ message: "Failed to save stock threshold", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.delete("/api/admin/stock-thresholds/:thresholdId", requireAdminAuth, async (req, res) => {
+    try {
+      const deleted = await storage.deleteStockThreshold(req.params.thresholdId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Stock threshold not found" });
+      }
+
+      invalidateStockThresholdCache();
+      res.json({ success: true, message: "Stock threshold deleted" });
+    } catch (error) {
+      console.error('❌ Delete stock threshold error:', error);
+      res.status(500).json({ message: "Failed to delete stock threshold", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/admin/stock-alerts/run", requireAdminAuth, async (_req, res) => {
+    try {
+      res.json(await runStockAlertCheck());
+    } catch (error) {
+      console.error('❌ Stock alert check error:', error);
+      res.status(500).json({ message: "Failed to run stock alert check", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
 
-      if (isTimeoutResult(syncResult)) {
-        syncPromise.catch(async (error) => {
-          console.error(`❌ Admin ERP sync failed after timeout for order ${order.id}:`, error);
-          try {
-            await markOrderEcountSyncFailed(order.id, error);
-          } catch (updateError) {
-            console.error('Failed to update order error status after timeout:', updateError);
-          }
-        });
+  // Stock movement from the saved inventory snapshots; pass productCode for its stock over time
+  app.get("/api/admin/inventory-report", requireAdminAuth, async (req, res) => {
+    try {
+      const productCode = typeof req.query.productCode === "string" ? req.query.productCode : null;
+      res.json(await buildInventoryReport({ days: Number(req.query.days) || undefined, productCode }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build inventory report", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
 
-        const updatedOrder = await storage.getOrderById(order.id);
+  // Products that may be ordered beyond stock, with the date the next delivery is expected
+  app.get("/api/admin/backorder-products", requireAdminAuth, async (_req, res) => {
+    try {
+      res.json(await storage.getBackorderProducts());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch backorder products", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
 
-        return res.status(202).json({
-          success: true,
-          queued: true,
-          message: `Order ${order.orderNumber} ERP sync is still running in the background. Refresh orders in a minute for the result.`,
-          order: updatedOrder || order,
-          erp: {
-            docNumber: updatedOrder?.erpDocNumber || order.erpDocNumber || null,
-            ioDate: updatedOrder?.erpIoDate || order.erpIoDate || null,
-            syncStatus: updatedOrder?.erpSyncStatus || order.erpSyncStatus || 'pending'
-          }
-        });
+  app.put("/api/admin/backorder-products", requireAdminAuth, async (req, res) => {
+    try {
+      const parsed = backorderProductSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid backorder product", error: parsed.error.errors });
       }
 
+      const product = await storage.upsertBackorderProduct(toBackorderProduct(parsed.data));
+      invalidateBackorderProductCache();
       res.json({
         success: true,
-        message: "Order successfully synced to eCount ERP",
-        order: syncResult.updatedOrder,
-        erp: syncResult.erp
+        message: `${product.productCode} can be backordered, expected ${formatExpectedArrival(product.expectedArrivalAt)}`,
+        product,
       });
     } catch (error) {
-      const orderId = req.params.orderId;
-      const message = error instanceof Error ? error.message : 'Unknown ERP error';
-
-      console.error(`❌ Admin ERP sync failed for order ${orderId}:`, error);
+      console.error('❌ Save backorder product error:', error);
+      res.status(500).json({ message: "Failed to save backorder product", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
 
-      try {
-        await markOrderEcountSyncFailed(orderId, error);
-      } catch (updateError) {
-        console.error('Failed to update order error status:', updateError);
+  // Orders already on backorder keep waiting; only new orders are held to stock on hand.
+  app.delete("/api/admin/backorder-products/:productCode", requireAdminAuth, async (req, res) => {
+    try {
+      const deleted = await storage.deleteBackorderProduct(normalizeProductCode(req.params.productCode));
+      if (!deleted) {
+        return res.status(404).json({ message: "Backorder product not found" });
       }
 
-      res.status(502).json({
-        success: false,
-        message: "Failed to sync order to eCount ERP",
-        error: message,
+      invalidateBackorderProductCache();
+      res.json({ success: true, message: "Product can no longer be backordered" });
+    } catch (error) {
+      console.error('❌ Delete backorder product error:', error);
+      res.status(500).json({ message: "Failed to delete backorder product", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/admin/backorders/release", requireAdminAuth, async (_req, res) => {
+    try {
+      const backorders = await releaseBackordersAndSync("admin:backorder-release");
+      res.json({
+        success: true,
+        message: `${backorders.released.length} backordered order(s) released, ${backorders.waiting} still waiting for stock`,
+        data: backorders,
       });
+    } catch (error) {
+      console.error('❌ Backorder release error:', error);
+      res.status(500).json({ message: "Failed to release backorders", error: error instanceof Error ? error.message : 'Unknown error' });
     }
   });
 
@@ -2428,11 +3771,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       console.log(`✅ Found ${users.length} users in Supabase Auth`);
+      const ecountAccounts = new Map(
+        (await storage.getAllCustomerEcountAccounts()).map((account) => [account.userId, account])
+      );
       
       // Transform Supabase users to match expected format
       const safeUsers = users.map(user => {
         // Get user metadata (name, phone, address, user_type, brela_number, tin_number from registration)
         const metadata = user.user_metadata || {};
+        const ecountAccount = ecountAccounts.get(user.id);
         
         return {
           id: user.id,
@@ -2445,6 +3792,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           address: metadata.address || '',
           brelaNumber: metadata.brela_number || '',
           tinNumber: metadata.tin_number || '',
+          ecountCustCode: ecountAccount?.custCode || '',
+          ecountCustName: ecountAccount?.custName || '',
           emailConfirmed: user.email_confirmed_at ? true : false,
           lastSignIn: user.last_sign_in_at ? new Date(user.last_sign_in_at) : null
         };
@@ -2541,6 +3890,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     console.log(`✅ User approved successfully: ${data.user.email}`);
+    runBackgroundTask(`eCount customer for ${data.user.email}`, async () => {
+      await ensureEcountCustomerOnApproval(data.user);
+    });
     res.json({ success: true, message: "User approved successfully", user: data.user });
   };
 
@@ -2653,6 +4005,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Link a customer account to their eCount customer record (admin only); null unlinks it
+  app.put("/api/admin/users/:userId/ecount-customer", requireAdminAuth, async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const parsed = customerEcountAccountSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid eCount customer code", error: parsed.error.errors });
+      }
+
+      if (!parsed.data.custCode) {
+        await storage.deleteCustomerEcountAccount(userId);
+        console.log(`🔗 Admin unlinked eCount customer for user ${userId}`);
+        return res.json({ success: true, message: "eCount customer unlinked", account: null });
+      }
+
+      const result = await linkEcountCustomer(userId, parsed.data.custCode);
+      if (!result.linked) {
+        return res.status(result.statusCode).json({ message: result.message });
+      }
+
+      console.log(`🔗 Admin linked user ${userId} to eCount customer ${result.account.custCode}`);
+      res.json({ success: true, message: `Linked to eCount customer ${result.account.custCode}`, account: result.account });
+    } catch (error) {
+      console.error('❌ Link eCount customer error:', error);
+      res.status(500).json({ message: "Failed to link eCount customer", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
   // Delete order (admin only)
   app.delete("/api/admin/orders/:orderId", requireAdminAuth, async (req, res) => {
     try {
@@ -2685,7 +4065,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const updatedOrder = await storage.updateOrderStatus(orderId, status);
+      const note = typeof req.body?.note === "string" ? req.body.note.trim().slice(0, 500) : "";
+
+      // An admin releasing a backorder by hand has the stock in hand, so the snapshot is not checked.
+      const currentOrder = await storage.getOrderById(orderId);
+      if (currentOrder && isOrderBackordered(currentOrder) && (status === "processing" || status === "awaiting_payment")) {
+        const activation = await activateBackorderedOrder(currentOrder, {
+          availableByCode: null,
+          actor: getRequestActor(req),
+          toStatus: status,
+          message: note || null,
+        });
+        if (!activation.activated) {
+          return res.status(activation.statusCode).json({ message: activation.message });
+        }
+        if (!isOrderAwaitingPayment(activation.order)) {
+          scheduleOrderEcountSync(activation.order, "admin:backorder-release");
+        }
+        return res.json({ success: true, message: `Order marked as ${status}`, order: activation.order });
+      }
+
+      // Only an approved cancellation posts the reversing sale order; cancelling here would leave eCount's one standing.
+      if (currentOrder && status === "cancelled" && currentOrder.status !== "cancelled" && currentOrder.erpSyncStatus === 'synced') {
+        return res.status(409).json({
+          message: `Order ${currentOrder.orderNumber} is already in eCount (${currentOrder.erpDocNumber || "sale order"}). Approve a cancellation request for it instead so the eCount sale order is reversed.`,
+        });
+      }
+
+      const transition = await transitionOrderStatus(orderId, status, getRequestActor(req), note || null);
+      if (!transition.transitioned) {
+        return res.status(transition.statusCode).json({
+          message: transition.message,
+          allowedStatuses: transition.allowedStatuses,
+        });
+      }
+
+      let updatedOrder = transition.order;
+      if (!transition.changed) {
+        return res.json({ success: true, message: `Order is already ${status}`, order: updatedOrder });
+      }
+
+      if (status === "cancelled") {
+        updatedOrder = await releaseCancelledOrder(updatedOrder);
+      }
+
+      // Confirming an unpaid online order by hand (e.g. bank transfer) releases it to eCount.
+      if (isOrderAwaitingPayment({ status: transition.previousStatus }) && status !== "cancelled") {
+        updatedOrder = await storage.updateOrderErpInfo(orderId, { erpSyncStatus: 'pending', erpSyncError: null });
+        scheduleOrderEcountSync(updatedOrder, "admin:payment-confirmed");
+      }
 
       res.json({
         success: true,
@@ -2700,6 +4128,295 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/admin/orders/:orderId/cancellation/:decision", requireAdminAuth, async (req, res) => {
+    try {
+      const { decision } = req.params;
+      if (decision !== "approve" && decision !== "reject") {
+        return res.status(400).json({ message: "Decision must be approve or reject" });
+      }
+
+      const order = await storage.getOrderById(req.params.orderId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const note = typeof req.body?.note === "string" ? req.body.note.trim().slice(0, 500) : "";
+      const result = decision === "approve"
+        ? await approveOrderCancellation(order, getRequestActor(req), buildOrderEcountUserProfile(order))
+        : await rejectOrderCancellation(order, getRequestActor(req), note);
+      if (!result.reviewed) {
+        return res.status(result.statusCode).json({ message: result.message });
+      }
+
+      res.json({
+        success: true,
+        message: decision === "approve"
+          ? `Order ${order.orderNumber} cancelled and reversed in eCount`
+          : `Cancellation request for ${order.orderNumber} declined`,
+        order: result.order,
+      });
+    } catch (error) {
+      console.error('❌ Failed to review order cancellation:', error);
+      res.status(500).json({
+        message: "Failed to review cancellation request",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.get("/api/admin/delivery-zones", requireAdminAuth, async (_req, res) => {
+    try {
+      const zones = await storage.getDeliveryZones({ includeInactive: true });
+      res.json(zones);
+    } catch (error) {
+      console.error('❌ Admin delivery zones error:', error);
+      res.status(500).json({ message: "Failed to fetch delivery zones", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/admin/delivery-zones", requireAdminAuth, async (req, res) => {
+    try {
+      const parsed = insertDeliveryZoneSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid delivery zone", error: parsed.error.errors });
+      }
+
+      const zone = await storage.createDeliveryZone(parsed.data);
+      invalidateDeliveryZonesCache();
+      res.status(201).json({ success: true, message: `Delivery zone ${zone.name} created`, zone });
+    } catch (error) {
+      console.error('❌ Create delivery zone error:', error);
+      res.status(500).json({ message: "Failed to create delivery zone", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.patch("/api/admin/delivery-zones/:zoneId", requireAdminAuth, async (req, res) => {
+    try {
+      const parsed = updateDeliveryZoneSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid delivery zone", error: parsed.error.errors });
+      }
+
+      const zone = await storage.updateDeliveryZone(req.params.zoneId, parsed.data);
+      if (!zone) {
+        return res.status(404).json({ message: "Delivery zone not found" });
+      }
+
+      invalidateDeliveryZonesCache();
+      res.json({ success: true, message: `Delivery zone ${zone.name} updated`, zone });
+    } catch (error) {
+      console.error('❌ Update delivery zone error:', error);
+      res.status(500).json({ message: "Failed to update delivery zone", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Orders keep the zone code, so retired zones are normally deactivated rather than deleted.
+  app.delete("/api/admin/delivery-zones/:zoneId", requireAdminAuth, async (req, res) => {
+    try {
+      const deleted = await storage.deleteDeliveryZone(req.params.zoneId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Delivery zone not found" });
+      }
+
+      invalidateDeliveryZonesCache();
+      res.json({ success: true, message: "Delivery zone deleted" });
+    } catch (error) {
+      console.error('❌ Delete delivery zone error:', error);
+      res.status(500).json({ message: "Failed to delete delivery zone", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Price lists - contract prices for a customer or customer group
+  const findPriceListConflict = (priceLists: PriceList[], updates: UpdatePriceList, excludeId?: string) => {
+    const others = priceLists.filter((priceList) => priceList.id !== excludeId);
+    if (updates.name && others.some((priceList) => priceList.name.toLowerCase() === updates.name!.toLowerCase())) {
+      return `A price list named "${updates.name}" already exists`;
+    }
+    if (updates.customerGroup && others.some((priceList) => priceList.customerGroup === updates.customerGroup)) {
+      return `Customer group "${updates.customerGroup}" already has a price list`;
+    }
+    return null;
+  };
+
+  app.get("/api/admin/price-lists", requireAdminAuth, async (_req, res) => {
+    try {
+      res.json(await storage.getPriceLists());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch price lists", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/admin/price-lists", requireAdminAuth, async (req, res) => {
+    try {
+      const parsed = insertPriceListSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid price list", error: parsed.error.errors });
+      }
+
+      const conflict = findPriceListConflict(await storage.getPriceLists(), parsed.data);
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+
+      const priceList = await storage.createPriceList(parsed.data);
+      invalidateCustomerPriceListCache();
+      res.status(201).json({ success: true, message: `Price list ${priceList.name} created`, priceList });
+    } catch (error) {
+      console.error('❌ Create price list error:', error);
+      res.status(500).json({ message: "Failed to create price list", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.patch("/api/admin/price-lists/:priceListId", requireAdminAuth, async (req, res) => {
+    try {
+      const parsed = updatePriceListSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid price list", error: parsed.error.errors });
+      }
+
+      const conflict = findPriceListConflict(await storage.getPriceLists(), parsed.data, req.params.priceListId);
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+
+      const priceList = await storage.updatePriceList(req.params.priceListId, parsed.data);
+      if (!priceList) {
+        return res.status(404).json({ message: "Price list not found" });
+      }
+
+      invalidateCustomerPriceListCache();
+      res.json({ success: true, message: `Price list ${priceList.name} updated`, priceList });
+    } catch (error) {
+      console.error('❌ Update price list error:', error);
+      res.status(500).json({ message: "Failed to update price list", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Customers assigned to a deleted list fall back to their group's list or catalogue prices.
+  app.delete("/api/admin/price-lists/:priceListId", requireAdminAuth, async (req, res) => {
+    try {
+      const deleted = await storage.deletePriceList(req.params.priceListId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Price list not found" });
+      }
+
+      invalidateCustomerPriceListCache();
+      res.json({ success: true, message: "Price list deleted" });
+    } catch (error) {
+      console.error('❌ Delete price list error:', error);
+      res.status(500).json({ message: "Failed to delete price list", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  const findCouponCodeConflict = (rules: DiscountRule[], rule: InsertDiscountRule, excludeId?: string) =>
+    rule.type === "coupon" && rule.couponCode && rules.some((existing) => existing.id !== excludeId && existing.couponCode === rule.couponCode)
+      ? `Coupon code ${rule.couponCode} already exists`
+      : null;
+
+  app.get("/api/admin/discount-rules", requireAdminAuth, async (_req, res) => {
+    try {
+      res.json(await storage.getDiscountRules());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch discount rules", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/admin/discount-rules", requireAdminAuth, async (req, res) => {
+    try {
+      const parsed = insertDiscountRuleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid discount rule", error: parsed.error.errors });
+      }
+
+      const conflict = findCouponCodeConflict(await storage.getDiscountRules(), parsed.data);
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+
+      const rule = await storage.createDiscountRule(parsed.data);
+      invalidateDiscountRulesCache();
+      res.status(201).json({ success: true, message: `Discount ${rule.name} created`, rule });
+    } catch (error) {
+      console.error('❌ Create discount rule error:', error);
+      res.status(500).json({ message: "Failed to create discount rule", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Partial updates are merged onto the stored rule and validated as a whole.
+  app.patch("/api/admin/discount-rules/:ruleId", requireAdminAuth, async (req, res) => {
+    try {
+      const existing = await storage.getDiscountRuleById(req.params.ruleId);
+      if (!existing) {
+        return res.status(404).json({ message: "Discount rule not found" });
+      }
+
+      const parsed = insertDiscountRuleSchema.safeParse({ ...toDiscountRuleInput(existing), ...req.body });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid discount rule", error: parsed.error.errors });
+      }
+
+      const conflict = findCouponCodeConflict(await storage.getDiscountRules(), parsed.data, existing.id);
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+
+      const rule = await storage.updateDiscountRule(existing.id, parsed.data);
+      if (!rule) {
+        return res.status(404).json({ message: "Discount rule not found" });
+      }
+
+      invalidateDiscountRulesCache();
+      res.json({ success: true, message: `Discount ${rule.name} updated`, rule });
+    } catch (error) {
+      console.error('❌ Update discount rule error:', error);
+      res.status(500).json({ message: "Failed to update discount rule", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Orders already placed keep the discounts stored on their lines.
+  app.delete("/api/admin/discount-rules/:ruleId", requireAdminAuth, async (req, res) => {
+    try {
+      const deleted = await storage.deleteDiscountRule(req.params.ruleId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Discount rule not found" });
+      }
+
+      invalidateDiscountRulesCache();
+      res.json({ success: true, message: "Discount rule deleted" });
+    } catch (error) {
+      console.error('❌ Delete discount rule error:', error);
+      res.status(500).json({ message: "Failed to delete discount rule", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.get("/api/admin/customer-pricing", requireAdminAuth, async (_req, res) => {
+    try {
+      res.json(await storage.getAllCustomerPricing());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch customer pricing", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put("/api/admin/customer-pricing/:userId", requireAdminAuth, async (req, res) => {
+    try {
+      const parsed = customerPricingSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid customer pricing", error: parsed.error.errors });
+      }
+
+      if (parsed.data.priceListId && !(await storage.getPriceListById(parsed.data.priceListId))) {
+        return res.status(404).json({ message: "Price list not found" });
+      }
+
+      const pricing = await storage.setCustomerPricing(req.params.userId, parsed.data);
+      invalidateCustomerPriceListCache();
+      res.json({ success: true, message: "Customer pricing updated", pricing });
+    } catch (error) {
+      console.error('❌ Update customer pricing error:', error);
+      res.status(500).json({ message: "Failed to update customer pricing", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
   app.get("/api/admin/inventory", requireAdminAuth, async (req, res) => {
     try {
       const inventory = await storage.getAllInventory();
@@ -2858,6 +4575,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       console.log('Admin initiated bulk inventory sync');
       const result = await ecountApi.bulkSyncInventory();
+      // The sync already succeeded; a failed release or notification run is retried after the next refresh
+      const backorders = await releaseBackordersAndSync("backorder:release").catch((error) => {
+        console.error('❌ Backorder release after inventory sync failed:', error);
+        return null;
+      });
+      const backInStock = await notifyBackInStockSubscribers().catch((error) => {
+        console.error('❌ Back-in-stock notifications after inventory sync failed:', error);
+        return null;
+      });
       
       res.json({
         success: true,
@@ -2865,6 +4591,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         data: {
           inventoryCount: result.Data?.Datas?.length || result.Data?.Result?.length || 0,
           status: result.Status,
+          backorders,
+          backInStock,
           timestamp: new Date().toISOString()
         }
       });
@@ -3358,6 +5086,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stock lots: lot numbers and expiry dates per product, imported from the warehouse lot file
+  app.get("/api/admin/stock-lots", requireAdminAuth, async (req, res) => {
+    try {
+      const lots = await storage.getStockLots();
+      const openAllocations = await storage.getOpenLotAllocations();
+      res.json(lots.map((lot): StockLotWithAvailability => {
+        const allocations = openAllocations.filter((allocation) =>
+          allocation.productCode === lot.productCode && allocation.lotNumber === lot.lotNumber);
+        return {
+          ...lot,
+          allocatedQuantity: allocations
+            .filter((allocation) => allocation.status === "allocated")
+            .reduce((sum, allocation) => sum + allocation.quantity, 0),
+          availableQuantity: getLotAvailableQuantity(lot, allocations),
+        };
+      }));
+    } catch (error) {
+      console.error('❌ Failed to fetch stock lots:', error);
+      res.status(500).json({ message: "Failed to fetch stock lots", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/admin/stock-lots/upload", requireAdminAuth, excelUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          message: 'No lot file provided'
+        });
+      }
+
+      const extension = path.extname(req.file.originalname || '').toLowerCase() || '.xlsx';
+      if (!new Set(['.xlsx', '.xls', '.csv']).has(extension)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid file type. Please upload .xlsx, .xls, or .csv'
+        });
+      }
+
+      const result = await importStockLots(req.file.buffer);
+      res.json({
+        success: true,
+        message: `Imported ${result.lots} lots for ${result.products} products`,
+        data: result
+      });
+    } catch (error) {
+      console.error('Failed to import stock lot file:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to import stock lot file',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
   // Force refresh products (emergency restore)
   app.post("/api/admin/force-refresh-products", requireAdminAuth, async (req, res) => {
     try {
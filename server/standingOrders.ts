@@ -0,0 +1,196 @@
+import type { Order, StandingOrder } from "../shared/schema.js";
+import type { MobileMoneyNetwork } from "../shared/payments.js";
+import { isOrderBackordered } from "../shared/backorders.js";
+import {
+  getNextStandingOrderRun,
+  type StandingOrderAction,
+  type StandingOrderCadence,
+} from "../shared/standingOrders.js";
+import type { OrderEventActor } from "./orderLifecycle.js";
+import { placeOrder } from "./orderPlacement.js";
+import { repriceOrderItems } from "./orderRepricing.js";
+import { resolveCustomerPriceList } from "./priceLists.js";
+import { startOrderPayment, type PaymentSettlement } from "./payments.js";
+import { storage } from "./storage.js";
+
+const DEFAULT_STANDING_ORDER_BATCH_SIZE = 25;
+
+// First run after `now`, so a schedule missed while the cron was down places one order, not a backlog.
+export function getUpcomingStandingOrderRun(
+  from: Date | string,
+  cadence: StandingOrderCadence,
+  now = new Date(),
+  runDayOfMonth?: number | null,
+): Date {
+  let next = getNextStandingOrderRun(from, cadence, runDayOfMonth);
+  while (next.getTime() <= now.getTime()) {
+    next = getNextStandingOrderRun(next, cadence, runDayOfMonth);
+  }
+  return next;
+}
+
+const getStandingOrderActor = (standingOrder: StandingOrder): OrderEventActor => ({
+  type: "system",
+  id: `standing-order:${standingOrder.id}`,
+});
+
+export type StandingOrderRunResult =
+  | {
+      standingOrder: StandingOrder;
+      status: "placed";
+      order: Order;
+      // Lines split off to wait for stock, see placeOrder
+      backorder?: Order;
+      paymentSettlement: PaymentSettlement | null;
+      message?: string;
+    }
+  | { standingOrder: StandingOrder; status: "failed"; message: string };
+
+/**
+ * Turn one claimed schedule into a normal order. The basket is quoted at today's prices and then
+ * goes through the same placement path as checkout, so VAT, delivery and stock rules match.
+ */
+async function runStandingOrder(standingOrder: StandingOrder): Promise<StandingOrderRunResult> {
+  const actor = getStandingOrderActor(standingOrder);
+  const quote = await repriceOrderItems(
+    standingOrder.items.map((item) => ({ ...item, price: "0" })),
+    await resolveCustomerPriceList(standingOrder.userId),
+  );
+  if (quote.unpricedProductIds.length > 0) {
+    const unpricedNames = standingOrder.items
+      .filter((item) => quote.unpricedProductIds.includes(item.productId))
+      .map((item) => item.name);
+    return { standingOrder, status: "failed", message: `No longer available to order: ${unpricedNames.join(", ")}` };
+  }
+
+  const placement = await placeOrder(
+    {
+      userId: standingOrder.userId,
+      items: quote.items.map(({ quotedPrice, ...item }) => item),
+      paymentMethod: standingOrder.paymentMethod,
+      deliveryOption: standingOrder.deliveryOption,
+      deliveryArea: standingOrder.deliveryArea,
+      customerName: standingOrder.customerName,
+      customerEmail: standingOrder.customerEmail,
+      customerPhone: standingOrder.customerPhone,
+      customerCompany: standingOrder.customerCompany,
+      customerAddress: standingOrder.customerAddress,
+    },
+    actor,
+  );
+  if (!placement.placed) {
+    return { standingOrder, status: "failed", message: placement.message };
+  }
+
+  const { order } = placement;
+  const backorder = placement.replayed ? undefined : placement.backorder;
+  if (standingOrder.paymentMethod !== "online_now" || !standingOrder.paymentPhone || isOrderBackordered(order)) {
+    return { standingOrder, status: "placed", order, backorder, paymentSettlement: null };
+  }
+
+  const payment = await startOrderPayment(
+    order,
+    { phone: standingOrder.paymentPhone, network: (standingOrder.paymentNetwork as MobileMoneyNetwork | null) ?? undefined },
+    actor,
+  );
+  return payment.started
+    ? { standingOrder, status: "placed", order: payment.settlement.order || order, backorder, paymentSettlement: payment.settlement }
+    : {
+        standingOrder,
+        status: "placed",
+        order,
+        backorder,
+        paymentSettlement: null,
+        message: `Mobile money prompt could not be sent: ${payment.message}`,
+      };
+}
+
+/**
+ * Place every schedule that is due. Each schedule is claimed by moving next_run_at on before the
+ * order is placed, so overlapping cron calls cannot place the same run twice.
+ */
+export async function runDueStandingOrders(now = new Date(), limit = DEFAULT_STANDING_ORDER_BATCH_SIZE) {
+  const dueStandingOrders = await storage.getDueStandingOrders(now, limit);
+  const results: StandingOrderRunResult[] = [];
+
+  for (const dueStandingOrder of dueStandingOrders) {
+    const cadence = dueStandingOrder.cadence as StandingOrderCadence;
+    const claimed = await storage.claimStandingOrderRun(
+      dueStandingOrder.id,
+      new Date(dueStandingOrder.nextRunAt),
+      getUpcomingStandingOrderRun(dueStandingOrder.nextRunAt, cadence, now, dueStandingOrder.runDayOfMonth),
+    );
+    if (!claimed) {
+      continue;
+    }
+
+    let result: StandingOrderRunResult;
+    try {
+      result = await runStandingOrder(claimed);
+    } catch (error) {
+      console.error(`❌ Standing order ${claimed.id} failed:`, error);
+      result = {
+        standingOrder: claimed,
+        status: "failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+
+    const placedMessage = result.status === "placed" ? `Order ${result.order.orderNumber} placed` : "";
+    const updatedStandingOrder = await storage.updateStandingOrder(claimed.id, {
+      lastRunAt: now,
+      lastRunStatus: result.status,
+      lastRunMessage: [placedMessage, result.message].filter(Boolean).join(". "),
+      ...(result.status === "placed" ? { lastOrderId: result.order.id } : {}),
+    });
+    results.push({ ...result, standingOrder: updatedStandingOrder ?? claimed });
+  }
+
+  return {
+    checked: dueStandingOrders.length,
+    placed: results.filter((result) => result.status === "placed").length,
+    failed: results.filter((result) => result.status === "failed").length,
+    results,
+  };
+}
+
+export type StandingOrderActionResult =
+  | { applied: true; standingOrder: StandingOrder }
+  | { applied: false; statusCode: number; message: string };
+
+export async function applyStandingOrderAction(
+  standingOrder: StandingOrder,
+  action: StandingOrderAction,
+  now = new Date(),
+): Promise<StandingOrderActionResult> {
+  const cadence = standingOrder.cadence as StandingOrderCadence;
+  let updatedStandingOrder: StandingOrder | undefined;
+
+  if (action === "pause") {
+    if (standingOrder.status === "paused") {
+      return { applied: false, statusCode: 409, message: `"${standingOrder.name}" is already paused` };
+    }
+    updatedStandingOrder = await storage.updateStandingOrder(standingOrder.id, { status: "paused" });
+  } else if (action === "resume") {
+    if (standingOrder.status === "active") {
+      return { applied: false, statusCode: 409, message: `"${standingOrder.name}" is already active` };
+    }
+    // Runs that fell due while paused are not placed on resume.
+    const nextRunAt = new Date(standingOrder.nextRunAt).getTime() > now.getTime()
+      ? new Date(standingOrder.nextRunAt)
+      : getUpcomingStandingOrderRun(standingOrder.nextRunAt, cadence, now, standingOrder.runDayOfMonth);
+    updatedStandingOrder = await storage.updateStandingOrder(standingOrder.id, { status: "active", nextRunAt });
+  } else {
+    const skippedRunAt = new Date(standingOrder.nextRunAt);
+    updatedStandingOrder = await storage.updateStandingOrder(standingOrder.id, {
+      nextRunAt: getUpcomingStandingOrderRun(skippedRunAt, cadence, now, standingOrder.runDayOfMonth),
+      lastRunAt: now,
+      lastRunStatus: "skipped",
+      lastRunMessage: `Skipped the ${skippedRunAt.toISOString().slice(0, 10)} order`,
+    });
+  }
+
+  return updatedStandingOrder
+    ? { applied: true, standingOrder: updatedStandingOrder }
+    : { applied: false, statusCode: 404, message: "Standing order not found" };
+}
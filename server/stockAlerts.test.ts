@@ -0,0 +1,45 @@
+import "./testEnvironment.js";
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { ProductWithInventory } from "../shared/schema.js";
+import { applyStockThresholds, invalidateStockThresholdCache, normalizeStockThreshold, runStockAlertCheck } from "./stockAlerts.js";
+import { storage } from "./storage.js";
+
+const product = (id: string, availableQuantity: number, category = "Gloves") =>
+  ({ id, name: `Item ${id}`, category, availableQuantity }) as ProductWithInventory;
+
+describe("stock alerts", () => {
+  test("rates products against product and category reorder points", async () => {
+    await storage.upsertStockThreshold(normalizeStockThreshold({ scope: "product", target: "gl-3310", reorderPoint: 40 }));
+    await storage.upsertStockThreshold(normalizeStockThreshold({ scope: "category", target: " Test Kits ", reorderPoint: 5 }));
+    invalidateStockThresholdCache();
+
+    const [gloves, kit] = await applyStockThresholds([product("GL-3310", 30), product("91100", 6, "Test Kits")]);
+
+    assert.equal(gloves.stockStatus, "low_stock");
+    assert.equal(gloves.reorderPoint, 40);
+    assert.equal(kit.stockStatus, "in_stock");
+    assert.equal(kit.isLowStock, false);
+  });
+
+  test("alerts once when a product crosses its reorder point and again when it runs out", async () => {
+    const first = await runStockAlertCheck([product("GL-3310", 30), product("91100", 6, "Test Kits"), product("70001", 3)]);
+    assert.deepEqual(first.alerts.map((alert) => [alert.productCode, alert.stockStatus]), [
+      ["70001", "low_stock"],
+      ["GL3310", "low_stock"],
+    ]);
+    assert.equal(first.checked, 3);
+    assert.equal(first.emailed, false);
+
+    const repeat = await runStockAlertCheck([product("GL-3310", 25), product("91100", 6, "Test Kits"), product("70001", 3)]);
+    assert.deepEqual(repeat.alerts, []);
+
+    const soldOut = await runStockAlertCheck([product("GL-3310", 0), product("91100", 6, "Test Kits"), product("70001", 50)]);
+    assert.deepEqual(soldOut.alerts.map((alert) => [alert.productCode, alert.previousStatus, alert.stockStatus]), [
+      ["GL3310", "low_stock", "out_of_stock"],
+    ]);
+
+    const dippedAgain = await runStockAlertCheck([product("GL-3310", 0), product("91100", 6, "Test Kits"), product("70001", 2)]);
+    assert.deepEqual(dippedAgain.alerts.map((alert) => alert.productCode), ["70001"]);
+  });
+});
@@ -0,0 +1,179 @@
+import type { ProductWithInventory, StockThreshold, UpsertStockThreshold } from "../shared/schema.js";
+import {
+  getStockLevel,
+  getStockStatusLabel,
+  isStockAlertCrossing,
+  normalizeThresholdCategory,
+  resolveReorderPoint,
+  STOCK_STATUS_VALUES,
+  type ReorderPointLookup,
+  type StockAlertItem,
+  type StockAlertRunResult,
+  type StockStatus,
+} from "../shared/stockStatus.js";
+import { ecountApi } from "./ecountApi.js";
+import { escapeHtml, sendEmail } from "./email.js";
+import { normalizeProductCode } from "./productCode.js";
+import { storage, type NewStockAlertState } from "./storage.js";
+
+const STOCK_THRESHOLD_CACHE_TTL_MS = 60 * 1000;
+
+// Comma-separated; defaults to the order inbox, which purchasing already watches.
+const PURCHASING_ALERT_EMAILS = (process.env.PURCHASING_ALERT_EMAIL || process.env.ORDER_NOTIFICATION_EMAIL || "orders@phomasdiagnosticstz.com")
+  .split(",")
+  .map((email) => email.trim())
+  .filter(Boolean);
+
+let cachedLookup: { lookup: ReorderPointLookup; loadedAt: number } | null = null;
+
+export function invalidateStockThresholdCache(): void {
+  cachedLookup = null;
+}
+
+/** Store product thresholds under the normalized code and category thresholds lower-cased, as lookups expect. */
+export function normalizeStockThreshold(threshold: UpsertStockThreshold): UpsertStockThreshold {
+  return {
+    ...threshold,
+    target: threshold.scope === "product" ? normalizeProductCode(threshold.target) : normalizeThresholdCategory(threshold.target),
+  };
+}
+
+const buildReorderPointLookup = (thresholds: StockThreshold[]): ReorderPointLookup => ({
+  byProduct: new Map(thresholds.filter((threshold) => threshold.scope === "product").map((threshold) => [threshold.target, threshold.reorderPoint])),
+  byCategory: new Map(thresholds.filter((threshold) => threshold.scope === "category").map((threshold) => [threshold.target, threshold.reorderPoint])),
+});
+
+async function loadReorderPoints(): Promise<ReorderPointLookup> {
+  if (cachedLookup && Date.now() - cachedLookup.loadedAt < STOCK_THRESHOLD_CACHE_TTL_MS) {
+    return cachedLookup.lookup;
+  }
+
+  const lookup = buildReorderPointLookup(await storage.getStockThresholds());
+  cachedLookup = { lookup, loadedAt: Date.now() };
+  return lookup;
+}
+
+/** Re-rate catalogue products against their configured reorder points. */
+export async function applyStockThresholds(products: ProductWithInventory[]): Promise<ProductWithInventory[]> {
+  const lookup = await loadReorderPoints();
+  if (lookup.byProduct.size === 0 && lookup.byCategory.size === 0) {
+    return products;
+  }
+
+  return products.map((product) => ({
+    ...product,
+    ...getStockLevel(
+      product.availableQuantity,
+      resolveReorderPoint(normalizeProductCode(product.id), product.category, lookup),
+    ),
+  }));
+}
+
+const buildStockAlertHtml = (alerts: StockAlertItem[]) => {
+  const rows = alerts
+    .map((alert) => `
+        <tr>
+          <td style="padding:8px;border-bottom:1px solid #e5e7eb;">${escapeHtml(alert.name)}</td>
+          <td style="padding:8px;border-bottom:1px solid #e5e7eb;">${escapeHtml(alert.productCode)}</td>
+          <td style="padding:8px;border-bottom:1px solid #e5e7eb;">${escapeHtml(alert.category || "—")}</td>
+          <td style="padding:8px;border-bottom:1px solid #e5e7eb;text-align:right;">${alert.availableQuantity}</td>
+          <td style="padding:8px;border-bottom:1px solid #e5e7eb;text-align:right;">${alert.reorderPoint}</td>
+          <td style="padding:8px;border-bottom:1px solid #e5e7eb;color:${alert.stockStatus === "out_of_stock" ? "#b91c1c" : "#b45309"};font-weight:600;">
+            ${escapeHtml(getStockStatusLabel(alert.stockStatus))}
+          </td>
+        </tr>
+      `)
+    .join("");
+
+  return `
+    <div style="font-family:Arial,sans-serif;color:#111827;line-height:1.5;">
+      <h2 style="margin:0 0 12px;color:#0f7a4d;">Restock needed: ${alerts.length} item${alerts.length === 1 ? "" : "s"}</h2>
+      <p style="margin:0 0 16px;">These products fell below their reorder point since the last stock check.</p>
+      <table style="border-collapse:collapse;width:100%;max-width:760px;">
+        <thead>
+          <tr style="background:#f3f4f6;">
+            <th style="padding:8px;text-align:left;">Item</th>
+            <th style="padding:8px;text-align:left;">Code</th>
+            <th style="padding:8px;text-align:left;">Category</th>
+            <th style="padding:8px;text-align:right;">Available</th>
+            <th style="padding:8px;text-align:right;">Reorder point</th>
+            <th style="padding:8px;text-align:left;">Status</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>
+  `;
+};
+
+/**
+ * Compare every product's stock status with the one saved at the last check and email purchasing
+ * one digest of the products that dropped below their reorder point or ran out. States of alerted
+ * products are only saved once the email went out, so a failed send is retried by the next check.
+ */
+export async function runStockAlertCheck(products?: ProductWithInventory[]): Promise<StockAlertRunResult> {
+  invalidateStockThresholdCache();
+  const ratedProducts = await applyStockThresholds(products ?? await ecountApi.getAllProductsFromEcount());
+  const previousStates = new Map((await storage.getStockAlertStates()).map((state) => [state.productCode, state]));
+
+  const now = new Date();
+  const alerts: StockAlertItem[] = [];
+  const changedStates: NewStockAlertState[] = [];
+  const alertedStates: NewStockAlertState[] = [];
+
+  for (const product of ratedProducts) {
+    const productCode = normalizeProductCode(product.id);
+    const { stockStatus, reorderPoint } = product.stockStatus && product.reorderPoint !== undefined
+      ? { stockStatus: product.stockStatus, reorderPoint: product.reorderPoint }
+      : getStockLevel(product.availableQuantity);
+    const previous = previousStates.get(productCode);
+    const previousStatus = (previous?.status ?? "in_stock") as StockStatus;
+
+    if (isStockAlertCrossing(previousStatus, stockStatus)) {
+      alerts.push({
+        productCode,
+        name: product.name,
+        category: product.category ?? null,
+        availableQuantity: product.availableQuantity,
+        reorderPoint,
+        previousStatus,
+        stockStatus,
+      });
+      alertedStates.push({ productCode, status: stockStatus, quantity: product.availableQuantity, reorderPoint, alertedAt: now });
+    } else if (!previous || previous.status !== stockStatus || previous.reorderPoint !== reorderPoint) {
+      changedStates.push({
+        productCode,
+        status: stockStatus,
+        quantity: product.availableQuantity,
+        reorderPoint,
+        alertedAt: previous?.alertedAt ?? null,
+      });
+    }
+  }
+
+  alerts.sort((a, b) =>
+    STOCK_STATUS_VALUES.indexOf(b.stockStatus) - STOCK_STATUS_VALUES.indexOf(a.stockStatus) || a.name.localeCompare(b.name));
+
+  let emailed = false;
+  let error: string | null = null;
+  if (alerts.length > 0) {
+    try {
+      emailed = await sendEmail({
+        to: PURCHASING_ALERT_EMAILS,
+        subject: `Restock needed: ${alerts.length} Phomas product${alerts.length === 1 ? "" : "s"} below reorder point`,
+        html: buildStockAlertHtml(alerts),
+      });
+      console.log(emailed
+        ? `📧 Stock alert sent to ${PURCHASING_ALERT_EMAILS.join(", ")} for ${alerts.length} products`
+        : `📧 Stock alert for ${alerts.length} products skipped: RESEND_API_KEY not configured`);
+    } catch (sendError) {
+      error = sendError instanceof Error ? sendError.message : String(sendError);
+      console.error('📧 Failed to send stock alert:', sendError);
+    }
+  }
+
+  await storage.saveStockAlertStates(error ? changedStates : [...changedStates, ...alertedStates]);
+  console.log(`📉 Stock alert check: ${ratedProducts.length} products, ${alerts.length} below reorder point`);
+
+  return { checked: ratedProducts.length, alerts, emailed, error };
+}
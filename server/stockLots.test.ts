@@ -0,0 +1,81 @@
+import "./testEnvironment.js";
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { OrderLine, ProductWithInventory } from "../shared/schema.js";
+import { allocateOrderLots, applyStockLotExpiry, importStockLots, markOrderLotsShipped, parseStockLotFile, releaseOrderLots } from "./stockLots.js";
+import { storage } from "./storage.js";
+
+const LOT_CSV = [
+  "Stock by lot,,,",
+  "Item Code,Lot No,Expiry Date,Qty",
+  "GL-3310,L-2601,31/01/2099,10",
+  "GL-3310,L-2512,31/12/2098,4",
+  "GL-3310,L-2601,31/01/2099,2",
+  "GL-3310,L-OLD,01/01/2020,50",
+  "91100,B-77,,30",
+  "91100,,31/12/2099,5",
+  "91100,B-78,someday,5",
+].join("\n");
+
+const line = (lineNumber: number, productCode: string, quantity: number) =>
+  ({ lineNumber, productCode, quantity }) as OrderLine;
+
+describe("parseStockLotFile", () => {
+  test("reads lots below a title row, adds up repeated lots and reports unreadable rows", () => {
+    const { lots, skippedRows } = parseStockLotFile(Buffer.from(LOT_CSV));
+
+    assert.deepEqual(
+      lots.map((lot) => [lot.productCode, lot.lotNumber, lot.expiresAt?.toISOString().slice(0, 10) ?? null, lot.quantity]),
+      [
+        ["GL3310", "L-2601", "2099-01-31", 12],
+        ["GL3310", "L-2512", "2098-12-31", 4],
+        ["GL3310", "L-OLD", "2020-01-01", 50],
+        ["91100", "B-77", null, 30],
+      ],
+    );
+    assert.deepEqual(skippedRows.map((row) => row.row), [8, 9]);
+  });
+
+  test("rejects a file without lot columns", () => {
+    assert.throws(() => parseStockLotFile(Buffer.from("Item Code,Item Name\n91100,Gloves")), /header row/);
+  });
+});
+
+describe("order lot allocation", () => {
+  test("orders take the first-expiring lots and give them back when released", async () => {
+    await importStockLots(Buffer.from(LOT_CSV));
+
+    await allocateOrderLots("order-a", [line(1, "GL-3310", 6)]);
+    await allocateOrderLots("order-b", [line(1, "GL-3310", 6), line(2, "91100", 40)]);
+
+    const first = await storage.getOrderLotAllocations("order-a");
+    assert.deepEqual(first.map((allocation) => [allocation.lotNumber, allocation.quantity]), [["L-2512", 4], ["L-2601", 2]]);
+
+    const second = await storage.getOrderLotAllocations("order-b");
+    assert.deepEqual(
+      second.map((allocation) => [allocation.lineNumber, allocation.lotNumber, allocation.quantity]),
+      [[1, "L-2601", 6], [2, "B-77", 30]],
+    );
+
+    await markOrderLotsShipped("order-a");
+    await releaseOrderLots("order-b");
+    assert.deepEqual((await storage.getOrderLotAllocations("order-a")).map((allocation) => allocation.status), ["shipped", "shipped"]);
+
+    await allocateOrderLots("order-c", [line(1, "GL-3310", 20)]);
+    assert.deepEqual(
+      (await storage.getOrderLotAllocations("order-c")).map((allocation) => [allocation.lotNumber, allocation.quantity]),
+      [["L-2601", 10]],
+    );
+  });
+
+  test("products show the expiry of their first saleable lot", async () => {
+    const product = (id: string) => ({ id, name: id, availableQuantity: 1, isExpiringSoon: false }) as ProductWithInventory;
+
+    const [strips, gloves, other] = await applyStockLotExpiry([product("GL-3310"), product("91100"), product("SYR")]);
+
+    assert.equal(strips.expirationDate, "2098-12-31T00:00:00.000Z");
+    assert.equal(strips.isExpiringSoon, false);
+    assert.equal(gloves.expirationDate, undefined);
+    assert.equal(other.expirationDate, undefined);
+  });
+});
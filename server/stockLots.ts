@@ -0,0 +1,203 @@
+import * as XLSX from 'xlsx/xlsx.mjs';
+import type { OrderLine, ProductWithInventory, StockLot } from "../shared/schema.js";
+import {
+  getEarliestSaleableExpiry,
+  isLotExpiringSoon,
+  parseLotExpiry,
+  type StockLotImportResult,
+  type StockLotSkippedRow,
+} from "../shared/stockLots.js";
+import { normalizeProductCode } from "./productCode.js";
+import { storage, type NewStockLot } from "./storage.js";
+
+const STOCK_LOT_CACHE_TTL_MS = 60 * 1000;
+
+let cachedLots: { lotsByCode: Map<string, StockLot[]>; loadedAt: number } | null = null;
+
+export function invalidateStockLotCache(): void {
+  cachedLots = null;
+}
+
+const findColumn = (rowText: string[], matches: (cell: string) => boolean) => rowText.findIndex(matches);
+
+/**
+ * Read a lot file exported from the warehouse: one row per product lot with its item code, lot
+ * (batch) number, expiry and quantity on hand. Rows for the same lot are added together. Rows that
+ * cannot be read are reported back rather than failing the whole file.
+ */
+export function parseStockLotFile(buffer: Buffer): { lots: NewStockLot[]; skippedRows: StockLotSkippedRow[] } {
+  // raw keeps CSV dates as typed; DD/MM/YYYY would otherwise be read as a US date
+  const workbook = XLSX.read(buffer, { type: 'buffer', raw: true });
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) {
+    throw new Error('Lot file does not contain any sheets');
+  }
+
+  const rawRows = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { header: 1, defval: '' }) as Array<unknown[]>;
+
+  let headerRowIndex = -1;
+  let columns = { code: -1, lot: -1, expiry: -1, quantity: -1 };
+  for (let i = 0; i < Math.min(15, rawRows.length); i++) {
+    const rowText = rawRows[i].map((cell) => String(cell ?? '').toLowerCase().trim());
+    columns = {
+      code: findColumn(rowText, (cell) =>
+        ((cell.includes('item') || cell.includes('product')) && cell.includes('code')) ||
+        cell === 'itemcode' ||
+        cell === 'prod_cd' ||
+        cell === 'code'
+      ),
+      lot: findColumn(rowText, (cell) => cell.includes('lot') || cell.includes('batch') || cell === 'serial'),
+      expiry: findColumn(rowText, (cell) => cell.includes('expir') || cell.startsWith('exp') || cell.includes('best before')),
+      quantity: findColumn(rowText, (cell) => cell.includes('qty') || cell.includes('quantity') || cell.includes('balance') || cell === 'stock'),
+    };
+    if (columns.code >= 0 && columns.lot >= 0 && columns.quantity >= 0) {
+      headerRowIndex = i;
+      break;
+    }
+  }
+
+  if (headerRowIndex === -1) {
+    throw new Error('Could not find a header row with item code, lot and quantity columns');
+  }
+
+  const lotsByKey = new Map<string, NewStockLot>();
+  const skippedRows: StockLotSkippedRow[] = [];
+
+  for (let i = headerRowIndex + 1; i < rawRows.length; i++) {
+    const row = rawRows[i];
+    const rowNumber = i + 1;
+    const code = String(row[columns.code] ?? '').trim();
+    const lotNumber = String(row[columns.lot] ?? '').trim();
+    const rawQuantity = String(row[columns.quantity] ?? '').replace(/,/g, '').trim();
+
+    if (!code && !lotNumber && !rawQuantity) {
+      continue;
+    }
+    if (!code || !lotNumber) {
+      skippedRows.push({ row: rowNumber, reason: 'Missing item code or lot number' });
+      continue;
+    }
+
+    const quantity = Number(rawQuantity);
+    if (!rawQuantity || !Number.isFinite(quantity) || quantity < 0) {
+      skippedRows.push({ row: rowNumber, reason: `Invalid quantity "${rawQuantity}"` });
+      continue;
+    }
+
+    const expiresAt = columns.expiry >= 0 ? parseLotExpiry(row[columns.expiry]) : null;
+    if (expiresAt === undefined) {
+      skippedRows.push({ row: rowNumber, reason: `Invalid expiry date "${String(row[columns.expiry]).trim()}"` });
+      continue;
+    }
+
+    const productCode = normalizeProductCode(code);
+    const key = `${productCode}\u0000${lotNumber}`;
+    const existing = lotsByKey.get(key);
+    lotsByKey.set(key, {
+      productCode,
+      lotNumber,
+      expiresAt: existing?.expiresAt ?? expiresAt,
+      quantity: (existing?.quantity ?? 0) + Math.floor(quantity),
+    });
+  }
+
+  return { lots: Array.from(lotsByKey.values()), skippedRows };
+}
+
+/** Replace the lots of every product in the file with the lots it lists. */
+export async function importStockLots(buffer: Buffer): Promise<StockLotImportResult> {
+  const { lots, skippedRows } = parseStockLotFile(buffer);
+  if (lots.length === 0) {
+    throw new Error('Lot file did not contain any lots');
+  }
+
+  const saved = await storage.replaceStockLots(lots);
+  invalidateStockLotCache();
+  console.log(`🏷️ Imported ${saved.length} stock lots (${skippedRows.length} rows skipped)`);
+
+  return {
+    lots: saved.length,
+    products: new Set(saved.map((lot) => lot.productCode)).size,
+    skippedRows,
+  };
+}
+
+async function loadStockLotsByCode(): Promise<Map<string, StockLot[]>> {
+  if (cachedLots && Date.now() - cachedLots.loadedAt < STOCK_LOT_CACHE_TTL_MS) {
+    return cachedLots.lotsByCode;
+  }
+
+  const lotsByCode = new Map<string, StockLot[]>();
+  for (const lot of await storage.getStockLots()) {
+    lotsByCode.set(lot.productCode, [...(lotsByCode.get(lot.productCode) || []), lot]);
+  }
+  cachedLots = { lotsByCode, loadedAt: Date.now() };
+  return lotsByCode;
+}
+
+/**
+ * Set each product's expiry to the first expiry among its lots still on hand. Products without
+ * imported lots keep whatever eCount reported.
+ */
+export async function applyStockLotExpiry(products: ProductWithInventory[]): Promise<ProductWithInventory[]> {
+  const lotsByCode = await loadStockLotsByCode();
+  if (lotsByCode.size === 0) {
+    return products;
+  }
+
+  const now = new Date();
+  return products.map((product) => {
+    const lots = lotsByCode.get(normalizeProductCode(product.id));
+    if (!lots) {
+      return product;
+    }
+
+    const expiresAt = getEarliestSaleableExpiry(lots, now);
+    return {
+      ...product,
+      expirationDate: expiresAt?.toISOString(),
+      isExpiringSoon: isLotExpiringSoon(expiresAt, now),
+    };
+  });
+}
+
+/**
+ * Pick lots for an order's lines, first expiry first. Lots are a picking aid: a missing or stale lot
+ * file must never block checkout, so failures are logged and the order goes ahead unallocated.
+ */
+export async function allocateOrderLots(orderId: string, lines: OrderLine[]): Promise<void> {
+  try {
+    const allocations = await storage.allocateOrderLots(orderId, lines.map((line) => ({
+      lineNumber: line.lineNumber,
+      productCode: normalizeProductCode(line.productCode),
+      quantity: line.quantity,
+    })));
+    if (allocations.length > 0) {
+      console.log(`🏷️ Allocated ${allocations.length} lots for order ${orderId}`);
+    }
+  } catch (error) {
+    console.error(`❌ Failed to allocate stock lots for order ${orderId}:`, error);
+  }
+}
+
+/** Put an amended order's lots back and pick again for its new lines. */
+export async function reallocateOrderLots(orderId: string, lines: OrderLine[]): Promise<void> {
+  await releaseOrderLots(orderId);
+  await allocateOrderLots(orderId, lines);
+}
+
+export async function releaseOrderLots(orderId: string): Promise<void> {
+  try {
+    await storage.updateOrderLotAllocationStatus(orderId, "released");
+  } catch (error) {
+    console.error(`❌ Failed to release stock lots for order ${orderId}:`, error);
+  }
+}
+
+export async function markOrderLotsShipped(orderId: string): Promise<void> {
+  try {
+    await storage.updateOrderLotAllocationStatus(orderId, "shipped");
+  } catch (error) {
+    console.error(`❌ Failed to mark stock lots shipped for order ${orderId}:`, error);
+  }
+}
@@ -0,0 +1,111 @@
+import type { OrderItem, StockReservationReleaseReason, StockShortage } from "../shared/schema.js";
+import { ecountApi } from "./ecountApi.js";
+import { normalizeProductCode } from "./productCode.js";
+import { storage, type StockReservationRequest } from "./storage.js";
+
+// Orders normally reach eCount within minutes; the TTL only matters when sync is stuck.
+const STOCK_RESERVATION_TTL_MS = Number.parseInt(process.env.STOCK_RESERVATION_TTL_MS || `${24 * 60 * 60 * 1000}`, 10);
+
+export type OrderStockShortage = StockShortage & {
+  productId: string;
+  name: string;
+};
+
+const buildAvailabilityMap = (entries: Iterable<[string, number]>) => {
+  const availableByCode = new Map<string, number>();
+  for (const [productCode, quantity] of Array.from(entries)) {
+    const normalizedCode = normalizeProductCode(productCode);
+    if (normalizedCode) {
+      availableByCode.set(normalizedCode, (availableByCode.get(normalizedCode) ?? 0) + (Number(quantity) || 0));
+    }
+  }
+  return availableByCode;
+};
+
+/**
+ * Stock on hand from the cached eCount balance, falling back to the VPS-synced inventory
+ * table. Returns null when neither source has data so checkout is not blocked by an outage.
+ */
+export async function loadAvailableStock(): Promise<Map<string, number> | null> {
+  try {
+    const inventory = await ecountApi.getCachedInventoryData();
+    if (inventory.size > 0) {
+      return buildAvailabilityMap(inventory.entries());
+    }
+  } catch (error) {
+    console.warn('⚠️ eCount inventory unavailable for stock reservation, trying synced inventory:', error instanceof Error ? error.message : error);
+  }
+
+  const syncedInventory = await storage.getAllInventory();
+  if (syncedInventory.length > 0) {
+    return buildAvailabilityMap(syncedInventory.map((item) => [item.productId, item.availableQuantity] as [string, number]));
+  }
+
+  console.warn('⚠️ No inventory snapshot available - reserving stock without availability check');
+  return null;
+}
+
+const buildReservationRequests = (items: OrderItem[]): StockReservationRequest[] => {
+  const quantitiesByCode = new Map<string, number>();
+  for (const item of items) {
+    const productCode = normalizeProductCode(item.productId);
+    quantitiesByCode.set(productCode, (quantitiesByCode.get(productCode) ?? 0) + item.quantity);
+  }
+
+  return Array.from(quantitiesByCode.entries()).map(([productCode, quantity]) => ({ productCode, quantity }));
+};
+
+// Pass `availableByCode` to reuse a snapshot already loaded, or null to reserve without a check.
+export async function reserveOrderStock(
+  orderId: string,
+  items: OrderItem[],
+  options: { availableByCode?: Map<string, number> | null } = {},
+): Promise<{ reserved: boolean; shortages: OrderStockShortage[] }> {
+  const availableByCode = options.availableByCode !== undefined ? options.availableByCode : await loadAvailableStock();
+  const result = await storage.reserveStock(orderId, buildReservationRequests(items), {
+    availableByCode,
+    expiresAt: new Date(Date.now() + STOCK_RESERVATION_TTL_MS),
+  });
+
+  return {
+    reserved: result.reserved,
+    shortages: result.shortages.map((shortage) => {
+      const item = items.find((orderItem) => normalizeProductCode(orderItem.productId) === shortage.productCode);
+      return {
+        ...shortage,
+        productId: item?.productId || shortage.productCode,
+        name: item?.name || shortage.productCode,
+      };
+    }),
+  };
+}
+
+/**
+ * Swap an order's reservation for its amended items. The old reservation is released first so
+ * it does not count against the order itself; on a shortage it is put back as it was.
+ */
+export async function replaceOrderStockReservation(
+  orderId: string,
+  previousItems: OrderItem[],
+  items: OrderItem[],
+): Promise<{ reserved: boolean; shortages: OrderStockShortage[] }> {
+  await storage.releaseStockReservations(orderId, "amended");
+
+  const result = await reserveOrderStock(orderId, items);
+  if (!result.reserved) {
+    await storage.reserveStock(orderId, buildReservationRequests(previousItems), {
+      availableByCode: null,
+      expiresAt: new Date(Date.now() + STOCK_RESERVATION_TTL_MS),
+    });
+  }
+
+  return result;
+}
+
+export async function releaseOrderStock(orderId: string, reason: StockReservationReleaseReason): Promise<void> {
+  try {
+    await storage.releaseStockReservations(orderId, reason);
+  } catch (error) {
+    console.error(`❌ Failed to release stock reservations for order ${orderId}:`, error);
+  }
+}
@@ -0,0 +1,48 @@
+import "./testEnvironment.js";
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { groupDueStockSubscriptions, notifyBackInStockSubscribers } from "./stockSubscriptions.js";
+import { storage } from "./storage.js";
+
+describe("back-in-stock subscriptions", () => {
+  test("subscribing twice keeps one waiting subscription per customer and product", async () => {
+    await storage.subscribeToStock({ userId: "user-a", email: "a@example.com", productId: "GL-3310", productName: "Gloves" });
+    await storage.subscribeToStock({ userId: "user-a", email: "a@example.com", productId: "GL-3310", productName: "Nitrile Gloves" });
+    await storage.subscribeToStock({ userId: "user-a", email: "a@example.com", productId: "91100", productName: "Test Kit" });
+    await storage.subscribeToStock({ userId: "user-b", email: "b@example.com", productId: "GL-3310", productName: "Gloves" });
+
+    const mine = await storage.getWaitingStockSubscriptions("user-a");
+    assert.deepEqual(mine.map((subscription) => [subscription.productId, subscription.productName]), [
+      ["GL-3310", "Nitrile Gloves"],
+      ["91100", "Test Kit"],
+    ]);
+  });
+
+  test("groups subscriptions with stock again by customer, matching normalized codes", async () => {
+    const waiting = await storage.getWaitingStockSubscriptions();
+    const due = groupDueStockSubscriptions(waiting, new Map([["GL3310", 12], ["91100", 0]]));
+
+    assert.deepEqual(
+      Array.from(due.entries()).map(([userId, subscriptions]) => [userId, subscriptions.map((subscription) => subscription.productId)]),
+      [["user-a", ["GL-3310"]], ["user-b", ["GL-3310"]]],
+    );
+  });
+
+  test("keeps subscriptions waiting until an email actually goes out", async () => {
+    const result = await notifyBackInStockSubscribers(new Map([["gl-3310", 12]]));
+
+    assert.deepEqual(result, { waiting: 3, due: 2, notified: 0, failed: 0 });
+    assert.equal((await storage.getWaitingStockSubscriptions()).length, 3);
+  });
+
+  test("a notified subscription stops waiting and can be renewed", async () => {
+    const [gloves] = await storage.getWaitingStockSubscriptions("user-b");
+    await storage.markStockSubscriptionsNotified([gloves.id], new Date());
+    assert.deepEqual(await storage.getWaitingStockSubscriptions("user-b"), []);
+
+    await storage.subscribeToStock({ userId: "user-b", email: "b@example.com", productId: "GL-3310", productName: "Gloves" });
+    assert.equal((await storage.getWaitingStockSubscriptions("user-b")).length, 1);
+    assert.equal(await storage.deleteStockSubscription("user-b", "GL-3310"), true);
+    assert.equal(await storage.deleteStockSubscription("user-b", "GL-3310"), false);
+  });
+});
@@ -0,0 +1,99 @@
+import type { StockSubscription } from "../shared/schema.js";
+import { ecountApi } from "./ecountApi.js";
+import { escapeHtml, sendEmail } from "./email.js";
+import { normalizeProductCode } from "./productCode.js";
+import { storage } from "./storage.js";
+
+export type BackInStockRunResult = {
+  waiting: number;
+  // Subscriptions whose product is available again
+  due: number;
+  notified: number;
+  failed: number;
+};
+
+const buildBackInStockHtml = (subscriptions: StockSubscription[], quantities: Map<string, number>) => {
+  const rows = subscriptions
+    .map((subscription) => `
+        <tr>
+          <td style="padding:8px;border-bottom:1px solid #e5e7eb;">${escapeHtml(subscription.productName)}</td>
+          <td style="padding:8px;border-bottom:1px solid #e5e7eb;">${escapeHtml(subscription.productId)}</td>
+          <td style="padding:8px;border-bottom:1px solid #e5e7eb;text-align:right;">${quantities.get(normalizeProductCode(subscription.productId)) ?? 0}</td>
+        </tr>
+      `)
+    .join("");
+
+  return `
+    <div style="font-family:Arial,sans-serif;color:#111827;line-height:1.5;">
+      <h2 style="margin:0 0 12px;color:#0f7a4d;">Back in stock</h2>
+      <p style="margin:0 0 16px;">You asked us to let you know when ${subscriptions.length === 1 ? "this item is" : "these items are"} available again. Stock is limited and is not held for you, so order soon.</p>
+      <table style="border-collapse:collapse;width:100%;max-width:640px;">
+        <thead>
+          <tr style="background:#f3f4f6;">
+            <th style="padding:8px;text-align:left;">Item</th>
+            <th style="padding:8px;text-align:left;">Code</th>
+            <th style="padding:8px;text-align:right;">Available</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>
+  `;
+};
+
+/** Subscriptions whose product has stock again, grouped by customer so each gets one email. Quantities are keyed by normalized code. */
+export function groupDueStockSubscriptions(
+  subscriptions: StockSubscription[],
+  quantities: Map<string, number>,
+): Map<string, StockSubscription[]> {
+  const dueByUser = new Map<string, StockSubscription[]>();
+  for (const subscription of subscriptions) {
+    if ((quantities.get(normalizeProductCode(subscription.productId)) ?? 0) > 0) {
+      dueByUser.set(subscription.userId, [...(dueByUser.get(subscription.userId) || []), subscription]);
+    }
+  }
+  return dueByUser;
+}
+
+/**
+ * Email customers waiting on products that are available again after an inventory refresh. Quantities
+ * default to the inventory eCount last returned. A subscription is only closed once its email went
+ * out, so customers are not lost while email is unconfigured or Resend is failing.
+ */
+export async function notifyBackInStockSubscribers(quantities?: Map<string, number>): Promise<BackInStockRunResult> {
+  const subscriptions = await storage.getWaitingStockSubscriptions();
+  if (subscriptions.length === 0) {
+    return { waiting: 0, due: 0, notified: 0, failed: 0 };
+  }
+
+  const quantitiesByCode = new Map<string, number>();
+  for (const [code, quantity] of Array.from(quantities ?? await ecountApi.getCachedInventoryData())) {
+    const productCode = normalizeProductCode(code);
+    quantitiesByCode.set(productCode, (quantitiesByCode.get(productCode) ?? 0) + quantity);
+  }
+
+  const dueByUser = groupDueStockSubscriptions(subscriptions, quantitiesByCode);
+  const result: BackInStockRunResult = { waiting: subscriptions.length, due: 0, notified: 0, failed: 0 };
+
+  for (const due of Array.from(dueByUser.values())) {
+    result.due += due.length;
+    try {
+      const sent = await sendEmail({
+        to: [due[0].email],
+        subject: due.length === 1 ? `Back in stock: ${due[0].productName}` : `${due.length} items you asked about are back in stock`,
+        html: buildBackInStockHtml(due, quantitiesByCode),
+      });
+      if (!sent) {
+        continue;
+      }
+      await storage.markStockSubscriptionsNotified(due.map((subscription) => subscription.id), new Date());
+      result.notified += due.length;
+    } catch (error) {
+      result.failed += due.length;
+      console.error(`📧 Failed to send back-in-stock email to ${due[0].email}:`, error);
+    }
+  }
+
+  console.log(`🔔 Back-in-stock check: ${result.waiting} waiting, ${result.due} available again, ${result.notified} notified`);
+  return result;
+}
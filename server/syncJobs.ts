@@ -0,0 +1,47 @@
+import { randomUUID } from "crypto";
+import type { Order, SyncJob } from "../shared/schema.js";
+import { ECOUNT_ORDER_SYNC_JOB } from "../shared/syncJobs.js";
+import { storage } from "./storage.js";
+
+const DEFAULT_SYNC_JOB_LEASE_MS = 15 * 60 * 1000;
+const DEFAULT_ORDER_SYNC_MAX_ATTEMPTS = 10;
+
+const SYNC_JOB_LEASE_MS = Number.parseInt(process.env.SYNC_JOB_LEASE_MS || `${DEFAULT_SYNC_JOB_LEASE_MS}`, 10);
+const ORDER_SYNC_MAX_ATTEMPTS = Number.parseInt(process.env.ORDER_SYNC_MAX_ATTEMPTS || "0", 10);
+
+const positiveOr = (value: number, fallback: number) => (Number.isFinite(value) && value > 0 ? value : fallback);
+
+// A lease outlives any single eCount call, so a runner that dies mid-sync only delays the order.
+export const getSyncJobLeaseMs = () => positiveOr(SYNC_JOB_LEASE_MS, DEFAULT_SYNC_JOB_LEASE_MS);
+
+export const getOrderSyncMaxAttempts = () => positiveOr(ORDER_SYNC_MAX_ATTEMPTS, DEFAULT_ORDER_SYNC_MAX_ATTEMPTS);
+
+/** Queue an order for eCount, or bring its queued job forward to runAt (default: now). */
+export function enqueueOrderSyncJob(orderId: string, runAt?: Date): Promise<SyncJob> {
+  return storage.enqueueSyncJob({
+    jobType: ECOUNT_ORDER_SYNC_JOB,
+    subjectId: orderId,
+    maxAttempts: getOrderSyncMaxAttempts(),
+    runAt,
+  });
+}
+
+/**
+ * Lease due order sync jobs to a new owner named after the caller. Pass orderId to lease only
+ * that order's job; an empty result means nothing is due or another runner holds the lease.
+ */
+export function leaseOrderSyncJobs(source: string, { limit, orderId }: { limit: number; orderId?: string }): Promise<SyncJob[]> {
+  return storage.leaseSyncJobs(ECOUNT_ORDER_SYNC_JOB, {
+    owner: `${source}:${randomUUID()}`,
+    leaseMs: getSyncJobLeaseMs(),
+    limit,
+    subjectId: orderId,
+  });
+}
+
+// Orders created or paid with erpSyncStatus "pending" are ready for eCount straight away.
+export async function enqueueOrderSyncJobIfReady(order: Order): Promise<void> {
+  if ((order.erpSyncStatus || "pending") === "pending") {
+    await enqueueOrderSyncJob(order.id);
+  }
+}
@@ -0,0 +1,17 @@
+// Imported first by server tests so storage falls back to MemStorage and nothing a test saves can
+// reach a database configured in the developer's shell, nor a test email reach a real inbox.
+const DATABASE_ENV_VARS = [
+  "DATABASE_URL",
+  "POSTGRES_URL",
+  "POSTGRES_PRISMA_URL",
+  "SUPABASE_DB_URL",
+  "PGPASSWORD",
+  "SUPABASE_DB_PASSWORD",
+  "POSTGRES_PASSWORD",
+];
+
+for (const name of DATABASE_ENV_VARS) {
+  delete process.env[name];
+}
+
+delete process.env.RESEND_API_KEY;
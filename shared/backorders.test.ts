@@ -0,0 +1,97 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { OrderItem } from "./schema.js";
+import {
+  formatExpectedArrival,
+  getOrderableQuantity,
+  MAX_BACKORDER_QUANTITY,
+  splitBackorderItems,
+  splitOrderItem,
+} from "./backorders.js";
+
+const item = (productId: string, quantity: number, extra: Partial<OrderItem> = {}): OrderItem => ({
+  productId,
+  name: productId,
+  price: "1000",
+  quantity,
+  referenceNumber: "",
+  ...extra,
+});
+
+const split = (items: OrderItem[], available: Record<string, number>, backorderable: string[]) =>
+  splitBackorderItems(items, {
+    getProductCode: (productId) => productId.toUpperCase(),
+    availableByCode: new Map(Object.entries(available)),
+    backorderableCodes: new Set(backorderable),
+  });
+
+describe("getOrderableQuantity", () => {
+  test("adds the backorder allowance only to backorderable products", () => {
+    assert.equal(getOrderableQuantity({ availableQuantity: 5 }), 5);
+    assert.equal(getOrderableQuantity({ availableQuantity: 5, backorderable: true }), 5 + MAX_BACKORDER_QUANTITY);
+    assert.equal(getOrderableQuantity({ availableQuantity: -2, backorderable: true }), MAX_BACKORDER_QUANTITY);
+  });
+});
+
+describe("splitOrderItem", () => {
+  test("shares the discount pro rata and works VAT out again for each part", () => {
+    const [first, second] = splitOrderItem(
+      item("kit", 3, { price: "1000", vatClass: "standard", discountAmount: "100.00", vatAmount: "522.00" }),
+      2,
+    );
+
+    assert.equal(first.quantity, 2);
+    assert.equal(first.discountAmount, "66.67");
+    assert.equal(first.vatAmount, "348.00");
+    assert.equal(second.quantity, 1);
+    assert.equal(second.discountAmount, "33.33");
+    assert.equal(second.vatAmount, "174.00");
+  });
+
+  test("leaves unpriced fields unset", () => {
+    const [first, second] = splitOrderItem(item("kit", 4), 1);
+    assert.equal(first.discountAmount, undefined);
+    assert.equal(first.vatAmount, undefined);
+    assert.equal(second.quantity, 3);
+  });
+});
+
+describe("splitBackorderItems", () => {
+  test("splits a backorderable line at the stock on hand", () => {
+    const { inStockItems, backorderItems } = split([item("kit", 10)], { KIT: 4 }, ["KIT"]);
+    assert.deepEqual(inStockItems.map((line) => line.quantity), [4]);
+    assert.deepEqual(backorderItems.map((line) => line.quantity), [6]);
+  });
+
+  test("backorders the whole line when nothing is in stock", () => {
+    const { inStockItems, backorderItems } = split([item("kit", 3), item("gloves", 2)], { GLOVES: 9 }, ["KIT"]);
+    assert.deepEqual(inStockItems.map((line) => line.productId), ["gloves"]);
+    assert.deepEqual(backorderItems.map((line) => [line.productId, line.quantity]), [["kit", 3]]);
+  });
+
+  test("keeps lines of products that are not backorderable whole, even when short", () => {
+    const { inStockItems, backorderItems } = split([item("gloves", 20)], { GLOVES: 5 }, ["KIT"]);
+    assert.deepEqual(inStockItems.map((line) => line.quantity), [20]);
+    assert.equal(backorderItems.length, 0);
+  });
+
+  test("two lines of the same product share its stock", () => {
+    const { inStockItems, backorderItems } = split([item("kit", 3), item("Kit", 3)], { KIT: 4 }, ["KIT"]);
+    assert.deepEqual(inStockItems.map((line) => line.quantity), [3, 1]);
+    assert.deepEqual(backorderItems.map((line) => line.quantity), [2]);
+  });
+
+  test("treats reservations that exceed stock as nothing available", () => {
+    const { inStockItems, backorderItems } = split([item("kit", 2)], { KIT: -3 }, ["KIT"]);
+    assert.equal(inStockItems.length, 0);
+    assert.deepEqual(backorderItems.map((line) => line.quantity), [2]);
+  });
+});
+
+describe("formatExpectedArrival", () => {
+  test("formats the date and falls back when it is unknown", () => {
+    assert.equal(formatExpectedArrival("2026-11-03T00:00:00.000Z"), "3 Nov 2026");
+    assert.equal(formatExpectedArrival(null), "to be confirmed");
+    assert.equal(formatExpectedArrival("not a date"), "to be confirmed");
+  });
+});
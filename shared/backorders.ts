@@ -0,0 +1,110 @@
+import type { OrderItem } from "./schema.js";
+import { calculateLineVat } from "./orderTax.js";
+
+// Lines ordered beyond stock of a backorderable product are split off at checkout into their own
+// order, which waits in "backordered" until the stock arrives. The same value on erp_sync_status
+// keeps it out of the eCount sync queue, as awaiting_payment does for unpaid orders.
+export const ORDER_BACKORDERED_STATUS = "backordered";
+export const ERP_SYNC_BACKORDERED = "backordered";
+
+// How far past stock on hand a customer may order one backorderable product.
+export const MAX_BACKORDER_QUANTITY = 1000;
+
+export type BackorderSplit = {
+  inStockItems: OrderItem[];
+  backorderItems: OrderItem[];
+};
+
+// Outcome of releasing backorders after an inventory refresh; `released` lists order numbers.
+export type BackorderReleaseSummary = {
+  waiting: number;
+  released: string[];
+};
+
+export function isOrderBackordered(order: { status?: string | null }): boolean {
+  return order.status === ORDER_BACKORDERED_STATUS;
+}
+
+/** Most a customer may have in the cart: stock on hand, plus the backorder allowance where offered. */
+export function getOrderableQuantity(product: { availableQuantity: number; backorderable?: boolean }): number {
+  const available = Math.max(0, product.availableQuantity);
+  return product.backorderable ? available + MAX_BACKORDER_QUANTITY : available;
+}
+
+const toCents = (value?: string | null) => Math.round((Number.parseFloat(value || "0") || 0) * 100);
+
+/**
+ * Split one order line in two by quantity. The line discount is shared pro rata (the first part is
+ * rounded, the second takes the rest) and VAT is worked out again for each part.
+ */
+export function splitOrderItem(item: OrderItem, firstQuantity: number): [OrderItem, OrderItem] {
+  const discountCents = toCents(item.discountAmount);
+  const firstDiscountCents = Math.round((discountCents * firstQuantity) / item.quantity);
+  const buildPart = (quantity: number, cents: number): OrderItem => {
+    const discountAmount = item.discountAmount === undefined ? undefined : (cents / 100).toFixed(2);
+    return {
+      ...item,
+      quantity,
+      discountAmount,
+      vatAmount: item.vatAmount === undefined
+        ? undefined
+        : calculateLineVat(item.price, quantity, item.vatClass, discountAmount ?? 0).toFixed(2),
+    };
+  };
+
+  return [
+    buildPart(firstQuantity, firstDiscountCents),
+    buildPart(item.quantity - firstQuantity, discountCents - firstDiscountCents),
+  ];
+}
+
+/**
+ * Divide priced order lines into what stock on hand covers and what goes on backorder. Lines of
+ * products that are not backorderable stay whole in the in-stock part, where the stock reservation
+ * turns any shortage away as before. `availableByCode` is consumed as lines are placed, so two
+ * lines of the same product share its stock.
+ */
+export function splitBackorderItems(
+  items: OrderItem[],
+  options: {
+    getProductCode: (productId: string) => string;
+    availableByCode: Map<string, number>;
+    backorderableCodes: Set<string>;
+  },
+): BackorderSplit {
+  const remainingByCode = new Map(options.availableByCode);
+  const inStockItems: OrderItem[] = [];
+  const backorderItems: OrderItem[] = [];
+
+  for (const item of items) {
+    const productCode = options.getProductCode(item.productId);
+    const available = Math.max(0, Math.floor(remainingByCode.get(productCode) ?? 0));
+
+    if (!options.backorderableCodes.has(productCode) || item.quantity <= available) {
+      inStockItems.push(item);
+      remainingByCode.set(productCode, available - Math.min(available, item.quantity));
+      continue;
+    }
+
+    remainingByCode.set(productCode, 0);
+    if (available === 0) {
+      backorderItems.push(item);
+    } else {
+      const [inStockPart, backorderPart] = splitOrderItem(item, available);
+      inStockItems.push(inStockPart);
+      backorderItems.push(backorderPart);
+    }
+  }
+
+  return { inStockItems, backorderItems };
+}
+
+export function formatExpectedArrival(value?: Date | string | null): string {
+  if (!value) {
+    return "to be confirmed";
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? "to be confirmed"
+    : date.toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric", timeZone: "UTC" });
+}
@@ -0,0 +1,45 @@
+import type { DeliveryZoneTariff } from "./orderPricing.js";
+import type { DeliveryZone, UpdateDeliveryZone } from "./schema.js";
+
+const parseOptionalAmount = (value?: string | null) => {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export function toDeliveryZoneTariff(zone: DeliveryZone): DeliveryZoneTariff {
+  return {
+    code: zone.code,
+    name: zone.name,
+    addressKeywords: zone.addressKeywords ?? [],
+    transportCost: parseOptionalAmount(zone.transportCost) ?? 0,
+    freeDeliveryMinimum: parseOptionalAmount(zone.freeDeliveryMinimum),
+    weightThresholdKg: parseOptionalAmount(zone.weightThresholdKg),
+    extraCostPerKg: parseOptionalAmount(zone.extraCostPerKg) ?? 0,
+  };
+}
+
+const formatOptionalAmount = (value?: number | null) =>
+  value === null || value === undefined ? value : value.toFixed(2);
+
+// Map validated admin input onto delivery_zones column values, leaving omitted fields out.
+export function buildDeliveryZoneValues(zone: UpdateDeliveryZone): Partial<DeliveryZone> {
+  const values: Partial<DeliveryZone> = {};
+
+  if (zone.code !== undefined) values.code = zone.code;
+  if (zone.name !== undefined) values.name = zone.name;
+  if (zone.addressKeywords !== undefined) {
+    values.addressKeywords = zone.addressKeywords.map((keyword) => keyword.toLowerCase());
+  }
+  if (zone.transportCost !== undefined) values.transportCost = zone.transportCost.toFixed(2);
+  if (zone.freeDeliveryMinimum !== undefined) values.freeDeliveryMinimum = formatOptionalAmount(zone.freeDeliveryMinimum) ?? null;
+  if (zone.weightThresholdKg !== undefined) values.weightThresholdKg = formatOptionalAmount(zone.weightThresholdKg) ?? null;
+  if (zone.extraCostPerKg !== undefined) values.extraCostPerKg = zone.extraCostPerKg.toFixed(2);
+  if (zone.active !== undefined) values.active = zone.active;
+  if (zone.sortOrder !== undefined) values.sortOrder = zone.sortOrder;
+
+  return values;
+}
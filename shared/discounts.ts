@@ -0,0 +1,221 @@
+import type { DiscountRule, InsertDiscountRule, OrderItem } from "./schema.js";
+
+export const DISCOUNT_RULE_TYPE_VALUES = ["volume_break", "category_promotion", "coupon"] as const;
+
+export type DiscountRuleType = (typeof DISCOUNT_RULE_TYPE_VALUES)[number];
+
+const roundToCents = (value: number) => Math.round(value * 100) / 100;
+
+const parseOptionalAmount = (value?: string | null) => {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export function normalizeCouponCode(code?: string | null): string {
+  return (code ?? "").trim().toUpperCase();
+}
+
+export function getDiscountRuleTypeLabel(type?: string | null): string {
+  switch (type) {
+    case "volume_break":
+      return "Volume break";
+    case "category_promotion":
+      return "Category promotion";
+    case "coupon":
+      return "Coupon";
+    default:
+      return type || "Unknown";
+  }
+}
+
+// The rule as admins entered it, e.g. for pre-filling the edit form or re-validating a partial update.
+export function toDiscountRuleInput(rule: DiscountRule): InsertDiscountRule {
+  return {
+    name: rule.name,
+    type: rule.type as DiscountRuleType,
+    productId: rule.productId,
+    category: rule.category,
+    couponCode: rule.couponCode,
+    minQuantity: rule.minQuantity,
+    percentOff: parseOptionalAmount(rule.percentOff),
+    amountOff: parseOptionalAmount(rule.amountOff),
+    minOrderSubtotal: parseOptionalAmount(rule.minOrderSubtotal),
+    startsAt: rule.startsAt ? new Date(rule.startsAt) : null,
+    endsAt: rule.endsAt ? new Date(rule.endsAt) : null,
+    active: rule.active,
+  };
+}
+
+const formatOptionalAmount = (value?: number | null) =>
+  value === null || value === undefined ? null : value.toFixed(2);
+
+// Map validated admin input onto discount_rules column values.
+export function buildDiscountRuleValues(rule: InsertDiscountRule) {
+  return {
+    name: rule.name,
+    type: rule.type,
+    productId: rule.productId || null,
+    category: rule.category || null,
+    couponCode: rule.type === "coupon" ? normalizeCouponCode(rule.couponCode) || null : null,
+    minQuantity: rule.minQuantity,
+    percentOff: formatOptionalAmount(rule.percentOff),
+    amountOff: formatOptionalAmount(rule.amountOff),
+    minOrderSubtotal: rule.type === "coupon" ? formatOptionalAmount(rule.minOrderSubtotal) : null,
+    startsAt: rule.startsAt ?? null,
+    endsAt: rule.endsAt ?? null,
+    active: rule.active,
+  };
+}
+
+export function describeDiscountRule(rule: DiscountRule): string {
+  const percentOff = parseOptionalAmount(rule.percentOff);
+  const off = percentOff !== null
+    ? `${percentOff}% off`
+    : `TZS ${Math.round(parseOptionalAmount(rule.amountOff) ?? 0).toLocaleString()} off${rule.type === "coupon" ? "" : " per unit"}`;
+  const scope = rule.productId || rule.category || "";
+
+  if (rule.type === "volume_break") {
+    return `${rule.minQuantity}+ of ${rule.productId}: ${off}`;
+  }
+  if (rule.type === "category_promotion") {
+    return `${rule.category}${rule.minQuantity > 1 ? ` (${rule.minQuantity}+ units)` : ""}: ${off}`;
+  }
+  return `${rule.couponCode}: ${off}${scope ? ` on ${scope}` : ""}`;
+}
+
+export function isDiscountRuleLive(rule: DiscountRule, now = new Date()): boolean {
+  return (
+    rule.active &&
+    (!rule.startsAt || new Date(rule.startsAt).getTime() <= now.getTime()) &&
+    (!rule.endsAt || new Date(rule.endsAt).getTime() > now.getTime())
+  );
+}
+
+const getLineGross = (item: Pick<OrderItem, "price" | "quantity">) =>
+  (Number.parseFloat(item.price || "0") || 0) * item.quantity;
+
+const matchesRuleScope = (rule: DiscountRule, item: OrderItem, category: string | null) =>
+  (!rule.productId || rule.productId === item.productId) &&
+  (!rule.category || (category ?? "").toLowerCase() === rule.category.toLowerCase());
+
+// Discount a line rule gives a whole line, capped at the line amount.
+const getLineRuleDiscount = (rule: DiscountRule, item: OrderItem) => {
+  const gross = getLineGross(item);
+  const percentOff = parseOptionalAmount(rule.percentOff);
+  const discount = percentOff !== null
+    ? gross * (percentOff / 100)
+    : (parseOptionalAmount(rule.amountOff) ?? 0) * item.quantity;
+  return roundToCents(Math.min(gross, discount));
+};
+
+// Response of POST /api/discounts/quote; only discounted lines are listed.
+export interface DiscountQuote {
+  lines: Array<{ productId: string; discountAmount: string; discountLabel: string }>;
+  discountTotal: string;
+  couponCode: string | null;
+  couponError: string | null;
+}
+
+export interface DiscountContext {
+  couponCode?: string | null;
+  now?: Date;
+  // Category of a product, for category promotions and category-restricted coupons
+  getCategory: (productId: string) => string | null | undefined;
+}
+
+export interface DiscountResult {
+  items: OrderItem[];
+  discountTotal: number;
+  couponCode: string | null;
+  // Why a coupon the customer entered was not applied; null when no code was entered or it applied
+  couponError: string | null;
+}
+
+/**
+ * Apply discount rules to priced order lines. Each line gets the single best automatic rule
+ * (volume break or category promotion; they do not stack), then the coupon is applied to what
+ * remains and spread across the lines it covers so every line carries its own discountAmount,
+ * exactly as it is sent to eCount. Discount fields already on the items are replaced.
+ */
+export function applyDiscountRules(items: OrderItem[], rules: DiscountRule[], context: DiscountContext): DiscountResult {
+  const now = context.now ?? new Date();
+  const liveRules = rules.filter((rule) => isDiscountRuleLive(rule, now));
+  const lineRules = liveRules.filter((rule) => rule.type !== "coupon");
+
+  const lines = items.map(({ discountAmount: _discountAmount, discountLabel: _discountLabel, ...item }) => {
+    const category = context.getCategory(item.productId) ?? null;
+    const best = lineRules
+      .filter((rule) => item.quantity >= rule.minQuantity && matchesRuleScope(rule, item, category))
+      .map((rule) => ({ rule, amount: getLineRuleDiscount(rule, item) }))
+      .filter((candidate) => candidate.amount > 0)
+      .sort((a, b) => b.amount - a.amount)[0];
+
+    return {
+      item: item as OrderItem,
+      category,
+      discount: best?.amount ?? 0,
+      labels: best ? [best.rule.name] : [],
+    };
+  });
+
+  const requestedCode = normalizeCouponCode(context.couponCode);
+  let couponCode: string | null = null;
+  let couponError: string | null = null;
+
+  if (requestedCode) {
+    const coupon = rules.find((rule) => rule.type === "coupon" && normalizeCouponCode(rule.couponCode) === requestedCode);
+    const netSubtotal = lines.reduce((sum, line) => sum + getLineGross(line.item) - line.discount, 0);
+    const eligibleLines = coupon ? lines.filter((line) => matchesRuleScope(coupon, line.item, line.category)) : [];
+    const eligibleNet = eligibleLines.reduce((sum, line) => sum + getLineGross(line.item) - line.discount, 0);
+    const minOrderSubtotal = coupon ? parseOptionalAmount(coupon.minOrderSubtotal) : null;
+
+    if (!coupon || !coupon.active) {
+      couponError = `Coupon code ${requestedCode} is not valid`;
+    } else if (coupon.startsAt && new Date(coupon.startsAt).getTime() > now.getTime()) {
+      couponError = `Coupon code ${requestedCode} is not active yet`;
+    } else if (coupon.endsAt && new Date(coupon.endsAt).getTime() <= now.getTime()) {
+      couponError = `Coupon code ${requestedCode} has expired`;
+    } else if (minOrderSubtotal !== null && netSubtotal < minOrderSubtotal) {
+      couponError = `Coupon code ${requestedCode} applies to orders from TZS ${Math.round(minOrderSubtotal).toLocaleString()}`;
+    } else if (eligibleNet <= 0) {
+      couponError = `Coupon code ${requestedCode} does not apply to any item in your cart`;
+    } else {
+      const percentOff = parseOptionalAmount(coupon.percentOff);
+      const couponTotal = roundToCents(
+        Math.min(eligibleNet, percentOff !== null ? eligibleNet * (percentOff / 100) : parseOptionalAmount(coupon.amountOff) ?? 0),
+      );
+
+      // Spread pro rata; the last line takes the rounding remainder so lines add up to the coupon total.
+      let allocated = 0;
+      eligibleLines.forEach((line, index) => {
+        const lineNet = getLineGross(line.item) - line.discount;
+        const share = index === eligibleLines.length - 1
+          ? roundToCents(couponTotal - allocated)
+          : roundToCents((couponTotal * lineNet) / eligibleNet);
+        allocated = roundToCents(allocated + share);
+        if (share > 0) {
+          line.discount = roundToCents(line.discount + share);
+          line.labels.push(coupon.name);
+        }
+      });
+      couponCode = requestedCode;
+    }
+  }
+
+  const discountedItems = lines.map((line) =>
+    line.discount > 0
+      ? { ...line.item, discountAmount: line.discount.toFixed(2), discountLabel: line.labels.join(" + ") }
+      : line.item,
+  );
+
+  return {
+    items: discountedItems,
+    discountTotal: roundToCents(lines.reduce((sum, line) => sum + line.discount, 0)),
+    couponCode,
+    couponError,
+  };
+}
@@ -0,0 +1,126 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  getExpectedErpAmount,
+  parseErpOrderReference,
+  reconcileErpDocuments,
+  type ErpReconciliationOrder,
+  type ErpSaleDocument,
+} from "./erpReconciliation.js";
+
+const order = (orderNumber: string, overrides: Partial<ErpReconciliationOrder> = {}): ErpReconciliationOrder => ({
+  id: `id-${orderNumber}`,
+  orderNumber,
+  status: "processing",
+  subtotal: "100000.00",
+  discountTotal: "10000.00",
+  tax: "16200.00",
+  erpSyncStatus: "synced",
+  erpDocNumber: null,
+  erpReversalDocNumber: null,
+  ...overrides,
+});
+
+const document = (reference: string, totalAmount: number, docNo = `20260101-${reference}`): ErpSaleDocument => ({
+  docNo,
+  ioDate: "20260101",
+  reference,
+  custCode: "10839",
+  supplyAmount: totalAmount,
+  vatAmount: 0,
+  totalAmount,
+  lineCount: 1,
+});
+
+describe("parseErpOrderReference", () => {
+  test("reads sale and reversal references", () => {
+    assert.deepEqual(parseErpOrderReference("WEB-ORD-20260101-001"), { orderNumber: "ORD-20260101-001", kind: "sale" });
+    assert.deepEqual(parseErpOrderReference(" WEB-ORD-20260101-001-CXL "), { orderNumber: "ORD-20260101-001", kind: "reversal" });
+  });
+
+  test("ignores documents that are not web orders", () => {
+    assert.equal(parseErpOrderReference("Walk-in sale"), null);
+    assert.equal(parseErpOrderReference(""), null);
+    assert.equal(parseErpOrderReference(null), null);
+  });
+});
+
+describe("getExpectedErpAmount", () => {
+  test("is the discounted subtotal plus VAT", () => {
+    assert.equal(getExpectedErpAmount(order("A")), 106200);
+  });
+});
+
+describe("reconcileErpDocuments", () => {
+  test("an order with one sale document for its amount matches", () => {
+    const result = reconcileErpDocuments([order("A")], [document("WEB-A", 106200.4), document("Manual entry", 5000)]);
+
+    assert.equal(result.matched, 1);
+    assert.equal(result.documentsChecked, 1);
+    assert.deepEqual(result.issues, []);
+  });
+
+  test("reports missing, duplicated and amount-mismatched documents", () => {
+    const result = reconcileErpDocuments(
+      [order("A"), order("B"), order("C"), order("D", { erpSyncStatus: "pending" })],
+      [document("WEB-B", 106200, "1"), document("WEB-B", 106200, "2"), document("WEB-C", 96200)],
+    );
+
+    assert.deepEqual(
+      result.issues.map((issue) => [issue.type, issue.orderNumber, issue.docNumbers]),
+      [
+        ["missing", "A", []],
+        ["duplicated", "B", ["1", "2"]],
+        ["amount_mismatch", "C", ["20260101-WEB-C"]],
+        ["missing", "D", []],
+      ],
+    );
+    assert.equal(result.issues[2].expectedAmount, 106200);
+    assert.equal(result.issues[2].erpAmount, 96200);
+    assert.match(result.issues[3].message, /local sync status: pending/);
+  });
+
+  test("unpaid and unsynced cancelled orders should not be in eCount", () => {
+    const result = reconcileErpDocuments(
+      [
+        order("A", { status: "awaiting_payment", erpSyncStatus: "awaiting_payment" }),
+        order("B", { status: "cancelled", erpSyncStatus: "pending" }),
+      ],
+      [document("WEB-B", 106200)],
+    );
+
+    assert.deepEqual(result.issues.map((issue) => [issue.type, issue.orderNumber]), [["unexpected", "B"]]);
+  });
+
+  test("backorders waiting for stock should not be in eCount yet", () => {
+    const result = reconcileErpDocuments(
+      [
+        order("A", { status: "backordered", erpSyncStatus: "backordered" }),
+        order("B", { status: "backordered", erpSyncStatus: "backordered" }),
+      ],
+      [document("WEB-B", 106200)],
+    );
+
+    assert.equal(result.matched, 0);
+    assert.deepEqual(result.issues.map((issue) => [issue.type, issue.orderNumber]), [["unexpected", "B"]]);
+  });
+
+  test("a cancelled synced order needs a reversal for the negated amount", () => {
+    const cancelled = order("A", { status: "cancelled", erpDocNumber: "20260101-1", erpReversalDocNumber: "20260102-1" });
+
+    assert.equal(reconcileErpDocuments([cancelled], [document("WEB-A", 106200), document("WEB-A-CXL", -106200)]).matched, 2);
+
+    const [issue] = reconcileErpDocuments([cancelled], [document("WEB-A", 106200)]).issues;
+    assert.equal(issue.type, "missing");
+    assert.equal(issue.kind, "reversal");
+    assert.equal(issue.reference, "WEB-A-CXL");
+  });
+
+  test("web documents without a local order are unexpected", () => {
+    const [issue] = reconcileErpDocuments([], [document("WEB-Z", 5000)]).issues;
+
+    assert.equal(issue.type, "unexpected");
+    assert.equal(issue.orderId, null);
+    assert.equal(issue.erpAmount, 5000);
+  });
+});
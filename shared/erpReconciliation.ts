@@ -0,0 +1,208 @@
+import type { Order } from "./schema.js";
+import { ORDER_AWAITING_PAYMENT_STATUS } from "./payments.js";
+import { ORDER_BACKORDERED_STATUS } from "./backorders.js";
+
+// Web orders reach eCount as sale orders with REF_DES "WEB-<orderNumber>"; a cancellation of a
+// synced order adds a reversal document with REF_DES "WEB-<orderNumber>-CXL".
+export const ERP_ORDER_REFERENCE_PREFIX = "WEB-";
+export const ERP_REVERSAL_REFERENCE_SUFFIX = "-CXL";
+
+export const ERP_RECONCILIATION_ISSUE_VALUES = ["missing", "duplicated", "amount_mismatch", "unexpected"] as const;
+
+export type ErpReconciliationIssueType = (typeof ERP_RECONCILIATION_ISSUE_VALUES)[number];
+
+export type ErpDocumentKind = "sale" | "reversal";
+
+// A longer period risks eCount's list paging and rate limits; finance reconciles month by month.
+export const ERP_RECONCILIATION_MAX_DAYS = 62;
+
+// eCount stores amounts per line; totals that differ by less than this are rounding, not a mismatch.
+export const ERP_RECONCILIATION_AMOUNT_TOLERANCE = 1;
+
+// One eCount sale order document, its lines summed.
+export type ErpSaleDocument = {
+  docNo: string;
+  ioDate: string;
+  reference: string;
+  custCode: string;
+  supplyAmount: number;
+  vatAmount: number;
+  totalAmount: number;
+  lineCount: number;
+};
+
+export type ErpReconciliationOrder = Pick<
+  Order,
+  "id" | "orderNumber" | "status" | "subtotal" | "discountTotal" | "tax" | "erpSyncStatus" | "erpDocNumber" | "erpReversalDocNumber"
+>;
+
+export type ErpReconciliationIssue = {
+  type: ErpReconciliationIssueType;
+  kind: ErpDocumentKind;
+  reference: string;
+  orderId: string | null;
+  orderNumber: string | null;
+  erpSyncStatus: string | null;
+  docNumbers: string[];
+  expectedAmount: number | null;
+  erpAmount: number | null;
+  message: string;
+};
+
+export type ErpReconciliationResult = {
+  ordersChecked: number;
+  documentsChecked: number;
+  matched: number;
+  issues: ErpReconciliationIssue[];
+};
+
+export function getErpOrderReference(orderNumber: string, kind: ErpDocumentKind = "sale"): string {
+  return `${ERP_ORDER_REFERENCE_PREFIX}${orderNumber}${kind === "reversal" ? ERP_REVERSAL_REFERENCE_SUFFIX : ""}`;
+}
+
+/** The web order behind an eCount REF_DES, or null for documents keyed in by hand. */
+export function parseErpOrderReference(reference?: string | null): { orderNumber: string; kind: ErpDocumentKind } | null {
+  const value = (reference || "").trim();
+  if (!value.startsWith(ERP_ORDER_REFERENCE_PREFIX)) {
+    return null;
+  }
+
+  const isReversal = value.endsWith(ERP_REVERSAL_REFERENCE_SUFFIX);
+  const orderNumber = value.slice(
+    ERP_ORDER_REFERENCE_PREFIX.length,
+    isReversal ? -ERP_REVERSAL_REFERENCE_SUFFIX.length : undefined,
+  );
+  return orderNumber ? { orderNumber, kind: isReversal ? "reversal" : "sale" } : null;
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+// Sale order lines carry the discounted supply amount and its VAT; delivery and ice packs stay off the ERP document.
+export function getExpectedErpAmount(order: Pick<Order, "subtotal" | "discountTotal" | "tax">): number {
+  const subtotal = Number.parseFloat(order.subtotal) || 0;
+  const discount = Number.parseFloat(order.discountTotal || "0") || 0;
+  const tax = Number.parseFloat(order.tax) || 0;
+  return roundAmount(subtotal - discount + tax);
+}
+
+// Unpaid orders, backorders still waiting for stock and orders cancelled before they reached
+// eCount should have no sale document.
+export function isOrderExpectedInErp(order: ErpReconciliationOrder): boolean {
+  if (order.erpSyncStatus === "synced" || order.erpDocNumber) {
+    return true;
+  }
+  return order.status !== ORDER_AWAITING_PAYMENT_STATUS
+    && order.status !== ORDER_BACKORDERED_STATUS
+    && order.status !== "cancelled";
+}
+
+export function getErpReconciliationIssueLabel(type?: string | null): string {
+  switch (type) {
+    case "missing":
+      return "Missing in eCount";
+    case "duplicated":
+      return "Duplicated in eCount";
+    case "amount_mismatch":
+      return "Amount mismatch";
+    case "unexpected":
+      return "Unexpected document";
+    default:
+      return "Unknown";
+  }
+}
+
+const formatAmount = (value: number) => value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+
+/**
+ * Match local orders to the eCount sale documents carrying their reference. Every order that
+ * should be in eCount needs exactly one sale document for its amount, and one reversal when it was
+ * cancelled after syncing; web documents with no such order are reported as unexpected. Documents
+ * without a WEB- reference are not web orders and are skipped.
+ */
+export function reconcileErpDocuments(
+  orders: ErpReconciliationOrder[],
+  documents: ErpSaleDocument[],
+): ErpReconciliationResult {
+  const documentsByReference = new Map<string, ErpSaleDocument[]>();
+  let documentsChecked = 0;
+  for (const document of documents) {
+    const parsed = parseErpOrderReference(document.reference);
+    if (!parsed) {
+      continue;
+    }
+    documentsChecked += 1;
+    const reference = getErpOrderReference(parsed.orderNumber, parsed.kind);
+    documentsByReference.set(reference, [...(documentsByReference.get(reference) || []), document]);
+  }
+
+  const issues: ErpReconciliationIssue[] = [];
+  let matched = 0;
+
+  const checkDocument = (order: ErpReconciliationOrder, kind: ErpDocumentKind, expected: boolean) => {
+    const reference = getErpOrderReference(order.orderNumber, kind);
+    const found = documentsByReference.get(reference) || [];
+    documentsByReference.delete(reference);
+
+    const expectedAmount = getExpectedErpAmount(order) * (kind === "reversal" ? -1 : 1);
+    const erpAmount = found.length > 0 ? roundAmount(found.reduce((sum, document) => sum + document.totalAmount, 0)) : null;
+    const issue = (type: ErpReconciliationIssueType, message: string) => issues.push({
+      type,
+      kind,
+      reference,
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      erpSyncStatus: order.erpSyncStatus,
+      docNumbers: found.map((document) => document.docNo),
+      expectedAmount: expected ? expectedAmount : null,
+      erpAmount,
+      message,
+    });
+    const label = kind === "reversal" ? "reversal" : "sale order";
+
+    if (!expected) {
+      if (found.length > 0) {
+        issue("unexpected", `Order ${order.orderNumber} is ${order.status} but eCount has a ${label} for it`);
+      }
+      return;
+    }
+    if (found.length === 0) {
+      issue("missing", `No eCount ${label} for ${order.orderNumber} (local sync status: ${order.erpSyncStatus || "pending"})`);
+      return;
+    }
+    if (found.length > 1) {
+      issue("duplicated", `${found.length} eCount ${label}s for ${order.orderNumber}`);
+      return;
+    }
+    if (Math.abs(found[0].totalAmount - expectedAmount) > ERP_RECONCILIATION_AMOUNT_TOLERANCE) {
+      issue(
+        "amount_mismatch",
+        `eCount ${label} ${found[0].docNo} totals ${formatAmount(found[0].totalAmount)}, expected ${formatAmount(expectedAmount)}`,
+      );
+      return;
+    }
+    matched += 1;
+  };
+
+  for (const order of orders) {
+    checkDocument(order, "sale", isOrderExpectedInErp(order));
+    checkDocument(order, "reversal", Boolean(order.erpReversalDocNumber));
+  }
+
+  for (const [reference, found] of Array.from(documentsByReference.entries())) {
+    issues.push({
+      type: "unexpected",
+      kind: parseErpOrderReference(reference)!.kind,
+      reference,
+      orderId: null,
+      orderNumber: null,
+      erpSyncStatus: null,
+      docNumbers: found.map((document) => document.docNo),
+      expectedAmount: null,
+      erpAmount: roundAmount(found.reduce((sum, document) => sum + document.totalAmount, 0)),
+      message: `No web order matches ${reference}`,
+    });
+  }
+
+  issues.sort((a, b) => a.reference.localeCompare(b.reference));
+  return { ordersChecked: orders.length, documentsChecked, matched, issues };
+}
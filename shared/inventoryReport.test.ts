@@ -0,0 +1,93 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { OrderItem } from "./schema.js";
+import { buildStockMovementRows, getDailyClosingQuantities, getDaysOfCover } from "./inventoryReport.js";
+
+const item = (productId: string, quantity: number, name = productId): OrderItem => ({
+  productId,
+  name,
+  price: "1000",
+  quantity,
+  referenceNumber: "",
+});
+
+const rows = (input: Partial<Parameters<typeof buildStockMovementRows>[0]>) =>
+  buildStockMovementRows({
+    days: 10,
+    getProductCode: (code) => code.trim().toUpperCase(),
+    startItems: null,
+    currentItems: null,
+    orderItems: [],
+    ...input,
+  });
+
+describe("getDailyClosingQuantities", () => {
+  test("keeps the last snapshot of each UTC day, in date order", () => {
+    assert.deepEqual(
+      getDailyClosingQuantities([
+        { takenAt: "2026-10-02T08:00:00.000Z", quantity: 7 },
+        { takenAt: "2026-10-01T23:30:00.000Z", quantity: 12 },
+        { takenAt: "2026-10-01T06:00:00.000Z", quantity: 20 },
+        { takenAt: new Date("2026-10-02T17:00:00.000Z"), quantity: 4 },
+      ]),
+      [
+        { date: "2026-10-01", quantity: 12 },
+        { date: "2026-10-02", quantity: 4 },
+      ],
+    );
+  });
+});
+
+describe("getDaysOfCover", () => {
+  test("divides stock by daily velocity to one decimal", () => {
+    assert.equal(getDaysOfCover(10, 3), 3.3);
+    assert.equal(getDaysOfCover(-5, 2), 0);
+  });
+
+  test("has no cover figure when nothing sells", () => {
+    assert.equal(getDaysOfCover(40, 0), null);
+  });
+});
+
+describe("buildStockMovementRows", () => {
+  test("sums warehouses and order lines by normalized code, fastest movers first", () => {
+    const result = rows({
+      startItems: [
+        { productCode: "kit", quantity: 50 },
+        { productCode: "gloves", quantity: 30 },
+      ],
+      currentItems: [
+        { productCode: "kit", quantity: 15 },
+        { productCode: "KIT ", quantity: 5 },
+        { productCode: "gloves", quantity: 28 },
+      ],
+      orderItems: [item("kit", 20, "Malaria kit"), item("Kit", 10), item("gloves", 2)],
+    });
+
+    assert.deepEqual(result.map((row) => row.productCode), ["KIT", "GLOVES"]);
+    assert.deepEqual(result[0], {
+      productCode: "KIT",
+      name: "Malaria kit",
+      currentQuantity: 20,
+      startQuantity: 50,
+      unitsOrdered: 30,
+      dailyVelocity: 3,
+      daysOfCover: 6.7,
+    });
+    assert.equal(result[1].daysOfCover, 140);
+  });
+
+  test("counts a product missing from the latest snapshot as out of stock", () => {
+    const [row] = rows({ startItems: [], currentItems: [], orderItems: [item("kit", 4)] });
+    assert.equal(row.currentQuantity, 0);
+    assert.equal(row.startQuantity, 0);
+    assert.equal(row.daysOfCover, 0);
+  });
+
+  test("leaves stock unknown when no snapshot was taken", () => {
+    const [row] = rows({ orderItems: [item("kit", 4)], getProductName: () => "Rapid test kit" });
+    assert.equal(row.name, "Rapid test kit");
+    assert.equal(row.currentQuantity, null);
+    assert.equal(row.daysOfCover, null);
+  });
+});
@@ -0,0 +1,136 @@
+import type { OrderItem } from "./schema.js";
+
+// Where an inventory snapshot came from: the admin bulk sync, a cache refresh in the app (checkout,
+// catalogue) or the VPS sync script. Every path that fetches a fresh balance from eCount saves one.
+export const INVENTORY_SNAPSHOT_SOURCES = ["bulk_sync", "inventory_cache", "vps_sync"] as const;
+
+export type InventorySnapshotSource = (typeof INVENTORY_SNAPSHOT_SOURCES)[number];
+
+export const DEFAULT_INVENTORY_REPORT_DAYS = 30;
+export const MAX_INVENTORY_REPORT_DAYS = 90;
+
+// Below this many days of cover the report flags a product; below half of it, urgently.
+export const LOW_DAYS_OF_COVER = 14;
+
+export type StockHistoryPoint = {
+  // UTC day, YYYY-MM-DD
+  date: string;
+  quantity: number;
+};
+
+export type StockMovementRow = {
+  productCode: string;
+  name: string;
+  // Null when no snapshot was taken in the report window
+  currentQuantity: number | null;
+  startQuantity: number | null;
+  unitsOrdered: number;
+  // Web order units per day over the report window
+  dailyVelocity: number;
+  // Days the current stock lasts at that velocity; null when nothing was ordered
+  daysOfCover: number | null;
+};
+
+export type InventoryReport = {
+  days: number;
+  from: string;
+  to: string;
+  snapshotCount: number;
+  lastSnapshotAt: string | null;
+  // Fastest moving first
+  products: StockMovementRow[];
+  history: { productCode: string; points: StockHistoryPoint[] } | null;
+};
+
+export type SnapshotQuantity = {
+  productCode: string;
+  quantity: number;
+};
+
+export type StockMovementInput = {
+  days: number;
+  getProductCode: (code: string) => string;
+  // Balances of the first and last snapshot in the window, per product and warehouse; null when there is none
+  startItems: SnapshotQuantity[] | null;
+  currentItems: SnapshotQuantity[] | null;
+  orderItems: OrderItem[];
+  getProductName?: (productCode: string) => string | null | undefined;
+};
+
+/** Closing stock of each UTC day: the last snapshot taken that day. Points come in any order. */
+export function getDailyClosingQuantities(points: Array<{ takenAt: Date | string; quantity: number }>): StockHistoryPoint[] {
+  const closing = new Map<string, { time: number; quantity: number }>();
+  for (const point of points) {
+    const takenAt = new Date(point.takenAt);
+    const date = takenAt.toISOString().slice(0, 10);
+    const existing = closing.get(date);
+    if (!existing || takenAt.getTime() >= existing.time) {
+      closing.set(date, { time: takenAt.getTime(), quantity: point.quantity });
+    }
+  }
+
+  return Array.from(closing.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, { quantity }]) => ({ date, quantity }));
+}
+
+export function getDaysOfCover(quantity: number, dailyVelocity: number): number | null {
+  if (dailyVelocity <= 0) {
+    return null;
+  }
+  return Math.round((Math.max(0, quantity) / dailyVelocity) * 10) / 10;
+}
+
+const sumByProduct = (entries: Array<[string, number]>, getProductCode: (code: string) => string) => {
+  const totals = new Map<string, number>();
+  for (const [code, quantity] of entries) {
+    const productCode = getProductCode(code);
+    if (productCode) {
+      totals.set(productCode, (totals.get(productCode) ?? 0) + quantity);
+    }
+  }
+  return totals;
+};
+
+/**
+ * One row per product in the latest snapshot or in the window's web orders. Snapshot balances are
+ * summed across warehouses; a product missing from a snapshot had nothing on hand. Sorted by units
+ * ordered, then by the fewest days of cover.
+ */
+export function buildStockMovementRows(input: StockMovementInput): StockMovementRow[] {
+  const toEntries = (items: SnapshotQuantity[]) => items.map((item) => [item.productCode, item.quantity] as [string, number]);
+  const start = input.startItems ? sumByProduct(toEntries(input.startItems), input.getProductCode) : null;
+  const current = input.currentItems ? sumByProduct(toEntries(input.currentItems), input.getProductCode) : null;
+  const ordered = sumByProduct(input.orderItems.map((item) => [item.productId, item.quantity]), input.getProductCode);
+
+  const orderedNames = new Map<string, string>();
+  for (const item of input.orderItems) {
+    const productCode = input.getProductCode(item.productId);
+    if (productCode && item.name && !orderedNames.has(productCode)) {
+      orderedNames.set(productCode, item.name);
+    }
+  }
+
+  const productCodes = new Set([...Array.from(current?.keys() ?? []), ...Array.from(ordered.keys())]);
+  const days = Math.max(1, input.days);
+
+  return Array.from(productCodes)
+    .map((productCode) => {
+      const unitsOrdered = ordered.get(productCode) ?? 0;
+      const dailyVelocity = Math.round((unitsOrdered / days) * 100) / 100;
+      const currentQuantity = current ? current.get(productCode) ?? 0 : null;
+      return {
+        productCode,
+        name: input.getProductName?.(productCode) || orderedNames.get(productCode) || productCode,
+        currentQuantity,
+        startQuantity: start ? start.get(productCode) ?? 0 : null,
+        unitsOrdered,
+        dailyVelocity,
+        daysOfCover: currentQuantity === null ? null : getDaysOfCover(currentQuantity, unitsOrdered / days),
+      };
+    })
+    .sort((a, b) =>
+      b.unitsOrdered - a.unitsOrdered
+      || (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity)
+      || a.productCode.localeCompare(b.productCode));
+}
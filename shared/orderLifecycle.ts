@@ -0,0 +1,190 @@
+export const ORDER_STATUS_VALUES = [
+  "awaiting_payment",
+  "backordered",
+  "paid",
+  "processing",
+  "shipped",
+  "delivered",
+  "completed",
+  "cancelled",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUS_VALUES)[number];
+
+// Allowed next statuses. Pickup orders may go straight from processing to completed, and an
+// admin can confirm an offline (bank transfer) payment by moving awaiting_payment to processing.
+// Backordered orders are released to awaiting_payment or processing once their stock arrives.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  awaiting_payment: ["paid", "processing", "cancelled"],
+  backordered: ["awaiting_payment", "processing", "cancelled"],
+  paid: ["processing", "shipped", "cancelled"],
+  processing: ["shipped", "delivered", "completed", "cancelled"],
+  shipped: ["delivered", "completed"],
+  delivered: ["completed"],
+  completed: [],
+  cancelled: [],
+};
+
+export const ORDER_EVENT_TYPE_VALUES = [
+  "created",
+  "status_changed",
+  "amended",
+  "cancellation_requested",
+  "cancellation_rejected",
+  "payment_requested",
+  "payment_succeeded",
+  "payment_failed",
+  "erp_sync_queued",
+  "erp_sync_succeeded",
+  "erp_sync_failed",
+  "admin_action",
+] as const;
+
+export type OrderEventType = (typeof ORDER_EVENT_TYPE_VALUES)[number];
+
+export const ORDER_EVENT_ACTOR_TYPES = ["customer", "admin", "system", "payment_provider"] as const;
+
+export type OrderEventActorType = (typeof ORDER_EVENT_ACTOR_TYPES)[number];
+
+// ERP internals and admin-only actions stay off the customer's timeline.
+export const CUSTOMER_VISIBLE_ORDER_EVENT_TYPES: readonly OrderEventType[] = [
+  "created",
+  "status_changed",
+  "amended",
+  "cancellation_requested",
+  "cancellation_rejected",
+  "payment_requested",
+  "payment_succeeded",
+  "payment_failed",
+];
+
+// Orders cancelled before reaching eCount; the sync queue only picks up pending/failed orders.
+export const ERP_SYNC_CANCELLED = "cancelled";
+
+export const CANCELLATION_STATUS_VALUES = ["requested", "approved", "rejected"] as const;
+
+export type CancellationStatus = (typeof CANCELLATION_STATUS_VALUES)[number];
+
+/** Parses stored or submitted statuses; legacy "complete" rows read as "completed". */
+export function normalizeOrderStatus(status: unknown): OrderStatus | null {
+  if (typeof status !== "string") {
+    return null;
+  }
+
+  const normalizedStatus = status.trim().toLowerCase();
+  if (normalizedStatus === "complete") {
+    return "completed";
+  }
+
+  return (ORDER_STATUS_VALUES as readonly string[]).includes(normalizedStatus)
+    ? (normalizedStatus as OrderStatus)
+    : null;
+}
+
+export function getAllowedOrderStatusTransitions(status: unknown): readonly OrderStatus[] {
+  const currentStatus = normalizeOrderStatus(status);
+  return currentStatus ? ORDER_STATUS_TRANSITIONS[currentStatus] : ORDER_STATUS_VALUES;
+}
+
+// Orders with an unrecognised legacy status can move anywhere so admins can repair them.
+export function canTransitionOrderStatus(from: unknown, to: OrderStatus): boolean {
+  return getAllowedOrderStatusTransitions(from).includes(to);
+}
+
+type OrderSyncState = {
+  status: string;
+  paymentMethod: string;
+  erpSyncStatus?: string | null;
+  cancellationStatus?: string | null;
+  // Lease expiry of the order's running sync job, loaded by the server; unknown to the client.
+  syncLeaseExpiresAt?: Date | string | null;
+};
+
+// A runner (the web app or the static-IP worker) holds the order's sync job lease while it submits
+// the order; changing the order under it could send stale lines to eCount or cancel a synced order.
+// An expired lease belongs to a runner that died, so the order is open again.
+export function isOrderSyncInProgress(order: OrderSyncState, now = Date.now()): boolean {
+  return (
+    order.erpSyncStatus !== "synced" &&
+    Boolean(order.syncLeaseExpiresAt) &&
+    new Date(order.syncLeaseExpiresAt!).getTime() > now
+  );
+}
+
+export interface CustomerOrderActions {
+  // Cancel outright - the order has not reached eCount yet.
+  canCancel: boolean;
+  // Change quantities - same window as cancelling, but not once an online payment was requested.
+  canAmend: boolean;
+  // Ask an admin to cancel and reverse the eCount sale order.
+  canRequestCancellation: boolean;
+}
+
+/**
+ * What a customer may still change on their order. Orders are open for changes while they are
+ * being processed and have not been synced to eCount; afterwards only a cancellation request is possible.
+ */
+export function getCustomerOrderActions(order: OrderSyncState): CustomerOrderActions {
+  const status = normalizeOrderStatus(order.status);
+  const synced = order.erpSyncStatus === "synced";
+  const open = !synced && !isOrderSyncInProgress(order);
+
+  return {
+    canCancel: open && (status === "processing" || status === "awaiting_payment" || status === "backordered"),
+    canAmend: open && status === "processing" && order.paymentMethod !== "online_now",
+    canRequestCancellation:
+      synced && (status === "processing" || status === "paid") && order.cancellationStatus !== "requested",
+  };
+}
+
+export function getOrderStatusLabel(status?: string | null): string {
+  switch (normalizeOrderStatus(status)) {
+    case "awaiting_payment":
+      return "Awaiting Payment";
+    case "backordered":
+      return "Backordered";
+    case "paid":
+      return "Paid";
+    case "processing":
+      return "Processing";
+    case "shipped":
+      return "Shipped";
+    case "delivered":
+      return "Delivered";
+    case "completed":
+      return "Completed";
+    case "cancelled":
+      return "Cancelled";
+    default:
+      return status || "Unknown";
+  }
+}
+
+export function getOrderEventLabel(event: { eventType: string; toStatus?: string | null }): string {
+  switch (event.eventType) {
+    case "created":
+      return "Order placed";
+    case "status_changed":
+      return `Status changed to ${getOrderStatusLabel(event.toStatus)}`;
+    case "amended":
+      return "Order changed";
+    case "cancellation_requested":
+      return "Cancellation requested";
+    case "cancellation_rejected":
+      return "Cancellation request declined";
+    case "payment_requested":
+      return "Payment requested";
+    case "payment_succeeded":
+      return "Payment received";
+    case "payment_failed":
+      return "Payment not completed";
+    case "erp_sync_queued":
+      return "Queued for eCount";
+    case "erp_sync_succeeded":
+      return "Sent to eCount";
+    case "erp_sync_failed":
+      return "eCount sync failed";
+    default:
+      return "Admin action";
+  }
+}
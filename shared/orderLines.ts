@@ -0,0 +1,95 @@
+import { calculateLineVat, getVatRate, normalizeVatClass } from "./orderTax.js";
+import type { InsertOrderLine, Order, OrderItem, OrderLine } from "./schema.js";
+
+export function parseOrderItemsJson(items?: string | null): OrderItem[] {
+  if (!items) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(items);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function buildOrderLineValues(orderId: string, items: OrderItem[]): InsertOrderLine[] {
+  return items.map((item, index) => {
+    const unitPrice = Number.parseFloat(String(item.price ?? "0")) || 0;
+    const quantity = Number(item.quantity) || 0;
+    const vatClass = normalizeVatClass(item.vatClass);
+
+    return {
+      orderId,
+      lineNumber: index + 1,
+      productCode: item.productId,
+      productName: item.name || item.productId,
+      referenceNumber: item.referenceNumber || "",
+      unitPrice: unitPrice.toFixed(2),
+      quotedUnitPrice: item.quotedPrice ?? null,
+      quantity,
+      lineTotal: (unitPrice * quantity).toFixed(2),
+      discountAmount: item.discountAmount ?? "0.00",
+      discountLabel: item.discountLabel ?? null,
+      vatClass,
+      vatRate: getVatRate(vatClass).toFixed(4),
+      vatAmount: item.vatAmount ?? calculateLineVat(unitPrice, quantity, vatClass, item.discountAmount ?? 0).toFixed(2),
+      erpLineStatus: "pending",
+    };
+  });
+}
+
+function getLegacyLineErpStatus(order: Pick<Order, "erpSyncStatus">): string {
+  return order.erpSyncStatus === "synced" || order.erpSyncStatus === "failed"
+    ? order.erpSyncStatus
+    : "pending";
+}
+
+// Orders created before order_items existed (or read through a path that does not join
+// lines) only carry the JSON snapshot, so derive equivalent lines from it.
+export function getOrderLines(order: Order & { lines?: OrderLine[] | null }): OrderLine[] {
+  if (order.lines && order.lines.length > 0) {
+    return [...order.lines].sort((a, b) => a.lineNumber - b.lineNumber);
+  }
+
+  const erpLineStatus = getLegacyLineErpStatus(order);
+
+  return buildOrderLineValues(order.id, parseOrderItemsJson(order.items)).map((line) => ({
+    ...line,
+    id: `${order.id}-${line.lineNumber}`,
+    referenceNumber: line.referenceNumber || "",
+    quotedUnitPrice: line.quotedUnitPrice ?? null,
+    vatClass: line.vatClass ?? "exempt",
+    vatRate: line.vatRate ?? "0",
+    vatAmount: line.vatAmount ?? "0.00",
+    discountAmount: line.discountAmount ?? "0.00",
+    discountLabel: line.discountLabel ?? null,
+    erpLineStatus,
+    createdAt: order.createdAt,
+  }));
+}
+
+export function hasOrderLinePriceDrift(line: Pick<OrderLine, "unitPrice" | "quotedUnitPrice">): boolean {
+  if (line.quotedUnitPrice === null || line.quotedUnitPrice === undefined) {
+    return false;
+  }
+
+  return Math.abs(Number.parseFloat(line.quotedUnitPrice) - Number.parseFloat(line.unitPrice)) >= 0.01;
+}
+
+export function orderLineToItem(line: OrderLine): OrderItem {
+  return {
+    productId: line.productCode,
+    name: line.productName,
+    price: line.unitPrice,
+    quantity: line.quantity,
+    referenceNumber: line.referenceNumber,
+    ...(line.quotedUnitPrice ? { quotedPrice: line.quotedUnitPrice } : {}),
+    vatClass: normalizeVatClass(line.vatClass),
+    vatAmount: line.vatAmount,
+    ...(Number.parseFloat(line.discountAmount) > 0
+      ? { discountAmount: line.discountAmount, discountLabel: line.discountLabel || undefined }
+      : {}),
+  };
+}
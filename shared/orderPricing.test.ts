@@ -0,0 +1,136 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateOrderTotal,
+  DEFAULT_DELIVERY_ZONES,
+  getDeliveryAreaLabel,
+  getIcePackCost,
+  getTransportCost,
+  inferDeliveryAreaFromAddress,
+  sumOrderItemsDiscount,
+  sumOrderItemsSubtotal,
+  type DeliveryZoneTariff,
+} from "./orderPricing.js";
+
+const ZONES: DeliveryZoneTariff[] = [
+  {
+    code: "dar_es_salaam",
+    name: "Dar es Salaam",
+    addressKeywords: ["dar es salaam", "masaki"],
+    transportCost: 10000,
+    freeDeliveryMinimum: 500000,
+    weightThresholdKg: 20,
+    extraCostPerKg: 500,
+  },
+  {
+    code: "upcountry",
+    name: "Upcountry",
+    addressKeywords: [],
+    transportCost: 20000,
+    freeDeliveryMinimum: null,
+    weightThresholdKg: null,
+    extraCostPerKg: 0,
+  },
+];
+
+describe("inferDeliveryAreaFromAddress", () => {
+  test("matches zone keywords case-insensitively", () => {
+    assert.equal(inferDeliveryAreaFromAddress("Plot 12, MASAKI", ZONES), "dar_es_salaam");
+  });
+
+  test("falls back to the zone without keywords", () => {
+    assert.equal(inferDeliveryAreaFromAddress("Arusha town", ZONES), "upcountry");
+  });
+
+  test("returns null for a blank address", () => {
+    assert.equal(inferDeliveryAreaFromAddress("   ", ZONES), null);
+    assert.equal(inferDeliveryAreaFromAddress(null, ZONES), null);
+  });
+});
+
+describe("getDeliveryAreaLabel", () => {
+  test("uses the zone name, or title-cases a code that no longer exists", () => {
+    assert.equal(getDeliveryAreaLabel("dar_es_salaam", DEFAULT_DELIVERY_ZONES), "Dar es Salaam");
+    assert.equal(getDeliveryAreaLabel("old_zone", DEFAULT_DELIVERY_ZONES), "Old Zone");
+    assert.equal(getDeliveryAreaLabel(null), "Not set");
+  });
+});
+
+describe("getTransportCost", () => {
+  test("is free for pickup and unknown zones", () => {
+    assert.equal(getTransportCost("pickup", "dar_es_salaam", { zones: ZONES }), 0);
+    assert.equal(getTransportCost("delivery", "mars", { zones: ZONES }), 0);
+  });
+
+  test("charges the flat rate below the free-delivery minimum", () => {
+    assert.equal(getTransportCost("delivery", "dar_es_salaam", { zones: ZONES, subtotal: 499999 }), 10000);
+  });
+
+  test("is free from the free-delivery minimum", () => {
+    assert.equal(getTransportCost("delivery", "dar_es_salaam", { zones: ZONES, subtotal: 500000 }), 0);
+  });
+
+  test("adds the per-kg charge for each started kg over the threshold", () => {
+    assert.equal(getTransportCost("delivery", "dar_es_salaam", { zones: ZONES, subtotal: 0, totalWeightKg: 20 }), 10000);
+    assert.equal(getTransportCost("delivery", "dar_es_salaam", { zones: ZONES, subtotal: 0, totalWeightKg: 21.2 }), 11000);
+  });
+
+  test("ignores weight for flat-rate zones", () => {
+    assert.equal(getTransportCost("delivery", "upcountry", { zones: ZONES, totalWeightKg: 300 }), 20000);
+  });
+});
+
+describe("getIcePackCost", () => {
+  test("prices packs by size and quantity", () => {
+    assert.equal(getIcePackCost(true, "small", 3), 15000);
+    assert.equal(getIcePackCost(true, "large", "2"), 30000);
+  });
+
+  test("charges at least one pack when a pack is required", () => {
+    assert.equal(getIcePackCost(true, "small", 0), 5000);
+    assert.equal(getIcePackCost(true, "small", "abc"), 5000);
+  });
+
+  test("is zero when not required or the size is unknown", () => {
+    assert.equal(getIcePackCost(false, "large", 5), 0);
+    assert.equal(getIcePackCost(true, "medium", 1), 0);
+    assert.equal(getIcePackCost(true, null, 1), 0);
+  });
+});
+
+describe("order sums", () => {
+  test("sumOrderItemsSubtotal accepts string and numeric prices", () => {
+    assert.equal(sumOrderItemsSubtotal([{ price: "1500.50", quantity: 2 }, { price: 100, quantity: 3 }, { price: "", quantity: 4 }]), 3301);
+  });
+
+  test("sumOrderItemsDiscount rounds to cents and skips lines without a discount", () => {
+    assert.equal(sumOrderItemsDiscount([{ discountAmount: "0.105" }, { discountAmount: "0.2" }, {}, { discountAmount: null }]), 0.31);
+  });
+});
+
+describe("calculateOrderTotal", () => {
+  test("adds VAT, transport and ice packs to the discounted subtotal", () => {
+    const total = calculateOrderTotal({
+      subtotal: 100000,
+      discount: 10000,
+      tax: 16200,
+      deliveryOption: "delivery",
+      deliveryArea: "dar_es_salaam",
+      deliveryZones: ZONES,
+      icePackRequired: true,
+      icePackSize: "small",
+      icePackQuantity: 2,
+    });
+    assert.equal(total, 100000 - 10000 + 16200 + 10000 + 10000);
+  });
+
+  test("checks free delivery against the subtotal after discounts", () => {
+    const common = { tax: 0, deliveryOption: "delivery", deliveryArea: "dar_es_salaam", deliveryZones: ZONES };
+    assert.equal(calculateOrderTotal({ ...common, subtotal: 520000, discount: 0 }), 520000);
+    assert.equal(calculateOrderTotal({ ...common, subtotal: 520000, discount: 30000 }), 490000 + 10000);
+  });
+
+  test("pickup orders are the subtotal plus VAT", () => {
+    assert.equal(calculateOrderTotal({ subtotal: 5000, tax: 900, deliveryOption: "pickup" }), 5900);
+  });
+});
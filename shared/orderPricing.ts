@@ -1,12 +1,56 @@
-export const DELIVERY_AREA_VALUES = ["dar_es_salaam", "outside_dar_es_salaam"] as const;
-
-export type DeliveryAreaValue = (typeof DELIVERY_AREA_VALUES)[number];
+export type DeliveryZoneTariff = {
+  code: string;
+  name: string;
+  addressKeywords: string[];
+  transportCost: number;
+  // Orders whose subtotal reaches this value ship free (null = never free)
+  freeDeliveryMinimum: number | null;
+  // Each started kg above the threshold adds extraCostPerKg (null = flat rate)
+  weightThresholdKg: number | null;
+  extraCostPerKg: number;
+};
 
-export const TRANSPORT_COSTS: Record<DeliveryAreaValue, number> = {
-  dar_es_salaam: 10000,
-  outside_dar_es_salaam: 20000,
+export type DeliveryTariffContext = {
+  zones?: DeliveryZoneTariff[];
+  subtotal?: number;
+  totalWeightKg?: number | null;
 };
 
+// Used until the delivery_zones table is reachable, and by callers that only need labels.
+export const DEFAULT_DELIVERY_ZONES: DeliveryZoneTariff[] = [
+  {
+    code: "dar_es_salaam",
+    name: "Dar es Salaam",
+    addressKeywords: [
+      "dar es salaam",
+      "dar-es-salaam",
+      "dsm",
+      "mikocheni",
+      "masaki",
+      "kinondoni",
+      "ilala",
+      "temeke",
+      "ubungo",
+      "kigamboni",
+    ],
+    transportCost: 10000,
+    freeDeliveryMinimum: null,
+    weightThresholdKg: null,
+    extraCostPerKg: 0,
+  },
+  {
+    code: "outside_dar_es_salaam",
+    name: "Outside Dar es Salaam",
+    addressKeywords: [],
+    transportCost: 20000,
+    freeDeliveryMinimum: null,
+    weightThresholdKg: null,
+    extraCostPerKg: 0,
+  },
+];
+
+export const DELIVERY_ZONE_CODE_PATTERN = /^[a-z0-9_]+$/;
+
 export const ICE_PACK_SIZE_VALUES = ["small", "large"] as const;
 
 export type IcePackSizeValue = (typeof ICE_PACK_SIZE_VALUES)[number];
@@ -16,28 +60,30 @@ export const ICE_PACK_PRICES: Record<IcePackSizeValue, number> = {
   large: 15000,
 };
 
-const DAR_ES_SALAAM_PATTERNS = [
-  "dar es salaam",
-  "dar-es-salaam",
-  "dsm",
-  "mikocheni",
-  "masaki",
-  "kinondoni",
-  "ilala",
-  "temeke",
-  "ubungo",
-  "kigamboni",
-];
+export function findDeliveryZone(
+  deliveryArea?: string | null,
+  zones: DeliveryZoneTariff[] = DEFAULT_DELIVERY_ZONES,
+): DeliveryZoneTariff | undefined {
+  return deliveryArea ? zones.find((zone) => zone.code === deliveryArea) : undefined;
+}
 
-export function getDeliveryAreaLabel(deliveryArea?: string | null): string {
-  switch (deliveryArea) {
-    case "dar_es_salaam":
-      return "Dar es Salaam";
-    case "outside_dar_es_salaam":
-      return "Outside Dar es Salaam";
-    default:
-      return "Not set";
+export function getDeliveryAreaLabel(
+  deliveryArea?: string | null,
+  zones: DeliveryZoneTariff[] = DEFAULT_DELIVERY_ZONES,
+): string {
+  if (!deliveryArea) {
+    return "Not set";
   }
+
+  // Orders keep their zone code even after a zone is renamed or removed.
+  return (
+    findDeliveryZone(deliveryArea, zones)?.name ||
+    deliveryArea
+      .split("_")
+      .filter(Boolean)
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+      .join(" ")
+  );
 }
 
 export function getIcePackSizeLabel(icePackSize?: string | null): string {
@@ -51,31 +97,51 @@ export function getIcePackSizeLabel(icePackSize?: string | null): string {
   }
 }
 
-export function inferDeliveryAreaFromAddress(address?: string | null): DeliveryAreaValue | null {
+// Zones without keywords act as the catch-all for addresses no other zone recognises.
+export function inferDeliveryAreaFromAddress(
+  address?: string | null,
+  zones: DeliveryZoneTariff[] = DEFAULT_DELIVERY_ZONES,
+): string | null {
   const normalizedAddress = address?.trim().toLowerCase();
 
   if (!normalizedAddress) {
     return null;
   }
 
-  return DAR_ES_SALAAM_PATTERNS.some((pattern) => normalizedAddress.includes(pattern))
-    ? "dar_es_salaam"
-    : "outside_dar_es_salaam";
+  const matchedZone = zones.find((zone) =>
+    zone.addressKeywords.some((keyword) => {
+      const normalizedKeyword = keyword.trim().toLowerCase();
+      return normalizedKeyword.length > 0 && normalizedAddress.includes(normalizedKeyword);
+    }),
+  );
+
+  return (matchedZone || zones.find((zone) => zone.addressKeywords.length === 0))?.code ?? null;
 }
 
 export function getTransportCost(
   deliveryOption?: string | null,
   deliveryArea?: string | null,
+  { zones = DEFAULT_DELIVERY_ZONES, subtotal, totalWeightKg }: DeliveryTariffContext = {},
 ): number {
   if (deliveryOption !== "delivery") {
     return 0;
   }
 
-  if (!deliveryArea || !(deliveryArea in TRANSPORT_COSTS)) {
+  const zone = findDeliveryZone(deliveryArea, zones);
+  if (!zone) {
+    return 0;
+  }
+
+  if (zone.freeDeliveryMinimum !== null && subtotal !== undefined && subtotal >= zone.freeDeliveryMinimum) {
     return 0;
   }
 
-  return TRANSPORT_COSTS[deliveryArea as DeliveryAreaValue];
+  const excessWeightKg =
+    zone.weightThresholdKg !== null && totalWeightKg
+      ? Math.max(0, totalWeightKg - zone.weightThresholdKg)
+      : 0;
+
+  return zone.transportCost + Math.ceil(excessWeightKg) * zone.extraCostPerKg;
 }
 
 export function getIcePackCost(
@@ -106,21 +172,40 @@ export function sumOrderItemsSubtotal(
   }, 0);
 }
 
+export function sumOrderItemsDiscount(items: Array<{ discountAmount?: string | null }>): number {
+  const discount = items.reduce((sum, item) => sum + (Number.parseFloat(item.discountAmount || "0") || 0), 0);
+  return Math.round(discount * 100) / 100;
+}
+
+// `subtotal` is before discounts; free-delivery minimums are checked against the discounted amount.
 export function calculateOrderTotal({
   subtotal,
+  discount = 0,
+  tax = 0,
   deliveryOption,
   deliveryArea,
+  deliveryZones,
+  totalWeightKg,
   icePackRequired,
   icePackSize,
   icePackQuantity,
 }: {
   subtotal: number;
+  discount?: number;
   tax?: number;
   deliveryOption?: string | null;
   deliveryArea?: string | null;
+  deliveryZones?: DeliveryZoneTariff[];
+  totalWeightKg?: number | null;
   icePackRequired?: boolean | null;
   icePackSize?: string | null;
   icePackQuantity?: number | string | null;
 }): number {
-  return subtotal + getTransportCost(deliveryOption, deliveryArea) + getIcePackCost(icePackRequired, icePackSize, icePackQuantity);
+  const transportCost = getTransportCost(deliveryOption, deliveryArea, {
+    zones: deliveryZones,
+    subtotal: subtotal - discount,
+    totalWeightKg,
+  });
+
+  return subtotal - discount + tax + transportCost + getIcePackCost(icePackRequired, icePackSize, icePackQuantity);
 }
@@ -0,0 +1,85 @@
+export const VAT_CLASS_VALUES = ["standard", "zero_rated", "exempt"] as const;
+
+export type VatClass = (typeof VAT_CLASS_VALUES)[number];
+
+// Mainland Tanzania standard VAT rate.
+export const VAT_RATES: Record<VatClass, number> = {
+  standard: 0.18,
+  zero_rated: 0,
+  exempt: 0,
+};
+
+// Most of the catalogue is VAT-exempt medical supplies, so unclassified products stay untaxed
+// exactly as before the VAT engine existed.
+export const DEFAULT_VAT_CLASS: VatClass = "exempt";
+
+const roundToCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Accepts VAT classes as admins type them in the product mapping Excel file
+ * ("18%", "S", "Exempt", "zero rated", ...). Blank or unknown values use the default class.
+ */
+export function normalizeVatClass(value?: string | number | null): VatClass {
+  if (value === null || value === undefined) {
+    return DEFAULT_VAT_CLASS;
+  }
+
+  const normalized = value.toString().trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if (!normalized) {
+    return DEFAULT_VAT_CLASS;
+  }
+
+  if ((VAT_CLASS_VALUES as readonly string[]).includes(normalized)) {
+    return normalized as VatClass;
+  }
+
+  if (["s", "sr", "vat", "vatable", "taxable", "18", "18%", "0.18"].includes(normalized)) {
+    return "standard";
+  }
+
+  if (["z", "zr", "zero", "0", "0%"].includes(normalized)) {
+    return "zero_rated";
+  }
+
+  return DEFAULT_VAT_CLASS;
+}
+
+export function getVatRate(vatClass?: string | null): number {
+  return VAT_RATES[normalizeVatClass(vatClass)];
+}
+
+export function getVatClassLabel(vatClass?: string | null): string {
+  switch (normalizeVatClass(vatClass)) {
+    case "standard":
+      return `VAT ${Math.round(VAT_RATES.standard * 100)}%`;
+    case "zero_rated":
+      return "Zero-rated";
+    default:
+      return "VAT exempt";
+  }
+}
+
+// Catalogue prices are VAT-exclusive; VAT is charged on top of the discounted line and rounded per line.
+export function calculateLineVat(
+  unitPrice: number | string,
+  quantity: number,
+  vatClass?: string | null,
+  discountAmount: number | string = 0,
+): number {
+  const price = typeof unitPrice === "number" ? unitPrice : Number.parseFloat(unitPrice || "0");
+  const discount = typeof discountAmount === "number" ? discountAmount : Number.parseFloat(discountAmount || "0");
+  return roundToCents(Math.max(0, (price || 0) * quantity - (discount || 0)) * getVatRate(vatClass));
+}
+
+export function getVatInclusivePrice(unitPrice: number | string, vatClass?: string | null): number {
+  const price = typeof unitPrice === "number" ? unitPrice : Number.parseFloat(unitPrice || "0");
+  return roundToCents((price || 0) * (1 + getVatRate(vatClass)));
+}
+
+export function sumOrderItemsVat(
+  items: Array<{ price: string | number; quantity: number; vatClass?: string | null; discountAmount?: string | null }>,
+): number {
+  return roundToCents(
+    items.reduce((sum, item) => sum + calculateLineVat(item.price, item.quantity, item.vatClass, item.discountAmount ?? 0), 0),
+  );
+}
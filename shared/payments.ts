@@ -0,0 +1,68 @@
+export const PAYMENT_PROVIDER_VALUES = ["mobile_money", "sandbox"] as const;
+export type PaymentProviderName = (typeof PAYMENT_PROVIDER_VALUES)[number];
+
+export const MOBILE_MONEY_NETWORK_VALUES = ["mpesa", "tigo_pesa", "airtel_money"] as const;
+export type MobileMoneyNetwork = (typeof MOBILE_MONEY_NETWORK_VALUES)[number];
+
+export const PAYMENT_STATUS_VALUES = ["pending", "succeeded", "failed", "cancelled"] as const;
+export type PaymentStatus = (typeof PAYMENT_STATUS_VALUES)[number];
+
+// Online orders sit in awaiting_payment until the provider confirms the money, then move to paid.
+// The same value on erp_sync_status keeps unpaid orders out of the eCount sync queue.
+export const ORDER_AWAITING_PAYMENT_STATUS = "awaiting_payment";
+export const ORDER_PAID_STATUS = "paid";
+export const ERP_SYNC_AWAITING_PAYMENT = "awaiting_payment";
+
+const MOBILE_MONEY_NETWORK_LABELS: Record<MobileMoneyNetwork, string> = {
+  mpesa: "M-Pesa",
+  tigo_pesa: "Tigo Pesa",
+  airtel_money: "Airtel Money",
+};
+
+// Tanzanian mobile prefixes (after the 255 country code) per network.
+const MOBILE_MONEY_NETWORK_PREFIXES: Record<MobileMoneyNetwork, string[]> = {
+  mpesa: ["74", "75", "76"],
+  tigo_pesa: ["65", "67", "71", "77"],
+  airtel_money: ["68", "69", "78"],
+};
+
+export function getMobileMoneyNetworkLabel(network?: string | null): string {
+  return MOBILE_MONEY_NETWORK_LABELS[network as MobileMoneyNetwork] || "Mobile money";
+}
+
+/**
+ * Normalize a Tanzanian mobile number to the 2557XXXXXXXX form mobile money APIs expect.
+ * Accepts "0712 345 678", "+255712345678" and "712345678"; returns null for anything else.
+ */
+export function normalizeMobileMoneyPhone(phone?: string | null): string | null {
+  const digits = (phone || "").replace(/\D/g, "");
+  let local: string;
+
+  if (digits.startsWith("255") && digits.length === 12) {
+    local = digits.slice(3);
+  } else if (digits.startsWith("0") && digits.length === 10) {
+    local = digits.slice(1);
+  } else if (digits.length === 9) {
+    local = digits;
+  } else {
+    return null;
+  }
+
+  return /^[67]\d{8}$/.test(local) ? `255${local}` : null;
+}
+
+export function inferMobileMoneyNetwork(phone?: string | null): MobileMoneyNetwork | null {
+  const msisdn = normalizeMobileMoneyPhone(phone);
+  if (!msisdn) {
+    return null;
+  }
+
+  const prefix = msisdn.slice(3, 5);
+  const match = (Object.entries(MOBILE_MONEY_NETWORK_PREFIXES) as Array<[MobileMoneyNetwork, string[]]>)
+    .find(([, prefixes]) => prefixes.includes(prefix));
+  return match ? match[0] : null;
+}
+
+export function isOrderAwaitingPayment(order: { status?: string | null }): boolean {
+  return order.status === ORDER_AWAITING_PAYMENT_STATUS;
+}
@@ -2,12 +2,21 @@ import { sql } from "drizzle-orm";
 import { pgTable, text, varchar, decimal, integer, timestamp, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { DELIVERY_AREA_VALUES, ICE_PACK_SIZE_VALUES } from "./orderPricing.js";
+import { DELIVERY_ZONE_CODE_PATTERN, ICE_PACK_SIZE_VALUES } from "./orderPricing.js";
+import { VAT_CLASS_VALUES, type VatClass } from "./orderTax.js";
+import { MOBILE_MONEY_NETWORK_VALUES } from "./payments.js";
+import { STANDING_ORDER_CADENCE_VALUES } from "./standingOrders.js";
+import { DISCOUNT_RULE_TYPE_VALUES } from "./discounts.js";
+import { ERP_RECONCILIATION_MAX_DAYS, type ErpReconciliationIssue } from "./erpReconciliation.js";
+import { STOCK_THRESHOLD_SCOPE_VALUES, type StockStatus } from "./stockStatus.js";
 
 export const paymentMethodSchema = z.enum(["cash", "online_now"]);
 export const deliveryOptionSchema = z.enum(["pickup", "delivery"]);
-export const deliveryAreaSchema = z.enum(DELIVERY_AREA_VALUES);
+// Delivery areas are delivery_zones codes; the server checks the code against active zones.
+export const deliveryAreaSchema = z.string().trim().min(1).max(64).regex(DELIVERY_ZONE_CODE_PATTERN);
 export const icePackSizeSchema = z.enum(ICE_PACK_SIZE_VALUES);
+// Sent by checkout as the Idempotency-Key header, e.g. a UUID per checkout attempt.
+export const orderIdempotencyKeySchema = z.string().trim().min(8).max(128).regex(/^[A-Za-z0-9_-]+$/);
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -44,7 +53,7 @@ export const orders = pgTable("orders", {
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
   tax: decimal("tax", { precision: 10, scale: 2 }).notNull(),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
-  status: text("status").notNull().default("processing"),
+  status: text("status").notNull().default("processing"), // Online orders start at "awaiting_payment", then "paid"
   paymentMethod: text("payment_method").notNull().default("cash"),
   deliveryOption: text("delivery_option").notNull().default("pickup"),
   deliveryArea: text("delivery_area"),
@@ -53,6 +62,12 @@ export const orders = pgTable("orders", {
   icePackSize: text("ice_pack_size"),
   icePackQuantity: integer("ice_pack_quantity").notNull().default(0),
   icePackCost: decimal("ice_pack_cost", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  // Price authority - subtotal as quoted by the browser vs. the server-priced subtotal column
+  quotedSubtotal: decimal("quoted_subtotal", { precision: 10, scale: 2 }),
+  priceMismatch: boolean("price_mismatch").notNull().default(false),
+  // Discounts - subtotal is before discounts; total = subtotal - discountTotal + tax + transport + ice packs
+  discountTotal: decimal("discount_total", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  couponCode: text("coupon_code"),
   // Customer information (stored directly for admin visibility)
   customerName: text("customer_name").notNull(),
   customerEmail: text("customer_email").notNull(),
@@ -67,6 +82,328 @@ export const orders = pgTable("orders", {
   erpSyncAttempts: integer("erp_sync_attempts").notNull().default(0),
   erpLastSyncAttemptAt: timestamp("erp_last_sync_attempt_at"),
   erpNextSyncAttemptAt: timestamp("erp_next_sync_attempt_at"),
+  // Customer cancellation of an order already in eCount - "requested", "approved" or "rejected"
+  cancellationStatus: text("cancellation_status"),
+  cancellationReason: text("cancellation_reason"),
+  cancellationRequestedAt: timestamp("cancellation_requested_at"),
+  erpReversalDocNumber: text("erp_reversal_doc_number"), // eCount document that reversed the sale order
+  // Client key for one checkout attempt; a repeated submission with the same key returns this order
+  idempotencyKey: text("idempotency_key"),
+  // Backorders - set on the order holding the lines a checkout could not fill from stock
+  backorderOfOrderId: varchar("backorder_of_order_id"), // The in-stock order placed alongside, if any
+  expectedArrivalAt: timestamp("expected_arrival_at"), // Latest expected arrival among the backordered products
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Order lines - one row per product on an order (orders.items is kept as a legacy JSON snapshot)
+export const orderItems = pgTable("order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  lineNumber: integer("line_number").notNull(), // 1-based position on the order
+  productCode: text("product_code").notNull(), // eCount product code
+  productName: text("product_name").notNull(), // Name snapshot at time of order
+  referenceNumber: text("reference_number").notNull().default(""),
+  unitPrice: decimal("unit_price", { precision: 14, scale: 2 }).notNull(), // Authoritative server-side price
+  quotedUnitPrice: decimal("quoted_unit_price", { precision: 14, scale: 2 }), // Price the browser submitted
+  quantity: integer("quantity").notNull(),
+  lineTotal: decimal("line_total", { precision: 14, scale: 2 }).notNull(), // VAT-exclusive, before discount
+  discountAmount: decimal("discount_amount", { precision: 14, scale: 2 }).notNull().default("0.00"), // Whole line, before VAT
+  discountLabel: text("discount_label"), // Names of the rules that produced discountAmount
+  vatClass: text("vat_class").notNull().default("exempt"), // "standard", "zero_rated", "exempt"
+  vatRate: decimal("vat_rate", { precision: 5, scale: 4 }).notNull().default("0"), // Rate applied at checkout
+  vatAmount: decimal("vat_amount", { precision: 14, scale: 2 }).notNull().default("0.00"),
+  erpLineStatus: text("erp_line_status").notNull().default("pending"), // "pending", "synced", "failed"
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Stock reservations - hold eCount stock for an order until it reaches eCount, is cancelled, or expires
+export const stockReservations = pgTable("stock_reservations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  productCode: text("product_code").notNull(), // Normalized eCount product code
+  quantity: integer("quantity").notNull(),
+  status: text("status").notNull().default("active"), // "active" or "released"
+  releaseReason: text("release_reason"), // "synced", "cancelled", "expired"
+  expiresAt: timestamp("expires_at").notNull(),
+  releasedAt: timestamp("released_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Stock lots - on-hand quantity per lot (batch) of a product, replaced by each lot file import
+export const stockLots = pgTable("stock_lots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productCode: text("product_code").notNull(), // Normalized eCount product code
+  lotNumber: text("lot_number").notNull(),
+  expiresAt: timestamp("expires_at"), // Null for lots that do not expire
+  quantity: integer("quantity").notNull(), // On hand when the lot file was imported
+  updatedAt: timestamp("updated_at").defaultNow(), // Import that set the quantity
+});
+
+// Order lot allocations - the lots an order line is picked from, first expiry first
+export const orderLotAllocations = pgTable("order_lot_allocations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  lineNumber: integer("line_number").notNull(),
+  productCode: text("product_code").notNull(), // Normalized eCount product code
+  lotNumber: text("lot_number").notNull(),
+  expiresAt: timestamp("expires_at"), // Copied from the lot so the delivery note survives re-imports
+  quantity: integer("quantity").notNull(),
+  status: text("status").notNull().default("allocated"), // "allocated", "shipped" or "released"
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(), // When the status last changed
+});
+
+// Stock thresholds - reorder points per product or per category, replacing the flat "fewer than 10" rule
+export const stockThresholds = pgTable("stock_thresholds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: text("scope").notNull(), // "product" or "category"
+  target: text("target").notNull(), // Normalized product code, or lower-case category name
+  reorderPoint: integer("reorder_point").notNull(), // Low stock below this many units
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Stock alert states - the status each product had at the last alert check, so purchasing hears once per drop
+export const stockAlertStates = pgTable("stock_alert_states", {
+  productCode: text("product_code").primaryKey(), // Normalized eCount product code
+  status: text("status").notNull(), // "in_stock", "low_stock" or "out_of_stock"
+  quantity: integer("quantity").notNull(),
+  reorderPoint: integer("reorder_point").notNull(),
+  alertedAt: timestamp("alerted_at"), // Last time purchasing was emailed about this product
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Backorder products - products customers may order beyond stock, and when the next delivery is expected
+export const backorderProducts = pgTable("backorder_products", {
+  productCode: text("product_code").primaryKey(), // Normalized eCount product code
+  expectedArrivalAt: timestamp("expected_arrival_at").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Inventory snapshots - one per inventory refresh, whichever path fetched it from eCount
+export const inventorySnapshots = pgTable("inventory_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  source: text("source").notNull(), // "bulk_sync", "inventory_cache" or "vps_sync"; see shared/inventoryReport.ts
+  productCount: integer("product_count").notNull(),
+  takenAt: timestamp("taken_at").notNull().defaultNow(),
+});
+
+// Inventory snapshot items - the balance of each product and warehouse in a snapshot
+export const inventorySnapshotItems = pgTable("inventory_snapshot_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  snapshotId: varchar("snapshot_id").notNull().references(() => inventorySnapshots.id, { onDelete: "cascade" }),
+  productCode: text("product_code").notNull(), // eCount product code as eCount returned it
+  warehouseCode: text("warehouse_code").notNull(),
+  quantity: integer("quantity").notNull(),
+});
+
+// Stock subscriptions - "notify me when available" requests, one per customer and product
+export const stockSubscriptions = pgTable("stock_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(), // Supabase Auth user ID, like orders.user_id
+  email: text("email").notNull(), // Where the back-in-stock email goes, captured when subscribing
+  productId: text("product_id").notNull(), // eCount product code as the catalogue shows it, unique per user
+  productName: text("product_name").notNull(),
+  notifiedAt: timestamp("notified_at"), // Null while waiting; set once the customer was emailed
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Payments - one row per attempt to collect an online order's total through a payment provider
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  provider: text("provider").notNull(), // "mobile_money" or "sandbox"
+  network: text("network"), // "mpesa", "tigo_pesa", "airtel_money"
+  phone: text("phone").notNull(), // MSISDN the push was sent to (2557XXXXXXXX)
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default("TZS"),
+  status: text("status").notNull().default("pending"), // "pending", "succeeded", "failed", "cancelled"
+  providerReference: text("provider_reference"), // Transaction ID returned by the provider
+  failureReason: text("failure_reason"),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Order events - append-only audit trail of status changes, payments, ERP sync attempts and admin actions
+export const orderEvents = pgTable("order_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  eventType: text("event_type").notNull(), // See ORDER_EVENT_TYPE_VALUES in shared/orderLifecycle.ts
+  fromStatus: text("from_status"),
+  toStatus: text("to_status"),
+  actorType: text("actor_type").notNull(), // "customer", "admin", "system", "payment_provider"
+  actorId: text("actor_id"),
+  actorEmail: text("actor_email"),
+  message: text("message"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Carts - one open cart per customer, kept server-side so it follows them across devices
+export const carts = pgTable("carts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique(), // Supabase Auth user ID, like orders.user_id
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Cart lines - one row per product; prices are display snapshots and are re-checked at checkout
+export const cartItems = pgTable("cart_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cartId: varchar("cart_id").notNull().references(() => carts.id, { onDelete: "cascade" }),
+  productId: text("product_id").notNull(), // eCount product code, unique per cart
+  name: text("name").notNull(),
+  price: decimal("price", { precision: 14, scale: 2 }).notNull(),
+  referenceNumber: text("reference_number").notNull().default(""),
+  imageUrl: text("image_url"),
+  vatClass: text("vat_class"),
+  quantity: integer("quantity").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Order templates - named baskets a customer saves to reorder from any device
+export const orderTemplates = pgTable("order_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(), // Supabase Auth user ID, like orders.user_id
+  name: text("name").notNull(), // Unique per user, e.g. "Monthly CBC reagents"
+  items: text("items").notNull(), // JSON string of OrderTemplateItem; prices are looked up when reordering
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Standing orders - a saved basket placed automatically on a schedule for contract customers
+export const standingOrders = pgTable("standing_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(), // Supabase Auth user ID, like orders.user_id
+  name: text("name").notNull(),
+  cadence: text("cadence").notNull(), // "weekly", "fortnightly", "monthly"
+  status: text("status").notNull().default("active"), // "active" or "paused"
+  nextRunAt: timestamp("next_run_at").notNull(),
+  // Day of month monthly runs return to after a short month (31 -> 28 Feb -> 31 Mar), from the chosen run date
+  runDayOfMonth: integer("run_day_of_month"),
+  items: text("items").notNull(), // JSON string of OrderTemplateItem; priced when each order is placed
+  paymentMethod: text("payment_method").notNull().default("cash"),
+  paymentPhone: text("payment_phone"), // Mobile money number pushed for online_now schedules
+  paymentNetwork: text("payment_network"),
+  deliveryOption: text("delivery_option").notNull().default("pickup"),
+  deliveryArea: text("delivery_area"),
+  // Customer details copied onto every order, captured when the schedule was created
+  customerName: text("customer_name").notNull(),
+  customerEmail: text("customer_email").notNull(),
+  customerPhone: text("customer_phone").notNull(),
+  customerCompany: text("customer_company").notNull().default(""),
+  customerAddress: text("customer_address").notNull().default(""),
+  lastRunAt: timestamp("last_run_at"),
+  lastRunStatus: text("last_run_status"), // "placed", "skipped", "failed"
+  lastRunMessage: text("last_run_message"),
+  lastOrderId: varchar("last_order_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Price lists - negotiated (tender/contract) prices that replace the catalogue price for some customers
+export const priceLists = pgTable("price_lists", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description").notNull().default(""),
+  customerGroup: text("customer_group").unique(), // Applies to every customer in this group, e.g. "public-hospitals"
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Products not listed keep their catalogue price
+export const priceListItems = pgTable("price_list_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  priceListId: varchar("price_list_id").notNull().references(() => priceLists.id, { onDelete: "cascade" }),
+  productId: text("product_id").notNull(), // eCount PROD_CD, as in ProductMapping
+  price: decimal("price", { precision: 14, scale: 2 }).notNull(), // Unit price before VAT
+});
+
+// Customer pricing - a customer's own price list and/or the customer group they belong to
+export const customerPricing = pgTable("customer_pricing", {
+  userId: varchar("user_id").primaryKey(), // Supabase Auth user ID
+  priceListId: varchar("price_list_id").references(() => priceLists.id, { onDelete: "set null" }), // Wins over the group's list
+  customerGroup: text("customer_group"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// eCount customer accounts - the eCount CUST record a web customer's sale orders are booked against
+export const customerEcountAccounts = pgTable("customer_ecount_accounts", {
+  userId: varchar("user_id").primaryKey(), // Supabase Auth user ID
+  custCode: text("cust_code").notNull(), // eCount CUST code; several web accounts may share one
+  custName: text("cust_name").notNull().default(""), // CUST_NAME as eCount returned it when linked
+  createdInEcount: boolean("created_in_ecount").notNull().default(false), // Created by us on approval rather than linked by hand
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Discount rules - volume breaks, dated category promotions and order-level coupon codes
+export const discountRules = pgTable("discount_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(), // Shown to customers next to the discounted line
+  type: text("type").notNull(), // "volume_break", "category_promotion", "coupon"
+  productId: text("product_id"), // Volume breaks: the product; coupons: optional restriction
+  category: text("category"), // Category promotions: the category; coupons: optional restriction
+  couponCode: text("coupon_code").unique(), // Coupons only, stored uppercase
+  minQuantity: integer("min_quantity").notNull().default(1), // Units of the product on one line
+  percentOff: decimal("percent_off", { precision: 5, scale: 2 }), // Either percentOff or amountOff is set
+  amountOff: decimal("amount_off", { precision: 14, scale: 2 }), // Per unit for line rules, per order for coupons
+  minOrderSubtotal: decimal("min_order_subtotal", { precision: 14, scale: 2 }), // Coupons only
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Delivery zones - transport tariffs per region, managed from the admin panel
+export const deliveryZones = pgTable("delivery_zones", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(), // Stored on orders.delivery_area
+  name: text("name").notNull(),
+  addressKeywords: text("address_keywords").array().notNull().default(sql`'{}'::text[]`), // Used to infer the zone from an address
+  transportCost: decimal("transport_cost", { precision: 10, scale: 2 }).notNull(),
+  freeDeliveryMinimum: decimal("free_delivery_minimum", { precision: 10, scale: 2 }), // Subtotal at which delivery is free
+  weightThresholdKg: decimal("weight_threshold_kg", { precision: 10, scale: 2 }), // Weight included in the base tariff
+  extraCostPerKg: decimal("extra_cost_per_kg", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  active: boolean("active").notNull().default(true),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Sync jobs - leased background work (eCount order sync) shared by the Vercel cron and the VPS worker
+export const syncJobs = pgTable("sync_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobType: text("job_type").notNull(), // See SYNC_JOB_TYPE_VALUES in shared/syncJobs.ts
+  subjectId: varchar("subject_id").notNull(), // The order for eCount order sync jobs
+  payload: text("payload").notNull().default("{}"), // JSON, job type specific
+  status: text("status").notNull().default("pending"), // "pending", "running", "succeeded", "dead", "discarded"
+  attempts: integer("attempts").notNull().default(0), // Incremented each time the job is leased
+  maxAttempts: integer("max_attempts").notNull(), // The job is dead-lettered when a failed attempt reaches this
+  runAt: timestamp("run_at").notNull().defaultNow(), // Not leased before this
+  leaseOwner: text("lease_owner"), // Runner holding the job while it is running
+  leaseExpiresAt: timestamp("lease_expires_at"), // Another runner may take the job over after this
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at"), // Set when the job succeeds or is discarded
+});
+
+// ERP reconciliation runs - web orders matched against eCount sale documents for a date range
+export const erpReconciliationRuns = pgTable("erp_reconciliation_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  periodFrom: text("period_from").notNull(), // YYYY-MM-DD, orders created from this UTC day
+  periodTo: text("period_to").notNull(), // YYYY-MM-DD, inclusive
+  triggeredBy: text("triggered_by").notNull(), // "cron" or the admin who ran it
+  status: text("status").notNull(), // "completed" or "failed"
+  ordersChecked: integer("orders_checked").notNull().default(0),
+  documentsChecked: integer("documents_checked").notNull().default(0), // eCount documents with a WEB- reference
+  matchedCount: integer("matched_count").notNull().default(0),
+  issueCount: integer("issue_count").notNull().default(0),
+  issues: text("issues").notNull().default("[]"), // JSON ErpReconciliationIssue[]
+  error: text("error"), // Why a failed run could not finish
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -121,6 +458,8 @@ export const productMappings = pgTable("product_mappings", {
   price: decimal("price", { precision: 14, scale: 2 }).notNull(), // Product price
   uom: text("uom").notNull(), // Unit of measure
   category: text("category"), // Product category
+  weightKg: decimal("weight_kg", { precision: 10, scale: 3 }), // Shipping weight per unit, when the Excel file has one
+  vatClass: text("vat_class"), // VAT class from the Excel file (null = default class)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -175,6 +514,10 @@ export const insertOrderSchema = createInsertSchema(orders)
     erpSyncAttempts: true,
     erpLastSyncAttemptAt: true,
     erpNextSyncAttemptAt: true,
+    cancellationStatus: true,
+    cancellationReason: true,
+    cancellationRequestedAt: true,
+    erpReversalDocNumber: true,
   })
   .extend({
     paymentMethod: paymentMethodSchema.default("cash"),
@@ -185,6 +528,7 @@ export const insertOrderSchema = createInsertSchema(orders)
     icePackSize: icePackSizeSchema.optional(),
     icePackQuantity: z.number().int().nonnegative().optional(),
     icePackCost: z.string().optional(),
+    idempotencyKey: orderIdempotencyKeySchema.nullable().optional(),
     // Customer identity comes from the approved account; address is order-specific for delivery.
     customerName: z.string().optional(),
     customerEmail: z.string().optional(),
@@ -193,6 +537,197 @@ export const insertOrderSchema = createInsertSchema(orders)
     customerAddress: z.string().optional(),
   });
 
+const optionalMoneySchema = z.coerce.number().nonnegative().nullable().optional();
+
+export const insertDeliveryZoneSchema = z.object({
+  code: deliveryAreaSchema,
+  name: z.string().trim().min(1).max(120),
+  addressKeywords: z.array(z.string().trim().min(1)).default([]),
+  transportCost: z.coerce.number().nonnegative(),
+  freeDeliveryMinimum: optionalMoneySchema,
+  weightThresholdKg: optionalMoneySchema,
+  extraCostPerKg: z.coerce.number().nonnegative().default(0),
+  active: z.boolean().default(true),
+  sortOrder: z.coerce.number().int().default(0),
+});
+
+export const updateDeliveryZoneSchema = insertDeliveryZoneSchema.partial();
+
+export const customerGroupSchema = z.string().trim().toLowerCase().min(1).max(64).regex(/^[a-z0-9][a-z0-9_-]*$/, "Use letters, numbers, dashes or underscores");
+
+export const priceListItemSchema = z.object({
+  productId: z.string().trim().min(1),
+  price: z.coerce.number().positive().max(1_000_000_000),
+});
+
+export const insertPriceListSchema = z.object({
+  name: z.string().trim().min(1, "Price list name is required").max(120),
+  description: z.string().trim().max(500).default(""),
+  customerGroup: customerGroupSchema.nullish(),
+  active: z.boolean().default(true),
+  items: z.array(priceListItemSchema).max(10000).default([]),
+});
+
+export const updatePriceListSchema = insertPriceListSchema.partial();
+
+export const customerPricingSchema = z.object({
+  priceListId: z.string().trim().min(1).nullish(),
+  customerGroup: customerGroupSchema.nullish(),
+});
+
+export const customerEcountAccountSchema = z.object({
+  // null unlinks the customer, so their orders go back to the default online store customer
+  custCode: z.string().trim().min(1).max(30).regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, dashes or underscores").nullable(),
+});
+
+export const insertDiscountRuleSchema = z.object({
+  name: z.string().trim().min(1, "Discount name is required").max(120),
+  type: z.enum(DISCOUNT_RULE_TYPE_VALUES),
+  productId: z.string().trim().min(1).nullish(),
+  category: z.string().trim().min(1).max(120).nullish(),
+  couponCode: z.string().trim().toUpperCase().regex(/^[A-Z0-9_-]{3,32}$/, "Use 3-32 letters, numbers, dashes or underscores").nullish(),
+  minQuantity: z.coerce.number().int().positive().default(1),
+  percentOff: z.coerce.number().positive().max(100).nullish(),
+  amountOff: z.coerce.number().positive().nullish(),
+  minOrderSubtotal: optionalMoneySchema,
+  startsAt: z.coerce.date().nullish(),
+  endsAt: z.coerce.date().nullish(),
+  active: z.boolean().default(true),
+}).superRefine((rule, ctx) => {
+  if ((rule.percentOff == null) === (rule.amountOff == null)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["percentOff"], message: "Set either a percentage or an amount off" });
+  }
+  if (rule.type === "volume_break" && !rule.productId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["productId"], message: "Volume breaks need a product code" });
+  }
+  if (rule.type === "category_promotion" && !rule.category) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["category"], message: "Category promotions need a category" });
+  }
+  if (rule.type === "coupon" && !rule.couponCode) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["couponCode"], message: "Coupons need a code" });
+  }
+  if (rule.startsAt && rule.endsAt && rule.endsAt <= rule.startsAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endsAt"], message: "End date must be after the start date" });
+  }
+});
+
+export const discountQuoteRequestSchema = z.object({
+  items: z.array(z.object({
+    productId: z.string().trim().min(1),
+    name: z.string().default(""),
+    price: z.string().default("0"),
+    quantity: z.number().int().positive(),
+    referenceNumber: z.string().default(""),
+  })).max(500),
+  couponCode: z.string().trim().max(32).nullish(),
+});
+
+const reconciliationDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+// Order creation days to reconcile, inclusive; eCount is queried a few days further for late syncs.
+export const erpReconciliationRequestSchema = z.object({
+  from: reconciliationDateSchema,
+  to: reconciliationDateSchema,
+}).refine(({ from, to }) => from <= to, { message: "from must not be after to", path: ["to"] })
+  .refine(({ from, to }) => Date.parse(to) - Date.parse(from) <= ERP_RECONCILIATION_MAX_DAYS * 24 * 60 * 60 * 1000, {
+    message: `Reconcile at most ${ERP_RECONCILIATION_MAX_DAYS} days at a time`,
+    path: ["to"],
+  });
+
+// Admin reorder point for one product code or one category; saving the same scope and target again replaces it.
+export const stockThresholdSchema = z.object({
+  scope: z.enum(STOCK_THRESHOLD_SCOPE_VALUES),
+  target: z.string().trim().min(1).max(120),
+  reorderPoint: z.number().int().min(0).max(1000000),
+});
+
+// Admin backorder setting for one product; saving the same product again moves its expected arrival.
+export const backorderProductSchema = z.object({
+  productCode: z.string().trim().min(1).max(64),
+  expectedArrivalAt: reconciliationDateSchema,
+});
+
+// "Notify me when available" from the catalogue; the product name is the one the customer saw.
+export const stockSubscriptionRequestSchema = z.object({
+  productId: z.string().trim().min(1).max(64),
+  productName: z.string().trim().min(1).max(255),
+});
+
+// Quantities an inventory refresh just stored, posted by scripts/ecount-inventory-sync.mjs.
+export const backInStockRunSchema = z.object({
+  quantities: z.array(z.object({
+    productCode: z.string().trim().min(1).max(64),
+    availableQuantity: z.number().finite(),
+  })).max(50000).optional(),
+});
+
+// Mobile money details for online_now checkouts; the phone is normalized server-side.
+export const orderPaymentRequestSchema = z.object({
+  phone: z.string().trim().min(9).max(20),
+  network: z.enum(MOBILE_MONEY_NETWORK_VALUES).optional(),
+});
+
+// Customer quantity changes, keyed by order line number; quantity 0 removes the line.
+export const orderAmendmentSchema = z.object({
+  lines: z.array(z.object({
+    lineNumber: z.number().int().positive(),
+    quantity: z.number().int().min(0).max(100000),
+  })).min(1),
+});
+
+export const orderCancellationSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Saved baskets keep products and quantities only; stock and prices are re-checked on reorder.
+export const orderTemplateItemSchema = z.object({
+  productId: z.string().trim().min(1),
+  name: z.string().trim().min(1).max(200),
+  referenceNumber: z.string().default(""),
+  quantity: z.number().int().positive().max(100000),
+});
+
+export const insertOrderTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Basket name is required").max(80),
+  items: z.array(orderTemplateItemSchema).min(1, "A basket needs at least one item").max(200),
+});
+
+export const updateOrderTemplateSchema = insertOrderTemplateSchema.partial();
+
+// Schedule details a customer chooses; edits are validated merged with the current schedule.
+export const insertStandingOrderSchema = z
+  .object({
+    name: z.string().trim().min(1, "Schedule name is required").max(80),
+    cadence: z.enum(STANDING_ORDER_CADENCE_VALUES),
+    nextRunAt: z.coerce.date(),
+    items: z.array(orderTemplateItemSchema).min(1, "A standing order needs at least one item").max(200),
+    paymentMethod: paymentMethodSchema.default("cash"),
+    paymentPhone: z.string().trim().max(20).nullish(),
+    paymentNetwork: z.enum(MOBILE_MONEY_NETWORK_VALUES).nullish(),
+    deliveryOption: deliveryOptionSchema.default("pickup"),
+    deliveryArea: deliveryAreaSchema.nullish(),
+    customerAddress: z.string().trim().max(500).nullish(),
+  })
+  .superRefine((schedule, ctx) => {
+    if (schedule.deliveryOption === "delivery" && schedule.paymentMethod === "cash") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["paymentMethod"],
+        message: "Cash payment is only available for pickup orders",
+      });
+    }
+    if (schedule.deliveryOption === "delivery" && !schedule.customerAddress) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["customerAddress"], message: "Delivery address is required" });
+    }
+    if (schedule.paymentMethod === "online_now" && !schedule.paymentPhone) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["paymentPhone"],
+        message: "A mobile money number is required to pay online",
+      });
+    }
+  });
+
 export const insertProductImageSchema = createInsertSchema(productImages).omit({
   id: true,
   createdAt: true,
@@ -205,6 +740,57 @@ export type User = typeof users.$inferSelect;
 export type Product = typeof products.$inferSelect;
 export type Inventory = typeof inventory.$inferSelect;
 export type Order = typeof orders.$inferSelect;
+export type OrderLine = typeof orderItems.$inferSelect;
+export type InsertOrderLine = typeof orderItems.$inferInsert;
+export type StockReservation = typeof stockReservations.$inferSelect;
+export type StockLot = typeof stockLots.$inferSelect;
+export type OrderLotAllocation = typeof orderLotAllocations.$inferSelect;
+// Admin listing: a lot with what open orders have taken from it
+export type StockLotWithAvailability = StockLot & { allocatedQuantity: number; availableQuantity: number };
+export type StockThreshold = typeof stockThresholds.$inferSelect;
+export type UpsertStockThreshold = z.infer<typeof stockThresholdSchema>;
+export type StockAlertState = typeof stockAlertStates.$inferSelect;
+export type BackorderProduct = typeof backorderProducts.$inferSelect;
+export type UpsertBackorderProduct = z.infer<typeof backorderProductSchema>;
+export type InventorySnapshot = typeof inventorySnapshots.$inferSelect;
+export type InventorySnapshotItem = typeof inventorySnapshotItems.$inferSelect;
+export type StockSubscription = typeof stockSubscriptions.$inferSelect;
+export type StockSubscriptionRequest = z.infer<typeof stockSubscriptionRequestSchema>;
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = typeof payments.$inferInsert;
+export type OrderPaymentRequest = z.infer<typeof orderPaymentRequestSchema>;
+export type OrderAmendment = z.infer<typeof orderAmendmentSchema>;
+export type OrderCancellation = z.infer<typeof orderCancellationSchema>;
+export type OrderEvent = typeof orderEvents.$inferSelect;
+export type InsertOrderEvent = typeof orderEvents.$inferInsert;
+export type OrderTemplateItem = z.infer<typeof orderTemplateItemSchema>;
+export type OrderTemplate = Omit<typeof orderTemplates.$inferSelect, "items"> & { items: OrderTemplateItem[] };
+export type InsertOrderTemplate = z.infer<typeof insertOrderTemplateSchema>;
+export type UpdateOrderTemplate = z.infer<typeof updateOrderTemplateSchema>;
+export type StandingOrder = Omit<typeof standingOrders.$inferSelect, "items"> & { items: OrderTemplateItem[] };
+export type InsertStandingOrder = z.infer<typeof insertStandingOrderSchema>;
+export type UpdateStandingOrder = Partial<z.input<typeof insertStandingOrderSchema>>;
+export type PriceListItem = z.infer<typeof priceListItemSchema>;
+export type PriceList = typeof priceLists.$inferSelect & { items: PriceListItem[] };
+export type InsertPriceList = z.infer<typeof insertPriceListSchema>;
+export type UpdatePriceList = z.infer<typeof updatePriceListSchema>;
+export type CustomerPricing = typeof customerPricing.$inferSelect;
+export type UpdateCustomerPricing = z.infer<typeof customerPricingSchema>;
+export type CustomerEcountAccount = typeof customerEcountAccounts.$inferSelect;
+export type UpdateCustomerEcountAccount = z.infer<typeof customerEcountAccountSchema>;
+export type DiscountRule = typeof discountRules.$inferSelect;
+export type InsertDiscountRule = z.infer<typeof insertDiscountRuleSchema>;
+export type DiscountQuoteRequest = z.input<typeof discountQuoteRequestSchema>;
+export type ErpReconciliationRequest = z.infer<typeof erpReconciliationRequestSchema>;
+export type SyncJob = typeof syncJobs.$inferSelect;
+// Admin listing: the job plus the order it syncs, when it is an order job
+export type SyncJobWithOrder = SyncJob & { orderNumber: string | null; customerName: string | null; erpSyncStatus: string | null };
+export type ErpReconciliationRun = Omit<typeof erpReconciliationRuns.$inferSelect, "issues"> & { issues: ErpReconciliationIssue[] };
+// Admin listing: a run without its issues
+export type ErpReconciliationRunSummary = Omit<ErpReconciliationRun, "issues">;
+export type DeliveryZone = typeof deliveryZones.$inferSelect;
+export type InsertDeliveryZone = z.infer<typeof insertDeliveryZoneSchema>;
+export type UpdateDeliveryZone = z.infer<typeof updateDeliveryZoneSchema>;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 
 // New Supabase types
@@ -240,17 +826,34 @@ export type ProductWithInventory = Product & {
   availableQuantity: number;
   expirationDate?: string;
   isLowStock?: boolean;
+  // From the product's reorder point; see shared/stockStatus.ts
+  stockStatus?: StockStatus;
+  reorderPoint?: number;
+  // May be ordered beyond stock; see shared/backorders.ts
+  backorderable?: boolean;
+  expectedArrivalAt?: string;
   isExpiringSoon?: boolean;
+  weightKg?: number | null;
+  vatClass?: VatClass;
+  // Set when the customer's price list overrides the catalogue price
+  listPrice?: string;
+  priceListName?: string;
 };
 
-export type CartItem = {
-  productId: string;
-  name: string;
-  price: string;
-  quantity: number;
-  referenceNumber: string;
-  imageUrl?: string;
-};
+export const cartItemSchema = z.object({
+  productId: z.string().trim().min(1),
+  name: z.string().trim().min(1).max(200),
+  price: z.string().regex(/^\d+(\.\d+)?$/), // Catalogue price shown when the line was added
+  quantity: z.number().int().positive().max(100000),
+  referenceNumber: z.string().default(""),
+  imageUrl: z.string().max(2000).optional(),
+  vatClass: z.enum(VAT_CLASS_VALUES).optional(),
+});
+
+export const cartItemsSchema = z.array(cartItemSchema).max(200);
+
+export type CartItem = z.infer<typeof cartItemSchema>;
+export type Cart = typeof carts.$inferSelect;
 
 export const orderItemSchema = z.object({
   productId: z.string(),
@@ -258,8 +861,29 @@ export const orderItemSchema = z.object({
   price: z.string(),
   quantity: z.number().int().positive(),
   referenceNumber: z.string(),
+  quotedPrice: z.string().optional(), // Set server-side when the line is re-priced
+  vatClass: z.enum(VAT_CLASS_VALUES).optional(),
+  vatAmount: z.string().optional(), // Set server-side from the product's VAT class
+  discountAmount: z.string().optional(), // Set server-side from the discount rules, whole line before VAT
+  discountLabel: z.string().optional(),
 });
 
 export const orderItemsSchema = z.array(orderItemSchema);
 
 export type OrderItem = z.infer<typeof orderItemSchema>;
+
+export const ORDER_LINE_ERP_STATUS_VALUES = ["pending", "synced", "failed"] as const;
+export type OrderLineErpStatus = typeof ORDER_LINE_ERP_STATUS_VALUES[number];
+
+export type OrderWithLines = Order & {
+  lines: OrderLine[];
+};
+
+export const STOCK_RESERVATION_RELEASE_REASONS = ["synced", "cancelled", "expired", "amended"] as const;
+export type StockReservationReleaseReason = typeof STOCK_RESERVATION_RELEASE_REASONS[number];
+
+export type StockShortage = {
+  productCode: string;
+  requested: number;
+  available: number;
+};
@@ -0,0 +1,30 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { getNextStandingOrderRun } from "./standingOrders.js";
+
+const runsAfter = (first: Date, count: number, runDayOfMonth?: number) => {
+  const runs: string[] = [];
+  let run = first;
+  for (let index = 0; index < count; index++) {
+    run = getNextStandingOrderRun(run, "monthly", runDayOfMonth);
+    runs.push(`${run.getMonth() + 1}/${run.getDate()}`);
+  }
+  return runs;
+};
+
+describe("getNextStandingOrderRun", () => {
+  test("monthly runs return to the chosen day after a short month", () => {
+    assert.deepEqual(runsAfter(new Date(2027, 0, 31, 9), 5, 31), ["2/28", "3/31", "4/30", "5/31", "6/30"]);
+    assert.deepEqual(runsAfter(new Date(2028, 0, 30, 9), 2, 30), ["2/29", "3/30"]);
+  });
+
+  test("monthly runs without a stored day keep the day of the previous run", () => {
+    assert.deepEqual(runsAfter(new Date(2027, 0, 15, 9), 2), ["2/15", "3/15"]);
+  });
+
+  test("weekly and fortnightly runs add whole weeks and keep the time of day", () => {
+    const from = new Date(2027, 0, 29, 9, 30);
+    assert.equal(getNextStandingOrderRun(from, "weekly").getTime(), new Date(2027, 1, 5, 9, 30).getTime());
+    assert.equal(getNextStandingOrderRun(from, "fortnightly", 29).getTime(), new Date(2027, 1, 12, 9, 30).getTime());
+  });
+});
@@ -0,0 +1,52 @@
+export const STANDING_ORDER_CADENCE_VALUES = ["weekly", "fortnightly", "monthly"] as const;
+
+export type StandingOrderCadence = (typeof STANDING_ORDER_CADENCE_VALUES)[number];
+
+export const STANDING_ORDER_STATUS_VALUES = ["active", "paused"] as const;
+
+export type StandingOrderStatus = (typeof STANDING_ORDER_STATUS_VALUES)[number];
+
+// Outcome of the most recent scheduled run, shown to the customer and admins.
+export const STANDING_ORDER_RUN_STATUS_VALUES = ["placed", "skipped", "failed"] as const;
+
+export type StandingOrderRunStatus = (typeof STANDING_ORDER_RUN_STATUS_VALUES)[number];
+
+export const STANDING_ORDER_ACTION_VALUES = ["pause", "resume", "skip"] as const;
+
+export type StandingOrderAction = (typeof STANDING_ORDER_ACTION_VALUES)[number];
+
+/**
+ * The run after `from` for a cadence. Monthly runs fall on `runDayOfMonth` (default: the day of
+ * `from`), or the month's last day when it is shorter: 31 January -> 28/29 February -> 31 March.
+ */
+export function getNextStandingOrderRun(
+  from: Date | string,
+  cadence: StandingOrderCadence,
+  runDayOfMonth?: number | null,
+): Date {
+  const next = new Date(from);
+  if (cadence === "weekly" || cadence === "fortnightly") {
+    next.setDate(next.getDate() + (cadence === "weekly" ? 7 : 14));
+    return next;
+  }
+
+  const dayOfMonth = runDayOfMonth || next.getDate();
+  next.setDate(1);
+  next.setMonth(next.getMonth() + 1);
+  const daysInMonth = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+  next.setDate(Math.min(dayOfMonth, daysInMonth));
+  return next;
+}
+
+export function getStandingOrderCadenceLabel(cadence?: string | null): string {
+  switch (cadence) {
+    case "weekly":
+      return "Every week";
+    case "fortnightly":
+      return "Every 2 weeks";
+    case "monthly":
+      return "Every month";
+    default:
+      return cadence || "Unknown";
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  allocateLotsFefo,
+  getEarliestSaleableExpiry,
+  getLotAvailableQuantity,
+  isLotExpiringSoon,
+  parseLotExpiry,
+} from "./stockLots.js";
+
+const now = new Date("2026-06-01T00:00:00.000Z");
+const day = (isoDay: string) => new Date(`${isoDay}T00:00:00.000Z`);
+
+describe("allocateLotsFefo", () => {
+  test("takes the lot expiring first and spills into the next", () => {
+    const result = allocateLotsFefo(
+      [
+        { lotNumber: "L-LATE", expiresAt: day("2027-03-31"), available: 50 },
+        { lotNumber: "L-NONE", expiresAt: null, available: 50 },
+        { lotNumber: "L-SOON", expiresAt: day("2026-08-31"), available: 4 },
+      ],
+      10,
+      now,
+    );
+
+    assert.deepEqual(
+      result.allocations.map((allocation) => [allocation.lotNumber, allocation.quantity]),
+      [["L-SOON", 4], ["L-LATE", 6]],
+    );
+    assert.equal(result.unallocated, 0);
+  });
+
+  test("skips expired and empty lots and reports what it could not cover", () => {
+    const result = allocateLotsFefo(
+      [
+        { lotNumber: "L-OLD", expiresAt: day("2026-05-31"), available: 100 },
+        { lotNumber: "L-EMPTY", expiresAt: day("2026-07-01"), available: 0 },
+        { lotNumber: "L-OK", expiresAt: day("2026-12-31"), available: 3 },
+      ],
+      5,
+      now,
+    );
+
+    assert.deepEqual(result.allocations.map((allocation) => allocation.lotNumber), ["L-OK"]);
+    assert.equal(result.unallocated, 2);
+  });
+});
+
+describe("getLotAvailableQuantity", () => {
+  test("subtracts open allocations and shipments made since the lot was imported", () => {
+    const lot = { quantity: 20, updatedAt: day("2026-05-10") };
+
+    assert.equal(
+      getLotAvailableQuantity(lot, [
+        { status: "allocated", quantity: 5, updatedAt: day("2026-05-01") },
+        { status: "shipped", quantity: 3, updatedAt: day("2026-05-12") },
+        { status: "shipped", quantity: 7, updatedAt: day("2026-05-08") },
+        { status: "released", quantity: 9, updatedAt: day("2026-05-12") },
+      ]),
+      12,
+    );
+  });
+});
+
+describe("expiry helpers", () => {
+  test("flags lots expiring within 90 days but not expired ones", () => {
+    assert.equal(isLotExpiringSoon(day("2026-08-15"), now), true);
+    assert.equal(isLotExpiringSoon(day("2026-12-31"), now), false);
+    assert.equal(isLotExpiringSoon(day("2026-05-01"), now), false);
+    assert.equal(isLotExpiringSoon(null, now), false);
+  });
+
+  test("the earliest saleable expiry ignores expired and empty lots", () => {
+    assert.deepEqual(
+      getEarliestSaleableExpiry(
+        [
+          { expiresAt: day("2026-05-01"), quantity: 10 },
+          { expiresAt: day("2026-07-01"), quantity: 0 },
+          { expiresAt: day("2026-09-30"), quantity: 2 },
+          { expiresAt: null, quantity: 5 },
+        ],
+        now,
+      ),
+      day("2026-09-30"),
+    );
+  });
+
+  test("reads the expiry formats found in lot files", () => {
+    assert.deepEqual(parseLotExpiry("2027-03-31"), day("2027-03-31"));
+    assert.deepEqual(parseLotExpiry("31/03/2027"), day("2027-03-31"));
+    assert.deepEqual(parseLotExpiry("03/2027"), day("2027-03-31"));
+    assert.deepEqual(parseLotExpiry(46477), day("2027-03-31"));
+    assert.equal(parseLotExpiry(""), null);
+    assert.equal(parseLotExpiry("31/02/2027"), undefined);
+    assert.equal(parseLotExpiry("soon"), undefined);
+  });
+});
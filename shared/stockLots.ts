@@ -0,0 +1,158 @@
+// Lots (batches) of a product with their expiry, and the lots each order line is picked from.
+// Reagents and test kits are expiry-critical, so orders take the lot that expires first (FEFO).
+
+// Matches the storefront's "expiring soon" badge: within three months.
+export const EXPIRING_SOON_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// allocated lots are set aside for an open order; shipped lots left the warehouse with it;
+// released lots went back to stock when the order was cancelled or amended.
+export const ORDER_LOT_ALLOCATION_STATUS_VALUES = ["allocated", "shipped", "released"] as const;
+
+export type OrderLotAllocationStatus = (typeof ORDER_LOT_ALLOCATION_STATUS_VALUES)[number];
+
+// Once an order reaches one of these, its lots have been picked.
+export const LOT_SHIPPED_ORDER_STATUSES = ["shipped", "delivered", "completed"] as const;
+
+export type StockLotSkippedRow = {
+  row: number;
+  reason: string;
+};
+
+export type StockLotImportResult = {
+  lots: number;
+  products: number;
+  skippedRows: StockLotSkippedRow[];
+};
+
+export type LotStock = {
+  lotNumber: string;
+  expiresAt: Date | null;
+  available: number;
+};
+
+export type LotAllocation = {
+  lotNumber: string;
+  expiresAt: Date | null;
+  quantity: number;
+};
+
+export function isLotExpired(expiresAt: Date | null | undefined, now = new Date()): boolean {
+  return Boolean(expiresAt && expiresAt.getTime() < now.getTime());
+}
+
+export function isLotExpiringSoon(expiresAt: Date | null | undefined, now = new Date()): boolean {
+  return Boolean(expiresAt && !isLotExpired(expiresAt, now) && expiresAt.getTime() <= now.getTime() + EXPIRING_SOON_DAYS * DAY_MS);
+}
+
+// Lots without an expiry date go last; ties keep the lot number order so picks are repeatable.
+const byExpiry = (a: Pick<LotStock, "lotNumber" | "expiresAt">, b: Pick<LotStock, "lotNumber" | "expiresAt">) =>
+  (a.expiresAt?.getTime() ?? Number.POSITIVE_INFINITY) - (b.expiresAt?.getTime() ?? Number.POSITIVE_INFINITY) ||
+  a.lotNumber.localeCompare(b.lotNumber);
+
+/**
+ * Take quantity from the lots that expire first, skipping expired and empty lots. Whatever the
+ * lots cannot cover is returned as unallocated; the lot file may lag eCount, so that is not an error.
+ */
+export function allocateLotsFefo(
+  lots: LotStock[],
+  quantity: number,
+  now = new Date(),
+): { allocations: LotAllocation[]; unallocated: number } {
+  const allocations: LotAllocation[] = [];
+  let remaining = quantity;
+
+  for (const lot of lots.filter((candidate) => candidate.available > 0 && !isLotExpired(candidate.expiresAt, now)).sort(byExpiry)) {
+    if (remaining <= 0) {
+      break;
+    }
+    const taken = Math.min(lot.available, remaining);
+    allocations.push({ lotNumber: lot.lotNumber, expiresAt: lot.expiresAt, quantity: taken });
+    remaining -= taken;
+  }
+
+  return { allocations, unallocated: Math.max(0, remaining) };
+}
+
+/**
+ * Quantity of a lot still free to allocate. The lot quantity is the on-hand count from the last
+ * import, so goods shipped before that import are already gone from it; only open allocations and
+ * shipments since the import still count against it.
+ */
+export function getLotAvailableQuantity(
+  lot: { quantity: number; updatedAt: Date | null },
+  allocations: Array<{ status: string; quantity: number; updatedAt: Date | null }>,
+): number {
+  const importedAt = lot.updatedAt?.getTime() ?? 0;
+  const committed = allocations
+    .filter((allocation) =>
+      allocation.status === "allocated" ||
+      (allocation.status === "shipped" && (allocation.updatedAt?.getTime() ?? 0) > importedAt))
+    .reduce((sum, allocation) => sum + allocation.quantity, 0);
+  return Math.max(0, lot.quantity - committed);
+}
+
+/** The first expiry among lots that can still be sold, for the product's expiry badge. */
+export function getEarliestSaleableExpiry(
+  lots: Array<{ expiresAt: Date | null; quantity: number }>,
+  now = new Date(),
+): Date | null {
+  return lots
+    .filter((lot) => lot.quantity > 0 && lot.expiresAt && !isLotExpired(lot.expiresAt, now))
+    .map((lot) => lot.expiresAt!)
+    .sort((a, b) => a.getTime() - b.getTime())[0] ?? null;
+}
+
+// Excel stores dates as serial days since 1899-12-30.
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+
+/**
+ * Read an expiry cell from the lot file: a date, an Excel serial number, YYYY-MM-DD, DD/MM/YYYY or
+ * MM/YYYY (end of that month, as printed on kit boxes). Returns null for blank cells and undefined
+ * when the value cannot be read.
+ */
+export function parseLotExpiry(value: unknown): Date | null | undefined {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime())
+      ? undefined
+      : new Date(Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()));
+  }
+  if (typeof value === "number") {
+    return value > 0 ? new Date(EXCEL_EPOCH_MS + Math.floor(value) * DAY_MS) : undefined;
+  }
+
+  const text = String(value).trim();
+  if (!text) {
+    return null;
+  }
+
+  const toDate = (year: number, month: number, day: number) => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : undefined;
+  };
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) {
+    return toDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) {
+    return toDate(Number(match[3]), Number(match[2]), Number(match[1]));
+  }
+  match = text.match(/^(\d{1,2})[/.-](\d{4})$/);
+  if (match) {
+    const month = Number(match[1]);
+    return month >= 1 && month <= 12 ? new Date(Date.UTC(Number(match[2]), month, 0)) : undefined;
+  }
+  return undefined;
+}
+
+export function formatLotExpiry(expiresAt?: Date | string | null): string {
+  return expiresAt
+    ? new Date(expiresAt).toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric", timeZone: "UTC" })
+    : "No expiry";
+}
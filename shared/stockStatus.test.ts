@@ -0,0 +1,44 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { getStockLevel, getStockStatus, isStockAlertCrossing, resolveReorderPoint } from "./stockStatus.js";
+
+describe("getStockStatus", () => {
+  test("is low below the reorder point and out at zero", () => {
+    assert.equal(getStockStatus(0, 20), "out_of_stock");
+    assert.equal(getStockStatus(-3, 20), "out_of_stock");
+    assert.equal(getStockStatus(19, 20), "low_stock");
+    assert.equal(getStockStatus(20, 20), "in_stock");
+    assert.equal(getStockStatus(9), "low_stock");
+    assert.equal(getStockStatus(10), "in_stock");
+  });
+
+  test("a zero reorder point only flags products that ran out", () => {
+    assert.deepEqual(getStockLevel(1, 0), { stockStatus: "in_stock", isLowStock: false, reorderPoint: 0 });
+    assert.deepEqual(getStockLevel(0, 0), { stockStatus: "out_of_stock", isLowStock: true, reorderPoint: 0 });
+  });
+});
+
+describe("resolveReorderPoint", () => {
+  const lookup = {
+    byProduct: new Map([["91100", 50]]),
+    byCategory: new Map([["test kits", 25]]),
+  };
+
+  test("prefers the product threshold, then the category, then the default", () => {
+    assert.equal(resolveReorderPoint("91100", "Test Kits", lookup), 50);
+    assert.equal(resolveReorderPoint("GL3310", " TEST KITS ", lookup), 25);
+    assert.equal(resolveReorderPoint("GL3310", "Gloves", lookup), 10);
+    assert.equal(resolveReorderPoint("GL3310", null, lookup), 10);
+  });
+});
+
+describe("isStockAlertCrossing", () => {
+  test("alerts on dropping a status, not on recovering or staying put", () => {
+    assert.equal(isStockAlertCrossing("in_stock", "low_stock"), true);
+    assert.equal(isStockAlertCrossing("in_stock", "out_of_stock"), true);
+    assert.equal(isStockAlertCrossing("low_stock", "out_of_stock"), true);
+    assert.equal(isStockAlertCrossing("low_stock", "low_stock"), false);
+    assert.equal(isStockAlertCrossing("out_of_stock", "low_stock"), false);
+    assert.equal(isStockAlertCrossing("low_stock", "in_stock"), false);
+  });
+});
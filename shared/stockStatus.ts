@@ -0,0 +1,92 @@
+// Stock status against a reorder point. Reorder points are set per product or per category in
+// stock_thresholds; products without one use DEFAULT_REORDER_POINT.
+export const DEFAULT_REORDER_POINT = 10;
+
+export const STOCK_STATUS_VALUES = ["in_stock", "low_stock", "out_of_stock"] as const;
+
+export type StockStatus = (typeof STOCK_STATUS_VALUES)[number];
+
+// A product threshold wins over its category's.
+export const STOCK_THRESHOLD_SCOPE_VALUES = ["product", "category"] as const;
+
+export type StockThresholdScope = (typeof STOCK_THRESHOLD_SCOPE_VALUES)[number];
+
+export type StockLevel = {
+  stockStatus: StockStatus;
+  isLowStock: boolean;
+  reorderPoint: number;
+};
+
+export type ReorderPointLookup = {
+  byProduct: Map<string, number>;
+  byCategory: Map<string, number>;
+};
+
+export function getStockStatus(quantity: number, reorderPoint = DEFAULT_REORDER_POINT): StockStatus {
+  if (quantity <= 0) {
+    return "out_of_stock";
+  }
+  return quantity < reorderPoint ? "low_stock" : "in_stock";
+}
+
+/** The stock fields served with a catalogue product. Out of stock counts as low stock. */
+export function getStockLevel(quantity: number, reorderPoint = DEFAULT_REORDER_POINT): StockLevel {
+  const stockStatus = getStockStatus(quantity, reorderPoint);
+  return { stockStatus, isLowStock: stockStatus !== "in_stock", reorderPoint };
+}
+
+// Categories come from product names and the mapping file, so they are matched case-insensitively.
+export function normalizeThresholdCategory(category?: string | null): string {
+  return (category || "").trim().toLowerCase();
+}
+
+/** Reorder point for a product: its own threshold, else its category's, else the default. */
+export function resolveReorderPoint(
+  productCode: string,
+  category: string | null | undefined,
+  lookup: ReorderPointLookup,
+): number {
+  return lookup.byProduct.get(productCode)
+    ?? lookup.byCategory.get(normalizeThresholdCategory(category))
+    ?? DEFAULT_REORDER_POINT;
+}
+
+/**
+ * Whether moving from one status to another should alert purchasing: dropping below the reorder
+ * point, or running out after already being low. Recovering and staying put do not alert.
+ */
+export function isStockAlertCrossing(previous: StockStatus, current: StockStatus): boolean {
+  return STOCK_STATUS_VALUES.indexOf(current) > STOCK_STATUS_VALUES.indexOf(previous);
+}
+
+export function getStockStatusLabel(status?: string | null): string {
+  switch (status) {
+    case "in_stock":
+      return "In Stock";
+    case "low_stock":
+      return "Low Stock";
+    case "out_of_stock":
+      return "Out of Stock";
+    default:
+      return "Unknown";
+  }
+}
+
+// A product that dropped a status since the last alert check.
+export type StockAlertItem = {
+  productCode: string;
+  name: string;
+  category: string | null;
+  availableQuantity: number;
+  reorderPoint: number;
+  previousStatus: StockStatus;
+  stockStatus: StockStatus;
+};
+
+export type StockAlertRunResult = {
+  checked: number;
+  alerts: StockAlertItem[];
+  // False when there was nothing to send or email is not configured
+  emailed: boolean;
+  error: string | null;
+};
@@ -0,0 +1,39 @@
+// Background work handed between the web app and the static-IP VPS worker.
+export const SYNC_JOB_TYPE_VALUES = ["ecount_order_sync"] as const;
+
+export type SyncJobType = (typeof SYNC_JOB_TYPE_VALUES)[number];
+
+export const ECOUNT_ORDER_SYNC_JOB: SyncJobType = "ecount_order_sync";
+
+// pending and running jobs are live: at most one per subject. dead jobs ran out of attempts and
+// wait for an admin to requeue or discard them.
+export const SYNC_JOB_STATUS_VALUES = ["pending", "running", "succeeded", "dead", "discarded"] as const;
+
+export type SyncJobStatus = (typeof SYNC_JOB_STATUS_VALUES)[number];
+
+export const LIVE_SYNC_JOB_STATUSES: SyncJobStatus[] = ["pending", "running"];
+
+export function isSyncJobStatus(value: unknown): value is SyncJobStatus {
+  return SYNC_JOB_STATUS_VALUES.includes(value as SyncJobStatus);
+}
+
+export function getSyncJobStatusLabel(status?: string | null): string {
+  switch (status) {
+    case "pending":
+      return "Queued";
+    case "running":
+      return "Running";
+    case "succeeded":
+      return "Succeeded";
+    case "dead":
+      return "Dead letter";
+    case "discarded":
+      return "Discarded";
+    default:
+      return "Unknown";
+  }
+}
+
+export function getSyncJobTypeLabel(jobType?: string | null): string {
+  return jobType === ECOUNT_ORDER_SYNC_JOB ? "eCount order sync" : jobType || "Unknown";
+}